@@ -1,5 +1,12 @@
 // Mock do VS Code API para testes
 const mockOutputChannel = {
+  logLevel: 3,
+  onDidChangeLogLevel: jest.fn(() => ({ dispose: jest.fn() })),
+  trace: jest.fn(),
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
   appendLine: jest.fn(),
   append: jest.fn(),
   clear: jest.fn(),
@@ -14,6 +21,34 @@ const window = {
   showInformationMessage: jest.fn(() => Promise.resolve(undefined)),
   showWarningMessage: jest.fn(() => Promise.resolve(undefined)),
   showErrorMessage: jest.fn(() => Promise.resolve(undefined)),
+  showQuickPick: jest.fn(() => Promise.resolve(undefined)),
+  showInputBox: jest.fn(() => Promise.resolve(undefined)),
+  showSaveDialog: jest.fn(() => Promise.resolve(undefined)),
+  showTextDocument: jest.fn(() => Promise.resolve(undefined)),
+  createQuickPick: jest.fn(),
+  createWebviewPanel: jest.fn(),
+  registerWebviewPanelSerializer: jest.fn(() => ({ dispose: jest.fn() })),
+  activeTextEditor: undefined,
+  setStatusBarMessage: jest.fn(() => ({ dispose: jest.fn() })),
+  createStatusBarItem: jest.fn(() => ({
+    text: '',
+    tooltip: undefined,
+    command: undefined,
+    name: undefined,
+    show: jest.fn(),
+    hide: jest.fn(),
+    dispose: jest.fn(),
+  })),
+  createTreeView: jest.fn(() => ({
+    message: undefined,
+    description: undefined,
+    onDidChangeVisibility: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidChangeCheckboxState: jest.fn(() => ({ dispose: jest.fn() })),
+    dispose: jest.fn(),
+  })),
+  withProgress: jest.fn((_options, task) =>
+    task({ report: jest.fn() }, { isCancellationRequested: false })
+  ),
 };
 
 const workspace = {
@@ -23,6 +58,14 @@ const workspace = {
   isTrusted: true,
   workspaceFolders: [{ uri: { fsPath: '/mock/workspace' }, name: 'mock-workspace', index: 0 }],
   onDidGrantWorkspaceTrust: jest.fn(() => ({ dispose: jest.fn() })),
+  onDidChangeWorkspaceFolders: jest.fn(() => ({ dispose: jest.fn() })),
+  onDidChangeConfiguration: jest.fn(() => ({ dispose: jest.fn() })),
+  findFiles: jest.fn(() => Promise.resolve([])),
+  openTextDocument: jest.fn(() => Promise.resolve(undefined)),
+  applyEdit: jest.fn(() => Promise.resolve(true)),
+  fs: {
+    writeFile: jest.fn(() => Promise.resolve()),
+  },
 };
 
 const commands = {
@@ -33,6 +76,7 @@ const commands = {
 const Uri = {
   file: jest.fn(path => ({ fsPath: path })),
   parse: jest.fn(path => ({ fsPath: path })),
+  joinPath: jest.fn((base, ...segments) => ({ fsPath: [base.fsPath, ...segments].join('/') })),
 };
 
 const StatusBarAlignment = {
@@ -46,22 +90,181 @@ const ProgressLocation = {
   SourceControl: 1,
 };
 
+const LogLevel = {
+  Off: 0,
+  Trace: 1,
+  Debug: 2,
+  Info: 3,
+  Warning: 4,
+  Error: 5,
+};
+
+const ViewColumn = {
+  Active: -1,
+  Beside: -2,
+  One: 1,
+  Two: 2,
+};
+
+const QuickPickItemKind = {
+  Separator: -1,
+  Default: 0,
+};
+
+const ConfigurationTarget = {
+  Global: 1,
+  Workspace: 2,
+  WorkspaceFolder: 3,
+};
+
 const env = {
+  appName: 'Visual Studio Code',
+  appHost: 'desktop',
+  language: 'en',
   openExternal: jest.fn(() => Promise.resolve(true)),
+  clipboard: {
+    writeText: jest.fn(() => Promise.resolve()),
+  },
+};
+
+const extensions = {
+  getExtension: jest.fn(() => undefined),
+};
+
+// Defined as jest.fn so the implementation survives jest.mock('vscode') automocking
+const EventEmitter = jest.fn(function () {
+  let listeners = [];
+  this.event = listener => {
+    listeners.push(listener);
+    return {
+      dispose: () => {
+        listeners = listeners.filter(l => l !== listener);
+      },
+    };
+  };
+  this.fire = data => {
+    listeners.forEach(listener => listener(data));
+  };
+  this.dispose = () => {
+    listeners = [];
+  };
+});
+
+const TreeItemCollapsibleState = {
+  None: 0,
+  Collapsed: 1,
+  Expanded: 2,
+};
+
+const TreeItem = jest.fn(function (label, collapsibleState) {
+  this.label = label;
+  this.collapsibleState = collapsibleState;
+});
+
+const ThemeIcon = jest.fn(function (id, color) {
+  this.id = id;
+  this.color = color;
+});
+
+ThemeIcon.File = { id: 'file' };
+
+const ThemeColor = jest.fn(function (id) {
+  this.id = id;
+});
+
+const TreeItemCheckboxState = {
+  Unchecked: 0,
+  Checked: 1,
+};
+
+const Position = jest.fn(function (line, character) {
+  this.line = line;
+  this.character = character;
+});
+
+const Range = jest.fn(function (...args) {
+  const [start, end] =
+    args.length === 4 ? [new Position(args[0], args[1]), new Position(args[2], args[3])] : args;
+  this.start = start;
+  this.end = end;
+});
+
+const RelativePattern = jest.fn(function (base, pattern) {
+  this.base = base;
+  this.pattern = pattern;
+});
+
+const WorkspaceEdit = jest.fn(function () {
+  this.edits = [];
+  this.replace = (uri, range, newText) => this.edits.push({ uri, range, newText });
+});
+
+const MarkdownString = jest.fn(function (value = '', supportThemeIcons = false) {
+  this.value = value;
+  this.supportThemeIcons = supportThemeIcons;
+  this.appendMarkdown = text => {
+    this.value += text;
+    return this;
+  };
+  this.appendText = text => {
+    this.value += text.replace(/[\\`*_{}[\]()#+\-.!]/g, '\\$&');
+    return this;
+  };
+});
+
+const chat = {
+  createChatParticipant: jest.fn((id, handler) => ({
+    id,
+    requestHandler: handler,
+    dispose: jest.fn(),
+  })),
+};
+
+const LanguageModelChatMessage = {
+  User: jest.fn(content => ({ role: 1, content })),
+  Assistant: jest.fn(content => ({ role: 2, content })),
 };
 
+class CancellationError extends Error {
+  constructor() {
+    super('Canceled');
+    this.name = 'Canceled';
+  }
+}
+
 const authentication = {
   getSession: jest.fn(() => Promise.resolve(undefined)),
+  getAccounts: jest.fn(() => Promise.resolve([])),
   onDidChangeSessions: jest.fn(() => ({ dispose: jest.fn() })),
 };
 
 module.exports = {
+  version: '1.107.0',
+  CancellationError,
   window,
   workspace,
   commands,
   Uri,
   StatusBarAlignment,
   ProgressLocation,
+  ConfigurationTarget,
+  LogLevel,
+  QuickPickItemKind,
+  ViewColumn,
   env,
+  extensions,
+  EventEmitter,
+  TreeItemCollapsibleState,
+  TreeItem,
+  TreeItemCheckboxState,
+  ThemeIcon,
+  ThemeColor,
+  MarkdownString,
+  Position,
+  Range,
+  RelativePattern,
+  WorkspaceEdit,
   authentication,
+  chat,
+  LanguageModelChatMessage,
 };
@@ -0,0 +1,72 @@
+// Script of the issue detail panel: posts user actions back to the extension
+(function () {
+  const vscode = acquireVsCodeApi();
+
+  // Remember the issue so the panel can be restored after a reload
+  vscode.setState(JSON.parse(document.body.dataset.state || '{}'));
+
+  // Inline styles are blocked by the Content Security Policy, so color labels here
+  document.querySelectorAll('.label[data-color]').forEach(label => {
+    if (label instanceof HTMLElement && /^[0-9a-f]{6}$/i.test(label.dataset.color || '')) {
+      label.style.setProperty('--label-color', `#${label.dataset.color}`);
+    }
+  });
+
+  // GitHub renders task list checkboxes disabled; they map to the body's task items in order
+  document.querySelectorAll('#issue-body input.task-list-item-checkbox').forEach((box, index) => {
+    if (!(box instanceof HTMLInputElement)) {
+      return;
+    }
+    box.disabled = false;
+    box.addEventListener('change', () => {
+      box.disabled = true;
+      vscode.postMessage({ type: 'toggleTask', index, checked: box.checked });
+    });
+  });
+
+  const editBody = document.getElementById('edit-body');
+  const issueBody = document.getElementById('issue-body');
+
+  function toggleBodyEditor(editing) {
+    if (editBody && issueBody) {
+      editBody.hidden = !editing;
+      issueBody.hidden = editing;
+    }
+  }
+
+  document.addEventListener('click', event => {
+    const target = event.target instanceof Element ? event.target.closest('[data-action]') : null;
+    if (!(target instanceof HTMLElement)) {
+      return;
+    }
+
+    const action = target.dataset.action;
+    switch (action) {
+      case 'showEditBody':
+        toggleBodyEditor(true);
+        break;
+      case 'cancelEditBody':
+        toggleBodyEditor(false);
+        break;
+      case 'close':
+        vscode.postMessage({ type: 'close', reason: target.dataset.reason });
+        break;
+      default:
+        vscode.postMessage({ type: action });
+    }
+  });
+
+  function onSubmit(form, type) {
+    form?.addEventListener('submit', event => {
+      event.preventDefault();
+      const body = form.querySelector('textarea')?.value ?? '';
+      if (body.trim()) {
+        form.querySelectorAll('button').forEach(button => (button.disabled = true));
+        vscode.postMessage({ type, body });
+      }
+    });
+  }
+
+  onSubmit(editBody, 'editBody');
+  onSubmit(document.getElementById('new-comment'), 'comment');
+})();
@@ -0,0 +1,67 @@
+// Script of the milestone board: drag and drop of cards between columns
+(function () {
+  const vscode = acquireVsCodeApi();
+
+  // Remember the milestone so the board can be restored after a reload
+  vscode.setState(JSON.parse(document.body.dataset.state || '{}'));
+
+  // Inline styles are blocked by the Content Security Policy, so color labels here
+  document.querySelectorAll('.label[data-color]').forEach(label => {
+    if (label instanceof HTMLElement && /^[0-9a-f]{6}$/i.test(label.dataset.color || '')) {
+      label.style.setProperty('--label-color', `#${label.dataset.color}`);
+    }
+  });
+
+  document.querySelectorAll('.card').forEach(card => {
+    card.addEventListener('dragstart', event => {
+      if (card instanceof HTMLElement && event instanceof DragEvent && event.dataTransfer) {
+        event.dataTransfer.setData('text/plain', card.dataset.issue || '');
+        event.dataTransfer.effectAllowed = 'move';
+        card.classList.add('dragging');
+      }
+    });
+    card.addEventListener('dragend', () => card.classList.remove('dragging'));
+  });
+
+  document.querySelectorAll('.column').forEach(column => {
+    column.addEventListener('dragover', event => {
+      event.preventDefault();
+      column.classList.add('drop-target');
+    });
+    column.addEventListener('dragleave', () => column.classList.remove('drop-target'));
+    column.addEventListener('drop', event => {
+      event.preventDefault();
+      column.classList.remove('drop-target');
+      if (!(column instanceof HTMLElement) || !(event instanceof DragEvent)) {
+        return;
+      }
+
+      const issue = Number(event.dataTransfer?.getData('text/plain'));
+      const card = document.querySelector(`.card[data-issue="${issue}"]`);
+      if (!issue || !card || card.closest('.column') === column) {
+        return;
+      }
+
+      // Move the card right away; the board is rendered again once the extension is done
+      column.querySelector('.cards')?.appendChild(card);
+      card.classList.add('pending');
+      vscode.postMessage({ type: 'move', issue, column: column.dataset.column });
+    });
+  });
+
+  document.addEventListener('click', event => {
+    const target = event.target instanceof Element ? event.target.closest('[data-action]') : null;
+    if (!(target instanceof HTMLElement)) {
+      return;
+    }
+
+    if (target.dataset.action === 'open') {
+      const card = target.closest('.card');
+      if (card instanceof HTMLElement) {
+        vscode.postMessage({ type: 'open', issue: Number(card.dataset.issue) });
+      }
+    } else {
+      vscode.postMessage({ type: target.dataset.action });
+    }
+  });
+})();
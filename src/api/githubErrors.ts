@@ -0,0 +1,319 @@
+import { hasScopes, parseScopesHeader } from '../auth/githubScopes';
+
+/**
+ * Error codes of failed connections (DNS, refused, reset, timeout)
+ */
+const NETWORK_ERROR_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT'];
+
+type Headers = Record<string, string | number | undefined>;
+
+/**
+ * Shape of an Octokit RequestError, read without depending on @octokit/request-error
+ */
+interface RequestErrorLike {
+  status: number;
+  message: string;
+  response?: { headers?: Headers; data?: unknown };
+}
+
+/**
+ * Field error of a 422 response, e.g. { resource: 'Issue', field: 'title', code: 'missing_field' }
+ */
+export interface FieldError {
+  resource?: string;
+  field?: string;
+  code: string;
+  message?: string;
+}
+
+/**
+ * Base class of classified GitHub API failures
+ * The message is meant for users; the original error is kept as the cause.
+ */
+export abstract class GitHubApiError extends Error {
+  /** Whether sending the same request again later may succeed */
+  public abstract readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The token was revoked or expired (401)
+ */
+export class AuthenticationExpiredError extends GitHubApiError {
+  public readonly retryable = false;
+
+  constructor(cause?: unknown) {
+    super('Your GitHub session has expired. Please sign in again.', 401, cause);
+  }
+}
+
+/**
+ * The token lacks an OAuth scope the endpoint accepts
+ */
+export class MissingScopeError extends GitHubApiError {
+  public readonly retryable = false;
+
+  constructor(
+    public readonly requiredScopes: string[],
+    status?: number,
+    cause?: unknown
+  ) {
+    super(
+      `Your GitHub token is missing the ${requiredScopes.join(' or ')} scope for this operation.`,
+      status,
+      cause
+    );
+  }
+}
+
+/**
+ * The organization enforces SAML single sign-on and the token is not authorized for it
+ */
+export class SsoRequiredError extends GitHubApiError {
+  public readonly retryable = false;
+
+  constructor(
+    public readonly authorizationUrl?: string,
+    cause?: unknown
+  ) {
+    super(
+      'This organization requires single sign-on. Authorize your GitHub token for it and try again.',
+      403,
+      cause
+    );
+  }
+}
+
+/**
+ * The repository, issue or other resource does not exist or is not visible (404)
+ */
+export class NotFoundError extends GitHubApiError {
+  public readonly retryable = false;
+
+  constructor(cause?: unknown) {
+    super(
+      'Not found on GitHub. It may have been deleted or moved, or you may lack access to it.',
+      404,
+      cause
+    );
+  }
+}
+
+/**
+ * Access was denied for another reason than scopes, SSO or rate limits (403)
+ */
+export class AccessDeniedError extends GitHubApiError {
+  public readonly retryable = false;
+
+  constructor(cause?: unknown) {
+    super('Access denied. You may not have permission for this operation.', 403, cause);
+  }
+}
+
+/**
+ * GitHub rejected the request content (422)
+ */
+export class ValidationFailedError extends GitHubApiError {
+  public readonly retryable = false;
+
+  constructor(
+    public readonly fieldErrors: FieldError[],
+    cause?: unknown
+  ) {
+    const details = fieldErrors.map(describeFieldError);
+    super(
+      details.length > 0
+        ? `GitHub rejected the request: ${details.join('; ')}.`
+        : 'GitHub rejected the request as invalid.',
+      422,
+      cause
+    );
+  }
+}
+
+/**
+ * The primary or secondary rate limit was hit
+ */
+export class RateLimitError extends GitHubApiError {
+  public readonly retryable = true;
+
+  constructor(
+    /** Epoch milliseconds at which requests are accepted again, if known */
+    public readonly resetAt?: number,
+    status?: number,
+    cause?: unknown
+  ) {
+    super(
+      resetAt
+        ? `GitHub API rate limit exceeded. It resets at ${new Date(resetAt).toLocaleTimeString()}.`
+        : 'GitHub API rate limit exceeded. Please try again later.',
+      status,
+      cause
+    );
+  }
+}
+
+/**
+ * GitHub could not be reached at all
+ */
+export class NetworkError extends GitHubApiError {
+  public readonly retryable = true;
+
+  constructor(cause?: unknown) {
+    super(
+      'Network error: Unable to connect to GitHub. Please check your internet connection.',
+      undefined,
+      cause
+    );
+  }
+}
+
+/**
+ * GitHub failed to handle the request (5xx)
+ */
+export class ServerError extends GitHubApiError {
+  public readonly retryable = true;
+
+  constructor(status: number, cause?: unknown) {
+    super(`GitHub is having trouble right now (HTTP ${status}). Please try again.`, status, cause);
+  }
+}
+
+/**
+ * Check whether an error means GitHub could not be reached at all
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  // fetch() reports the failed connection as the cause of a TypeError
+  return (
+    isNetworkErrorCode((error as { code?: unknown }).code) ||
+    isNetworkErrorCode((error.cause as { code?: unknown } | undefined)?.code)
+  );
+}
+
+function isNetworkErrorCode(code: unknown): boolean {
+  return typeof code === 'string' && NETWORK_ERROR_CODES.includes(code);
+}
+
+/**
+ * Turn an Octokit RequestError into one of the typed errors above, using its status and headers
+ *
+ * @returns The classified error, or undefined for errors that did not come from the GitHub API
+ */
+export function classifyGitHubError(error: unknown): GitHubApiError | undefined {
+  if (error instanceof GitHubApiError) {
+    return error;
+  }
+  if (isNetworkError(error)) {
+    return new NetworkError(error);
+  }
+  if (!isRequestError(error)) {
+    return undefined;
+  }
+
+  const { status } = error;
+  const headers = error.response?.headers ?? {};
+
+  if (status === 401) {
+    return new AuthenticationExpiredError(error);
+  }
+  if (status === 403 || status === 429) {
+    const rateLimit = getRateLimitReset(error, headers);
+    if (rateLimit !== undefined) {
+      return new RateLimitError(rateLimit || undefined, status, error);
+    }
+    const sso = headers['x-github-sso'];
+    if (sso !== undefined && String(sso).startsWith('required')) {
+      return new SsoRequiredError(/url=([^;\s]+)/.exec(String(sso))?.[1], error);
+    }
+  }
+  if (status === 403 || status === 404) {
+    const requiredScopes = getMissingScopes(headers);
+    if (requiredScopes.length > 0) {
+      return new MissingScopeError(requiredScopes, status, error);
+    }
+    return status === 404 ? new NotFoundError(error) : new AccessDeniedError(error);
+  }
+  if (status === 422) {
+    const data = error.response?.data as { errors?: unknown } | undefined;
+    return new ValidationFailedError(parseFieldErrors(data?.errors), error);
+  }
+  if (status >= 500) {
+    return new ServerError(status, error);
+  }
+  return undefined;
+}
+
+function isRequestError(error: unknown): error is RequestErrorLike {
+  return error instanceof Error && typeof (error as { status?: unknown }).status === 'number';
+}
+
+/**
+ * Reset time of a rate limit response: epoch ms, 0 when unknown, undefined if not rate limited
+ */
+function getRateLimitReset(error: RequestErrorLike, headers: Headers): number | undefined {
+  const retryAfter = Number(headers['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Date.now() + retryAfter * 1000;
+  }
+  if (
+    headers['x-ratelimit-remaining'] !== undefined &&
+    Number(headers['x-ratelimit-remaining']) === 0
+  ) {
+    return Number(headers['x-ratelimit-reset']) * 1000 || 0;
+  }
+  return /rate limit/i.test(error.message) ? 0 : undefined;
+}
+
+/**
+ * Scopes the endpoint accepts when the token has none of them
+ */
+function getMissingScopes(headers: Headers): string[] {
+  const accepted = parseScopesHeader(headers['x-accepted-oauth-scopes']) ?? [];
+  const granted = parseScopesHeader(headers['x-oauth-scopes']);
+  // Fine-grained tokens and GitHub Apps send no x-oauth-scopes header
+  if (accepted.length === 0 || granted === undefined) {
+    return [];
+  }
+  return accepted.some(scope => hasScopes(granted, [scope])) ? [] : accepted;
+}
+
+function parseFieldErrors(errors: unknown): FieldError[] {
+  if (!Array.isArray(errors)) {
+    return [];
+  }
+  return errors.map(entry =>
+    typeof entry === 'string' ? { code: 'custom', message: entry } : (entry as FieldError)
+  );
+}
+
+function describeFieldError(error: FieldError): string {
+  const subject = error.field ?? error.resource ?? 'value';
+  switch (error.code) {
+    case 'missing':
+      return `${error.resource ?? subject} does not exist`;
+    case 'missing_field':
+      return `${subject} is missing`;
+    case 'invalid':
+      return error.message ?? `${subject} is invalid`;
+    case 'already_exists':
+      return `${subject} already exists`;
+    case 'unprocessable':
+      return error.message ?? `${subject} could not be processed`;
+    default:
+      return error.message ?? `${subject} is invalid`;
+  }
+}
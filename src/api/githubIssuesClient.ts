@@ -0,0 +1,1010 @@
+import * as vscode from 'vscode';
+import { Octokit, RestEndpointMethodTypes } from '@octokit/rest';
+import { getLogger } from '../utils/logger';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { GitHubCapability } from '../auth/githubScopes';
+import {
+  ConditionalResult,
+  CreateIssueInput,
+  CreateLabelInput,
+  CreateMilestoneInput,
+  CreatePullRequestInput,
+  GitHubComment,
+  GitHubCrossReference,
+  GitHubIssue,
+  GitHubIssueDetail,
+  GitHubLabel,
+  GitHubLinkedBranch,
+  GitHubMilestone,
+  GitHubPullRequest,
+  GitHubPullRequestRef,
+  GitHubReactions,
+  GitHubTimelineItem,
+  GitHubUser,
+  IssueState,
+  ListIssuesOptions,
+  ListMilestonesOptions,
+  ReactionContent,
+  RepositoryRef,
+  ReviewRequest,
+  UpdateIssueInput,
+  UpdateMilestoneInput,
+} from './types';
+
+type RawIssue = RestEndpointMethodTypes['issues']['get']['response']['data'];
+type RawMilestone = RestEndpointMethodTypes['issues']['getMilestone']['response']['data'];
+type RawComment = RestEndpointMethodTypes['issues']['getComment']['response']['data'];
+type RawUser = NonNullable<RawIssue['user']>;
+type RawLabel = RawIssue['labels'][number];
+type RawPullRequest = Pick<
+  RestEndpointMethodTypes['pulls']['list']['response']['data'][number],
+  'number' | 'title' | 'state' | 'draft' | 'html_url' | 'head' | 'base'
+>;
+type RawTimelineEvent =
+  RestEndpointMethodTypes['issues']['listEventsForTimeline']['response']['data'][number];
+type RawReactions = NonNullable<RawIssue['reactions']>;
+
+/**
+ * Fields of the timeline event types the issue detail view shows
+ * The generated union is too wide to narrow event by event.
+ */
+interface RawTimelineFields {
+  event?: string;
+  id?: number;
+  actor?: RawUser | null;
+  user?: RawUser | null;
+  created_at?: string;
+  updated_at?: string;
+  body?: string;
+  body_html?: string;
+  html_url?: string;
+  reactions?: RawReactions;
+  label?: { name: string; color: string };
+  assignee?: RawUser | null;
+  milestone?: { title: string };
+  rename?: { from: string; to: string };
+  state_reason?: string | null;
+  commit_id?: string | null;
+  source?: {
+    issue?: {
+      number: number;
+      title: string;
+      state: string;
+      html_url: string;
+      repository_url: string;
+      repository?: { full_name: string };
+      pull_request?: { merged_at?: string | null };
+    };
+  };
+}
+
+/**
+ * Maximum items per page (GitHub API limit)
+ */
+const PER_PAGE = 100;
+
+/**
+ * Results returned by an issue search, best matches first
+ */
+const SEARCH_LIMIT = 30;
+
+/**
+ * Timeline events shown in the issue detail view; the others are noise there
+ */
+const DETAIL_TIMELINE_EVENTS = new Set([
+  'commented',
+  'labeled',
+  'unlabeled',
+  'assigned',
+  'unassigned',
+  'milestoned',
+  'demilestoned',
+  'renamed',
+  'closed',
+  'reopened',
+  'cross-referenced',
+  'referenced',
+]);
+
+/**
+ * Reactions GitHub counts, in the order it shows them
+ */
+const REACTIONS: ReactionContent[] = [
+  '+1',
+  '-1',
+  'laugh',
+  'hooray',
+  'confused',
+  'heart',
+  'rocket',
+  'eyes',
+];
+
+/**
+ * Branches linked to the most recently updated open issues
+ */
+const LINKED_BRANCHES_QUERY = `
+  query ($owner: String!, $repo: String!) {
+    repository(owner: $owner, name: $repo) {
+      issues(first: 100, states: OPEN, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        nodes {
+          number
+          linkedBranches(first: 10) {
+            nodes {
+              ref {
+                name
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface LinkedBranchesResponse {
+  repository: {
+    issues: {
+      nodes: { number: number; linkedBranches: { nodes: { ref: { name: string } | null }[] } }[];
+    };
+  } | null;
+}
+
+/**
+ * Typed GitHub Issues/Milestones client
+ * Wraps the authenticated Octokit instance from GitHubAuthManager,
+ * handles pagination and maps responses to domain types
+ */
+export class GitHubIssuesClient {
+  private static instance: GitHubIssuesClient;
+  private logger = getLogger().child('API');
+  private authManager = getGitHubAuthManager();
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): GitHubIssuesClient {
+    if (!GitHubIssuesClient.instance) {
+      GitHubIssuesClient.instance = new GitHubIssuesClient();
+    }
+    return GitHubIssuesClient.instance;
+  }
+
+  /**
+   * Get the authenticated Octokit of the repository's account or throw if not authenticated
+   * Each host and account has its own client, so calls go to the right API base URL.
+   * Capabilities beyond reading ask the user to grant their scopes first; declining cancels.
+   */
+  private async requireOctokit(
+    repo: RepositoryRef,
+    ...capabilities: GitHubCapability[]
+  ): Promise<Octokit> {
+    const notAuthenticated = () =>
+      new Error(`Not authenticated with ${repo.host ?? 'GitHub'}. Please sign in first.`);
+    if (!this.authManager.getOctokit(repo)) {
+      throw notAuthenticated();
+    }
+
+    for (const capability of capabilities) {
+      if (!(await this.authManager.requestCapability(capability, repo))) {
+        // The user was just asked for the scopes and said no; asking again would nag
+        throw new vscode.CancellationError();
+      }
+    }
+
+    // Granting scopes replaces the session and its client
+    const octokit = this.authManager.getOctokit(repo);
+    if (!octokit) {
+      throw notAuthenticated();
+    }
+    return octokit;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Issues
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List issues of a repository, following all pages
+   * Pull requests returned by the issues endpoint are filtered out
+   */
+  public async listIssues(
+    repo: RepositoryRef,
+    options: ListIssuesOptions = {}
+  ): Promise<GitHubIssue[]> {
+    const octokit = await this.requireOctokit(repo);
+    this.logger.debug(`Listing issues for ${repo.owner}/${repo.repo}`, options);
+
+    const raw = await octokit.paginate(octokit.rest.issues.listForRepo, {
+      owner: repo.owner,
+      repo: repo.repo,
+      state: options.state ?? 'open',
+      milestone: options.milestone !== undefined ? String(options.milestone) : undefined,
+      labels: options.labels?.length ? options.labels.join(',') : undefined,
+      assignee: options.assignee,
+      since: options.since,
+      per_page: PER_PAGE,
+    });
+
+    const issues = raw.filter(issue => !issue.pull_request).map(issue => mapIssue(issue));
+    this.logger.debug(`Fetched ${issues.length} issues`);
+    return issues;
+  }
+
+  /**
+   * Get a single issue by number
+   */
+  public async getIssue(repo: RepositoryRef, issueNumber: number): Promise<GitHubIssue> {
+    const octokit = await this.requireOctokit(repo);
+    const { data } = await octokit.rest.issues.get({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+    });
+    return mapIssue(data);
+  }
+
+  /**
+   * Get an issue with its rendered body, reactions and timeline of comments and events
+   * GitHub renders and sanitizes the markdown (format "full" returns both body and body_html).
+   */
+  public async getIssueDetail(
+    repo: RepositoryRef,
+    issueNumber: number
+  ): Promise<GitHubIssueDetail> {
+    const octokit = await this.requireOctokit(repo);
+    const params = {
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+      mediaType: { format: 'full' },
+    };
+
+    const [{ data }, events] = await Promise.all([
+      octokit.rest.issues.get(params),
+      octokit.paginate(octokit.rest.issues.listEventsForTimeline, {
+        ...params,
+        per_page: PER_PAGE,
+      }),
+    ]);
+
+    return {
+      issue: mapIssue(data),
+      bodyHtml: data.body_html ?? '',
+      reactions: mapReactions(data.reactions),
+      timeline: events.flatMap(event => {
+        const item = mapTimelineItem(event as RawTimelineFields);
+        return item ? [item] : [];
+      }),
+    };
+  }
+
+  /**
+   * Search issues of a repository with GitHub search syntax, e.g. `label:bug assignee:@me`
+   * Only the best matches are returned; pull requests are left out by the query.
+   */
+  public async searchIssues(
+    repo: RepositoryRef,
+    query: string,
+    limit: number = SEARCH_LIMIT
+  ): Promise<GitHubIssue[]> {
+    const octokit = await this.requireOctokit(repo);
+    const q = `repo:${repo.owner}/${repo.repo} is:issue ${query}`.trim();
+    this.logger.debug(`Searching issues: ${q}`);
+
+    const { data } = await octokit.rest.search.issuesAndPullRequests({ q, per_page: limit });
+    return data.items.map(item => mapIssue(item as RawIssue));
+  }
+
+  /**
+   * Create a new issue
+   */
+  public async createIssue(repo: RepositoryRef, input: CreateIssueInput): Promise<GitHubIssue> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    this.logger.info(`Creating issue in ${repo.owner}/${repo.repo}`, { title: input.title });
+
+    const { data } = await octokit.rest.issues.create({
+      owner: repo.owner,
+      repo: repo.repo,
+      title: input.title,
+      body: input.body,
+      labels: input.labels,
+      assignees: input.assignees,
+      milestone: input.milestone,
+    });
+    return mapIssue(data);
+  }
+
+  /**
+   * Update an existing issue
+   */
+  public async updateIssue(
+    repo: RepositoryRef,
+    issueNumber: number,
+    input: UpdateIssueInput
+  ): Promise<GitHubIssue> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    this.logger.info(`Updating issue #${issueNumber} in ${repo.owner}/${repo.repo}`);
+
+    const { data } = await octokit.rest.issues.update({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+      title: input.title,
+      body: input.body,
+      state: input.state,
+      state_reason: input.stateReason,
+      labels: input.labels,
+      assignees: input.assignees,
+      milestone: input.milestone,
+    });
+    return mapIssue(data);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Milestones
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List milestones of a repository, following all pages
+   */
+  public async listMilestones(
+    repo: RepositoryRef,
+    options: ListMilestonesOptions = {}
+  ): Promise<GitHubMilestone[]> {
+    const octokit = await this.requireOctokit(repo);
+    this.logger.debug(`Listing milestones for ${repo.owner}/${repo.repo}`, options);
+
+    const raw = await octokit.paginate(octokit.rest.issues.listMilestones, {
+      owner: repo.owner,
+      repo: repo.repo,
+      state: options.state ?? 'open',
+      per_page: PER_PAGE,
+    });
+    return raw.map(milestone => mapMilestone(milestone));
+  }
+
+  /**
+   * List milestones in all states unless they are unchanged since the given ETag
+   * A 304 response does not count against the rate limit. Lists of more than one page come
+   * without an ETag, so they are always fetched again.
+   */
+  public async listMilestonesIfModified(
+    repo: RepositoryRef,
+    etag?: string
+  ): Promise<ConditionalResult<GitHubMilestone[]>> {
+    const octokit = await this.requireOctokit(repo);
+    const params = {
+      owner: repo.owner,
+      repo: repo.repo,
+      state: 'all' as const,
+      per_page: PER_PAGE,
+    };
+
+    try {
+      const response = await octokit.rest.issues.listMilestones({
+        ...params,
+        headers: etag ? { 'if-none-match': etag } : undefined,
+      });
+      // The ETag only covers the first page, so a longer list is not kept for the next check:
+      // a later page may change while the first one stays the same
+      const paged = hasNextPage(response.headers.link);
+      const raw = paged
+        ? await octokit.paginate(octokit.rest.issues.listMilestones, params)
+        : response.data;
+      return {
+        modified: true,
+        data: raw.map(milestone => mapMilestone(milestone)),
+        etag: paged ? undefined : response.headers.etag,
+      };
+    } catch (error) {
+      if (isNotModified(error)) {
+        return { modified: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single milestone by number
+   */
+  public async getMilestone(
+    repo: RepositoryRef,
+    milestoneNumber: number
+  ): Promise<GitHubMilestone> {
+    const octokit = await this.requireOctokit(repo);
+    const { data } = await octokit.rest.issues.getMilestone({
+      owner: repo.owner,
+      repo: repo.repo,
+      milestone_number: milestoneNumber,
+    });
+    return mapMilestone(data);
+  }
+
+  /**
+   * Create a new milestone
+   */
+  public async createMilestone(
+    repo: RepositoryRef,
+    input: CreateMilestoneInput
+  ): Promise<GitHubMilestone> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    this.logger.info(`Creating milestone in ${repo.owner}/${repo.repo}`, { title: input.title });
+
+    const { data } = await octokit.rest.issues.createMilestone({
+      owner: repo.owner,
+      repo: repo.repo,
+      title: input.title,
+      description: input.description,
+      due_on: input.dueOn,
+    });
+    return mapMilestone(data);
+  }
+
+  /**
+   * Update an existing milestone
+   */
+  public async updateMilestone(
+    repo: RepositoryRef,
+    milestoneNumber: number,
+    input: UpdateMilestoneInput
+  ): Promise<GitHubMilestone> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    this.logger.info(`Updating milestone #${milestoneNumber} in ${repo.owner}/${repo.repo}`);
+
+    const { data } = await octokit.rest.issues.updateMilestone({
+      owner: repo.owner,
+      repo: repo.repo,
+      milestone_number: milestoneNumber,
+      title: input.title,
+      description: input.description,
+      due_on: input.dueOn,
+      state: input.state,
+    });
+    return mapMilestone(data);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Labels
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List all labels of a repository
+   */
+  public async listLabels(repo: RepositoryRef): Promise<GitHubLabel[]> {
+    const octokit = await this.requireOctokit(repo);
+    const raw = await octokit.paginate(octokit.rest.issues.listLabelsForRepo, {
+      owner: repo.owner,
+      repo: repo.repo,
+      per_page: PER_PAGE,
+    });
+    return raw.map(label => mapLabel(label));
+  }
+
+  /**
+   * List all labels unless they are unchanged since the given ETag
+   * Lists of more than one page come without an ETag, so they are always fetched again
+   */
+  public async listLabelsIfModified(
+    repo: RepositoryRef,
+    etag?: string
+  ): Promise<ConditionalResult<GitHubLabel[]>> {
+    const octokit = await this.requireOctokit(repo);
+    const params = { owner: repo.owner, repo: repo.repo, per_page: PER_PAGE };
+
+    try {
+      const response = await octokit.rest.issues.listLabelsForRepo({
+        ...params,
+        headers: etag ? { 'if-none-match': etag } : undefined,
+      });
+      const paged = hasNextPage(response.headers.link);
+      const raw = paged
+        ? await octokit.paginate(octokit.rest.issues.listLabelsForRepo, params)
+        : response.data;
+      return {
+        modified: true,
+        data: raw.map(label => mapLabel(label)),
+        etag: paged ? undefined : response.headers.etag,
+      };
+    } catch (error) {
+      if (isNotModified(error)) {
+        return { modified: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create a repository label
+   */
+  public async createLabel(repo: RepositoryRef, input: CreateLabelInput): Promise<GitHubLabel> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    this.logger.info(`Creating label "${input.name}" in ${repo.owner}/${repo.repo}`);
+
+    const { data } = await octokit.rest.issues.createLabel({
+      owner: repo.owner,
+      repo: repo.repo,
+      name: input.name,
+      color: input.color,
+      description: input.description,
+    });
+    return mapLabel(data);
+  }
+
+  /**
+   * Add labels to an issue
+   * @returns All labels now applied to the issue
+   */
+  public async addLabels(
+    repo: RepositoryRef,
+    issueNumber: number,
+    labels: string[]
+  ): Promise<GitHubLabel[]> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    const { data } = await octokit.rest.issues.addLabels({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+      labels,
+    });
+    return data.map(label => mapLabel(label));
+  }
+
+  /**
+   * Remove a label from an issue
+   * @returns All labels still applied to the issue
+   */
+  public async removeLabel(
+    repo: RepositoryRef,
+    issueNumber: number,
+    label: string
+  ): Promise<GitHubLabel[]> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    const { data } = await octokit.rest.issues.removeLabel({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+      name: label,
+    });
+    return data.map(item => mapLabel(item));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Assignees
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List users that can be assigned to issues in a repository
+   */
+  public async listAssignees(repo: RepositoryRef): Promise<GitHubUser[]> {
+    const octokit = await this.requireOctokit(repo);
+    const raw = await octokit.paginate(octokit.rest.issues.listAssignees, {
+      owner: repo.owner,
+      repo: repo.repo,
+      per_page: PER_PAGE,
+    });
+    return raw.map(user => mapUser(user));
+  }
+
+  /**
+   * Add assignees to an issue
+   */
+  public async addAssignees(
+    repo: RepositoryRef,
+    issueNumber: number,
+    assignees: string[]
+  ): Promise<GitHubIssue> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    const { data } = await octokit.rest.issues.addAssignees({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+      assignees,
+    });
+    return mapIssue(data);
+  }
+
+  /**
+   * Remove assignees from an issue
+   */
+  public async removeAssignees(
+    repo: RepositoryRef,
+    issueNumber: number,
+    assignees: string[]
+  ): Promise<GitHubIssue> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    const { data } = await octokit.rest.issues.removeAssignees({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+      assignees,
+    });
+    return mapIssue(data);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Comments
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List all comments of an issue
+   */
+  public async listComments(repo: RepositoryRef, issueNumber: number): Promise<GitHubComment[]> {
+    const octokit = await this.requireOctokit(repo);
+    const raw = await octokit.paginate(octokit.rest.issues.listComments, {
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+      per_page: PER_PAGE,
+    });
+    return raw.map(comment => mapComment(comment));
+  }
+
+  /**
+   * Add a comment to an issue
+   */
+  public async createComment(
+    repo: RepositoryRef,
+    issueNumber: number,
+    body: string
+  ): Promise<GitHubComment> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    this.logger.info(`Commenting on issue #${issueNumber} in ${repo.owner}/${repo.repo}`);
+
+    const { data } = await octokit.rest.issues.createComment({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+      body,
+    });
+    return mapComment(data);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Pull requests
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get the name of the repository's default branch
+   */
+  public async getDefaultBranch(repo: RepositoryRef): Promise<string> {
+    const octokit = await this.requireOctokit(repo);
+    const { data } = await octokit.rest.repos.get({ owner: repo.owner, repo: repo.repo });
+    return data.default_branch;
+  }
+
+  /**
+   * Find the open pull request of a branch
+   *
+   * @param head Branch name, or "owner:branch" for branches of a fork
+   */
+  public async findOpenPullRequest(
+    repo: RepositoryRef,
+    head: string
+  ): Promise<GitHubPullRequest | undefined> {
+    const octokit = await this.requireOctokit(repo);
+    const { data } = await octokit.rest.pulls.list({
+      owner: repo.owner,
+      repo: repo.repo,
+      state: 'open',
+      head: head.includes(':') ? head : `${repo.owner}:${head}`,
+      per_page: 1,
+    });
+    return data.length > 0 ? mapPullRequest(data[0]) : undefined;
+  }
+
+  /**
+   * Open a pull request
+   */
+  public async createPullRequest(
+    repo: RepositoryRef,
+    input: CreatePullRequestInput
+  ): Promise<GitHubPullRequest> {
+    const octokit = await this.requireOctokit(repo, 'write');
+    this.logger.info(`Opening pull request in ${repo.owner}/${repo.repo}`, {
+      head: input.head,
+      base: input.base,
+    });
+
+    const { data } = await octokit.rest.pulls.create({
+      owner: repo.owner,
+      repo: repo.repo,
+      title: input.title,
+      body: input.body,
+      head: input.head,
+      base: input.base,
+      draft: input.draft,
+    });
+    return mapPullRequest(data);
+  }
+
+  /**
+   * Request reviews from users and teams on a pull request
+   */
+  public async requestReviewers(
+    repo: RepositoryRef,
+    pullNumber: number,
+    request: ReviewRequest
+  ): Promise<void> {
+    if (request.reviewers.length === 0 && request.teamReviewers.length === 0) {
+      return;
+    }
+
+    const octokit =
+      request.teamReviewers.length > 0
+        ? await this.requireOctokit(repo, 'write', 'organizations')
+        : await this.requireOctokit(repo, 'write');
+    this.logger.info(`Requesting reviews on pull request #${pullNumber}`, request);
+
+    await octokit.rest.pulls.requestReviewers({
+      owner: repo.owner,
+      repo: repo.repo,
+      pull_number: pullNumber,
+      reviewers: request.reviewers,
+      team_reviewers: request.teamReviewers,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Linked pull requests and branches
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List pull requests that reference an issue, based on its timeline
+   */
+  public async listLinkedPullRequests(
+    repo: RepositoryRef,
+    issueNumber: number
+  ): Promise<GitHubPullRequestRef[]> {
+    const octokit = await this.requireOctokit(repo);
+    const events = await octokit.paginate(octokit.rest.issues.listEventsForTimeline, {
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number: issueNumber,
+      per_page: PER_PAGE,
+    });
+
+    const pullRequests = new Map<string, GitHubPullRequestRef>();
+    for (const event of events) {
+      const pullRequest = mapCrossReferencedPullRequest(event);
+      if (pullRequest) {
+        pullRequests.set(`${pullRequest.repository}#${pullRequest.number}`, pullRequest);
+      }
+    }
+    return [...pullRequests.values()];
+  }
+
+  /**
+   * List branches linked to recently updated open issues (issue "Development" section)
+   * Only available through the GraphQL API
+   */
+  public async listLinkedBranches(repo: RepositoryRef): Promise<GitHubLinkedBranch[]> {
+    const octokit = await this.requireOctokit(repo);
+    const response = await octokit.graphql<LinkedBranchesResponse>(LINKED_BRANCHES_QUERY, {
+      owner: repo.owner,
+      repo: repo.repo,
+    });
+
+    return (response.repository?.issues.nodes ?? []).flatMap(issue =>
+      issue.linkedBranches.nodes.flatMap(link =>
+        link.ref ? [{ issueNumber: issue.number, branch: link.ref.name }] : []
+      )
+    );
+  }
+}
+
+/**
+ * Check whether a Link response header points to a next page
+ */
+function hasNextPage(link: string | undefined): boolean {
+  return !!link && /rel="next"/.test(link);
+}
+
+/**
+ * Check whether a request failed with 304 Not Modified
+ */
+function isNotModified(error: unknown): boolean {
+  return (error as { status?: number } | undefined)?.status === 304;
+}
+
+/**
+ * Map raw user payload to domain type
+ */
+function mapUser(raw: RawUser): GitHubUser {
+  return {
+    login: raw.login,
+    avatarUrl: raw.avatar_url,
+    htmlUrl: raw.html_url,
+  };
+}
+
+/**
+ * Map raw label payload (string or object form) to domain type
+ */
+function mapLabel(raw: RawLabel): GitHubLabel {
+  if (typeof raw === 'string') {
+    return { name: raw, color: '' };
+  }
+  return {
+    name: raw.name ?? '',
+    color: raw.color ?? '',
+    description: raw.description ?? undefined,
+  };
+}
+
+/**
+ * Map raw milestone payload to domain type
+ */
+function mapMilestone(raw: RawMilestone): GitHubMilestone {
+  return {
+    number: raw.number,
+    title: raw.title,
+    description: raw.description ?? undefined,
+    state: raw.state as IssueState,
+    openIssues: raw.open_issues,
+    closedIssues: raw.closed_issues,
+    htmlUrl: raw.html_url,
+    dueOn: raw.due_on ?? undefined,
+    createdAt: raw.created_at,
+    updatedAt: raw.updated_at,
+    closedAt: raw.closed_at ?? undefined,
+  };
+}
+
+/**
+ * Map raw issue payload to domain type
+ */
+function mapIssue(raw: RawIssue): GitHubIssue {
+  return {
+    number: raw.number,
+    title: raw.title,
+    body: raw.body ?? '',
+    state: raw.state as IssueState,
+    stateReason: raw.state_reason ?? undefined,
+    labels: raw.labels.map(label => mapLabel(label)),
+    assignees: (raw.assignees ?? []).map(user => mapUser(user)),
+    author: raw.user ? mapUser(raw.user) : undefined,
+    milestone: raw.milestone ? mapMilestone(raw.milestone) : undefined,
+    comments: raw.comments,
+    htmlUrl: raw.html_url,
+    createdAt: raw.created_at,
+    updatedAt: raw.updated_at,
+    closedAt: raw.closed_at ?? undefined,
+  };
+}
+
+/**
+ * Map raw comment payload to domain type
+ */
+function mapComment(raw: RawComment): GitHubComment {
+  return {
+    id: raw.id,
+    body: raw.body ?? '',
+    author: raw.user ? mapUser(raw.user) : undefined,
+    htmlUrl: raw.html_url,
+    createdAt: raw.created_at,
+    updatedAt: raw.updated_at,
+  };
+}
+
+/**
+ * Map raw pull request payload to domain type
+ */
+function mapPullRequest(raw: RawPullRequest): GitHubPullRequest {
+  return {
+    number: raw.number,
+    title: raw.title,
+    state: raw.state as IssueState,
+    draft: raw.draft ?? false,
+    htmlUrl: raw.html_url,
+    head: raw.head.ref,
+    base: raw.base.ref,
+  };
+}
+
+/**
+ * Map a cross-referenced timeline event whose source is a pull request
+ */
+function mapCrossReferencedPullRequest(event: RawTimelineEvent): GitHubPullRequestRef | undefined {
+  if (event.event !== 'cross-referenced' || !('source' in event)) {
+    return undefined;
+  }
+
+  const source = event.source.issue;
+  if (!source?.pull_request) {
+    return undefined;
+  }
+
+  const repository = source.repository
+    ? source.repository.full_name
+    : source.repository_url.split('/').slice(-2).join('/');
+
+  return {
+    number: source.number,
+    title: source.title,
+    state: source.state as IssueState,
+    merged: !!source.pull_request.merged_at,
+    htmlUrl: source.html_url,
+    repository,
+  };
+}
+
+/**
+ * Map reaction counts, leaving out the reactions nobody used
+ */
+function mapReactions(raw: RawReactions | undefined): GitHubReactions {
+  const reactions: GitHubReactions = {};
+  for (const content of REACTIONS) {
+    const count = raw?.[content] ?? 0;
+    if (count > 0) {
+      reactions[content] = count;
+    }
+  }
+  return reactions;
+}
+
+/**
+ * Map a timeline event to a comment or event of the issue detail view
+ */
+function mapTimelineItem(raw: RawTimelineFields): GitHubTimelineItem | undefined {
+  if (!raw.event || !DETAIL_TIMELINE_EVENTS.has(raw.event)) {
+    return undefined;
+  }
+
+  if (raw.event === 'commented') {
+    return {
+      kind: 'comment',
+      comment: {
+        id: raw.id ?? 0,
+        body: raw.body ?? '',
+        author: raw.user ? mapUser(raw.user) : undefined,
+        htmlUrl: raw.html_url ?? '',
+        createdAt: raw.created_at ?? '',
+        updatedAt: raw.updated_at ?? raw.created_at ?? '',
+      },
+      bodyHtml: raw.body_html ?? '',
+      reactions: mapReactions(raw.reactions),
+    };
+  }
+
+  return {
+    kind: 'event',
+    event: raw.event,
+    actor: raw.actor ? mapUser(raw.actor) : undefined,
+    createdAt: raw.created_at ?? '',
+    label: raw.label ? { name: raw.label.name, color: raw.label.color } : undefined,
+    assignee: raw.assignee ? mapUser(raw.assignee) : undefined,
+    milestone: raw.milestone?.title,
+    rename: raw.rename,
+    stateReason: raw.state_reason ?? undefined,
+    commitId: raw.commit_id ?? undefined,
+    source: raw.source?.issue ? mapCrossReference(raw.source.issue) : undefined,
+  };
+}
+
+/**
+ * Map the source of a cross-referenced event
+ */
+function mapCrossReference(
+  source: NonNullable<NonNullable<RawTimelineFields['source']>['issue']>
+): GitHubCrossReference {
+  return {
+    number: source.number,
+    title: source.title,
+    state: source.state as IssueState,
+    isPullRequest: !!source.pull_request,
+    htmlUrl: source.html_url,
+    repository: source.repository
+      ? source.repository.full_name
+      : source.repository_url.split('/').slice(-2).join('/'),
+  };
+}
+
+/**
+ * Get GitHub issues client instance (convenience function)
+ */
+export function getGitHubIssuesClient(): GitHubIssuesClient {
+  return GitHubIssuesClient.getInstance();
+}
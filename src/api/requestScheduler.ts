@@ -0,0 +1,369 @@
+import * as vscode from 'vscode';
+import { Octokit } from '@octokit/rest';
+import { getLogger } from '../utils/logger';
+import { isNetworkError, RateLimitError } from './githubErrors';
+import { RateLimitInfo } from './types';
+
+/**
+ * Requests sent to GitHub at the same time; the rest wait in the queue
+ */
+const MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * Retries of one request after transient failures or rate limits
+ */
+const MAX_RETRIES = 3;
+
+/**
+ * First backoff delay, doubled on every retry up to MAX_RETRY_DELAY
+ */
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30_000;
+
+/**
+ * Wait after a secondary rate limit without retry-after, as GitHub recommends
+ */
+const SECONDARY_RATE_LIMIT_DELAY = 60_000;
+
+/**
+ * Longest wait for a rate limit to lift before failing instead
+ */
+const MAX_RATE_LIMIT_WAIT = 2 * 60_000;
+
+/**
+ * GitHub asks for at least a second between requests that create or change content
+ */
+const MUTATION_SPACING = 1000;
+
+/**
+ * Share of the quota below which a warning is logged
+ */
+const LOW_QUOTA_RATIO = 0.1;
+
+/**
+ * API host of github.com, where requests go unless Octokit has another base URL
+ */
+const DEFAULT_API_HOST = 'api.github.com';
+
+type Headers = Record<string, string | number | undefined>;
+
+/**
+ * Quota a request counts against: each host has its own core, search, graphql… resources
+ */
+interface RequestScope {
+  host: string;
+  resource: string;
+}
+
+const DEFAULT_SCOPE: RequestScope = { host: DEFAULT_API_HOST, resource: 'core' };
+
+/**
+ * Response of a request sent through the scheduler
+ */
+interface ScheduledResponse {
+  status: number;
+  headers: Headers;
+}
+
+/**
+ * Rate-limit aware request scheduler for the GitHub API
+ * Wraps Octokit's request hook to queue and throttle requests, track the quota from
+ * the x-ratelimit-* headers, wait out primary and secondary rate limits and retry
+ * transient failures with jittered exponential backoff.
+ */
+export class RequestScheduler implements vscode.Disposable {
+  private static instance: RequestScheduler;
+  private logger = getLogger().child('API');
+  private active = 0;
+  private queue: (() => void)[] = [];
+  /** End of the rate limit pause of each quota, by scope key */
+  private pausedUntil = new Map<string, number>();
+  private nextMutationAt = 0;
+  /** Last known quota, by scope key */
+  private rateLimits = new Map<string, RateLimitInfo>();
+  private readonly onDidChangeRateLimitEmitter = new vscode.EventEmitter<RateLimitInfo>();
+
+  /**
+   * Fired when a response reports the remaining quota of a resource
+   */
+  public readonly onDidChangeRateLimit = this.onDidChangeRateLimitEmitter.event;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): RequestScheduler {
+    if (!RequestScheduler.instance) {
+      RequestScheduler.instance = new RequestScheduler();
+    }
+    return RequestScheduler.instance;
+  }
+
+  /**
+   * Route every request of an Octokit instance through the scheduler
+   */
+  public install(octokit: Octokit): void {
+    octokit.hook.wrap('request', (request, options) =>
+      this.schedule(
+        () => this.logger.time(`${options.method} ${options.url}`, async () => request(options)),
+        options.method,
+        getRequestScope(options.baseUrl, options.url)
+      )
+    );
+  }
+
+  /**
+   * Last known quota of a rate limit resource on an API host
+   */
+  public getRateLimit(resource = 'core', host = DEFAULT_API_HOST): RateLimitInfo | undefined {
+    return this.rateLimits.get(scopeKey({ host, resource }));
+  }
+
+  /**
+   * Send a request once a slot is free, retrying rate limits and transient failures
+   *
+   * @param send Transport that performs the request
+   * @param method HTTP method; only idempotent requests are retried after server errors
+   * @param scope Quota the request counts against; only its rate limit holds the request back
+   */
+  public async schedule<T extends ScheduledResponse>(
+    send: () => Promise<T>,
+    method = 'GET',
+    scope: RequestScope = DEFAULT_SCOPE
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let retryDelay = 0;
+      await this.acquire(method, scope);
+      try {
+        const response = await send();
+        this.recordRateLimit(response.headers, scope);
+        return response;
+      } catch (error) {
+        const headers = getErrorHeaders(error);
+        if (headers) {
+          this.recordRateLimit(headers, scope);
+        }
+
+        const delay =
+          attempt < MAX_RETRIES ? this.getRetryDelay(error, method, attempt, scope) : undefined;
+        if (delay === undefined) {
+          throw error;
+        }
+        this.logger.warn(
+          `GitHub request failed (${describeError(error)}), retrying in ${Math.round(delay / 1000)}s`
+        );
+        retryDelay = delay;
+      } finally {
+        this.release();
+      }
+      // The slot is released while waiting so other requests keep flowing
+      await sleep(retryDelay);
+    }
+  }
+
+  /**
+   * Wait for a rate limit pause, a free slot and, for mutations, their spacing
+   */
+  private async acquire(method: string, scope: RequestScope): Promise<void> {
+    const pausedUntil = this.pausedUntil.get(scopeKey(scope)) ?? 0;
+    const pause = pausedUntil - Date.now();
+    if (pause > MAX_RATE_LIMIT_WAIT) {
+      throw new RateLimitError(pausedUntil);
+    }
+    if (pause > 0) {
+      await sleep(pause);
+    }
+
+    if (this.active >= MAX_CONCURRENT_REQUESTS) {
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    }
+    this.active++;
+
+    if (!isIdempotent(method)) {
+      // Reserve the next slot synchronously so concurrent mutations stay spaced
+      const slot = Math.max(Date.now(), this.nextMutationAt);
+      this.nextMutationAt = slot + MUTATION_SPACING;
+      if (slot > Date.now()) {
+        await sleep(slot - Date.now());
+      }
+    }
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot over without decrementing
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * How long to wait before retrying a failed request, or undefined to give up
+   */
+  private getRetryDelay(
+    error: unknown,
+    method: string,
+    attempt: number,
+    scope: RequestScope
+  ): number | undefined {
+    const status = (error as { status?: unknown }).status;
+    const headers = getErrorHeaders(error) ?? {};
+
+    if (status === 403 || status === 429) {
+      const retryAfter = Number(headers['retry-after']);
+      const remaining = headers['x-ratelimit-remaining'];
+      let delay: number | undefined;
+
+      if (Number.isFinite(retryAfter) && retryAfter > 0) {
+        delay = retryAfter * 1000;
+      } else if (remaining !== undefined && Number(remaining) === 0) {
+        delay = Number(headers['x-ratelimit-reset']) * 1000 - Date.now();
+      } else if (isSecondaryRateLimit(error)) {
+        delay = SECONDARY_RATE_LIMIT_DELAY;
+      }
+
+      // Plain 403s (permissions, SSO) are not retried
+      if (delay === undefined || delay > MAX_RATE_LIMIT_WAIT) {
+        return undefined;
+      }
+      // Rejected requests were never processed, so every method can be retried
+      this.pause(
+        { host: scope.host, resource: String(headers['x-ratelimit-resource'] ?? scope.resource) },
+        Date.now() + delay
+      );
+      return Math.max(delay, 0);
+    }
+
+    const transient = (typeof status === 'number' && status >= 500) || isNetworkError(error);
+    if (!transient || !isIdempotent(method)) {
+      return undefined;
+    }
+    const backoff = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** attempt);
+    // Equal jitter: at least half the backoff, so retries spread out but still back off
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  /**
+   * Remember the quota reported by a response and log when it runs low
+   */
+  private recordRateLimit(headers: Headers, scope: RequestScope): void {
+    if (headers['x-ratelimit-remaining'] === undefined) {
+      return;
+    }
+
+    const info: RateLimitInfo = {
+      host: scope.host,
+      resource: String(headers['x-ratelimit-resource'] ?? scope.resource),
+      limit: Number(headers['x-ratelimit-limit']),
+      remaining: Number(headers['x-ratelimit-remaining']),
+      used: Number(headers['x-ratelimit-used'] ?? 0),
+      resetAt: Number(headers['x-ratelimit-reset']) * 1000,
+    };
+    const key = scopeKey(info);
+    const previous = this.rateLimits.get(key);
+    this.rateLimits.set(key, info);
+
+    const threshold = info.limit * LOW_QUOTA_RATIO;
+    if (info.remaining < threshold && (!previous || previous.remaining >= threshold)) {
+      this.logger.warn(`GitHub API quota running low: ${formatRateLimit(info)}`);
+    } else {
+      this.logger.debug(`GitHub API quota: ${formatRateLimit(info)}`);
+    }
+    if (info.remaining === 0) {
+      this.pause({ host: scope.host, resource: info.resource }, info.resetAt);
+    }
+
+    this.onDidChangeRateLimitEmitter.fire(info);
+  }
+
+  /**
+   * Hold back the requests of one quota until the given time
+   */
+  private pause(scope: RequestScope, until: number): void {
+    const key = scopeKey(scope);
+    this.pausedUntil.set(key, Math.max(this.pausedUntil.get(key) ?? 0, until));
+  }
+
+  /**
+   * Dispose the event emitter
+   */
+  public dispose(): void {
+    this.onDidChangeRateLimitEmitter.dispose();
+  }
+}
+
+/**
+ * Describe a quota, e.g. "core: 4990/5000 requests left, resets at 14:05:00"
+ */
+export function formatRateLimit(info: RateLimitInfo): string {
+  return (
+    `${info.resource}: ${info.remaining}/${info.limit} requests left, ` +
+    `resets at ${new Date(info.resetAt).toLocaleTimeString()}`
+  );
+}
+
+/**
+ * Quota a request counts against, from its base URL and path
+ */
+function getRequestScope(baseUrl: string | undefined, url: string): RequestScope {
+  let host = DEFAULT_API_HOST;
+  try {
+    host = new URL(url, baseUrl ?? `https://${DEFAULT_API_HOST}`).host;
+  } catch {
+    // Keep the default host for URLs that cannot be parsed
+  }
+
+  return { host, resource: getRateLimitResource(url) };
+}
+
+/**
+ * Rate limit resource GitHub counts a request path against
+ */
+function getRateLimitResource(url: string): string {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').replace(/^\/api\/v3/, '');
+  if (path.startsWith('/graphql')) {
+    return 'graphql';
+  }
+  if (path.startsWith('/search/code')) {
+    return 'code_search';
+  }
+  if (path.startsWith('/search/')) {
+    return 'search';
+  }
+  return 'core';
+}
+
+function scopeKey(scope: RequestScope): string {
+  return `${scope.host}/${scope.resource}`;
+}
+
+function isIdempotent(method: string): boolean {
+  return ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'].includes(method.toUpperCase());
+}
+
+function isSecondaryRateLimit(error: unknown): boolean {
+  return error instanceof Error && /secondary rate limit|abuse/i.test(error.message);
+}
+
+function getErrorHeaders(error: unknown): Headers | undefined {
+  return (error as { response?: { headers?: Headers } } | undefined)?.response?.headers;
+}
+
+function describeError(error: unknown): string {
+  const status = (error as { status?: unknown }).status;
+  return typeof status === 'number' ? `HTTP ${status}` : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Get request scheduler instance (convenience function)
+ */
+export function getRequestScheduler(): RequestScheduler {
+  return RequestScheduler.getInstance();
+}
@@ -0,0 +1,323 @@
+/**
+ * Domain types for the GitHub Issues API
+ * Decoupled from raw Octokit response shapes so the rest of the extension
+ * does not depend on the REST API payload format
+ */
+
+/**
+ * Reference to a GitHub repository
+ */
+export interface RepositoryRef {
+  owner: string;
+  repo: string;
+  /** GitHub host; the current repository's host when omitted */
+  host?: string;
+}
+
+/**
+ * State of an issue or milestone
+ */
+export type IssueState = 'open' | 'closed';
+
+/**
+ * State filter accepted by list operations
+ */
+export type StateFilter = IssueState | 'all';
+
+/**
+ * GitHub user (author, assignee or commenter)
+ */
+export interface GitHubUser {
+  login: string;
+  avatarUrl: string;
+  htmlUrl: string;
+}
+
+/**
+ * Repository label
+ */
+export interface GitHubLabel {
+  name: string;
+  color: string;
+  description?: string;
+}
+
+/**
+ * Repository milestone
+ */
+export interface GitHubMilestone {
+  number: number;
+  title: string;
+  description?: string;
+  state: IssueState;
+  openIssues: number;
+  closedIssues: number;
+  htmlUrl: string;
+  dueOn?: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string;
+}
+
+/**
+ * Completion percentage of a milestone, rounded to a whole number
+ */
+export function milestoneProgress(milestone: GitHubMilestone): number {
+  const total = milestone.openIssues + milestone.closedIssues;
+  return total === 0 ? 0 : Math.round((milestone.closedIssues / total) * 100);
+}
+
+/**
+ * Repository issue (pull requests are excluded)
+ */
+export interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string;
+  state: IssueState;
+  stateReason?: string;
+  labels: GitHubLabel[];
+  assignees: GitHubUser[];
+  author?: GitHubUser;
+  milestone?: GitHubMilestone;
+  comments: number;
+  htmlUrl: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string;
+}
+
+/**
+ * Issue comment
+ */
+export interface GitHubComment {
+  id: number;
+  body: string;
+  author?: GitHubUser;
+  htmlUrl: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Reaction emoji GitHub supports on issues and comments
+ */
+export type ReactionContent =
+  | '+1'
+  | '-1'
+  | 'laugh'
+  | 'hooray'
+  | 'confused'
+  | 'heart'
+  | 'rocket'
+  | 'eyes';
+
+/**
+ * Reaction counts; reactions nobody used are left out
+ */
+export type GitHubReactions = Partial<Record<ReactionContent, number>>;
+
+/**
+ * Issue or pull request mentioned from another issue's timeline
+ */
+export interface GitHubCrossReference {
+  number: number;
+  title: string;
+  state: IssueState;
+  isPullRequest: boolean;
+  htmlUrl: string;
+  /** owner/repo of the referencing issue */
+  repository: string;
+}
+
+/**
+ * Comment in an issue timeline, with the HTML GitHub rendered for it
+ */
+export interface GitHubTimelineComment {
+  kind: 'comment';
+  comment: GitHubComment;
+  bodyHtml: string;
+  reactions: GitHubReactions;
+}
+
+/**
+ * Event in an issue timeline (labeled, closed, cross-referenced...)
+ * Only the fields of the event's type are set
+ */
+export interface GitHubTimelineEvent {
+  kind: 'event';
+  event: string;
+  actor?: GitHubUser;
+  createdAt: string;
+  label?: GitHubLabel;
+  assignee?: GitHubUser;
+  milestone?: string;
+  rename?: { from: string; to: string };
+  stateReason?: string;
+  commitId?: string;
+  source?: GitHubCrossReference;
+}
+
+export type GitHubTimelineItem = GitHubTimelineComment | GitHubTimelineEvent;
+
+/**
+ * Issue with everything its detail view shows: rendered body, reactions and timeline
+ */
+export interface GitHubIssueDetail {
+  issue: GitHubIssue;
+  bodyHtml: string;
+  reactions: GitHubReactions;
+  timeline: GitHubTimelineItem[];
+}
+
+/**
+ * Pull request that references an issue
+ */
+export interface GitHubPullRequestRef {
+  number: number;
+  title: string;
+  state: IssueState;
+  merged: boolean;
+  htmlUrl: string;
+  /** owner/repo of the pull request */
+  repository: string;
+}
+
+/**
+ * Pull request opened from a branch
+ */
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  state: IssueState;
+  draft: boolean;
+  htmlUrl: string;
+  /** Source branch name */
+  head: string;
+  /** Target branch name */
+  base: string;
+}
+
+/**
+ * Branch linked to an issue from its "Development" section
+ */
+export interface GitHubLinkedBranch {
+  issueNumber: number;
+  branch: string;
+}
+
+/**
+ * Result of a conditional request: unchanged since the given ETag, or new data
+ */
+export type ConditionalResult<T> = { modified: false } | { modified: true; data: T; etag?: string };
+
+/**
+ * Quota of one rate limit resource (core, search, graphql…), from the x-ratelimit-* headers
+ */
+export interface RateLimitInfo {
+  /** API host the quota belongs to, e.g. api.github.com */
+  host: string;
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  /** Epoch milliseconds at which the quota resets */
+  resetAt: number;
+}
+
+/**
+ * Filters for listing issues
+ */
+export interface ListIssuesOptions {
+  state?: StateFilter;
+  /** Milestone number, '*' for any milestone or 'none' for issues without one */
+  milestone?: number | '*' | 'none';
+  labels?: string[];
+  /** Username, '*' for any assignee or 'none' for unassigned issues */
+  assignee?: string;
+  /** Only issues updated at or after this ISO 8601 timestamp */
+  since?: string;
+}
+
+/**
+ * Filters for listing milestones
+ */
+export interface ListMilestonesOptions {
+  state?: StateFilter;
+}
+
+/**
+ * Fields accepted when creating an issue
+ */
+export interface CreateIssueInput {
+  title: string;
+  body?: string;
+  labels?: string[];
+  assignees?: string[];
+  milestone?: number;
+}
+
+/**
+ * Fields accepted when updating an issue
+ * A null milestone removes the issue from its milestone
+ */
+export interface UpdateIssueInput {
+  title?: string;
+  body?: string;
+  state?: IssueState;
+  stateReason?: 'completed' | 'not_planned' | 'reopened';
+  labels?: string[];
+  assignees?: string[];
+  milestone?: number | null;
+}
+
+/**
+ * Fields accepted when opening a pull request
+ */
+export interface CreatePullRequestInput {
+  title: string;
+  body: string;
+  /** Branch to merge, "owner:branch" for branches of a fork */
+  head: string;
+  base: string;
+  draft?: boolean;
+}
+
+/**
+ * Reviewers requested on a pull request
+ */
+export interface ReviewRequest {
+  /** User logins */
+  reviewers: string[];
+  /** Team slugs of the repository's organization */
+  teamReviewers: string[];
+}
+
+/**
+ * Fields accepted when creating a milestone
+ */
+export interface CreateMilestoneInput {
+  title: string;
+  description?: string;
+  dueOn?: string;
+}
+
+/**
+ * Fields accepted when updating a milestone
+ */
+export interface UpdateMilestoneInput {
+  title?: string;
+  description?: string;
+  dueOn?: string;
+  state?: IssueState;
+}
+
+/**
+ * Fields accepted when creating a label
+ */
+export interface CreateLabelInput {
+  name: string;
+  /** Hex color without the leading '#' */
+  color?: string;
+  description?: string;
+}
@@ -0,0 +1,281 @@
+import { Octokit } from '@octokit/rest';
+import { getGitHubAuthManager, SessionStatus } from './githubAuthManager';
+import { parseScopesHeader } from './githubScopes';
+import { getApiHost } from './githubHosts';
+import { getRepositoryService } from '../git/repositoryService';
+import { classifyGitHubError, SsoRequiredError } from '../api/githubErrors';
+import { formatRateLimit } from '../api/requestScheduler';
+import { RateLimitInfo, RepositoryRef } from '../api/types';
+
+/**
+ * Days before token expiry from which the expiry is reported as a warning
+ */
+const EXPIRY_WARNING_DAYS = 7;
+
+/**
+ * Share of a quota below which it is reported as a warning
+ */
+const LOW_QUOTA_RATIO = 0.1;
+
+/**
+ * Outcome of one diagnostic check
+ */
+export type CheckStatus = 'ok' | 'warning' | 'error';
+
+export interface DiagnosticCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+/**
+ * Result of diagnosing the session of a host or repository
+ */
+export interface AuthDiagnosis {
+  status: SessionStatus;
+  repository?: RepositoryRef;
+  checks: DiagnosticCheck[];
+  generatedAt: string;
+}
+
+type Headers = Record<string, string | number | undefined>;
+
+/**
+ * Check the session of a repository against the GitHub API
+ * Validates the token and reports its scopes, expiry, SSO authorization per
+ * organization, access to the repository and the rate limits. Requests that fail
+ * become failed checks instead of errors.
+ *
+ * @param repository Repository to check; the current one by default
+ */
+export async function diagnoseAuthentication(repository?: RepositoryRef): Promise<AuthDiagnosis> {
+  const authManager = getGitHubAuthManager();
+  const target = repository ?? getRepositoryService().getCurrentRepository();
+  const checks: DiagnosticCheck[] = [];
+  const generatedAt = new Date().toISOString();
+
+  // Refreshes the session first, unless the user signed out
+  await authManager.isAuthenticated(target);
+  const status = authManager.getSessionStatus(target);
+  checks.push(checkSession(status));
+
+  const octokit = status.account ? authManager.getOctokit(target) : undefined;
+  if (!octokit) {
+    return { status, repository: target, checks, generatedAt };
+  }
+
+  const headers = await checkToken(octokit, checks);
+  if (headers) {
+    checks.push(checkScopes(headers, status.requestedScopes));
+    checks.push(checkExpiry(headers));
+  }
+  checks.push(...(await checkOrganizations(octokit)));
+  if (target) {
+    checks.push(await checkRepository(octokit, target));
+  }
+  checks.push(...(await checkRateLimits(octokit, getApiHost(status.host))));
+
+  return { status, repository: target, checks, generatedAt };
+}
+
+function checkSession(status: SessionStatus): DiagnosticCheck {
+  const name = 'Session';
+  if (status.signedOut) {
+    return {
+      name,
+      status: 'warning',
+      detail: `Signed out of ${status.host} in this extension. Sign in to use it again.`,
+    };
+  }
+  if (!status.account) {
+    return {
+      name,
+      status: 'error',
+      detail: status.lastRefreshError
+        ? `Not signed in. The last session refresh failed: ${status.lastRefreshError}`
+        : `Not signed in to ${status.host}.`,
+    };
+  }
+
+  let detail = `Signed in as @${status.account.label} with the ${status.authProviderId} provider`;
+  if (status.chosenAccount) {
+    detail += ', chosen for this repository';
+  }
+  if (status.lastRefreshError) {
+    return {
+      name,
+      status: 'warning',
+      detail: `${detail}. The last session refresh failed: ${status.lastRefreshError}`,
+    };
+  }
+  return { name, status: 'ok', detail: `${detail}.` };
+}
+
+/**
+ * Validate the token by fetching its user
+ *
+ * @returns Headers of the response, or undefined when the token was rejected
+ */
+async function checkToken(
+  octokit: Octokit,
+  checks: DiagnosticCheck[]
+): Promise<Headers | undefined> {
+  try {
+    const response = await octokit.rest.users.getAuthenticated();
+    checks.push({ name: 'Token', status: 'ok', detail: `Valid for @${response.data.login}.` });
+    return response.headers as Headers;
+  } catch (error) {
+    checks.push({ name: 'Token', status: 'error', detail: describeError(error) });
+    return undefined;
+  }
+}
+
+function checkScopes(headers: Headers, requestedScopes: string[]): DiagnosticCheck {
+  const granted = parseScopesHeader(headers['x-oauth-scopes']);
+  if (granted === undefined) {
+    return {
+      name: 'Scopes',
+      status: 'ok',
+      detail: 'Not reported. Fine-grained tokens and GitHub Apps use permissions instead.',
+    };
+  }
+  const requested = requestedScopes.length > 0 ? requestedScopes.join(', ') : 'none';
+  return {
+    name: 'Scopes',
+    status: 'ok',
+    detail: `Granted: ${granted.length > 0 ? granted.join(', ') : 'none'} (requested: ${requested}).`,
+  };
+}
+
+function checkExpiry(headers: Headers): DiagnosticCheck {
+  const expiration = headers['github-authentication-token-expiration'];
+  if (expiration === undefined) {
+    return { name: 'Token expiry', status: 'ok', detail: 'The token does not expire.' };
+  }
+
+  const expiresAt = new Date(String(expiration).replace(' UTC', 'Z').replace(' ', 'T'));
+  const daysLeft = (expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+  return {
+    name: 'Token expiry',
+    status: daysLeft < EXPIRY_WARNING_DAYS ? 'warning' : 'ok',
+    detail: `Expires ${Number.isNaN(daysLeft) ? expiration : expiresAt.toISOString()}.`,
+  };
+}
+
+/**
+ * SSO authorization of the token for each organization of the user
+ * GitHub leaves out organizations the token is not authorized for and lists their ids
+ * in the x-github-sso header.
+ */
+async function checkOrganizations(octokit: Octokit): Promise<DiagnosticCheck[]> {
+  try {
+    const response = await octokit.rest.orgs.listForAuthenticatedUser({ per_page: 100 });
+    const checks: DiagnosticCheck[] = response.data.map(org => ({
+      name: `Organization ${org.login}`,
+      status: 'ok',
+      detail: 'Accessible; SSO authorized or not required.',
+    }));
+
+    const sso = String((response.headers as Headers)['x-github-sso'] ?? '');
+    const unauthorized = /organizations=([\d,]+)/.exec(sso)?.[1].split(',') ?? [];
+    for (const id of unauthorized) {
+      checks.push({
+        name: `Organization #${id}`,
+        status: 'warning',
+        detail: 'Requires SSO authorization of the token.',
+      });
+    }
+
+    if (checks.length === 0) {
+      checks.push({
+        name: 'Organizations',
+        status: 'ok',
+        detail: 'None visible. Listing private memberships needs the read:org scope.',
+      });
+    }
+    return checks;
+  } catch (error) {
+    return [{ name: 'Organizations', status: 'warning', detail: describeError(error) }];
+  }
+}
+
+async function checkRepository(
+  octokit: Octokit,
+  repository: RepositoryRef
+): Promise<DiagnosticCheck> {
+  const name = `Repository ${repository.owner}/${repository.repo}`;
+  try {
+    const { data } = await octokit.rest.repos.get({
+      owner: repository.owner,
+      repo: repository.repo,
+    });
+    const access = data.permissions?.push ? 'Read and write' : 'Read-only';
+    return {
+      name,
+      status: 'ok',
+      detail: `${access} access to this ${data.private ? 'private' : 'public'} repository.`,
+    };
+  } catch (error) {
+    return { name, status: 'error', detail: describeError(error) };
+  }
+}
+
+async function checkRateLimits(octokit: Octokit, host: string): Promise<DiagnosticCheck[]> {
+  try {
+    // Does not count against the rate limit
+    const { data } = await octokit.rest.rateLimit.get();
+    return Object.entries(data.resources)
+      .filter(([resource]) => ['core', 'search', 'graphql'].includes(resource))
+      .map(([resource, quota]) => {
+        const info: RateLimitInfo = {
+          host,
+          resource,
+          limit: quota?.limit ?? 0,
+          remaining: quota?.remaining ?? 0,
+          used: quota?.used ?? 0,
+          resetAt: (quota?.reset ?? 0) * 1000,
+        };
+        return {
+          name: `Rate limit (${resource})`,
+          status: info.remaining < info.limit * LOW_QUOTA_RATIO ? 'warning' : 'ok',
+          detail: `${formatRateLimit(info)}.`,
+        };
+      });
+  } catch (error) {
+    return [{ name: 'Rate limit', status: 'warning', detail: describeError(error) }];
+  }
+}
+
+function describeError(error: unknown): string {
+  const classified = classifyGitHubError(error);
+  if (classified instanceof SsoRequiredError && classified.authorizationUrl) {
+    return `${classified.message} Authorize it at ${classified.authorizationUrl}`;
+  }
+  return classified?.message ?? (error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Render a diagnosis as a Markdown report
+ */
+export function formatAuthDiagnosis(diagnosis: AuthDiagnosis): string {
+  const icons: Record<CheckStatus, string> = { ok: '✅', warning: '⚠️', error: '❌' };
+  const { status, repository } = diagnosis;
+
+  const lines = [
+    '# GitHub Authentication Diagnosis',
+    '',
+    `- Host: ${status.host}`,
+    `- Account: ${status.account ? `@${status.account.label}` : 'not signed in'}`,
+  ];
+  if (repository) {
+    lines.push(`- Repository: ${repository.owner}/${repository.repo}`);
+  }
+  lines.push(`- Generated: ${diagnosis.generatedAt}`, '', '| Check | Status | Details |');
+  lines.push('| --- | --- | --- |');
+  for (const check of diagnosis.checks) {
+    lines.push(
+      `| ${check.name} | ${icons[check.status]} | ${check.detail.replace(/\|/g, '\\|')} |`
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -1,30 +1,139 @@
 import * as vscode from 'vscode';
 import { Octokit } from '@octokit/rest';
 import { getLogger } from '../utils/logger';
+import { getRequestScheduler } from '../api/requestScheduler';
+import { getRepositoryService } from '../git/repositoryService';
+import { normalizeHost } from '../git/remoteUrl';
+import { RepositoryRef } from '../api/types';
+import {
+  getEnterpriseUrl,
+  GitHubAuthProviderId,
+  GitHubHost,
+  GITHUB_COM_HOST,
+  resolveGitHubHost,
+} from './githubHosts';
+import {
+  getCapabilityReason,
+  getCapabilityScopes,
+  GitHubCapability,
+  hasScopes,
+  LEGACY_SCOPES,
+  mergeScopes,
+  parseScopesHeader,
+} from './githubScopes';
 
 /**
- * GitHub OAuth scopes required for the extension
- * Using minimal scopes following principle of least privilege
+ * Global state key for the OAuth scopes requested per host
+ * Sessions start with the scopes of read-only browsing and grow as features need more,
+ * following the principle of least privilege.
  */
-const GITHUB_SCOPES = ['repo', 'read:org'];
+const REQUESTED_SCOPES_KEY = 'gitissueBridge.requestedScopes';
+
+/**
+ * Global state key for hosts the user signed out of in this extension
+ * VS Code keeps the session for other extensions, so it must not be picked up silently again.
+ */
+const SIGNED_OUT_HOSTS_KEY = 'gitissueBridge.signedOutHosts';
+
+/**
+ * Button of the prompt that asks for more scopes
+ */
+const GRANT_ACCESS = 'Grant Access';
+
+/**
+ * Workspace state key for the account chosen per repository
+ */
+const REPOSITORY_ACCOUNTS_KEY = 'gitissueBridge.repositoryAccounts';
+
+/**
+ * Accounts chosen per repository, keyed by host/owner/repo
+ */
+type StoredRepositoryAccounts = Record<string, vscode.AuthenticationSessionAccountInformation>;
+
+/**
+ * Scopes requested per host
+ */
+type StoredRequestedScopes = Record<string, string[]>;
+
+/**
+ * A GitHub host, or a repository whose chosen account is used
+ */
+export type AccountScope = string | RepositoryRef;
+
+/**
+ * Session of one account on a GitHub host with its API client
+ */
+interface HostSession {
+  target: GitHubHost;
+  session: vscode.AuthenticationSession;
+  octokit: Octokit;
+}
+
+/**
+ * Sign-in state of a host or repository
+ */
+export interface SessionStatus {
+  host: string;
+  authProviderId: GitHubAuthProviderId;
+  /** Account in use, if signed in */
+  account?: vscode.AuthenticationSessionAccountInformation;
+  /** Account chosen for the repository, if any */
+  chosenAccount?: vscode.AuthenticationSessionAccountInformation;
+  /** Whether the user signed out of the host in this extension */
+  signedOut: boolean;
+  requestedScopes: string[];
+  lastRefreshError?: string;
+}
+
+/**
+ * Host and account a scope resolves to
+ */
+interface ResolvedScope {
+  target: GitHubHost;
+  repository?: RepositoryRef;
+  /** Account chosen for the repository; the host's default account when undefined */
+  account?: vscode.AuthenticationSessionAccountInformation;
+}
 
 /**
  * GitHub Authentication Manager
  * Handles secure OAuth authentication using VS Code's built-in Authentication API
  * Implements singleton pattern and follows zero-trust principles
+ *
+ * Sessions are kept per host and account: github.com signs in with the `github`
+ * provider, GitHub Enterprise with `github-enterprise`. Each repository can use its own
+ * account, remembered in the workspace state; other repositories use the account VS Code
+ * returns for the host. Methods default to the current repository.
  */
 export class GitHubAuthManager {
   private static instance: GitHubAuthManager;
-  private logger = getLogger();
-  private currentSession: vscode.AuthenticationSession | undefined;
-  private octokit: Octokit | undefined;
+  private logger = getLogger().child('Authentication');
+  private workspaceState: vscode.Memento | undefined;
+  private globalState: vscode.Memento | undefined;
+  /** Sessions keyed by host and account id */
+  private sessions = new Map<string, HostSession>();
+  /** Account id of the session VS Code returns for a host without an account choice */
+  private defaultAccounts = new Map<string, string>();
+  /** Scopes reported by the x-oauth-scopes header, keyed like sessions */
+  private grantedScopes = new Map<string, string[]>();
+  private signedOutHosts = new Set<string>();
+  /** Last failure to refresh the session of a host, kept for diagnostics */
+  private refreshErrors = new Map<string, string>();
+  private readonly onDidChangeSessionEmitter = new vscode.EventEmitter<
+    vscode.AuthenticationSession | undefined
+  >();
+
+  /**
+   * Fired when the extension signs in, signs out, switches accounts or the session changes externally
+   */
+  public readonly onDidChangeSession = this.onDidChangeSessionEmitter.event;
 
   private constructor() {
     // Listen for authentication session changes
     vscode.authentication.onDidChangeSessions(async (e) => {
-      if (e.provider.id === 'github') {
-        this.logger.info('GitHub authentication session changed');
-        await this.refreshSession();
+      if (e.provider.id === 'github' || e.provider.id === 'github-enterprise') {
+        this.logger.info(`GitHub authentication session changed (${e.provider.id})`);
+        await this.refreshSessions(e.provider.id);
       }
     });
   }
@@ -40,63 +149,371 @@ export class GitHubAuthManager {
   }
 
   /**
-   * Refresh session from VS Code's authentication provider
+   * Restore the accounts chosen per repository, the scopes requested per host and
+   * the hosts signed out of
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    this.workspaceState = context.workspaceState;
+    this.globalState = context.globalState;
+    this.signedOutHosts = new Set(this.globalState.get<string[]>(SIGNED_OUT_HOSTS_KEY, []));
+  }
+
+  /**
+   * Create an Octokit client whose requests go through the rate-limit aware scheduler
+   * and whose responses report the scopes the token really has
+   */
+  private createOctokit(session: vscode.AuthenticationSession, target: GitHubHost): Octokit {
+    const octokit = new Octokit({ auth: session.accessToken, baseUrl: target.apiBaseUrl });
+    getRequestScheduler().install(octokit);
+    octokit.hook.after('request', response => {
+      const granted = parseScopesHeader(response.headers['x-oauth-scopes']);
+      if (granted) {
+        this.grantedScopes.set(sessionKey(target, session.account.id), granted);
+      }
+    });
+    return octokit;
+  }
+
+  /**
+   * Host whose account is used when no host is given: the current repository's host
+   */
+  public getActiveHost(): string {
+    return getRepositoryService().getCurrentRepository()?.host ?? GITHUB_COM_HOST;
+  }
+
+  /**
+   * Hosts with a session
+   */
+  public getSignedInHosts(): string[] {
+    return [...new Set([...this.sessions.values()].map(({ target }) => target.host))];
+  }
+
+  /**
+   * Account used for a host or repository, if signed in
+   */
+  public getAccount(
+    scope?: AccountScope
+  ): vscode.AuthenticationSessionAccountInformation | undefined {
+    return this.findSession(this.resolveScope(scope))?.session.account;
+  }
+
+  /**
+   * Resolve a scope to its host and the account chosen for it
+   * No scope means the current repository, or github.com without one.
+   */
+  private resolveScope(scope?: AccountScope): ResolvedScope {
+    const repository =
+      scope === undefined
+        ? getRepositoryService().getCurrentRepository()
+        : typeof scope === 'string'
+          ? undefined
+          : scope;
+    const host = typeof scope === 'string' ? scope : (repository?.host ?? this.getActiveHost());
+    const target = resolveGitHubHost(host);
+    const account = repository
+      ? this.workspaceState?.get<StoredRepositoryAccounts>(REPOSITORY_ACCOUNTS_KEY)?.[
+          repositoryKey(target, repository)
+        ]
+      : undefined;
+    return { target, repository, account };
+  }
+
+  private findSession({ target, account }: ResolvedScope): HostSession | undefined {
+    const accountId = account?.id ?? this.defaultAccounts.get(target.host);
+    return accountId ? this.sessions.get(sessionKey(target, accountId)) : undefined;
+  }
+
+  /**
+   * Refresh sessions of a provider from VS Code's authentication provider
    * Called after session changes
    */
-  private async refreshSession(): Promise<void> {
-    try {
-      // Try to get existing session without creating a new one
-      this.currentSession = await vscode.authentication.getSession('github', GITHUB_SCOPES, {
-        createIfNone: false,
-      });
+  private async refreshSessions(providerId: string): Promise<void> {
+    const checks: Omit<ResolvedScope, 'repository'>[] = [...this.sessions.values()]
+      .filter(({ target }) => target.authProviderId === providerId)
+      .map(({ target, session }) => ({ target, account: session.account }));
+    const active = this.resolveScope();
+    if (
+      active.target.authProviderId === providerId &&
+      !this.findSession(active) &&
+      !this.signedOutHosts.has(active.target.host)
+    ) {
+      checks.push(active);
+    }
 
-      if (this.currentSession) {
-        this.octokit = new Octokit({ auth: this.currentSession.accessToken });
-        this.logger.debug('Session refreshed successfully');
-      } else {
-        this.octokit = undefined;
-        this.logger.debug('No active session found');
+    for (const { target, account } of checks) {
+      try {
+        // Try to get existing session without creating a new one
+        const session = await this.getSession(
+          target,
+          { createIfNone: false, silent: true },
+          account
+        );
+        this.refreshErrors.delete(target.host);
+        if (session) {
+          this.storeSession(target, session, !account || this.isDefaultAccount(target, account));
+        } else if (account) {
+          this.removeSession(target, account);
+        }
+        this.logger.debug(
+          session
+            ? `Session refreshed for ${target.host}`
+            : `No active session found for ${target.host}`
+        );
+      } catch (error) {
+        this.logger.error(`Failed to refresh session for ${target.host}`, error);
+        this.refreshErrors.set(
+          target.host,
+          error instanceof Error ? error.message : String(error)
+        );
+        if (account) {
+          this.removeSession(target, account);
+        }
       }
+    }
+
+    this.onDidChangeSessionEmitter.fire(this.findSession(this.resolveScope())?.session);
+  }
+
+  /**
+   * Get a session from the auth provider of a host
+   *
+   * @param account Account to get the session of; the provider's preferred account by default
+   * @param scopes Scopes of the session; the ones requested for the host so far by default
+   */
+  private async getSession(
+    target: GitHubHost,
+    options: vscode.AuthenticationGetSessionOptions,
+    account?: vscode.AuthenticationSessionAccountInformation,
+    scopes = this.getRequestedScopes(target)
+  ): Promise<vscode.AuthenticationSession | undefined> {
+    if (
+      target.authProviderId === 'github-enterprise' &&
+      !(await this.ensureEnterpriseUri(target, !!options.createIfNone))
+    ) {
+      return undefined;
+    }
+    return vscode.authentication.getSession(
+      target.authProviderId,
+      scopes,
+      account ? { ...options, account } : options
+    );
+  }
+
+  /**
+   * Check that VS Code's GitHub Enterprise sign-in points at the host
+   * The built-in provider serves one server, configured by `github-enterprise.uri`;
+   * interactive sign-ins set it when it is empty.
+   *
+   * @returns Whether the provider can be asked for a session of the host
+   */
+  private async ensureEnterpriseUri(target: GitHubHost, interactive: boolean): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('github-enterprise');
+    const uri = config.get<string>('uri', '');
+    if (uri && normalizeHost(uri) === target.host) {
+      return true;
+    }
+    if (!interactive) {
+      return false;
+    }
+    if (uri) {
+      void vscode.window.showErrorMessage(
+        `GitHub Enterprise sign-in is configured for ${normalizeHost(uri)}. ` +
+          `Set "github-enterprise.uri" to ${target.webUrl} to use ${target.host}.`
+      );
+      return false;
+    }
+
+    this.logger.info(`Setting github-enterprise.uri to ${target.webUrl}`);
+    await config.update('uri', target.webUrl, vscode.ConfigurationTarget.Global);
+    return true;
+  }
+
+  /**
+   * Accounts signed in to the auth provider of a host
+   */
+  private async getAccounts(
+    target: GitHubHost
+  ): Promise<readonly vscode.AuthenticationSessionAccountInformation[]> {
+    if (
+      target.authProviderId === 'github-enterprise' &&
+      !(await this.ensureEnterpriseUri(target, false))
+    ) {
+      return [];
+    }
+    try {
+      return await vscode.authentication.getAccounts(target.authProviderId);
     } catch (error) {
-      this.logger.error('Failed to refresh session', error);
-      this.currentSession = undefined;
-      this.octokit = undefined;
+      this.logger.debug(`Failed to list accounts for ${target.host}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Keep a session and its client
+   *
+   * @param isDefault Whether it is the session used for the host without an account choice
+   */
+  private storeSession(
+    target: GitHubHost,
+    session: vscode.AuthenticationSession,
+    isDefault: boolean
+  ): void {
+    const key = sessionKey(target, session.account.id);
+    if (this.sessions.get(key)?.session.accessToken !== session.accessToken) {
+      this.sessions.set(key, { target, session, octokit: this.createOctokit(session, target) });
+      this.grantedScopes.delete(key);
+    }
+    if (isDefault) {
+      this.defaultAccounts.set(target.host, session.account.id);
+    }
+  }
+
+  private removeSession(
+    target: GitHubHost,
+    account: vscode.AuthenticationSessionAccountInformation
+  ): void {
+    this.sessions.delete(sessionKey(target, account.id));
+    this.grantedScopes.delete(sessionKey(target, account.id));
+    if (this.isDefaultAccount(target, account)) {
+      this.defaultAccounts.delete(target.host);
     }
   }
 
+  private isDefaultAccount(
+    target: GitHubHost,
+    account: vscode.AuthenticationSessionAccountInformation
+  ): boolean {
+    return this.defaultAccounts.get(target.host) === account.id;
+  }
+
+  /**
+   * Record whether the user signed out of a host in this extension
+   */
+  private async setSignedOut(target: GitHubHost, signedOut: boolean): Promise<void> {
+    if (this.signedOutHosts.has(target.host) === signedOut) {
+      return;
+    }
+    if (signedOut) {
+      this.signedOutHosts.add(target.host);
+    } else {
+      this.signedOutHosts.delete(target.host);
+    }
+    await this.globalState?.update(SIGNED_OUT_HOSTS_KEY, [...this.signedOutHosts]);
+  }
+
+  /**
+   * Scopes requested for a host so far, starting with those of read-only browsing
+   */
+  private getRequestedScopes(target: GitHubHost): string[] {
+    return (
+      this.globalState?.get<StoredRequestedScopes>(REQUESTED_SCOPES_KEY)?.[target.host] ??
+      getCapabilityScopes('read')
+    );
+  }
+
+  private async storeRequestedScopes(target: GitHubHost, scopes: string[]): Promise<void> {
+    const stored = {
+      ...this.globalState?.get<StoredRequestedScopes>(REQUESTED_SCOPES_KEY),
+      [target.host]: scopes,
+    };
+    await this.globalState?.update(REQUESTED_SCOPES_KEY, stored);
+  }
+
+  /**
+   * Find an existing session without prompting
+   * Without requested scopes on record, sessions of earlier versions, which always
+   * requested the legacy scopes, are looked up too.
+   */
+  private async findExistingSession(
+    target: GitHubHost,
+    account?: vscode.AuthenticationSessionAccountInformation
+  ): Promise<vscode.AuthenticationSession | undefined> {
+    const stored = this.globalState?.get<StoredRequestedScopes>(REQUESTED_SCOPES_KEY)?.[
+      target.host
+    ];
+    const candidates = stored ? [stored] : [getCapabilityScopes('read'), LEGACY_SCOPES];
+
+    for (const scopes of candidates) {
+      const session = await this.getSession(
+        target,
+        {
+          createIfNone: false,
+          silent: true,
+        },
+        account,
+        scopes
+      );
+      if (session) {
+        if (!stored) {
+          await this.storeRequestedScopes(target, scopes);
+        }
+        return session;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Remember the account to use for a repository
+   */
+  private async rememberAccount(
+    target: GitHubHost,
+    repository: RepositoryRef,
+    account: vscode.AuthenticationSessionAccountInformation
+  ): Promise<void> {
+    const stored = {
+      ...this.workspaceState?.get<StoredRepositoryAccounts>(REPOSITORY_ACCOUNTS_KEY),
+      [repositoryKey(target, repository)]: { id: account.id, label: account.label },
+    };
+    await this.workspaceState?.update(REPOSITORY_ACCOUNTS_KEY, stored);
+  }
+
   /**
    * Authenticate with GitHub using OAuth
    * Opens browser for user to complete OAuth flow
    * 
+   * @param scope Host or repository to sign in for, the current repository by default
+   * @param switchAccount Let the user pick another account than the remembered one
    * @returns Promise<boolean> - true if authentication successful, false otherwise
    */
-  public async authenticate(): Promise<boolean> {
+  public async authenticate(scope?: AccountScope, switchAccount = false): Promise<boolean> {
+    const resolved = this.resolveScope(scope);
+    const { target } = resolved;
+    // A switch lets the user pick any account, which then replaces the repository's choice
+    const account = switchAccount ? undefined : resolved.account;
+    // After signing out, signing in again also offers other accounts
+    const pickAccount = switchAccount || this.signedOutHosts.has(target.host);
     try {
-      this.logger.info('Initiating GitHub OAuth authentication');
+      this.logger.info(`Initiating GitHub OAuth authentication for ${target.host}`);
 
       // Request authentication session, creating one if needed
-      const session = await vscode.authentication.getSession('github', GITHUB_SCOPES, {
-        createIfNone: true,
-      });
+      const session = await this.getSession(
+        target,
+        pickAccount ? { createIfNone: true, clearSessionPreference: true } : { createIfNone: true },
+        account
+      );
 
       if (!session) {
         this.logger.warn('Authentication cancelled by user');
         return false;
       }
 
-      this.currentSession = session;
-      this.octokit = new Octokit({ auth: session.accessToken });
+      this.storeSession(target, session, !resolved.account);
+      await this.setSignedOut(target, false);
+      if (switchAccount && resolved.repository && resolved.account) {
+        await this.rememberAccount(target, resolved.repository, session.account);
+      }
 
       this.logger.info('GitHub authentication successful', {
+        host: target.host,
         accountLabel: session.account.label,
         scopes: session.scopes,
       });
+      this.onDidChangeSessionEmitter.fire(session);
 
       return true;
     } catch (error) {
       this.logger.error('GitHub authentication failed', error);
-      this.currentSession = undefined;
-      this.octokit = undefined;
       return false;
     }
   }
@@ -107,21 +524,27 @@ export class GitHubAuthManager {
    * 
    * @returns Promise<boolean> - true if authenticated, false otherwise
    */
-  public async isAuthenticated(): Promise<boolean> {
+  public async isAuthenticated(scope?: AccountScope): Promise<boolean> {
+    const resolved = this.resolveScope(scope);
+    const { target, account } = resolved;
+    if (this.signedOutHosts.has(target.host)) {
+      this.logger.debug(`Signed out of ${target.host}; not looking up its session`);
+      return false;
+    }
     try {
       // Check for existing session without prompting
-      const session = await vscode.authentication.getSession('github', GITHUB_SCOPES, {
-        createIfNone: false,
-        silent: true,
-      });
+      const session = await this.findExistingSession(target, account);
 
       const isAuth = !!session;
-      this.logger.debug(`Authentication status: ${isAuth ? 'authenticated' : 'not authenticated'}`);
+      this.logger.debug(
+        `Authentication status for ${target.host}: ${isAuth ? 'authenticated' : 'not authenticated'}`
+      );
 
-      if (session && !this.currentSession) {
-        // Update cached session if we found one
-        this.currentSession = session;
-        this.octokit = new Octokit({ auth: session.accessToken });
+      if (session) {
+        // Update cached session if we found a new one
+        this.storeSession(target, session, !account);
+      } else if (account) {
+        this.removeSession(target, account);
       }
 
       return isAuth;
@@ -137,8 +560,8 @@ export class GitHubAuthManager {
    * 
    * @returns Promise<boolean> - true if authenticated (or user completes auth), false otherwise
    */
-  public async ensureAuthenticated(): Promise<boolean> {
-    const isAuth = await this.isAuthenticated();
+  public async ensureAuthenticated(scope?: AccountScope): Promise<boolean> {
+    const isAuth = await this.isAuthenticated(scope);
 
     if (isAuth) {
       this.logger.debug('User already authenticated');
@@ -146,7 +569,7 @@ export class GitHubAuthManager {
     }
 
     this.logger.info('User not authenticated, prompting for authentication');
-    return await this.authenticate();
+    return await this.authenticate(scope);
   }
 
   /**
@@ -155,11 +578,15 @@ export class GitHubAuthManager {
    * 
    * @returns Octokit instance or undefined
    */
-  public getOctokit(): Octokit | undefined {
-    if (!this.octokit) {
-      this.logger.warn('Attempted to get Octokit instance while not authenticated');
+  public getOctokit(scope?: AccountScope): Octokit | undefined {
+    const resolved = this.resolveScope(scope);
+    const octokit = this.findSession(resolved)?.octokit;
+    if (!octokit) {
+      this.logger.warn(
+        `Attempted to get Octokit instance while not authenticated to ${resolved.target.host}`
+      );
     }
-    return this.octokit;
+    return octokit;
   }
 
   /**
@@ -168,40 +595,211 @@ export class GitHubAuthManager {
    * 
    * @returns Promise<string | undefined> - GitHub username or undefined
    */
-  public async getUsername(): Promise<string | undefined> {
-    if (!this.currentSession) {
+  public async getUsername(scope?: AccountScope): Promise<string | undefined> {
+    const hostSession = this.findSession(this.resolveScope(scope));
+    if (!hostSession) {
       this.logger.warn('Attempted to get username while not authenticated');
       return undefined;
     }
 
-    return this.currentSession.account.label;
+    return hostSession.session.account.label;
+  }
+
+  /**
+   * OAuth scopes of the token used for a host or repository
+   * Prefers the x-oauth-scopes header of the latest response over the requested scopes.
+   */
+  public getGrantedScopes(scope?: AccountScope): string[] {
+    const hostSession = this.findSession(this.resolveScope(scope));
+    if (!hostSession) {
+      return [];
+    }
+    const key = sessionKey(hostSession.target, hostSession.session.account.id);
+    return this.grantedScopes.get(key) ?? [...hostSession.session.scopes];
+  }
+
+  /**
+   * Make sure the token of a host or repository has the scopes of a capability
+   * Explains why missing scopes are needed and asks VS Code for them once the user agrees.
+   *
+   * @returns true if the scopes are granted, false if not signed in or the user declined
+   */
+  public async requestCapability(
+    capability: GitHubCapability,
+    scope?: AccountScope
+  ): Promise<boolean> {
+    const resolved = this.resolveScope(scope);
+    if (!this.findSession(resolved)) {
+      return false;
+    }
+    const required = getCapabilityScopes(capability);
+    if (hasScopes(this.getGrantedScopes(scope), required)) {
+      return true;
+    }
+
+    this.logger.info(`Capability ${capability} needs scopes ${required.join(', ')}`);
+    const choice = await vscode.window.showInformationMessage(
+      `GitIssue Bridge needs the ${required.join(', ')} scope on ${resolved.target.host} ` +
+        `to ${getCapabilityReason(capability)}.`,
+      GRANT_ACCESS
+    );
+    if (choice !== GRANT_ACCESS) {
+      this.logger.info(`Scope upgrade for ${capability} declined`);
+      return false;
+    }
+    return this.upgradeScopes(required, scope);
+  }
+
+  /**
+   * Ask VS Code for a session with more scopes, keeping the account
+   * VS Code shows its consent dialog; the session replaces the previous one.
+   *
+   * @returns true if the scopes were granted, false if cancelled or failed
+   */
+  public async upgradeScopes(required: string[], scope?: AccountScope): Promise<boolean> {
+    const resolved = this.resolveScope(scope);
+    const { target } = resolved;
+    const account = resolved.account ?? this.findSession(resolved)?.session.account;
+    const scopes = mergeScopes(this.getRequestedScopes(target), required);
+    try {
+      this.logger.info(`Requesting scopes ${scopes.join(', ')} for ${target.host}`);
+      const session = await this.getSession(target, { createIfNone: true }, account, scopes);
+      if (!session) {
+        this.logger.warn('Scope upgrade cancelled by user');
+        return false;
+      }
+
+      await this.storeRequestedScopes(target, scopes);
+      this.storeSession(target, session, !resolved.account);
+      await this.setSignedOut(target, false);
+      this.onDidChangeSessionEmitter.fire(session);
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to upgrade GitHub scopes', error);
+      return false;
+    }
+  }
+
+  /**
+   * Let the user pick the GitHub account for the current repository
+   * Lists the accounts signed in to VS Code for github.com, the configured Enterprise
+   * Server and the hosts of workspace repositories. The choice is remembered for the
+   * repository; picking an account of another host makes the first repository on that
+   * host current.
+   *
+   * @returns true if the user picked or signed in to an account, false if cancelled or failed
+   */
+  public async switchAccount(): Promise<boolean> {
+    const repositoryService = getRepositoryService();
+    const repositories = repositoryService.getRepositories();
+    const current = repositoryService.getCurrentRepository();
+    const enterpriseUrl = getEnterpriseUrl();
+    const hosts = new Set([
+      current?.host ?? GITHUB_COM_HOST,
+      GITHUB_COM_HOST,
+      ...(enterpriseUrl ? [normalizeHost(enterpriseUrl)] : []),
+      ...repositories.map(repository => repository.host),
+      ...this.getSignedInHosts(),
+    ]);
+    const activeAccount = this.getAccount();
+
+    type AccountItem = vscode.QuickPickItem & {
+      target?: GitHubHost;
+      account?: vscode.AuthenticationSessionAccountInformation;
+    };
+    const items: AccountItem[] = [];
+    for (const host of hosts) {
+      const target = resolveGitHubHost(host);
+      items.push({ label: host, kind: vscode.QuickPickItemKind.Separator });
+      for (const account of await this.getAccounts(target)) {
+        const isActive = host === this.getActiveHost() && account.id === activeAccount?.id;
+        items.push({
+          label: `$(account) ${account.label}`,
+          description: isActive ? 'Current' : undefined,
+          target,
+          account,
+        });
+      }
+      items.push({ label: '$(add) Sign in with another account…', description: host, target });
+    }
+
+    const selection = await vscode.window.showQuickPick(items, {
+      placeHolder: current
+        ? `Select the GitHub account for ${current.owner}/${current.repo}`
+        : 'Select the GitHub account to use',
+    });
+    if (!selection?.target) {
+      return false;
+    }
+
+    const { target, account } = selection;
+    try {
+      const session = await this.getSession(
+        target,
+        account ? { createIfNone: true } : { createIfNone: true, clearSessionPreference: true },
+        account
+      );
+      if (!session) {
+        this.logger.warn('Account switch cancelled by user');
+        return false;
+      }
+
+      const repository =
+        current?.host === target.host
+          ? current
+          : repositories.find(candidate => candidate.host === target.host);
+      this.storeSession(target, session, !repository);
+      await this.setSignedOut(target, false);
+      if (repository) {
+        await this.rememberAccount(target, repository, session.account);
+        if (repository !== current) {
+          await repositoryService.setCurrentRepository(repository);
+        }
+      }
+
+      this.logger.info(`Switched to GitHub account ${session.account.label} on ${target.host}`);
+      this.onDidChangeSessionEmitter.fire(session);
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to switch GitHub account', error);
+      return false;
+    }
   }
 
   /**
    * Logout from GitHub
-   * Removes authentication session
+   * Stops using every session of the host in this extension until the user signs in again.
+   * VS Code keeps the sessions for other extensions; they can be removed from its
+   * Accounts menu.
    * 
    * @returns Promise<boolean> - true if logout successful, false otherwise
    */
-  public async logout(): Promise<boolean> {
+  public async logout(scope?: AccountScope): Promise<boolean> {
+    const { target } = this.resolveScope(scope);
     try {
-      if (!this.currentSession) {
-        this.logger.info('No active session to logout from');
-        return true;
-      }
-
-      this.logger.info('Logging out from GitHub');
+      this.logger.info(`Logging out from GitHub (${target.host})`);
 
-      // VS Code doesn't expose removeSession directly, but we can get a fresh session
-      // and the user can manage sessions through VS Code's account menu
-      // For now, we just clear our cached data
-      const username = this.currentSession.account.label;
-      this.currentSession = undefined;
-      this.octokit = undefined;
+      const accounts: string[] = [];
+      for (const [key, hostSession] of this.sessions) {
+        if (hostSession.target.host === target.host) {
+          accounts.push(hostSession.session.account.label);
+          this.sessions.delete(key);
+          this.grantedScopes.delete(key);
+        }
+      }
+      this.defaultAccounts.delete(target.host);
+      // Remembered, so isAuthenticated does not pick the session up again silently
+      await this.setSignedOut(target, true);
+      this.onDidChangeSessionEmitter.fire(undefined);
 
-      this.logger.info(`Logged out from GitHub (${username})`);
+      this.logger.info(
+        accounts.length > 0
+          ? `Logged out from GitHub (${accounts.join(', ')} on ${target.host})`
+          : `No active session on ${target.host}; marked as signed out`
+      );
       await vscode.window.showInformationMessage(
-        `Logged out from GitHub. To completely remove the session, use VS Code's account menu.`
+        `Logged out from GitHub (${target.host}) in GitIssue Bridge. ` +
+          `To remove the session from VS Code as well, use its Accounts menu.`
       );
 
       return true;
@@ -210,6 +808,32 @@ export class GitHubAuthManager {
       return false;
     }
   }
+
+  /**
+   * Sign-in state of a host or repository, for diagnostics
+   */
+  public getSessionStatus(scope?: AccountScope): SessionStatus {
+    const resolved = this.resolveScope(scope);
+    const { target } = resolved;
+    const hostSession = this.findSession(resolved);
+    return {
+      host: target.host,
+      authProviderId: target.authProviderId,
+      account: hostSession?.session.account,
+      chosenAccount: resolved.account,
+      signedOut: this.signedOutHosts.has(target.host),
+      requestedScopes: this.getRequestedScopes(target),
+      lastRefreshError: this.refreshErrors.get(target.host),
+    };
+  }
+}
+
+function sessionKey(target: GitHubHost, accountId: string): string {
+  return `${target.host}\n${accountId}`;
+}
+
+function repositoryKey(target: GitHubHost, repository: RepositoryRef): string {
+  return `${target.host}/${repository.owner}/${repository.repo}`.toLowerCase();
 }
 
 /**
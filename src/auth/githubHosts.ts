@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { normalizeHost } from '../git/remoteUrl';
+
+/**
+ * Host of github.com, used when no repository tells otherwise
+ */
+export const GITHUB_COM_HOST = 'github.com';
+
+/**
+ * VS Code authentication providers for github.com and for GitHub Enterprise
+ */
+export type GitHubAuthProviderId = 'github' | 'github-enterprise';
+
+/**
+ * How to sign in to and call the API of one GitHub host
+ */
+export interface GitHubHost {
+  host: string;
+  authProviderId: GitHubAuthProviderId;
+  /** Root of the REST API, e.g. https://api.github.com or https://ghe.example.com/api/v3 */
+  apiBaseUrl: string;
+  /** Web root, e.g. https://ghe.example.com */
+  webUrl: string;
+}
+
+/**
+ * GitHub Enterprise Server URL from the settings, e.g. https://github.example.com
+ */
+export function getEnterpriseUrl(): string | undefined {
+  const value = vscode.workspace
+    .getConfiguration('gitissueBridge')
+    .get<string>('enterpriseUrl', '')
+    .trim();
+  return value ? value.replace(/\/+$/, '') : undefined;
+}
+
+/**
+ * Resolve the auth provider and API base URL of a host
+ * github.com uses the `github` provider; GHE.com tenants and Enterprise Server hosts
+ * use `github-enterprise`.
+ */
+export function resolveGitHubHost(host: string = GITHUB_COM_HOST): GitHubHost {
+  const normalized = normalizeHost(host) || GITHUB_COM_HOST;
+
+  if (normalized === GITHUB_COM_HOST) {
+    return {
+      host: normalized,
+      authProviderId: 'github',
+      apiBaseUrl: 'https://api.github.com',
+      webUrl: 'https://github.com',
+    };
+  }
+
+  if (normalized.endsWith('.ghe.com')) {
+    return {
+      host: normalized,
+      authProviderId: 'github-enterprise',
+      apiBaseUrl: `https://api.${normalized}`,
+      webUrl: `https://${normalized}`,
+    };
+  }
+
+  // Keep the scheme (and port) of the configured server when it is this host
+  const enterpriseUrl = getEnterpriseUrl();
+  const webUrl =
+    enterpriseUrl && normalizeHost(enterpriseUrl) === normalized
+      ? enterpriseUrl
+      : `https://${normalized}`;
+  return {
+    host: normalized,
+    authProviderId: 'github-enterprise',
+    apiBaseUrl: `${webUrl}/api/v3`,
+    webUrl,
+  };
+}
+
+/**
+ * Host of the REST API of a GitHub host, e.g. api.github.com for github.com
+ */
+export function getApiHost(host: string = GITHUB_COM_HOST): string {
+  return new URL(resolveGitHubHost(host).apiBaseUrl).host;
+}
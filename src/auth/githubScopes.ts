@@ -0,0 +1,91 @@
+/**
+ * What the extension needs a token to be able to do
+ * - `read`: browse issues and milestones of public repositories
+ * - `write`: create and change issues, comments, labels and pull requests
+ * - `organizations`: request reviews from teams
+ *
+ * Private repositories need the `repo` scope, which GitHub reports through the
+ * x-accepted-oauth-scopes header when it is missing (see MissingScopeError).
+ */
+export type GitHubCapability = 'read' | 'write' | 'organizations';
+
+/**
+ * OAuth scopes of a capability and why they are asked for
+ */
+interface CapabilityScopes {
+  scopes: string[];
+  /** Completes "GitIssue Bridge needs … to …" */
+  reason: string;
+}
+
+const CAPABILITIES: Record<GitHubCapability, CapabilityScopes> = {
+  read: { scopes: [], reason: 'read issues of public repositories' },
+  write: {
+    scopes: ['public_repo'],
+    reason: 'create and update issues, comments, labels and pull requests',
+  },
+  organizations: { scopes: ['read:org'], reason: 'request reviews from teams' },
+};
+
+/**
+ * Scopes requested by sessions created before scopes were requested incrementally
+ */
+export const LEGACY_SCOPES = ['read:org', 'repo'];
+
+/**
+ * Scopes that include narrower ones, e.g. `repo` grants everything `public_repo` does
+ */
+const IMPLIED_SCOPES: Record<string, string[]> = {
+  repo: ['public_repo', 'repo:status', 'repo_deployment', 'repo:invite'],
+  'admin:org': ['write:org', 'read:org'],
+  'write:org': ['read:org'],
+  user: ['read:user', 'user:email', 'user:follow'],
+};
+
+/**
+ * OAuth scopes needed for a capability
+ */
+export function getCapabilityScopes(capability: GitHubCapability): string[] {
+  return CAPABILITIES[capability].scopes;
+}
+
+/**
+ * Why a capability needs its scopes, e.g. "work with private repositories"
+ */
+export function getCapabilityReason(capability: GitHubCapability): string {
+  return CAPABILITIES[capability].reason;
+}
+
+/**
+ * Check whether granted scopes include the required ones, directly or through a broader scope
+ */
+export function hasScopes(granted: readonly string[], required: readonly string[]): boolean {
+  const effective = new Set(granted.flatMap(scope => [scope, ...(IMPLIED_SCOPES[scope] ?? [])]));
+  return required.every(scope => effective.has(scope));
+}
+
+/**
+ * Combine scope lists, dropping scopes implied by broader ones
+ * Sorted, since VS Code matches sessions by their exact scope list.
+ */
+export function mergeScopes(...lists: readonly string[][]): string[] {
+  const all = new Set(lists.flat());
+  return [...all]
+    .filter(scope => ![...all].some(other => IMPLIED_SCOPES[other]?.includes(scope)))
+    .sort();
+}
+
+/**
+ * Parse the comma separated `x-oauth-scopes` response header
+ *
+ * @returns The scopes, or undefined when the header is absent (fine-grained tokens, GitHub Apps)
+ */
+export function parseScopesHeader(value: string | number | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return String(value)
+    .split(',')
+    .map(scope => scope.trim())
+    .filter(scope => scope.length > 0);
+}
@@ -0,0 +1,466 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getLogger } from '../utils/logger';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { isNetworkError } from '../api/githubErrors';
+import {
+  GitHubComment,
+  GitHubIssue,
+  GitHubLabel,
+  GitHubMilestone,
+  StateFilter,
+} from '../api/types';
+import { getRepositoryService } from '../git/repositoryService';
+import { ParsedRemoteUrl } from '../git/types';
+
+/**
+ * Format version of the cache files; files with another version are discarded
+ */
+const CACHE_VERSION = 1;
+
+/**
+ * Minutes between background syncs when the setting is missing
+ */
+const DEFAULT_SYNC_INTERVAL = 5;
+
+/**
+ * Comments of an issue, valid while the issue is not updated again
+ */
+interface CachedComments {
+  issueUpdatedAt: string;
+  comments: GitHubComment[];
+}
+
+/**
+ * Everything cached for one repository, stored as one JSON file
+ */
+interface RepositoryCacheData {
+  version: number;
+  repository: ParsedRemoteUrl;
+  issues: GitHubIssue[];
+  milestones: GitHubMilestone[];
+  labels: GitHubLabel[];
+  /** Keyed by issue number */
+  comments: Record<string, CachedComments>;
+  etags: { milestones?: string; labels?: string };
+  /** Latest updatedAt of the synced issues, the `since` of the next sync */
+  issuesSince?: string;
+  lastSyncedAt?: string;
+}
+
+/**
+ * Sync state of a repository, fired after every sync attempt
+ */
+export interface SyncEvent {
+  repository: ParsedRemoteUrl;
+  lastSyncedAt?: string;
+  /** The last attempt could not reach GitHub */
+  offline: boolean;
+}
+
+/**
+ * Offline cache of issues, milestones, labels and comments
+ * Stored per repository under the extension's global storage and kept fresh by
+ * incremental syncs: issues with `since`, milestones and labels with ETags.
+ * Reads are served from the cache while it is fresh, and whenever GitHub cannot be reached.
+ */
+export class IssueCache implements vscode.Disposable {
+  private static instance: IssueCache;
+  private logger = getLogger().child('Cache');
+  private storagePath: string | undefined;
+  private entries = new Map<string, RepositoryCacheData>();
+  private syncs = new Map<string, Promise<void>>();
+  private lastAttempts = new Map<string, number>();
+  private offline = new Set<string>();
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly onDidSyncEmitter = new vscode.EventEmitter<SyncEvent>();
+
+  /**
+   * Fired after each sync attempt, successful or not
+   */
+  public readonly onDidSync = this.onDidSyncEmitter.event;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): IssueCache {
+    if (!IssueCache.instance) {
+      IssueCache.instance = new IssueCache();
+    }
+    return IssueCache.instance;
+  }
+
+  /**
+   * Set the storage location and start the background sync
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    this.storagePath = path.join(context.globalStorageUri.fsPath, 'cache');
+    this.scheduleBackgroundSync();
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('gitissueBridge.sync.interval')) {
+          this.scheduleBackgroundSync();
+        }
+      })
+    );
+  }
+
+  /**
+   * Time of the last successful sync of a repository, if it was loaded
+   */
+  public getLastSyncedAt(repository: ParsedRemoteUrl): string | undefined {
+    return this.entries.get(cacheKey(repository))?.lastSyncedAt;
+  }
+
+  /**
+   * Whether the last sync of a repository could not reach GitHub
+   */
+  public isOffline(repository: ParsedRemoteUrl): boolean {
+    return this.offline.has(cacheKey(repository));
+  }
+
+  /**
+   * Check whether anything was ever synced for a repository
+   */
+  public async hasData(repository: ParsedRemoteUrl): Promise<boolean> {
+    return !!(await this.load(repository)).lastSyncedAt;
+  }
+
+  /**
+   * Bring the cache of a repository up to date
+   * Concurrent calls for the same repository share one sync
+   */
+  public sync(repository: ParsedRemoteUrl): Promise<void> {
+    const key = cacheKey(repository);
+    const running = this.syncs.get(key);
+    if (running) {
+      return running;
+    }
+
+    const sync = this.runSync(repository).finally(() => this.syncs.delete(key));
+    this.syncs.set(key, sync);
+    return sync;
+  }
+
+  /**
+   * Sync the current repository right away
+   *
+   * @returns Repository synced, or undefined if there is none
+   */
+  public async syncNow(): Promise<ParsedRemoteUrl | undefined> {
+    const repository = getRepositoryService().getCurrentRepository();
+    if (!repository) {
+      return undefined;
+    }
+    await this.sync(repository);
+    return repository;
+  }
+
+  /**
+   * Issues of a repository, newest first
+   */
+  public async getIssues(
+    repository: ParsedRemoteUrl,
+    options: { state?: StateFilter } = {}
+  ): Promise<GitHubIssue[]> {
+    const state = options.state ?? 'open';
+    const entry = await this.ensureFresh(repository);
+    return entry.issues.filter(issue => state === 'all' || issue.state === state);
+  }
+
+  /**
+   * Milestones of a repository
+   */
+  public async getMilestones(
+    repository: ParsedRemoteUrl,
+    options: { state?: StateFilter } = {}
+  ): Promise<GitHubMilestone[]> {
+    const state = options.state ?? 'open';
+    const entry = await this.ensureFresh(repository);
+    return entry.milestones.filter(milestone => state === 'all' || milestone.state === state);
+  }
+
+  /**
+   * Labels of a repository
+   */
+  public async getLabels(repository: ParsedRemoteUrl): Promise<GitHubLabel[]> {
+    return (await this.ensureFresh(repository)).labels;
+  }
+
+  /**
+   * Fetch one issue and update the cache, falling back to the cached copy when offline
+   */
+  public async getIssue(repository: ParsedRemoteUrl, issueNumber: number): Promise<GitHubIssue> {
+    const entry = await this.load(repository);
+    try {
+      const issue = await getGitHubIssuesClient().getIssue(repository, issueNumber);
+      entry.issues = mergeIssues(entry.issues, [issue]);
+      await this.save(entry);
+      return issue;
+    } catch (error) {
+      const cached = entry.issues.find(issue => issue.number === issueNumber);
+      if (cached && isNetworkError(error)) {
+        this.logger.debug(`Serving cached issue #${issueNumber} while offline`);
+        return cached;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Comments of an issue, fetched again only when the issue was updated since
+   */
+  public async getComments(
+    repository: ParsedRemoteUrl,
+    issue: GitHubIssue
+  ): Promise<GitHubComment[]> {
+    const entry = await this.load(repository);
+    const cached = entry.comments[issue.number];
+    if (cached?.issueUpdatedAt === issue.updatedAt) {
+      return cached.comments;
+    }
+
+    try {
+      const comments = await getGitHubIssuesClient().listComments(repository, issue.number);
+      entry.comments[issue.number] = { issueUpdatedAt: issue.updatedAt, comments };
+      await this.save(entry);
+      return comments;
+    } catch (error) {
+      if (cached && isNetworkError(error)) {
+        this.logger.debug(`Serving cached comments of #${issue.number} while offline`);
+        return cached.comments;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load a repository's cache and sync it first when it is stale
+   * Sync failures are tolerated when there is cached data to fall back on
+   */
+  private async ensureFresh(repository: ParsedRemoteUrl): Promise<RepositoryCacheData> {
+    const key = cacheKey(repository);
+    const entry = await this.load(repository);
+    const lastSync = Math.max(
+      entry.lastSyncedAt ? Date.parse(entry.lastSyncedAt) : 0,
+      // Failed attempts count too, so offline reads do not retry on every call
+      this.lastAttempts.get(key) ?? 0
+    );
+
+    if (Date.now() - lastSync < this.getMaxAge()) {
+      return entry;
+    }
+
+    try {
+      await this.sync(repository);
+    } catch (error) {
+      if (!entry.lastSyncedAt) {
+        throw error;
+      }
+      this.logger.warn(`Sync of ${key} failed, serving cached data`, error);
+    }
+    return this.load(repository);
+  }
+
+  private async runSync(repository: ParsedRemoteUrl): Promise<void> {
+    const key = cacheKey(repository);
+    const client = getGitHubIssuesClient();
+    const entry = await this.load(repository);
+    this.lastAttempts.set(key, Date.now());
+
+    try {
+      // The first sync only needs open issues; later ones pick up closes through `since`
+      const issues = await client.listIssues(
+        repository,
+        entry.issuesSince ? { state: 'all', since: entry.issuesSince } : { state: 'open' }
+      );
+      const milestones = await client.listMilestonesIfModified(repository, entry.etags.milestones);
+      const labels = await client.listLabelsIfModified(repository, entry.etags.labels);
+
+      entry.issues = mergeIssues(entry.issues, issues);
+      entry.issuesSince = issues.reduce(
+        (latest, issue) => (!latest || issue.updatedAt > latest ? issue.updatedAt : latest),
+        entry.issuesSince
+      );
+      if (milestones.modified) {
+        entry.milestones = milestones.data;
+        entry.etags.milestones = milestones.etag;
+      }
+      if (labels.modified) {
+        entry.labels = labels.data;
+        entry.etags.labels = labels.etag;
+      }
+      entry.lastSyncedAt = new Date().toISOString();
+
+      await this.save(entry);
+      this.offline.delete(key);
+      this.logger.info(`Synced ${key}`, {
+        issues: issues.length,
+        milestones: milestones.modified ? milestones.data.length : 'unchanged',
+        labels: labels.modified ? labels.data.length : 'unchanged',
+      });
+    } catch (error) {
+      if (isNetworkError(error)) {
+        this.offline.add(key);
+      }
+      throw error;
+    } finally {
+      this.onDidSyncEmitter.fire({
+        repository,
+        lastSyncedAt: entry.lastSyncedAt,
+        offline: this.offline.has(key),
+      });
+    }
+  }
+
+  /**
+   * Sync the current repository every few minutes while signed in
+   */
+  private scheduleBackgroundSync(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    const minutes = this.getSyncInterval();
+    if (minutes <= 0) {
+      this.logger.debug('Background sync disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.backgroundSync(), minutes * 60 * 1000);
+  }
+
+  private async backgroundSync(): Promise<void> {
+    const repository = getRepositoryService().getCurrentRepository();
+    if (!repository || !(await getGitHubAuthManager().isAuthenticated(repository))) {
+      return;
+    }
+
+    try {
+      await this.sync(repository);
+    } catch (error) {
+      // Reported through onDidSync; the next interval tries again
+      this.logger.debug('Background sync failed', error);
+    }
+  }
+
+  private getSyncInterval(): number {
+    return vscode.workspace
+      .getConfiguration('gitissueBridge')
+      .get<number>('sync.interval', DEFAULT_SYNC_INTERVAL);
+  }
+
+  /**
+   * How long synced data is served without asking GitHub
+   */
+  private getMaxAge(): number {
+    const minutes = this.getSyncInterval();
+    return (minutes > 0 ? minutes : DEFAULT_SYNC_INTERVAL) * 60 * 1000;
+  }
+
+  private async load(repository: ParsedRemoteUrl): Promise<RepositoryCacheData> {
+    const key = cacheKey(repository);
+    const loaded = this.entries.get(key);
+    if (loaded) {
+      return loaded;
+    }
+
+    let entry = emptyEntry(repository);
+    const filePath = this.getFilePath(repository);
+    if (filePath) {
+      try {
+        const stored = JSON.parse(await fs.readFile(filePath, 'utf8')) as RepositoryCacheData;
+        if (stored.version === CACHE_VERSION) {
+          entry = stored;
+        }
+      } catch {
+        // Nothing cached yet, or unreadable: start over
+      }
+    }
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private async save(entry: RepositoryCacheData): Promise<void> {
+    const filePath = this.getFilePath(entry.repository);
+    if (!filePath) {
+      return;
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a crash never leaves a truncated file behind
+    const temporaryPath = `${filePath}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(entry), 'utf8');
+    await fs.rename(temporaryPath, filePath);
+  }
+
+  private getFilePath(repository: ParsedRemoteUrl): string | undefined {
+    if (!this.storagePath) {
+      return undefined;
+    }
+    const segments = [repository.host, repository.owner, repository.repo].map(segment =>
+      segment.toLowerCase().replace(/[^a-z0-9._-]/g, '_')
+    );
+    return path.join(this.storagePath, ...segments.slice(0, 2), `${segments[2]}.json`);
+  }
+
+  /**
+   * Stop the background sync and dispose listeners
+   */
+  public dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.onDidSyncEmitter.dispose();
+  }
+}
+
+/**
+ * Key of a repository in the cache
+ */
+function cacheKey(repository: ParsedRemoteUrl): string {
+  return `${repository.host}/${repository.owner}/${repository.repo}`.toLowerCase();
+}
+
+function emptyEntry(repository: ParsedRemoteUrl): RepositoryCacheData {
+  const { host, owner, repo } = repository;
+  return {
+    version: CACHE_VERSION,
+    repository: { host, owner, repo },
+    issues: [],
+    milestones: [],
+    labels: [],
+    comments: {},
+    etags: {},
+  };
+}
+
+/**
+ * Replace cached issues with updated copies, newest first
+ */
+function mergeIssues(cached: GitHubIssue[], updates: GitHubIssue[]): GitHubIssue[] {
+  const byNumber = new Map(cached.map(issue => [issue.number, issue]));
+  for (const issue of updates) {
+    byNumber.set(issue.number, issue);
+  }
+  return [...byNumber.values()].sort((a, b) => b.number - a.number);
+}
+
+/**
+ * Get issue cache instance (convenience function)
+ */
+export function getIssueCache(): IssueCache {
+  return IssueCache.getInstance();
+}
@@ -0,0 +1,269 @@
+import {
+  CreateIssueInput,
+  GitHubComment,
+  GitHubIssue,
+  GitHubMilestone,
+  milestoneProgress,
+} from '../api/types';
+import { parseTaskList, summarizeTaskList } from '../utils/taskList';
+
+/**
+ * Instructions sent with every question about the repository
+ */
+export const QUESTION_INSTRUCTIONS = [
+  'You are @issues, an assistant that answers questions about the GitHub issues and milestones',
+  'of a single repository. Answer only from the repository data provided below. Refer to issues',
+  'as #number so they become links. If the data does not contain the answer, say so briefly.',
+].join(' ');
+
+/**
+ * Instructions for summarizing a single issue
+ */
+export const SUMMARY_INSTRUCTIONS = [
+  'Summarize the GitHub issue below for a developer about to work on it.',
+  'Cover the problem, the expected outcome, open questions from the discussion and',
+  'the remaining acceptance criteria. Use short markdown sections.',
+].join(' ');
+
+/**
+ * Instructions for drafting a new issue from a description
+ */
+export const DRAFT_INSTRUCTIONS = [
+  'Draft a GitHub issue from the request below. Reply with a single JSON object and nothing else:',
+  '{"title": string, "body": string, "labels": string[]}.',
+  'The body is markdown and ends with an "Acceptance criteria" task list.',
+  'Only use labels from the list of available labels.',
+].join(' ');
+
+/**
+ * Maximum number of issues included in the repository context
+ */
+const MAX_CONTEXT_ISSUES = 100;
+
+/**
+ * Maximum length of text taken from a single issue body or comment
+ */
+const MAX_TEXT_LENGTH = 4000;
+
+/**
+ * One-line description of an issue
+ */
+export function formatIssueLine(issue: GitHubIssue): string {
+  const details = [
+    issue.labels.length > 0 ? `labels: ${issue.labels.map(label => label.name).join(', ')}` : '',
+    issue.assignees.length > 0
+      ? `assignees: ${issue.assignees.map(user => `@${user.login}`).join(', ')}`
+      : '',
+  ].filter(Boolean);
+
+  return `#${issue.number} ${issue.title}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+}
+
+/**
+ * Describe open milestones and issues as plain text for the language model
+ */
+export function buildRepositoryContext(
+  repositoryName: string,
+  milestones: GitHubMilestone[],
+  issues: GitHubIssue[],
+  sanitize: (text: string) => string
+): string {
+  const lines = [`Repository: ${repositoryName}`, '', 'Open milestones:'];
+
+  if (milestones.length === 0) {
+    lines.push('- none');
+  }
+  for (const milestone of milestones) {
+    const due = milestone.dueOn ? `, due ${milestone.dueOn.slice(0, 10)}` : '';
+    lines.push(
+      `- ${milestone.title}: ${milestone.openIssues} open, ${milestone.closedIssues} closed ` +
+        `(${milestoneProgress(milestone)}% complete${due})`
+    );
+  }
+
+  lines.push('', `Open issues (${issues.length}):`);
+  for (const issue of issues.slice(0, MAX_CONTEXT_ISSUES)) {
+    const milestone = issue.milestone ? ` [milestone: ${issue.milestone.title}]` : '';
+    lines.push(`- ${formatIssueLine(issue)}${milestone}`);
+  }
+  if (issues.length > MAX_CONTEXT_ISSUES) {
+    lines.push(`- … and ${issues.length - MAX_CONTEXT_ISSUES} more`);
+  }
+
+  return sanitize(lines.join('\n'));
+}
+
+/**
+ * Describe an issue and its discussion as plain text for the language model
+ */
+export function buildIssueDocument(
+  issue: GitHubIssue,
+  comments: GitHubComment[],
+  sanitize: (text: string) => string
+): string {
+  const lines = [formatIssueLine(issue), `State: ${issue.state}`];
+  if (issue.milestone) {
+    lines.push(`Milestone: ${issue.milestone.title}`);
+  }
+  lines.push('', truncate(issue.body || '(no description)'));
+
+  if (comments.length > 0) {
+    lines.push('', 'Comments:');
+    for (const comment of comments) {
+      lines.push(
+        `@${comment.author?.login ?? 'ghost'} (${comment.createdAt}):`,
+        truncate(comment.body)
+      );
+    }
+  }
+
+  return sanitize(lines.join('\n'));
+}
+
+/**
+ * Markdown summary of an issue built without a language model
+ */
+export function buildFallbackSummary(issue: GitHubIssue, comments: GitHubComment[]): string {
+  const { completed, total } = summarizeTaskList(parseTaskList(issue.body));
+  const lines = [
+    `**#${issue.number} ${issue.title}** — ${issue.state}`,
+    '',
+    `- Labels: ${issue.labels.map(label => label.name).join(', ') || 'none'}`,
+    `- Assignees: ${issue.assignees.map(user => `@${user.login}`).join(', ') || 'none'}`,
+    `- Milestone: ${issue.milestone?.title ?? 'none'}`,
+  ];
+
+  if (total > 0) {
+    lines.push(`- Checklist: ${completed}/${total} done`);
+  }
+
+  const description = issue.body.trim();
+  if (description) {
+    lines.push('', truncate(description, 600));
+  }
+
+  const latest = comments[comments.length - 1];
+  if (latest) {
+    lines.push(
+      '',
+      `Latest of ${comments.length} comment(s), by @${latest.author?.login ?? 'ghost'}:`,
+      '',
+      `> ${truncate(latest.body, 300).replace(/\n/g, '\n> ')}`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Markdown answer built without a language model
+ * Lists the open issues of a milestone named in the prompt, or all open issues by milestone
+ */
+export function buildFallbackAnswer(
+  prompt: string,
+  milestones: GitHubMilestone[],
+  issues: GitHubIssue[]
+): string {
+  const milestone = findMentionedMilestone(prompt, milestones);
+  if (milestone) {
+    const remaining = issues.filter(issue => issue.milestone?.number === milestone.number);
+    const lines = [
+      `**${milestone.title}** is ${milestoneProgress(milestone)}% complete ` +
+        `with ${milestone.openIssues} open issue(s):`,
+      '',
+      ...remaining.map(issue => `- ${formatIssueLine(issue)}`),
+    ];
+    return lines.join('\n');
+  }
+
+  if (issues.length === 0) {
+    return 'There are no open issues in this repository.';
+  }
+
+  const groups = new Map<string, GitHubIssue[]>();
+  for (const issue of issues) {
+    const title = issue.milestone?.title ?? 'No milestone';
+    groups.set(title, [...(groups.get(title) ?? []), issue]);
+  }
+
+  const lines = [`There are ${issues.length} open issue(s):`];
+  for (const [title, group] of groups) {
+    lines.push('', `**${title}**`, ...group.map(issue => `- ${formatIssueLine(issue)}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Find the milestone whose title appears in the prompt, preferring the longest match
+ */
+export function findMentionedMilestone(
+  prompt: string,
+  milestones: GitHubMilestone[]
+): GitHubMilestone | undefined {
+  const text = prompt.toLowerCase();
+  return milestones
+    .filter(milestone => text.includes(milestone.title.toLowerCase()))
+    .sort((a, b) => b.title.length - a.title.length)[0];
+}
+
+/**
+ * Parse the issue draft returned by the language model
+ * Accepts a bare JSON object or one wrapped in a code fence; labels are limited to known ones
+ */
+export function parseIssueDraft(
+  text: string,
+  availableLabels: string[]
+): CreateIssueInput | undefined {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return undefined;
+  }
+
+  try {
+    const raw = JSON.parse(text.slice(start, end + 1)) as Record<string, unknown>;
+    if (typeof raw.title !== 'string' || !raw.title.trim()) {
+      return undefined;
+    }
+
+    const known = new Map(availableLabels.map(label => [label.toLowerCase(), label]));
+    const labels = Array.isArray(raw.labels)
+      ? raw.labels
+          .filter((label): label is string => typeof label === 'string')
+          .map(label => known.get(label.toLowerCase()))
+          .filter((label): label is string => !!label)
+      : [];
+
+    return {
+      title: raw.title.trim(),
+      body: typeof raw.body === 'string' ? raw.body : '',
+      labels,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Issue draft built without a language model: the description becomes the title
+ */
+export function buildFallbackDraft(description: string): CreateIssueInput {
+  const [firstLine, ...rest] = description.trim().split('\n');
+  return {
+    title: firstLine.trim().slice(0, 120),
+    body: rest.join('\n').trim(),
+    labels: [],
+  };
+}
+
+/**
+ * Issue numbers referenced as #123 in a text, in order of appearance
+ */
+export function extractIssueNumbers(text: string): number[] {
+  const numbers = [...text.matchAll(/(?:^|[^\w&])#(\d+)\b/g)].map(match => Number(match[1]));
+  return [...new Set(numbers)];
+}
+
+function truncate(text: string, maxLength = MAX_TEXT_LENGTH): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength)}…`;
+}
@@ -0,0 +1,361 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { getRedactor } from '../utils/redaction';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getIssueCache } from '../cache/issueCache';
+import { getRepositoryService } from '../git/repositoryService';
+import { getIssueWorkflow } from '../git/issueWorkflow';
+import { getBranchIssueMapper } from '../git/branchIssueMapper';
+import { WorkspaceRepository } from '../git/types';
+import { parseIssueReference, resolveIssueReference } from '../views/issuePicker';
+import {
+  DRAFT_INSTRUCTIONS,
+  QUESTION_INSTRUCTIONS,
+  SUMMARY_INSTRUCTIONS,
+  buildFallbackAnswer,
+  buildFallbackDraft,
+  buildFallbackSummary,
+  buildIssueDocument,
+  buildRepositoryContext,
+  extractIssueNumbers,
+  parseIssueDraft,
+} from './chatPrompts';
+
+/**
+ * Chat participant id, as declared in package.json
+ */
+export const CHAT_PARTICIPANT_ID = 'gitissue-bridge.issues';
+
+/**
+ * Metadata attached to every chat result, used to offer follow-ups
+ */
+export interface IssuesChatMetadata {
+  command: 'ask' | 'start' | 'summarize' | 'create';
+  /** Issues the response talked about */
+  issueNumbers: number[];
+}
+
+/**
+ * Chat result returned by the participant
+ */
+export interface IssuesChatResult extends vscode.ChatResult {
+  metadata: IssuesChatMetadata;
+}
+
+/**
+ * `@issues` chat participant
+ * Answers questions about the current repository's issues and milestones, and exposes
+ * /start, /summarize and /create. Falls back to plain listings when no language model is available.
+ */
+export class IssuesChatParticipant {
+  private logger = getLogger().child('Chat');
+
+  /**
+   * Handle a chat request
+   */
+  public async handle(
+    request: vscode.ChatRequest,
+    _context: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<IssuesChatResult> {
+    const command = this.getCommand(request.command);
+    const result: IssuesChatResult = { metadata: { command, issueNumbers: [] } };
+
+    const isAuthenticated = await getGitHubAuthManager().isAuthenticated();
+    if (!isAuthenticated) {
+      stream.markdown('Sign in to GitHub so I can read the issues of this repository.');
+      stream.button({ command: 'gitissue-bridge.authenticate', title: 'Sign in to GitHub' });
+      return result;
+    }
+
+    const repository = getRepositoryService().getCurrentRepository();
+    if (!repository) {
+      stream.markdown('No GitHub repository was detected in this workspace.');
+      stream.button({ command: 'gitissue-bridge.selectRepository', title: 'Select Repository' });
+      return result;
+    }
+
+    try {
+      switch (command) {
+        case 'start':
+          await this.start(request, stream, result);
+          break;
+        case 'summarize':
+          await this.summarize(request, stream, token, result);
+          break;
+        case 'create':
+          await this.create(request, repository, stream, token);
+          break;
+        default:
+          await this.answer(request, repository, stream, token, result);
+      }
+    } catch (error) {
+      this.logger.error(`Chat request /${command} failed`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      result.errorDetails = { message };
+    }
+
+    return result;
+  }
+
+  /**
+   * Suggest follow-up prompts for the issues the last response talked about
+   */
+  public provideFollowups(result: IssuesChatResult): vscode.ChatFollowup[] {
+    const { command, issueNumbers } = result.metadata ?? { command: 'ask', issueNumbers: [] };
+
+    if (command === 'summarize' && issueNumbers.length > 0) {
+      const number = issueNumbers[0];
+      return [{ prompt: `${number}`, command: 'start', label: `Start working on #${number}` }];
+    }
+
+    if (command === 'ask' || command === 'start') {
+      return issueNumbers.slice(0, 3).map(number => ({
+        prompt: `${number}`,
+        command: 'summarize',
+        label: `Summarize #${number}`,
+      }));
+    }
+
+    return [];
+  }
+
+  /**
+   * /start: create and check out the branch for an issue
+   */
+  private async start(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    result: IssuesChatResult
+  ): Promise<void> {
+    const reference = parseIssueReference(request.prompt);
+    if (!reference) {
+      stream.markdown('Tell me which issue to start, for example `/start 42` or `/start #42`.');
+      return;
+    }
+
+    stream.progress(`Starting issue #${reference.number}…`);
+    const started = await getIssueWorkflow().startIssue(request.prompt.trim());
+    result.metadata.issueNumbers = [reference.number];
+
+    stream.markdown(
+      started
+        ? `You are now working on #${reference.number}.`
+        : `Did not start #${reference.number}.`
+    );
+  }
+
+  /**
+   * /summarize: summarize an issue and its discussion
+   * Without an argument, summarizes the issue of the current branch
+   */
+  private async summarize(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    result: IssuesChatResult
+  ): Promise<void> {
+    const currentIssue = getBranchIssueMapper().getCurrentLink()?.issueNumber;
+    const reference = request.prompt.trim() || (currentIssue ? `#${currentIssue}` : '');
+    if (!parseIssueReference(reference)) {
+      stream.markdown('Tell me which issue to summarize, for example `/summarize 42`.');
+      return;
+    }
+
+    stream.progress('Reading the issue…');
+    const { repository, issue } = await resolveIssueReference(reference);
+    const comments = await getIssueCache().getComments(repository, issue);
+    result.metadata.issueNumbers = [issue.number];
+
+    const document = buildIssueDocument(issue, comments, text => getRedactor().redact(text));
+    const streamed = await this.streamModelResponse(
+      request,
+      [SUMMARY_INSTRUCTIONS, document],
+      stream,
+      token
+    );
+    if (!streamed && !token.isCancellationRequested) {
+      stream.markdown(buildFallbackSummary(issue, comments));
+    }
+
+    stream.button({
+      command: 'gitissue-bridge.startIssue',
+      title: 'Start Working',
+      arguments: [issue.htmlUrl],
+    });
+  }
+
+  /**
+   * /create: draft an issue from a description, created after the user confirms it
+   */
+  private async create(
+    request: vscode.ChatRequest,
+    repository: WorkspaceRepository,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const description = request.prompt.trim();
+    if (!description) {
+      stream.markdown(
+        'Describe the issue to create, for example `/create a bug for the login crash`.'
+      );
+      return;
+    }
+
+    stream.progress('Drafting the issue…');
+    const labels = (await getIssueCache().getLabels(repository)).map(label => label.name);
+    const reply = await this.sendToModel(
+      request,
+      [
+        DRAFT_INSTRUCTIONS,
+        `Available labels: ${labels.join(', ') || 'none'}`,
+        `Request: ${getRedactor().redact(description)}`,
+      ],
+      token
+    );
+
+    let text = '';
+    if (reply) {
+      for await (const fragment of reply.text) {
+        text += fragment;
+      }
+    }
+    if (token.isCancellationRequested) {
+      return;
+    }
+
+    const draft = parseIssueDraft(text, labels) ?? buildFallbackDraft(description);
+
+    stream.markdown(`**${draft.title}**\n\n`);
+    if (draft.labels && draft.labels.length > 0) {
+      stream.markdown(`Labels: ${draft.labels.join(', ')}\n\n`);
+    }
+    if (draft.body) {
+      stream.markdown(`${draft.body}\n\n`);
+    }
+    stream.button({
+      command: 'gitissue-bridge.createIssue',
+      title: `Create Issue in ${repository.owner}/${repository.repo}`,
+      arguments: [draft],
+    });
+  }
+
+  /**
+   * Free-form question about the repository's issues and milestones
+   */
+  private async answer(
+    request: vscode.ChatRequest,
+    repository: WorkspaceRepository,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    result: IssuesChatResult
+  ): Promise<void> {
+    stream.progress(`Reading issues of ${repository.owner}/${repository.repo}…`);
+    const issueCache = getIssueCache();
+    const [milestones, issues] = await Promise.all([
+      issueCache.getMilestones(repository, { state: 'open' }),
+      issueCache.getIssues(repository, { state: 'open' }),
+    ]);
+
+    const context = buildRepositoryContext(
+      `${repository.owner}/${repository.repo}`,
+      milestones,
+      issues,
+      text => getRedactor().redact(text)
+    );
+    const prompts = [QUESTION_INSTRUCTIONS, context];
+    const link = getBranchIssueMapper().getCurrentLink();
+    if (link) {
+      prompts.push(`The developer is working on #${link.issueNumber} (branch ${link.branch}).`);
+    }
+    prompts.push(`Question: ${getRedactor().redact(request.prompt)}`);
+
+    const answer = await this.streamModelResponse(request, prompts, stream, token);
+
+    if (answer !== undefined) {
+      result.metadata.issueNumbers = extractIssueNumbers(answer);
+      return;
+    }
+    if (token.isCancellationRequested) {
+      return;
+    }
+
+    const fallback = buildFallbackAnswer(request.prompt, milestones, issues);
+    stream.markdown('_No language model is available, so here is the raw issue list._\n\n');
+    stream.markdown(fallback);
+    result.metadata.issueNumbers = extractIssueNumbers(fallback);
+  }
+
+  /**
+   * Stream the model's reply to the chat
+   *
+   * @returns Streamed text, or undefined if no model could answer
+   */
+  private async streamModelResponse(
+    request: vscode.ChatRequest,
+    prompts: string[],
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<string | undefined> {
+    const reply = await this.sendToModel(request, prompts, token);
+    if (!reply) {
+      return undefined;
+    }
+
+    let text = '';
+    for await (const fragment of reply.text) {
+      text += fragment;
+      stream.markdown(fragment);
+    }
+    return text;
+  }
+
+  /**
+   * Send the prompts to the model picked in the chat view
+   * Failures (no model, missing consent, quota) are logged and reported as undefined
+   */
+  private async sendToModel(
+    request: vscode.ChatRequest,
+    prompts: string[],
+    token: vscode.CancellationToken
+  ): Promise<vscode.LanguageModelChatResponse | undefined> {
+    const model = request.model as vscode.LanguageModelChat | undefined;
+    if (!model) {
+      this.logger.info('No language model available for chat request');
+      return undefined;
+    }
+
+    try {
+      const messages = prompts.map(prompt => vscode.LanguageModelChatMessage.User(prompt));
+      return await model.sendRequest(messages, {}, token);
+    } catch (error) {
+      this.logger.warn('Language model request failed, falling back to plain output', error);
+      return undefined;
+    }
+  }
+
+  private getCommand(command: string | undefined): IssuesChatMetadata['command'] {
+    return command === 'start' || command === 'summarize' || command === 'create' ? command : 'ask';
+  }
+}
+
+/**
+ * Register the `@issues` chat participant
+ */
+export function registerIssuesChatParticipant(): vscode.Disposable {
+  const handler = new IssuesChatParticipant();
+  const participant = vscode.chat.createChatParticipant(
+    CHAT_PARTICIPANT_ID,
+    (request, context, stream, token) =>
+      // Each chat request gets its own correlation ID in the logs
+      getLogger().withContext({ component: 'Chat', operation: request.command ?? 'chat' }, () =>
+        handler.handle(request, context, stream, token)
+      )
+  );
+  participant.iconPath = new vscode.ThemeIcon('issues');
+  participant.followupProvider = {
+    provideFollowups: result => handler.provideFollowups(result as IssuesChatResult),
+  };
+  return participant;
+}
@@ -0,0 +1,466 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getLogger } from '../utils/logger';
+import { getRedactor } from '../utils/redaction';
+import { ErrorSeverity, getErrorHandler } from '../utils/errorHandler';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+import { parseTaskList } from '../utils/taskList';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { GitHubComment, GitHubIssue, GitHubPullRequestRef } from '../api/types';
+import { BranchIssueLink, getBranchIssueMapper } from '../git/branchIssueMapper';
+import { getRepositoryService } from '../git/repositoryService';
+import { ParsedRemoteUrl } from '../git/types';
+
+/**
+ * Schema version of the generated document
+ * Increment when the document shape changes in a non-additive way
+ */
+export const ISSUE_CONTEXT_VERSION = 1;
+
+/**
+ * Location of the context file, relative to the repository root
+ */
+export const ISSUE_CONTEXT_FILE = path.join('.vscode', 'issue-context.json');
+
+/**
+ * Folder for archived context files, relative to the repository root
+ */
+export const ISSUE_CONTEXT_ARCHIVE_DIR = path.join('.vscode', 'issue-context-archive');
+
+/**
+ * Workspace state key for the issue the context file describes
+ */
+const ACTIVE_CONTEXT_KEY = 'gitissueBridge.contextIssue';
+
+/**
+ * Marker appended to content cut by size limits
+ */
+const TRUNCATION_MARKER = '\n…[truncated]';
+
+/**
+ * Issue context document consumed by Copilot
+ */
+export interface IssueContextDocument {
+  version: number;
+  generator: string;
+  generatedAt: string;
+  repository: { host: string; owner: string; repo: string };
+  issue: {
+    number: number;
+    title: string;
+    url: string;
+    state: string;
+    labels: string[];
+    assignees: string[];
+    body: string;
+    acceptanceCriteria: { text: string; done: boolean }[];
+  };
+  milestone: {
+    number: number;
+    title: string;
+    goal?: string;
+    dueOn?: string;
+    openIssues: number;
+    closedIssues: number;
+  } | null;
+  linkedPullRequests: {
+    number: number;
+    repository: string;
+    title: string;
+    state: string;
+    merged: boolean;
+    url: string;
+  }[];
+  recentComments: { author?: string; createdAt: string; body: string }[];
+  truncated: boolean;
+}
+
+/**
+ * Size limits applied to the document content
+ */
+export interface IssueContextLimits {
+  maxBodyLength: number;
+  maxComments: number;
+  maxCommentLength: number;
+}
+
+/**
+ * Data needed to build the document
+ */
+export interface IssueContextInput {
+  repository: ParsedRemoteUrl;
+  issue: GitHubIssue;
+  comments: GitHubComment[];
+  linkedPullRequests: GitHubPullRequestRef[];
+}
+
+/**
+ * Issue the context file currently describes
+ */
+interface ActiveContextIssue extends ParsedRemoteUrl {
+  rootPath: string;
+  number: number;
+  updatedAt: string;
+}
+
+/**
+ * Build the context document, applying size limits and sanitization to all free text
+ */
+export function buildIssueContext(
+  input: IssueContextInput,
+  limits: IssueContextLimits,
+  sanitize: (text: string) => string,
+  now: Date = new Date()
+): IssueContextDocument {
+  let truncated = false;
+  const limit = (text: string, maxLength: number): string => {
+    const clean = sanitize(text);
+    if (clean.length <= maxLength) {
+      return clean;
+    }
+    truncated = true;
+    return clean.slice(0, maxLength) + TRUNCATION_MARKER;
+  };
+
+  const { repository, issue } = input;
+  const comments = input.comments.slice(-limits.maxComments);
+  if (comments.length < input.comments.length) {
+    truncated = true;
+  }
+
+  return {
+    version: ISSUE_CONTEXT_VERSION,
+    generator: 'gitissue-bridge',
+    generatedAt: now.toISOString(),
+    repository: { host: repository.host, owner: repository.owner, repo: repository.repo },
+    issue: {
+      number: issue.number,
+      title: sanitize(issue.title),
+      url: issue.htmlUrl,
+      state: issue.state,
+      labels: issue.labels.map(label => label.name),
+      assignees: issue.assignees.map(user => user.login),
+      body: limit(issue.body, limits.maxBodyLength),
+      acceptanceCriteria: parseTaskList(issue.body).map(item => ({
+        text: sanitize(item.text),
+        done: item.checked,
+      })),
+    },
+    milestone: issue.milestone
+      ? {
+          number: issue.milestone.number,
+          title: sanitize(issue.milestone.title),
+          goal: issue.milestone.description
+            ? limit(issue.milestone.description, limits.maxBodyLength)
+            : undefined,
+          dueOn: issue.milestone.dueOn,
+          openIssues: issue.milestone.openIssues,
+          closedIssues: issue.milestone.closedIssues,
+        }
+      : null,
+    linkedPullRequests: input.linkedPullRequests.map(pullRequest => ({
+      number: pullRequest.number,
+      repository: pullRequest.repository,
+      title: sanitize(pullRequest.title),
+      state: pullRequest.state,
+      merged: pullRequest.merged,
+      url: pullRequest.htmlUrl,
+    })),
+    recentComments: comments.map(comment => ({
+      author: comment.author?.login,
+      createdAt: comment.createdAt,
+      body: limit(comment.body, limits.maxCommentLength),
+    })),
+    truncated,
+  };
+}
+
+/**
+ * Issue context generator
+ * Keeps .vscode/issue-context.json in sync with the active issue so Copilot
+ * knows what is being worked on. Only writes in trusted workspaces.
+ */
+export class IssueContextGenerator implements vscode.Disposable {
+  private static instance: IssueContextGenerator;
+  private logger = getLogger().child('Context');
+  private errorHandler = getErrorHandler();
+  private workspaceState: vscode.Memento | undefined;
+  private activeIssue: ActiveContextIssue | undefined;
+  private refreshTimer: ReturnType<typeof setInterval> | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): IssueContextGenerator {
+    if (!IssueContextGenerator.instance) {
+      IssueContextGenerator.instance = new IssueContextGenerator();
+    }
+    return IssueContextGenerator.instance;
+  }
+
+  /**
+   * Restore the active issue from workspace state and resume updates
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    this.workspaceState = context.workspaceState;
+    this.activeIssue = this.workspaceState.get<ActiveContextIssue>(ACTIVE_CONTEXT_KEY);
+
+    // Write the pending context as soon as the user trusts the workspace
+    this.disposables.push(
+      getWorkspaceTrustManager().onDidGrantWorkspaceTrust(() => void this.refresh(true)),
+      getBranchIssueMapper().onDidChangeCurrentIssue(link => void this.followBranch(link))
+    );
+
+    if (this.activeIssue) {
+      this.startRefreshTimer();
+    }
+  }
+
+  /**
+   * Get the number and repository of the issue described by the context file
+   */
+  public getActiveIssue(): { repository: ParsedRemoteUrl; number: number } | undefined {
+    if (!this.activeIssue) {
+      return undefined;
+    }
+    const { host, owner, repo, number } = this.activeIssue;
+    return { repository: { host, owner, repo }, number };
+  }
+
+  /**
+   * Make an issue the active one and write its context file
+   */
+  public async activate(
+    repository: ParsedRemoteUrl,
+    rootUri: vscode.Uri,
+    issue: GitHubIssue
+  ): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    // Clean up the file left in another working tree
+    if (this.activeIssue && this.activeIssue.rootPath !== rootUri.fsPath) {
+      await this.finish();
+    }
+
+    await this.setActiveIssue({
+      host: repository.host,
+      owner: repository.owner,
+      repo: repository.repo,
+      rootPath: rootUri.fsPath,
+      number: issue.number,
+      updatedAt: issue.updatedAt,
+    });
+
+    try {
+      await this.write(issue);
+    } catch (error) {
+      await this.errorHandler.handle(
+        error,
+        { operation: 'writeIssueContext', component: 'Context', metadata: { issue: issue.number } },
+        ErrorSeverity.WARNING
+      );
+    }
+
+    this.startRefreshTimer();
+  }
+
+  /**
+   * Re-fetch the active issue and rewrite the context file if it was edited
+   * Finishes the context when the issue has been closed
+   *
+   * @param force Rewrite even if the issue did not change
+   */
+  public async refresh(force = false): Promise<void> {
+    const active = this.activeIssue;
+    if (!active || !this.isEnabled()) {
+      return;
+    }
+
+    try {
+      const issue = await getGitHubIssuesClient().getIssue(active, active.number);
+
+      if (issue.state === 'closed') {
+        this.logger.info(`Issue #${issue.number} was closed, finishing its context file`);
+        await this.finish();
+        return;
+      }
+
+      if (force || issue.updatedAt !== active.updatedAt) {
+        await this.write(issue);
+        await this.setActiveIssue({ ...active, updatedAt: issue.updatedAt });
+      }
+    } catch (error) {
+      // Background refresh: keep the previous file and try again later
+      this.logger.warn('Failed to refresh issue context', error);
+    }
+  }
+
+  /**
+   * Stop tracking the active issue and archive or delete its context file
+   */
+  public async finish(): Promise<void> {
+    const active = this.activeIssue;
+    if (!active) {
+      return;
+    }
+
+    // Keep the issue active so the cleanup runs once the workspace is trusted
+    if (!getWorkspaceTrustManager().isAllowed('writeFiles')) {
+      this.logger.info('Postponing issue context cleanup: workspace is not trusted');
+      return;
+    }
+
+    this.stopRefreshTimer();
+    await this.setActiveIssue(undefined);
+
+    const filePath = path.join(active.rootPath, ISSUE_CONTEXT_FILE);
+    const mode = vscode.workspace
+      .getConfiguration('gitissueBridge')
+      .get<string>('context.onFinish', 'archive');
+
+    try {
+      if (mode === 'archive') {
+        const archiveDir = path.join(active.rootPath, ISSUE_CONTEXT_ARCHIVE_DIR);
+        await fs.mkdir(archiveDir, { recursive: true });
+        await fs.rename(filePath, path.join(archiveDir, `issue-${active.number}.json`));
+        this.logger.info(`Archived context file for issue #${active.number}`);
+      } else {
+        await fs.rm(filePath, { force: true });
+        this.logger.info(`Removed context file for issue #${active.number}`);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Failed to clean up issue context file', error);
+      }
+    }
+  }
+
+  /**
+   * Switch the context file to the issue of a newly checked out branch
+   * Closed issues and branches without an issue leave the current file alone
+   */
+  private async followBranch(link: BranchIssueLink | undefined): Promise<void> {
+    const active = this.activeIssue;
+    if (!link || !this.isEnabled()) {
+      return;
+    }
+    if (
+      active?.number === link.issueNumber &&
+      active.owner === link.repository.owner &&
+      active.repo === link.repository.repo
+    ) {
+      return;
+    }
+
+    const repository = getRepositoryService().getCurrentRepository();
+    if (
+      !repository ||
+      repository.owner !== link.repository.owner ||
+      repository.repo !== link.repository.repo
+    ) {
+      return;
+    }
+
+    try {
+      const issue = await getGitHubIssuesClient().getIssue(repository, link.issueNumber);
+      if (issue.state === 'open') {
+        await this.activate(repository, repository.rootUri, issue);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to load issue #${link.issueNumber} for the context file`, error);
+    }
+  }
+
+  /**
+   * Build and write the context document for an issue
+   */
+  private async write(issue: GitHubIssue): Promise<void> {
+    const active = this.activeIssue;
+    if (!active) {
+      return;
+    }
+
+    if (!getWorkspaceTrustManager().isAllowed('writeFiles')) {
+      this.logger.info('Skipping issue context file: workspace is not trusted');
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration('gitissueBridge');
+    const limits: IssueContextLimits = {
+      maxBodyLength: config.get<number>('context.maxBodyLength', 8000),
+      maxComments: config.get<number>('context.maxComments', 5),
+      maxCommentLength: config.get<number>('context.maxCommentLength', 2000),
+    };
+
+    const client = getGitHubIssuesClient();
+    const [comments, linkedPullRequests] = await Promise.all([
+      limits.maxComments > 0 ? client.listComments(active, issue.number) : Promise.resolve([]),
+      client.listLinkedPullRequests(active, issue.number),
+    ]);
+
+    const document = buildIssueContext(
+      { repository: active, issue, comments, linkedPullRequests },
+      limits,
+      text => getRedactor().redact(text)
+    );
+
+    const filePath = path.join(active.rootPath, ISSUE_CONTEXT_FILE);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(document, null, 2) + '\n', 'utf8');
+    this.logger.info(`Wrote issue context for #${issue.number}`, { truncated: document.truncated });
+  }
+
+  private isEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration('gitissueBridge')
+      .get<boolean>('context.enabled', true);
+  }
+
+  private async setActiveIssue(issue: ActiveContextIssue | undefined): Promise<void> {
+    this.activeIssue = issue;
+    await this.workspaceState?.update(ACTIVE_CONTEXT_KEY, issue);
+  }
+
+  /**
+   * Poll the active issue for edits at the configured interval
+   */
+  private startRefreshTimer(): void {
+    this.stopRefreshTimer();
+    const minutes = vscode.workspace
+      .getConfiguration('gitissueBridge')
+      .get<number>('context.refreshInterval', 5);
+
+    if (minutes > 0) {
+      this.refreshTimer = setInterval(() => void this.refresh(), minutes * 60 * 1000);
+    }
+  }
+
+  private stopRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
+  /**
+   * Dispose timer and listeners
+   */
+  public dispose(): void {
+    this.stopRefreshTimer();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+}
+
+/**
+ * Get issue context generator instance (convenience function)
+ */
+export function getIssueContextGenerator(): IssueContextGenerator {
+  return IssueContextGenerator.getInstance();
+}
@@ -1,8 +1,33 @@
 import * as vscode from 'vscode';
-import { getLogger, LogLevel } from './utils/logger';
+import { getLogger } from './utils/logger';
 import { getErrorHandler } from './utils/errorHandler';
 import { getWorkspaceTrustManager } from './utils/workspaceTrustManager';
+import { exportDiagnosticsBundle } from './utils/diagnosticsBundle';
 import { getGitHubAuthManager } from './auth/githubAuthManager';
+import { diagnoseAuthentication, formatAuthDiagnosis } from './auth/authDiagnostics';
+import { getRepositoryService } from './git/repositoryService';
+import { getIssueWorkflow } from './git/issueWorkflow';
+import { getBranchIssueMapper } from './git/branchIssueMapper';
+import { getIssueCache } from './cache/issueCache';
+import { getRequestScheduler } from './api/requestScheduler';
+import { CreateIssueInput } from './api/types';
+import { getIssueContextGenerator } from './context/issueContextGenerator';
+import { registerIssuesChatParticipant } from './chat/issuesChatParticipant';
+import { createIssue } from './views/issueCreator';
+import { IssueSearchPicker } from './views/issueSearch';
+import { IssueDetailPanels, ISSUE_DETAIL_VIEW_TYPE } from './views/issueDetailPanel';
+import { MilestoneBoardPanels, MILESTONE_BOARD_VIEW_TYPE } from './views/milestoneBoardPanel';
+import { IssueStatusBar } from './views/issueStatusBar';
+import { AccountStatusBar } from './views/accountStatusBar';
+import { TodoTreeProvider, TODOS_VIEW_ID } from './views/todoTreeProvider';
+import {
+  IssueNode,
+  IssueTreeNode,
+  MilestoneNode,
+  IssueTreeProvider,
+  ISSUES_VIEW_ID,
+  getNodeUrl,
+} from './views/issueTreeProvider';
 
 /**
  * Extension activation entry point
@@ -14,13 +39,80 @@ export function activate(context: vscode.ExtensionContext): void {
 
   logger.info('🚀 GitIssue Bridge is activating...');
 
-  // Set log level from configuration (can be added to package.json later)
-  const config = vscode.workspace.getConfiguration('gitissueBridge');
-  const logLevel = config.get<string>('logLevel', 'info');
-  logger.setLogLevel(LogLevel[logLevel.toUpperCase() as keyof typeof LogLevel] || LogLevel.INFO);
+  // Apply log level, format and log file settings, and follow their changes
+  logger.initialize(context);
+
+  // Restore the GitHub accounts chosen per repository
+  getGitHubAuthManager().initialize(context);
+
+  // Detect GitHub repositories behind the workspace folders
+  const repositoryService = getRepositoryService();
+  repositoryService.initialize(context).catch(error => {
+    logger.error('Failed to detect workspace repositories', error);
+  });
+
+  // Keep an offline copy of issues, milestones and labels in sync
+  const issueCache = getIssueCache();
+  issueCache.initialize(context);
+
+  // Map the checked out branch to its issue
+  const branchIssueMapper = getBranchIssueMapper();
+  branchIssueMapper.initialize(context);
+
+  // Keep .vscode/issue-context.json in sync with the active issue
+  const issueContextGenerator = getIssueContextGenerator();
+  issueContextGenerator.initialize(context);
+
+  // Register Milestones → Issues tree view
+  const issueTreeProvider = new IssueTreeProvider();
+  const issueTreeView = vscode.window.createTreeView(ISSUES_VIEW_ID, {
+    treeDataProvider: issueTreeProvider,
+    showCollapseAll: true,
+  });
+  issueTreeProvider.setTreeView(issueTreeView);
+
+  // Register the TODO comments review panel
+  const todoTreeProvider = new TodoTreeProvider();
+  const todoTreeView = vscode.window.createTreeView(TODOS_VIEW_ID, {
+    treeDataProvider: todoTreeProvider,
+    showCollapseAll: true,
+  });
+  todoTreeProvider.setTreeView(todoTreeView);
+
+  // Show the issue tied to the current branch in the status bar
+  const issueStatusBar = new IssueStatusBar();
+
+  // Show the GitHub account of the current repository in the status bar
+  const accountStatusBar = new AccountStatusBar();
+
+  // Search issues with GitHub search syntax, remembering recent and favorite issues
+  const issueSearchPicker = new IssueSearchPicker(context.workspaceState);
+
+  // Show issues with their comments and events in webview panels, restored after a reload
+  const issueDetailPanels = new IssueDetailPanels(context.extensionUri);
+  const issueDetailSerializer = vscode.window.registerWebviewPanelSerializer(
+    ISSUE_DETAIL_VIEW_TYPE,
+    issueDetailPanels
+  );
+  const issueDetailListener = issueDetailPanels.onDidChangeIssue(() =>
+    issueTreeProvider.refresh()
+  );
+
+  // Plan milestones on Kanban boards, restored after a reload
+  const milestoneBoardPanels = new MilestoneBoardPanels(context.extensionUri);
+  const milestoneBoardSerializer = vscode.window.registerWebviewPanelSerializer(
+    MILESTONE_BOARD_VIEW_TYPE,
+    milestoneBoardPanels
+  );
+  const milestoneBoardListener = milestoneBoardPanels.onDidChangeIssue(() =>
+    issueTreeProvider.refresh()
+  );
+
+  // Register the @issues chat participant
+  const issuesChatParticipant = registerIssuesChatParticipant();
 
   // Register test command with workspace trust verification
-  const testCommand = vscode.commands.registerCommand('gitissue-bridge.test', async () => {
+  const testCommand = registerCommand('gitissue-bridge.test', async () => {
     try {
       const trustManager = getWorkspaceTrustManager();
       
@@ -43,18 +135,18 @@ export function activate(context: vscode.ExtensionContext): void {
   });
 
   // Register command to show logs
-  const showLogsCommand = vscode.commands.registerCommand('gitissue-bridge.showLogs', () => {
+  const showLogsCommand = registerCommand('gitissue-bridge.showLogs', () => {
     logger.show();
   });
 
   // Register command to clear logs
-  const clearLogsCommand = vscode.commands.registerCommand('gitissue-bridge.clearLogs', () => {
+  const clearLogsCommand = registerCommand('gitissue-bridge.clearLogs', () => {
     logger.clear();
     logger.info('Logs cleared');
   });
 
   // Register command to test error handling
-  const testErrorCommand = vscode.commands.registerCommand(
+  const testErrorCommand = registerCommand(
     'gitissue-bridge.testError',
     async () => {
       try {
@@ -75,7 +167,7 @@ export function activate(context: vscode.ExtensionContext): void {
   );
 
   // Register GitHub authentication command
-  const authenticateCommand = vscode.commands.registerCommand(
+  const authenticateCommand = registerCommand(
     'gitissue-bridge.authenticate',
     async () => {
       try {
@@ -84,7 +176,9 @@ export function activate(context: vscode.ExtensionContext): void {
         
         if (success) {
           const username = await authManager.getUsername();
-          await errorHandler.showSuccess(`Authenticated as @${username}`);
+          await errorHandler.showSuccess(
+            `Authenticated as @${username} on ${authManager.getActiveHost()}`
+          );
         }
       } catch (error) {
         await errorHandler.handle(error, {
@@ -96,7 +190,7 @@ export function activate(context: vscode.ExtensionContext): void {
   );
 
   // Register GitHub logout command
-  const logoutCommand = vscode.commands.registerCommand(
+  const logoutCommand = registerCommand(
     'gitissue-bridge.logout',
     async () => {
       try {
@@ -112,7 +206,7 @@ export function activate(context: vscode.ExtensionContext): void {
   );
 
   // Register show GitHub user command
-  const showUserCommand = vscode.commands.registerCommand(
+  const showUserCommand = registerCommand(
     'gitissue-bridge.showUser',
     async () => {
       try {
@@ -127,7 +221,12 @@ export function activate(context: vscode.ExtensionContext): void {
         }
         
         const username = await authManager.getUsername();
-        await vscode.window.showInformationMessage(`Logged in as @${username}`);
+        const repository = repositoryService.getCurrentRepository();
+        await vscode.window.showInformationMessage(
+          repository
+            ? `Logged in as @${username} on ${repository.host} for ${repository.owner}/${repository.repo}`
+            : `Logged in as @${username} on ${authManager.getActiveHost()}`
+        );
       } catch (error) {
         await errorHandler.handle(error, {
           operation: 'showUser',
@@ -137,6 +236,278 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   );
 
+  // Register command to sign in to github.com or GitHub Enterprise with another account
+  const switchAccountCommand = registerCommand(
+    'gitissue-bridge.switchAccount',
+    async () => {
+      try {
+        const authManager = getGitHubAuthManager();
+        if (await authManager.switchAccount()) {
+          const username = await authManager.getUsername();
+          await errorHandler.showSuccess(
+            `Authenticated as @${username} on ${authManager.getActiveHost()}`
+          );
+        }
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'switchAccount',
+          component: 'Authentication',
+        });
+      }
+    }
+  );
+
+  // Register command to grant missing OAuth scopes, offered by errors that need them
+  const grantScopesCommand = registerCommand(
+    'gitissue-bridge.grantScopes',
+    async (scopes: string[] = []) => {
+      try {
+        return await getGitHubAuthManager().upgradeScopes(scopes);
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'grantScopes',
+          component: 'Authentication',
+          metadata: { scopes },
+        });
+        return false;
+      }
+    }
+  );
+
+  // Register command to check the GitHub session and open a report
+  const diagnoseAuthCommand = registerCommand(
+    'gitissue-bridge.diagnoseAuth',
+    async () => {
+      try {
+        const diagnosis = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Diagnosing GitHub authentication…',
+          },
+          () => diagnoseAuthentication()
+        );
+        const document = await vscode.workspace.openTextDocument({
+          content: formatAuthDiagnosis(diagnosis),
+          language: 'markdown',
+        });
+        await vscode.window.showTextDocument(document);
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'diagnoseAuth',
+          component: 'Authentication',
+        });
+      }
+    }
+  );
+
+  // Register command to save logs, settings and status for a bug report
+  const exportDiagnosticsCommand = registerCommand(
+    'gitissue-bridge.exportDiagnostics',
+    async () => {
+      try {
+        await exportDiagnosticsBundle(context);
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'exportDiagnostics',
+          component: 'Diagnostics',
+        });
+      }
+    }
+  );
+
+  // Register command to switch the active repository
+  const selectRepositoryCommand = registerCommand(
+    'gitissue-bridge.selectRepository',
+    async () => {
+      try {
+        await repositoryService.selectRepository();
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'selectRepository',
+          component: 'Git',
+        });
+      }
+    }
+  );
+
+  // Register command to reload the issue tree
+  const refreshIssuesCommand = registerCommand(
+    'gitissue-bridge.refreshIssues',
+    () => {
+      issueTreeProvider.refresh();
+    }
+  );
+
+  // Register command to sync the offline cache with GitHub right away
+  const syncNowCommand = registerCommand('gitissue-bridge.syncNow', async () => {
+    const repository = repositoryService.getCurrentRepository();
+    try {
+      await vscode.window.withProgress(
+        { location: { viewId: ISSUES_VIEW_ID }, title: 'Syncing with GitHub…' },
+        () => issueCache.syncNow()
+      );
+    } catch (error) {
+      await errorHandler.handle(error, {
+        operation: 'syncNow',
+        component: 'Cache',
+        cachedDataAvailable: repository ? await issueCache.hasData(repository) : false,
+        retry: () => vscode.commands.executeCommand('gitissue-bridge.syncNow'),
+      });
+    }
+  });
+
+  // Register command to open a milestone or issue in the browser
+  const openOnGitHubCommand = registerCommand(
+    'gitissue-bridge.openOnGitHub',
+    async (node?: IssueTreeNode) => {
+      const url = node ? getNodeUrl(node) : undefined;
+      if (url) {
+        await vscode.env.openExternal(vscode.Uri.parse(url));
+      }
+    }
+  );
+
+  // Register command to show an issue with its comments and events
+  const openIssueCommand = registerCommand(
+    'gitissue-bridge.openIssue',
+    async (target?: IssueNode | string) => {
+      try {
+        await issueDetailPanels.open(target);
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'openIssue',
+          component: 'Views',
+        });
+      }
+    }
+  );
+
+  // Register command to show the Kanban board of a milestone
+  const openBoardCommand = registerCommand(
+    'gitissue-bridge.openBoard',
+    async (node?: MilestoneNode) => {
+      try {
+        await milestoneBoardPanels.open(node);
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'openBoard',
+          component: 'Views',
+        });
+      }
+    }
+  );
+
+  // Register command to create and check out the branch for an issue
+  const startIssueCommand = registerCommand(
+    'gitissue-bridge.startIssue',
+    async (target?: IssueNode | string) => {
+      try {
+        await getIssueWorkflow().startIssue(target);
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'startIssue',
+          component: 'Git',
+          retry: () => vscode.commands.executeCommand('gitissue-bridge.startIssue', target),
+        });
+      }
+    }
+  );
+
+  // Register command to finish working on an issue
+  const finishIssueCommand = registerCommand(
+    'gitissue-bridge.finishIssue',
+    async (target?: IssueNode | string) => {
+      try {
+        const finished = await getIssueWorkflow().finishIssue(target);
+        if (finished) {
+          issueTreeProvider.refresh();
+        }
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'finishIssue',
+          component: 'Git',
+          retry: () => vscode.commands.executeCommand('gitissue-bridge.finishIssue', target),
+        });
+      }
+    }
+  );
+
+  // Register command to show the actions for the issue in the status bar
+  const showIssueActionsCommand = registerCommand(
+    'gitissue-bridge.showIssueActions',
+    async () => {
+      try {
+        await issueStatusBar.showActions();
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'showIssueActions',
+          component: 'StatusBar',
+        });
+      }
+    }
+  );
+
+  // Register command to create an issue, optionally from a draft
+  const createIssueCommand = registerCommand(
+    'gitissue-bridge.createIssue',
+    async (draft?: CreateIssueInput) => {
+      try {
+        const issue = await createIssue(draft);
+        if (issue) {
+          issueTreeProvider.refresh();
+        }
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'createIssue',
+          component: 'Commands',
+        });
+      }
+    }
+  );
+
+  // Register command to search the issues of the current repository
+  const searchIssuesCommand = registerCommand('gitissue-bridge.searchIssues', async () => {
+    try {
+      await issueSearchPicker.show();
+    } catch (error) {
+      await errorHandler.handle(error, {
+        operation: 'searchIssues',
+        component: 'Views',
+      });
+    }
+  });
+
+  // Register command to scan the workspace for TODO comments
+  const scanTodosCommand = registerCommand('gitissue-bridge.scanTodos', async () => {
+    try {
+      await todoTreeProvider.scan();
+    } catch (error) {
+      await errorHandler.handle(error, {
+        operation: 'scanTodos',
+        component: 'Todos',
+        retry: () => vscode.commands.executeCommand('gitissue-bridge.scanTodos'),
+      });
+    }
+  });
+
+  // Register command to file issues for the checked TODO comments
+  const createIssuesFromTodosCommand = registerCommand(
+    'gitissue-bridge.createIssuesFromTodos',
+    async () => {
+      try {
+        const created = await todoTreeProvider.createIssues();
+        if (created > 0) {
+          issueTreeProvider.refresh();
+        }
+      } catch (error) {
+        await errorHandler.handle(error, {
+          operation: 'createIssuesFromTodos',
+          component: 'Todos',
+        });
+      }
+    }
+  );
+
   context.subscriptions.push(
     testCommand,
     showLogsCommand,
@@ -145,6 +516,41 @@ export function activate(context: vscode.ExtensionContext): void {
     authenticateCommand,
     logoutCommand,
     showUserCommand,
+    switchAccountCommand,
+    grantScopesCommand,
+    diagnoseAuthCommand,
+    exportDiagnosticsCommand,
+    selectRepositoryCommand,
+    refreshIssuesCommand,
+    syncNowCommand,
+    openOnGitHubCommand,
+    openIssueCommand,
+    openBoardCommand,
+    startIssueCommand,
+    finishIssueCommand,
+    showIssueActionsCommand,
+    createIssueCommand,
+    searchIssuesCommand,
+    scanTodosCommand,
+    createIssuesFromTodosCommand,
+    issueTreeView,
+    todoTreeView,
+    todoTreeProvider,
+    issueStatusBar,
+    accountStatusBar,
+    issueDetailSerializer,
+    issueDetailListener,
+    issueDetailPanels,
+    milestoneBoardSerializer,
+    milestoneBoardListener,
+    milestoneBoardPanels,
+    issuesChatParticipant,
+    issueTreeProvider,
+    issueContextGenerator,
+    branchIssueMapper,
+    issueCache,
+    getRequestScheduler(),
+    repositoryService,
     logger
   );
 
@@ -166,6 +572,21 @@ export function deactivate(): void {
   logger.info('👋 GitIssue Bridge deactivated');
 }
 
+/**
+ * Register a command whose invocations each log under their own correlation ID
+ * VS Code does not check command arguments; Args is what the command's callers pass.
+ */
+function registerCommand<Args extends unknown[]>(
+  command: string,
+  callback: (...args: Args) => unknown
+): vscode.Disposable {
+  return vscode.commands.registerCommand(command, (...args: unknown[]) =>
+    getLogger().withContext({ operation: command.replace(/^gitissue-bridge\./, '') }, () =>
+      callback(...(args as Args))
+    )
+  );
+}
+
 /**
  * Show welcome message on first activation
  */
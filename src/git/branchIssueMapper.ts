@@ -0,0 +1,321 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { parseIssueNumberFromBranch } from './branchNaming';
+import { getBranchCommitMessages, getCurrentBranch } from './gitCommands';
+import { getRepositoryService } from './repositoryService';
+import { ParsedRemoteUrl, WorkspaceRepository } from './types';
+
+/**
+ * Workspace state key for the persisted branch → issue mappings
+ */
+const BRANCH_ISSUES_KEY = 'gitissueBridge.branchIssues';
+
+/**
+ * How a branch was matched to its issue
+ * - start: recorded when the branch was created by "Start Working on Issue"
+ * - template: branch name matches the naming template
+ * - linkedBranch: linked to the issue on GitHub (Development section)
+ * - commits: most referenced #123 in the branch's own commits
+ */
+export type BranchIssueSource = 'start' | 'template' | 'linkedBranch' | 'commits';
+
+/**
+ * Issue a branch belongs to
+ */
+export interface BranchIssueLink {
+  repository: ParsedRemoteUrl;
+  branch: string;
+  issueNumber: number;
+  source: BranchIssueSource;
+}
+
+/**
+ * Persisted mapping of one branch
+ */
+interface StoredBranchIssue {
+  issueNumber: number;
+  source: BranchIssueSource;
+}
+
+/**
+ * Persisted mappings, keyed by "host/owner/repo" and then by branch name
+ */
+type StoredBranchIssues = Record<string, Record<string, StoredBranchIssue>>;
+
+/**
+ * Find the issue a branch's commits refer to
+ * Counts bare "#123" and "GH-123" references; ties go to the most recent commit
+ *
+ * @param messages Commit messages, most recent first
+ */
+export function findIssueInCommitMessages(messages: string[]): number | undefined {
+  const counts = new Map<number, number>();
+  const pattern = /(?:^|[^\w/#&])(?:#|GH-)(\d+)\b/gi;
+
+  for (const message of messages) {
+    for (const match of message.matchAll(pattern)) {
+      const issueNumber = Number(match[1]);
+      counts.set(issueNumber, (counts.get(issueNumber) ?? 0) + 1);
+    }
+  }
+
+  let best: number | undefined;
+  for (const [issueNumber, count] of counts) {
+    // Map keeps first-seen order, so strictly greater keeps the most recent on ties
+    if (best === undefined || count > (counts.get(best) ?? 0)) {
+      best = issueNumber;
+    }
+  }
+  return best;
+}
+
+/**
+ * Branch → issue mapper
+ * Figures out which issue the checked out branch of the current repository belongs to,
+ * remembers the answer per repository and notifies subscribers when it changes
+ */
+export class BranchIssueMapper implements vscode.Disposable {
+  private static instance: BranchIssueMapper;
+  private logger = getLogger().child('Git');
+  private workspaceState: vscode.Memento | undefined;
+  private currentLink: BranchIssueLink | undefined;
+  private resolveCount = 0;
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly onDidChangeCurrentIssueEmitter = new vscode.EventEmitter<
+    BranchIssueLink | undefined
+  >();
+
+  /**
+   * Fired when the issue of the current branch changes (undefined when there is none)
+   */
+  public readonly onDidChangeCurrentIssue = this.onDidChangeCurrentIssueEmitter.event;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): BranchIssueMapper {
+    if (!BranchIssueMapper.instance) {
+      BranchIssueMapper.instance = new BranchIssueMapper();
+    }
+    return BranchIssueMapper.instance;
+  }
+
+  /**
+   * Start following the current repository and branch
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    this.workspaceState = context.workspaceState;
+    const repositoryService = getRepositoryService();
+
+    this.disposables.push(
+      repositoryService.onDidChangeCurrentRepository(() => void this.refresh()),
+      repositoryService.onDidChangeBranch(event => {
+        const current = repositoryService.getCurrentRepository();
+        if (current && current.rootUri.fsPath === event.rootUri.fsPath) {
+          void this.refresh();
+        }
+      }),
+      getWorkspaceTrustManager().onDidGrantWorkspaceTrust(() => void this.refresh()),
+      // A new session may unlock the GitHub lookup for an unmatched branch
+      getGitHubAuthManager().onDidChangeSession(() => {
+        if (!this.currentLink) {
+          void this.refresh();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('gitissueBridge.branchNameTemplate')) {
+          void this.refresh();
+        }
+      })
+    );
+
+    void this.refresh();
+  }
+
+  /**
+   * Get the issue of the current branch, if known
+   */
+  public getCurrentLink(): BranchIssueLink | undefined {
+    return this.currentLink;
+  }
+
+  /**
+   * Re-resolve the issue of the current repository's checked out branch
+   */
+  public async refresh(): Promise<BranchIssueLink | undefined> {
+    // Branch switches can overlap; only the latest result is published
+    const resolveId = ++this.resolveCount;
+    const repository = getRepositoryService().getCurrentRepository();
+
+    let link: BranchIssueLink | undefined;
+    try {
+      const branch = repository ? await this.getBranch(repository) : undefined;
+      link = repository && branch ? await this.resolve(repository, branch) : undefined;
+    } catch (error) {
+      this.logger.warn('Failed to map the current branch to an issue', error);
+    }
+
+    if (resolveId === this.resolveCount) {
+      this.setCurrentLink(link);
+    }
+    return link;
+  }
+
+  /**
+   * Find the issue a branch belongs to, trying the cheapest sources first
+   * Matches found on GitHub or in commits are remembered for the repository
+   */
+  public async resolve(
+    repository: WorkspaceRepository,
+    branch: string
+  ): Promise<BranchIssueLink | undefined> {
+    const template = vscode.workspace
+      .getConfiguration('gitissueBridge')
+      .get<string>('branchNameTemplate');
+    const fromName = parseIssueNumberFromBranch(branch, template);
+    if (fromName) {
+      return this.createLink(repository, branch, { issueNumber: fromName, source: 'template' });
+    }
+
+    const stored = this.getStored()[repositoryKey(repository)]?.[branch];
+    if (stored) {
+      return this.createLink(repository, branch, stored);
+    }
+
+    const fromGitHub = await this.findLinkedIssue(repository, branch);
+    if (fromGitHub) {
+      return this.remember(repository, branch, fromGitHub, 'linkedBranch');
+    }
+
+    if (getWorkspaceTrustManager().isTrusted()) {
+      const messages = await getBranchCommitMessages(repository.rootUri.fsPath, branch);
+      const fromCommits = findIssueInCommitMessages(messages);
+      if (fromCommits) {
+        return this.remember(repository, branch, fromCommits, 'commits');
+      }
+    }
+
+    this.logger.debug(`No issue found for branch ${branch}`);
+    return undefined;
+  }
+
+  /**
+   * Record the issue of a branch, e.g. right after creating it for the issue
+   */
+  public async setIssueForBranch(
+    repository: WorkspaceRepository,
+    branch: string,
+    issueNumber: number,
+    source: BranchIssueSource = 'start'
+  ): Promise<void> {
+    const link = await this.remember(repository, branch, issueNumber, source);
+
+    const current = getRepositoryService().getCurrentRepository();
+    if (current?.rootUri.fsPath === repository.rootUri.fsPath) {
+      this.setCurrentLink(link);
+    }
+  }
+
+  /**
+   * Look up the branch in the Development section of open issues
+   */
+  private async findLinkedIssue(
+    repository: WorkspaceRepository,
+    branch: string
+  ): Promise<number | undefined> {
+    if (!(await getGitHubAuthManager().isAuthenticated(repository))) {
+      return undefined;
+    }
+
+    try {
+      const links = await getGitHubIssuesClient().listLinkedBranches(repository);
+      return links.find(link => link.branch === branch)?.issueNumber;
+    } catch (error) {
+      // Not fatal: GHES versions without linked branches reject the query
+      this.logger.debug('Linked branch lookup failed', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the checked out branch, asking git only in trusted workspaces
+   */
+  private async getBranch(repository: WorkspaceRepository): Promise<string | undefined> {
+    const branch = getRepositoryService().getBranch(repository);
+    if (branch || !getWorkspaceTrustManager().isTrusted()) {
+      return branch;
+    }
+    return getCurrentBranch(repository.rootUri.fsPath);
+  }
+
+  private async remember(
+    repository: WorkspaceRepository,
+    branch: string,
+    issueNumber: number,
+    source: BranchIssueSource
+  ): Promise<BranchIssueLink> {
+    const stored = this.getStored();
+    const key = repositoryKey(repository);
+    stored[key] = { ...stored[key], [branch]: { issueNumber, source } };
+    await this.workspaceState?.update(BRANCH_ISSUES_KEY, stored);
+
+    this.logger.info(`Mapped branch ${branch} to issue #${issueNumber}`, { source });
+    return this.createLink(repository, branch, { issueNumber, source });
+  }
+
+  private getStored(): StoredBranchIssues {
+    return { ...this.workspaceState?.get<StoredBranchIssues>(BRANCH_ISSUES_KEY) };
+  }
+
+  private createLink(
+    repository: WorkspaceRepository,
+    branch: string,
+    { issueNumber, source }: StoredBranchIssue
+  ): BranchIssueLink {
+    const { host, owner, repo } = repository;
+    return { repository: { host, owner, repo }, branch, issueNumber, source };
+  }
+
+  private setCurrentLink(link: BranchIssueLink | undefined): void {
+    const previous = this.currentLink;
+    this.currentLink = link;
+
+    const changed =
+      previous?.issueNumber !== link?.issueNumber ||
+      previous?.branch !== link?.branch ||
+      previous?.repository.owner !== link?.repository.owner ||
+      previous?.repository.repo !== link?.repository.repo;
+    if (changed) {
+      this.onDidChangeCurrentIssueEmitter.fire(link);
+    }
+  }
+
+  /**
+   * Dispose listeners and event emitters
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.onDidChangeCurrentIssueEmitter.dispose();
+  }
+}
+
+/**
+ * Key used to store mappings of a repository
+ */
+function repositoryKey(repository: ParsedRemoteUrl): string {
+  return `${repository.host}/${repository.owner}/${repository.repo}`.toLowerCase();
+}
+
+/**
+ * Get branch issue mapper instance (convenience function)
+ */
+export function getBranchIssueMapper(): BranchIssueMapper {
+  return BranchIssueMapper.getInstance();
+}
@@ -0,0 +1,153 @@
+import { GitHubIssue } from '../api/types';
+
+/**
+ * Default branch name template
+ * Supported placeholders: {type}, {number}, {slug}
+ */
+export const DEFAULT_BRANCH_TEMPLATE = '{type}/{number}-{slug}';
+
+/**
+ * Default mapping from issue label to branch type
+ */
+export const DEFAULT_BRANCH_TYPES: Record<string, string> = {
+  bug: 'fix',
+  enhancement: 'feat',
+  feature: 'feat',
+  documentation: 'docs',
+  refactor: 'refactor',
+  test: 'test',
+  chore: 'chore',
+};
+
+/**
+ * Branch type used when no label matches
+ */
+export const DEFAULT_BRANCH_TYPE = 'feat';
+
+/**
+ * Options for building branch names
+ */
+export interface BranchNameOptions {
+  template?: string;
+  typeMapping?: Record<string, string>;
+  maxSlugLength?: number;
+}
+
+/**
+ * Convert text into a lowercase, dash-separated slug
+ * Diacritics are removed and the result is cut at a word boundary
+ */
+export function slugify(text: string, maxLength = 50): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= maxLength) {
+    return slug;
+  }
+
+  const cut = slug.slice(0, maxLength + 1);
+  const boundary = cut.lastIndexOf('-');
+  return (boundary > 0 ? cut.slice(0, boundary) : slug.slice(0, maxLength)).replace(/-+$/, '');
+}
+
+/**
+ * Derive the branch type from issue labels
+ * Label names are compared case-insensitively against the mapping keys
+ */
+export function deriveBranchType(
+  labels: string[],
+  typeMapping: Record<string, string> = DEFAULT_BRANCH_TYPES
+): string {
+  const normalized = new Map(
+    Object.entries(typeMapping).map(([label, type]) => [label.toLowerCase(), type])
+  );
+
+  for (const label of labels) {
+    const type = normalized.get(label.toLowerCase());
+    if (type) {
+      return type;
+    }
+  }
+
+  return DEFAULT_BRANCH_TYPE;
+}
+
+/**
+ * Make a string safe to use as a git branch name (see git check-ref-format)
+ */
+export function sanitizeBranchName(name: string): string {
+  return name
+    .replace(/[\s~^:?*[\\\x00-\x1f\x7f]+/g, '-')
+    .replace(/\.{2,}/g, '.')
+    .replace(/@\{/g, '-')
+    .replace(/\/{2,}/g, '/')
+    .split('/')
+    .map(part =>
+      part
+        .replace(/^[.-]+/, '')
+        .replace(/(\.lock)+$/, '')
+        .replace(/\.+$/, '')
+    )
+    .filter(part => part.length > 0)
+    .join('/');
+}
+
+/**
+ * Build a branch name for an issue from the configured template
+ */
+export function buildBranchName(issue: GitHubIssue, options: BranchNameOptions = {}): string {
+  const template = options.template || DEFAULT_BRANCH_TEMPLATE;
+  const type = deriveBranchType(
+    issue.labels.map(label => label.name),
+    options.typeMapping ?? DEFAULT_BRANCH_TYPES
+  );
+  const slug = slugify(issue.title, options.maxSlugLength);
+
+  const name = template
+    .replace(/\{type\}/g, type)
+    .replace(/\{number\}/g, String(issue.number))
+    .replace(/\{slug\}/g, slug);
+
+  return sanitizeBranchName(name);
+}
+
+/**
+ * Extract the issue number from a branch name
+ * Matches the configured template first, then common patterns like "42-slug" or "issue-42"
+ *
+ * @returns Issue number or undefined if the branch does not reference an issue
+ */
+export function parseIssueNumberFromBranch(
+  branch: string,
+  template: string = DEFAULT_BRANCH_TEMPLATE
+): number | undefined {
+  if (template.includes('{number}')) {
+    const pattern = template
+      .split(/(\{type\}|\{number\}|\{slug\})/)
+      .map(part => {
+        switch (part) {
+          case '{type}':
+            return '[^/]+?';
+          case '{number}':
+            return '(\\d+)';
+          case '{slug}':
+            return '.*?';
+          default:
+            return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+      })
+      .join('');
+
+    const match = new RegExp(`^${pattern}$`).exec(branch);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+
+  const fallback = /(?:^|\/)(?:(?:issue|issues|gh)[-_]?)?#?(\d+)(?:[-_]|$)/i.exec(branch);
+  return fallback ? Number(fallback[1]) : undefined;
+}
@@ -0,0 +1,126 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ReviewRequest } from '../api/types';
+
+/**
+ * Locations GitHub reads CODEOWNERS from, in order of precedence
+ */
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+/**
+ * One CODEOWNERS line: a path pattern and its owners
+ */
+export interface CodeOwnersRule {
+  pattern: string;
+  /** "@user", "@org/team" or e-mail addresses */
+  owners: string[];
+}
+
+/**
+ * Parse a CODEOWNERS file, ignoring comments and blank lines
+ */
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) {
+      continue;
+    }
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners });
+  }
+
+  return rules;
+}
+
+/**
+ * Convert a CODEOWNERS (gitignore-style) pattern to a regular expression
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.startsWith('/') || pattern.slice(0, -1).includes('/');
+  const directory = pattern.endsWith('/');
+  const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+  let source = '';
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === '*' && trimmed[i + 1] === '*') {
+      // "**/" matches any number of directories, a trailing "**" everything below
+      source += trimmed[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += trimmed[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  // A pattern matching a directory also owns everything inside it, except for "dir/*"
+  const suffix = directory ? '/.*$' : /(^|\/)\*$/.test(trimmed) ? '$' : '(?:/.*)?$';
+  return new RegExp(prefix + source + suffix);
+}
+
+/**
+ * Find the owners of a set of files
+ * As on GitHub, the last matching rule wins for each file
+ */
+export function findCodeOwners(rules: CodeOwnersRule[], files: string[]): string[] {
+  const matchers = rules.map(rule => ({ ...rule, regExp: patternToRegExp(rule.pattern) }));
+  const owners = new Set<string>();
+
+  for (const file of files) {
+    const normalized = file.replace(/\\/g, '/');
+    const match = [...matchers].reverse().find(rule => rule.regExp.test(normalized));
+    match?.owners.forEach(owner => owners.add(owner));
+  }
+
+  return [...owners];
+}
+
+/**
+ * Split owners into user and team reviewers
+ * E-mail owners cannot be requested through the API and are dropped, as is the author
+ *
+ * @param author Login of the pull request author, who cannot review their own pull request
+ */
+export function toReviewRequest(owners: string[], author?: string): ReviewRequest {
+  const reviewers = new Set<string>();
+  const teamReviewers = new Set<string>();
+
+  for (const owner of owners) {
+    const name = owner.replace(/^@/, '');
+    if (!owner.startsWith('@') && name.includes('@')) {
+      continue;
+    }
+    if (name.includes('/')) {
+      // Review requests take the team slug without the organization
+      teamReviewers.add(name.split('/')[1]);
+    } else if (name.toLowerCase() !== author?.toLowerCase()) {
+      reviewers.add(name);
+    }
+  }
+
+  return { reviewers: [...reviewers], teamReviewers: [...teamReviewers] };
+}
+
+/**
+ * Read the CODEOWNERS rules of a working tree
+ *
+ * @returns Rules of the first CODEOWNERS file found, or an empty list
+ */
+export async function readCodeOwners(rootPath: string): Promise<CodeOwnersRule[]> {
+  for (const relativePath of CODEOWNERS_PATHS) {
+    try {
+      const content = await fs.readFile(path.join(rootPath, relativePath), 'utf8');
+      return parseCodeOwners(content);
+    } catch {
+      // Not at this location, try the next one
+    }
+  }
+  return [];
+}
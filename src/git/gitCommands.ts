@@ -0,0 +1,201 @@
+import { execFile } from 'child_process';
+import { getLogger } from '../utils/logger';
+
+/**
+ * Error raised when a git command exits with a non-zero status
+ */
+export class GitCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly args: string[],
+    public readonly stderr: string,
+    public readonly exitCode?: number
+  ) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+}
+
+/**
+ * Run git with arguments in a working tree
+ * Arguments are passed without a shell, so they are never interpreted
+ *
+ * @returns Trimmed standard output
+ */
+export function runGit(cwd: string, args: string[]): Promise<string> {
+  const logger = getLogger().child('Git');
+  logger.debug(`git ${args.join(' ')}`, { cwd });
+  const span = logger.startSpan(`git ${args[0]}`);
+
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        span.fail(error);
+        const exitCode = typeof error.code === 'number' ? error.code : undefined;
+        const detail = String(stderr).trim() || error.message;
+        reject(
+          new GitCommandError(`git ${args[0]} failed: ${detail}`, args, String(stderr), exitCode)
+        );
+        return;
+      }
+      span.end();
+      resolve(String(stdout).trim());
+    });
+  });
+}
+
+/**
+ * Get the name of the checked out branch (undefined on detached HEAD)
+ */
+export async function getCurrentBranch(cwd: string): Promise<string | undefined> {
+  try {
+    return await runGit(cwd, ['symbolic-ref', '--quiet', '--short', 'HEAD']);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether the working tree has staged, unstaged or untracked changes
+ */
+export async function hasUncommittedChanges(cwd: string): Promise<boolean> {
+  const status = await runGit(cwd, ['status', '--porcelain']);
+  return status.length > 0;
+}
+
+/**
+ * Check whether a local branch exists
+ */
+export async function branchExists(cwd: string, branch: string): Promise<boolean> {
+  try {
+    await runGit(cwd, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a branch from the current HEAD (or startPoint) and check it out
+ */
+export async function createBranch(
+  cwd: string,
+  branch: string,
+  startPoint?: string
+): Promise<void> {
+  await runGit(cwd, ['checkout', '-b', branch, ...(startPoint ? [startPoint] : [])]);
+}
+
+/**
+ * Check out an existing local branch
+ */
+export async function checkoutBranch(cwd: string, branch: string): Promise<void> {
+  await runGit(cwd, ['checkout', branch]);
+}
+
+/**
+ * Stash all local changes, including untracked files
+ */
+export async function stashChanges(cwd: string, message: string): Promise<void> {
+  await runGit(cwd, ['stash', 'push', '--include-untracked', '--message', message]);
+}
+
+/**
+ * Get the full messages of commits only reachable from a branch
+ * Commits also on other local or remote branches (e.g. main) are excluded
+ *
+ * @param limit Maximum number of commits, most recent first
+ */
+export async function getBranchCommitMessages(
+  cwd: string,
+  branch: string,
+  limit = 50
+): Promise<string[]> {
+  const output = await runGit(cwd, [
+    'log',
+    '--format=%B%x00',
+    `--max-count=${limit}`,
+    `refs/heads/${branch}`,
+    '--not',
+    `--exclude=${branch}`,
+    '--branches',
+    `--exclude=*/${branch}`,
+    '--remotes',
+  ]);
+
+  return output
+    .split('\0')
+    .map(message => message.trim())
+    .filter(message => message.length > 0);
+}
+
+/**
+ * Push a branch and set it as the upstream of the local branch
+ */
+export async function pushBranch(cwd: string, remote: string, branch: string): Promise<void> {
+  await runGit(cwd, [
+    'push',
+    '--set-upstream',
+    remote,
+    `refs/heads/${branch}:refs/heads/${branch}`,
+  ]);
+}
+
+/**
+ * List the files a branch changed since it diverged from a base ref
+ *
+ * @param base Ref to compare against, e.g. "origin/main"
+ */
+export async function getChangedFiles(
+  cwd: string,
+  base: string,
+  branch: string
+): Promise<string[]> {
+  const output = await runGit(cwd, ['diff', '--name-only', `${base}...refs/heads/${branch}`]);
+  return output.split('\n').filter(file => file.length > 0);
+}
+
+/**
+ * Get the commit SHA of HEAD
+ */
+export async function getHeadCommit(cwd: string): Promise<string> {
+  return runGit(cwd, ['rev-parse', 'HEAD']);
+}
+
+/**
+ * List tracked and untracked files, leaving out everything .gitignore excludes
+ *
+ * @returns Paths relative to the working tree root, with forward slashes
+ */
+export async function listUnignoredFiles(cwd: string): Promise<string[]> {
+  const output = await runGit(cwd, [
+    'ls-files',
+    '--cached',
+    '--others',
+    '--exclude-standard',
+    '-z',
+  ]);
+  return output.split('\0').filter(file => file.length > 0);
+}
+
+/**
+ * Get the author of every line of a file according to git blame
+ * Lines that are not committed yet have no author
+ *
+ * @returns Author names indexed by zero-based line number
+ */
+export async function getLineAuthors(
+  cwd: string,
+  relativePath: string
+): Promise<(string | undefined)[]> {
+  const output = await runGit(cwd, ['blame', '--line-porcelain', '--', relativePath]);
+  const authors: (string | undefined)[] = [];
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('author ')) {
+      const author = line.slice('author '.length);
+      authors.push(author === 'Not Committed Yet' ? undefined : author);
+    }
+  }
+  return authors;
+}
@@ -0,0 +1,125 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { GitRemote } from './types';
+
+/**
+ * Parse the remotes declared in a git config file
+ * Only the [remote "name"] sections are interpreted
+ */
+export function parseGitConfigRemotes(content: string): GitRemote[] {
+  const remotes = new Map<string, GitRemote>();
+  let current: GitRemote | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+
+    const section = /^\[\s*([^\s\]"]+)(?:\s+"([^"]*)")?\s*\]$/.exec(line);
+    if (section) {
+      if (section[1].toLowerCase() === 'remote' && section[2]) {
+        const name = section[2];
+        current = remotes.get(name) ?? { name };
+        remotes.set(name, current);
+      } else {
+        current = undefined;
+      }
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    const entry = /^([A-Za-z][\w-]*)\s*=\s*(.*)$/.exec(line);
+    if (!entry) {
+      continue;
+    }
+
+    const key = entry[1].toLowerCase();
+    const value = stripQuotes(entry[2]);
+    if (key === 'url') {
+      current.fetchUrl = value;
+      current.pushUrl = current.pushUrl ?? value;
+    } else if (key === 'pushurl') {
+      current.pushUrl = value;
+    }
+  }
+
+  return [...remotes.values()].filter(remote => remote.fetchUrl || remote.pushUrl);
+}
+
+/**
+ * Remove surrounding quotes and trailing comments from a config value
+ */
+function stripQuotes(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"')) {
+    const end = trimmed.indexOf('"', 1);
+    return end > 0 ? trimmed.slice(1, end) : trimmed.slice(1);
+  }
+  return trimmed.replace(/\s+[#;].*$/, '');
+}
+
+/**
+ * Resolve the git directory holding the config for a working tree
+ * Follows `.git` files used by worktrees and submodules
+ *
+ * @returns Absolute path to the git directory or undefined if not a repository
+ */
+export async function resolveGitDir(rootPath: string): Promise<string | undefined> {
+  const dotGit = path.join(rootPath, '.git');
+
+  let stat;
+  try {
+    stat = await fs.stat(dotGit);
+  } catch {
+    return undefined;
+  }
+
+  if (stat.isDirectory()) {
+    return dotGit;
+  }
+
+  let content;
+  try {
+    content = await fs.readFile(dotGit, 'utf8');
+  } catch {
+    return undefined;
+  }
+
+  const pointer = /^gitdir:\s*(.+)$/m.exec(content);
+  if (!pointer) {
+    return undefined;
+  }
+
+  const gitDir = path.resolve(rootPath, pointer[1].trim());
+
+  // Linked worktrees keep their config in the common directory
+  try {
+    const commonDir = (await fs.readFile(path.join(gitDir, 'commondir'), 'utf8')).trim();
+    return path.resolve(gitDir, commonDir);
+  } catch {
+    return gitDir;
+  }
+}
+
+/**
+ * Read the remotes configured for the repository at rootPath
+ *
+ * @returns Remotes from .git/config, or an empty list if none can be read
+ */
+export async function readGitConfigRemotes(rootPath: string): Promise<GitRemote[]> {
+  const gitDir = await resolveGitDir(rootPath);
+  if (!gitDir) {
+    return [];
+  }
+
+  try {
+    const content = await fs.readFile(path.join(gitDir, 'config'), 'utf8');
+    return parseGitConfigRemotes(content);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { GitRemote } from './types';
+
+/**
+ * Subset of the built-in Git extension API (vscode.git, API version 1)
+ * Only the members used by GitIssue Bridge are declared
+ */
+export interface GitBranch {
+  name?: string;
+  commit?: string;
+  upstream?: { remote: string; name: string };
+}
+
+export interface GitRepositoryState {
+  readonly HEAD: GitBranch | undefined;
+  readonly remotes: GitRemote[];
+  readonly onDidChange: vscode.Event<void>;
+}
+
+export interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly state: GitRepositoryState;
+}
+
+export interface GitAPI {
+  readonly state: 'uninitialized' | 'initialized';
+  readonly repositories: GitRepository[];
+  readonly onDidOpenRepository: vscode.Event<GitRepository>;
+  readonly onDidCloseRepository: vscode.Event<GitRepository>;
+}
+
+interface GitExtensionExports {
+  readonly enabled: boolean;
+  getAPI(version: 1): GitAPI;
+}
+
+/**
+ * Get the built-in Git extension API if it is installed and enabled
+ *
+ * @returns Git API or undefined when unavailable
+ */
+export async function getGitApi(): Promise<GitAPI | undefined> {
+  const logger = getLogger().child('Git');
+
+  try {
+    const extension = vscode.extensions.getExtension<GitExtensionExports>('vscode.git');
+    if (!extension) {
+      logger.debug('VS Code Git extension not found');
+      return undefined;
+    }
+
+    const exports = extension.isActive ? extension.exports : await extension.activate();
+    if (!exports?.enabled) {
+      logger.debug('VS Code Git extension is disabled');
+      return undefined;
+    }
+
+    return exports.getAPI(1);
+  } catch (error) {
+    logger.warn('Failed to load VS Code Git extension API', error);
+    return undefined;
+  }
+}
@@ -0,0 +1,488 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { ErrorSeverity, getErrorHandler } from '../utils/errorHandler';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { GitHubIssue, GitHubPullRequest, ReviewRequest } from '../api/types';
+import { getIssueContextGenerator } from '../context/issueContextGenerator';
+import { IssueNode } from '../views/issueTreeProvider';
+import { PickedIssue, pickIssue, resolveIssueReference } from '../views/issuePicker';
+import { getBranchIssueMapper } from './branchIssueMapper';
+import { buildBranchName } from './branchNaming';
+import {
+  branchExists,
+  checkoutBranch,
+  createBranch,
+  getChangedFiles,
+  getCurrentBranch,
+  hasUncommittedChanges,
+  pushBranch,
+  stashChanges,
+} from './gitCommands';
+import { getRepositoryService } from './repositoryService';
+import { findCodeOwners, readCodeOwners, toReviewRequest } from './codeOwners';
+import { buildPullRequestBody, buildPullRequestTitle } from './pullRequestText';
+import { WorkspaceRepository } from './types';
+
+/**
+ * GitHub Pull Requests extension, used to show new pull requests inside VS Code
+ */
+const PULL_REQUEST_EXTENSION_ID = 'GitHub.vscode-pull-request-github';
+
+/**
+ * Issue workflow service
+ * Automates the git and GitHub steps around working on an issue
+ */
+export class IssueWorkflow {
+  private static instance: IssueWorkflow;
+  private logger = getLogger().child('Git');
+  private errorHandler = getErrorHandler();
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): IssueWorkflow {
+    if (!IssueWorkflow.instance) {
+      IssueWorkflow.instance = new IssueWorkflow();
+    }
+    return IssueWorkflow.instance;
+  }
+
+  /**
+   * Start working on an issue: create (or reuse) its branch and check it out
+   * Optionally assigns the issue to the current user and labels it as in progress
+   *
+   * @param target Tree node, issue number/URL, or undefined to show a quick pick
+   * @returns true if the issue branch is checked out, false if cancelled
+   */
+  public async startIssue(target?: IssueNode | string): Promise<boolean> {
+    const picked = await this.resolveTarget(target);
+    if (!picked) {
+      this.logger.debug('Start issue cancelled: no issue selected');
+      return false;
+    }
+
+    // Never touch git in an untrusted workspace
+    const isValid = await getWorkspaceTrustManager().validateWorkspace('gitMutations');
+    if (!isValid) {
+      this.logger.warn('Start issue cancelled: workspace validation failed');
+      return false;
+    }
+
+    const { repository, issue } = picked;
+    const cwd = repository.rootUri.fsPath;
+    const config = vscode.workspace.getConfiguration('gitissueBridge');
+    const branch = buildBranchName(issue, {
+      template: config.get<string>('branchNameTemplate'),
+      typeMapping: config.get<Record<string, string>>('branchTypeMapping'),
+    });
+
+    if ((await getCurrentBranch(cwd)) === branch) {
+      await getIssueContextGenerator().activate(repository, repository.rootUri, issue);
+      await getBranchIssueMapper().setIssueForBranch(repository, branch, issue.number);
+      await this.errorHandler.showInfo(`Already on branch ${branch} for issue #${issue.number}.`);
+      return true;
+    }
+
+    if (await hasUncommittedChanges(cwd)) {
+      const choice = await vscode.window.showWarningMessage(
+        `${repository.workspaceFolder.name} has uncommitted changes. ` +
+          `Stash them before switching to ${branch}?`,
+        { modal: true },
+        'Stash and Continue'
+      );
+
+      if (choice !== 'Stash and Continue') {
+        this.logger.info('Start issue cancelled: working tree has uncommitted changes');
+        return false;
+      }
+
+      await stashChanges(cwd, `gitissue-bridge: before starting #${issue.number}`);
+      this.logger.info('Stashed local changes before switching branch');
+    }
+
+    if (await branchExists(cwd, branch)) {
+      await checkoutBranch(cwd, branch);
+      this.logger.info(`Checked out existing branch ${branch} for issue #${issue.number}`);
+    } else {
+      await createBranch(cwd, branch);
+      this.logger.info(`Created branch ${branch} for issue #${issue.number}`);
+    }
+
+    await this.markInProgress(picked);
+    await getIssueContextGenerator().activate(repository, repository.rootUri, issue);
+    await getBranchIssueMapper().setIssueForBranch(repository, branch, issue.number);
+    await this.errorHandler.showSuccess(`Working on #${issue.number} on branch ${branch}`);
+    return true;
+  }
+
+  /**
+   * Finish working on an issue: push its branch and open a pull request that closes it
+   * Labels and milestone are carried over from the issue and reviewers come from the
+   * settings or CODEOWNERS. A summary of every remote write is confirmed first.
+   *
+   * @param target Tree node, issue number/URL, or undefined for the issue of the current branch
+   * @returns true if the pull request was opened, false if cancelled
+   */
+  public async finishIssue(target?: IssueNode | string): Promise<boolean> {
+    const picked = await this.resolveTarget(
+      target ?? this.getCurrentIssueReference(),
+      'Select the issue to finish'
+    );
+    if (!picked) {
+      this.logger.debug('Finish issue cancelled: no issue selected');
+      return false;
+    }
+
+    // Pushing runs git hooks from the repository, so never in an untrusted workspace
+    const isValid = await getWorkspaceTrustManager().validateWorkspace('gitMutations');
+    if (!isValid) {
+      this.logger.warn('Finish issue cancelled: workspace validation failed');
+      return false;
+    }
+
+    const { repository, issue } = picked;
+    const cwd = repository.rootUri.fsPath;
+    const branch = await this.findIssueBranch(picked);
+    if (!branch) {
+      throw new Error(
+        `No local branch found for issue #${issue.number}. Start working on the issue first.`
+      );
+    }
+
+    if ((await getCurrentBranch(cwd)) === branch && (await hasUncommittedChanges(cwd))) {
+      const choice = await vscode.window.showWarningMessage(
+        `${repository.workspaceFolder.name} has uncommitted changes that will not be ` +
+          'part of the pull request. Continue anyway?',
+        { modal: true },
+        'Continue'
+      );
+      if (choice !== 'Continue') {
+        this.logger.info('Finish issue cancelled: working tree has uncommitted changes');
+        return false;
+      }
+    }
+
+    const client = getGitHubIssuesClient();
+    const existing = await client.findOpenPullRequest(repository, branch);
+    if (existing) {
+      return this.updatePullRequest(repository, branch, existing);
+    }
+
+    const config = vscode.workspace.getConfiguration('gitissueBridge');
+    const templateOptions = {
+      branch,
+      typeMapping: config.get<Record<string, string>>('branchTypeMapping'),
+    };
+    const title = await vscode.window.showInputBox({
+      prompt: `Pull request for #${issue.number}`,
+      placeHolder: 'Pull request title',
+      value: buildPullRequestTitle(
+        issue,
+        config.get<string>('finishIssue.pullRequestTitle'),
+        templateOptions
+      ),
+      validateInput: value => (value.trim() ? undefined : 'The title cannot be empty'),
+    });
+    if (!title) {
+      this.logger.debug('Finish issue cancelled: no pull request title entered');
+      return false;
+    }
+
+    const base = await client.getDefaultBranch(repository);
+    const draft = config.get<boolean>('finishIssue.draft', false);
+    const body = buildPullRequestBody(
+      issue,
+      config.get<string>('finishIssue.pullRequestBody'),
+      templateOptions
+    );
+    const labels = issue.labels.map(label => label.name);
+    const reviewRequest = await this.collectReviewers(repository, base, branch);
+
+    const reviewers = [
+      ...reviewRequest.reviewers.map(login => `@${login}`),
+      ...reviewRequest.teamReviewers.map(team => `@${repository.owner}/${team}`),
+    ];
+    const summary = [
+      `• Push ${branch} to ${repository.remoteName}`,
+      `• Open ${draft ? 'a draft' : 'a'} pull request into ${base}: "${title.trim()}"`,
+      `• Reviewers: ${reviewers.join(', ') || 'none'}`,
+      `• Labels: ${labels.join(', ') || 'none'}`,
+      `• Milestone: ${issue.milestone?.title ?? 'none'}`,
+      '',
+      `Merging the pull request closes #${issue.number}.`,
+    ].join('\n');
+
+    const choice = await vscode.window.showWarningMessage(
+      `Open a pull request for #${issue.number} "${issue.title}"?`,
+      { modal: true, detail: summary },
+      'Push and Open Pull Request'
+    );
+    if (choice !== 'Push and Open Pull Request') {
+      this.logger.info('Finish issue cancelled by user');
+      return false;
+    }
+
+    await pushBranch(cwd, repository.remoteName, branch);
+    this.logger.info(`Pushed ${branch} to ${repository.remoteName}`);
+
+    const pullRequest = await client.createPullRequest(repository, {
+      title: title.trim(),
+      body,
+      head: branch,
+      base,
+      draft,
+    });
+    this.logger.info(`Opened pull request #${pullRequest.number} for issue #${issue.number}`);
+
+    await this.applyPullRequestMetadata(repository, pullRequest, issue, reviewRequest);
+    await this.retireContext(repository, issue.number);
+    await this.openPullRequest(repository, pullRequest);
+    await this.errorHandler.showSuccess(
+      `Opened pull request #${pullRequest.number} for issue #${issue.number}`
+    );
+    return true;
+  }
+
+  /**
+   * Turn the command argument into an issue, prompting the user when needed
+   */
+  private async resolveTarget(
+    target?: IssueNode | string,
+    placeHolder = 'Select the issue to start working on'
+  ): Promise<PickedIssue | undefined> {
+    if (typeof target === 'object') {
+      const { owner, repo } = target.repository;
+      const repository = getRepositoryService()
+        .getRepositories()
+        .find(candidate => candidate.owner === owner && candidate.repo === repo);
+      if (!repository) {
+        throw new Error(`No local clone of ${owner}/${repo} is open in this workspace.`);
+      }
+      return { repository, issue: target.issue };
+    }
+
+    const isAuthenticated = await getGitHubAuthManager().ensureAuthenticated();
+    if (!isAuthenticated) {
+      return undefined;
+    }
+
+    if (typeof target === 'string') {
+      return resolveIssueReference(target);
+    }
+
+    return pickIssue(placeHolder);
+  }
+
+  /**
+   * Reference to the issue of the current branch, if it is known
+   */
+  private getCurrentIssueReference(): string | undefined {
+    const link = getBranchIssueMapper().getCurrentLink();
+    return link ? `#${link.issueNumber}` : undefined;
+  }
+
+  /**
+   * Find the local branch of an issue
+   * Prefers the checked out branch when it belongs to the issue, then the templated name
+   */
+  private async findIssueBranch({ repository, issue }: PickedIssue): Promise<string | undefined> {
+    const cwd = repository.rootUri.fsPath;
+    const current = await getCurrentBranch(cwd);
+    if (current) {
+      const link = await getBranchIssueMapper().resolve(repository, current);
+      if (link?.issueNumber === issue.number) {
+        return current;
+      }
+    }
+
+    const config = vscode.workspace.getConfiguration('gitissueBridge');
+    const branch = buildBranchName(issue, {
+      template: config.get<string>('branchNameTemplate'),
+      typeMapping: config.get<Record<string, string>>('branchTypeMapping'),
+    });
+    return (await branchExists(cwd, branch)) ? branch : undefined;
+  }
+
+  /**
+   * Reviewers for a new pull request: the configured ones, or else the code owners
+   * of the files the branch changed
+   */
+  private async collectReviewers(
+    repository: WorkspaceRepository,
+    base: string,
+    branch: string
+  ): Promise<ReviewRequest> {
+    const author = await getGitHubAuthManager().getUsername(repository);
+    const configured = vscode.workspace
+      .getConfiguration('gitissueBridge')
+      .get<string[]>('finishIssue.reviewers', []);
+    if (configured.length > 0) {
+      return toReviewRequest(configured, author);
+    }
+
+    const cwd = repository.rootUri.fsPath;
+    try {
+      const rules = await readCodeOwners(cwd);
+      if (rules.length === 0) {
+        return toReviewRequest([], author);
+      }
+      const files = await getChangedFiles(cwd, `${repository.remoteName}/${base}`, branch);
+      return toReviewRequest(findCodeOwners(rules, files), author);
+    } catch (error) {
+      this.logger.warn('Could not determine code owners of the changed files', error);
+      return toReviewRequest([], author);
+    }
+  }
+
+  /**
+   * Push new commits of a branch whose pull request is already open, then show it
+   */
+  private async updatePullRequest(
+    repository: WorkspaceRepository,
+    branch: string,
+    pullRequest: GitHubPullRequest
+  ): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+      `Pull request #${pullRequest.number} "${pullRequest.title}" is already open for ${branch}.`,
+      { modal: true, detail: `Push ${branch} to ${repository.remoteName} and open it?` },
+      'Push and Open'
+    );
+    if (choice !== 'Push and Open') {
+      this.logger.info('Finish issue cancelled by user');
+      return false;
+    }
+
+    await pushBranch(repository.rootUri.fsPath, repository.remoteName, branch);
+    this.logger.info(`Pushed ${branch} to ${repository.remoteName}`);
+    await this.openPullRequest(repository, pullRequest);
+    return true;
+  }
+
+  /**
+   * Copy the issue's labels and milestone to the pull request and request reviews
+   * Failures are reported as warnings since the pull request is already open
+   */
+  private async applyPullRequestMetadata(
+    repository: WorkspaceRepository,
+    pullRequest: GitHubPullRequest,
+    issue: GitHubIssue,
+    reviewRequest: ReviewRequest
+  ): Promise<void> {
+    const client = getGitHubIssuesClient();
+    const labels = issue.labels.map(label => label.name);
+
+    try {
+      if (labels.length > 0 || issue.milestone) {
+        // Pull requests share the issues endpoint for labels and milestones
+        await client.updateIssue(repository, pullRequest.number, {
+          labels: labels.length > 0 ? labels : undefined,
+          milestone: issue.milestone?.number,
+        });
+      }
+      await client.requestReviewers(repository, pullRequest.number, reviewRequest);
+    } catch (error) {
+      await this.errorHandler.handle(
+        error,
+        {
+          operation: 'applyPullRequestMetadata',
+          component: 'Git',
+          metadata: { issue: issue.number, pullRequest: pullRequest.number },
+        },
+        ErrorSeverity.WARNING
+      );
+    }
+  }
+
+  /**
+   * Finish the context file if it describes the issue
+   */
+  private async retireContext(repository: WorkspaceRepository, issueNumber: number): Promise<void> {
+    const contextGenerator = getIssueContextGenerator();
+    const active = contextGenerator.getActiveIssue();
+    if (
+      active?.number === issueNumber &&
+      active.repository.owner === repository.owner &&
+      active.repository.repo === repository.repo
+    ) {
+      await contextGenerator.finish();
+    }
+  }
+
+  /**
+   * Show a pull request in the GitHub Pull Requests extension or the browser, per settings
+   */
+  private async openPullRequest(
+    repository: WorkspaceRepository,
+    pullRequest: GitHubPullRequest
+  ): Promise<void> {
+    const openIn = vscode.workspace
+      .getConfiguration('gitissueBridge')
+      .get<string>('finishIssue.openPullRequestIn', 'extension');
+
+    if (openIn === 'none') {
+      return;
+    }
+
+    if (openIn === 'extension' && vscode.extensions.getExtension(PULL_REQUEST_EXTENSION_ID)) {
+      const query = JSON.stringify({
+        owner: repository.owner,
+        repo: repository.repo,
+        pullRequestNumber: pullRequest.number,
+      });
+      await vscode.env.openExternal(
+        vscode.Uri.parse(
+          `${vscode.env.uriScheme}://${PULL_REQUEST_EXTENSION_ID}/open-pull-request-webview` +
+            `?${encodeURIComponent(query)}`
+        )
+      );
+      return;
+    }
+
+    await vscode.env.openExternal(vscode.Uri.parse(pullRequest.htmlUrl));
+  }
+
+  /**
+   * Assign the issue to the signed-in user and add the in-progress label, per settings
+   * Failures are reported as warnings since the branch is already created
+   */
+  private async markInProgress({ repository, issue }: PickedIssue): Promise<void> {
+    const config = vscode.workspace.getConfiguration('gitissueBridge');
+    const assignToMe = config.get<boolean>('startIssue.assignToMe', true);
+    const label = config.get<string>('startIssue.inProgressLabel', 'in progress').trim();
+    const client = getGitHubIssuesClient();
+
+    try {
+      const username = await getGitHubAuthManager().getUsername(repository);
+      if (assignToMe && username && !issue.assignees.some(user => user.login === username)) {
+        await client.addAssignees(repository, issue.number, [username]);
+        this.logger.info(`Assigned issue #${issue.number} to @${username}`);
+      }
+
+      if (label && !issue.labels.some(item => item.name.toLowerCase() === label.toLowerCase())) {
+        await client.addLabels(repository, issue.number, [label]);
+        this.logger.info(`Added label "${label}" to issue #${issue.number}`);
+      }
+    } catch (error) {
+      await this.errorHandler.handle(
+        error,
+        {
+          operation: 'markIssueInProgress',
+          component: 'Git',
+          metadata: { issue: issue.number },
+        },
+        ErrorSeverity.WARNING
+      );
+    }
+  }
+}
+
+/**
+ * Get issue workflow instance (convenience function)
+ */
+export function getIssueWorkflow(): IssueWorkflow {
+  return IssueWorkflow.getInstance();
+}
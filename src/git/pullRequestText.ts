@@ -0,0 +1,73 @@
+import { GitHubIssue } from '../api/types';
+import { DEFAULT_BRANCH_TYPES, deriveBranchType } from './branchNaming';
+
+/**
+ * Default pull request title template
+ */
+export const DEFAULT_PULL_REQUEST_TITLE = '{title}';
+
+/**
+ * Default pull request body template
+ */
+export const DEFAULT_PULL_REQUEST_BODY = 'Closes #{number}';
+
+/**
+ * Values available to the pull request templates
+ */
+export interface PullRequestTemplateOptions {
+  branch: string;
+  typeMapping?: Record<string, string>;
+}
+
+/**
+ * Fill the {number}, {title}, {type} and {branch} placeholders of a template
+ */
+function fillTemplate(
+  template: string,
+  issue: GitHubIssue,
+  options: PullRequestTemplateOptions
+): string {
+  const type = deriveBranchType(
+    issue.labels.map(label => label.name),
+    options.typeMapping ?? DEFAULT_BRANCH_TYPES
+  );
+
+  return template
+    .replace(/\{number\}/g, String(issue.number))
+    .replace(/\{title\}/g, issue.title)
+    .replace(/\{type\}/g, type)
+    .replace(/\{branch\}/g, options.branch);
+}
+
+/**
+ * Build the pull request title for an issue
+ */
+export function buildPullRequestTitle(
+  issue: GitHubIssue,
+  template: string | undefined,
+  options: PullRequestTemplateOptions
+): string {
+  const title = fillTemplate(template || DEFAULT_PULL_REQUEST_TITLE, issue, options).trim();
+  return title || issue.title;
+}
+
+/**
+ * Build the pull request body for an issue
+ * Always contains a closing keyword so merging the pull request closes the issue
+ */
+export function buildPullRequestBody(
+  issue: GitHubIssue,
+  template: string | undefined,
+  options: PullRequestTemplateOptions
+): string {
+  const body = fillTemplate(template || DEFAULT_PULL_REQUEST_BODY, issue, options).trim();
+  const closes = new RegExp(
+    `\\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?) #${issue.number}\\b`,
+    'i'
+  );
+
+  if (closes.test(body)) {
+    return body;
+  }
+  return body ? `${body}\n\nCloses #${issue.number}` : `Closes #${issue.number}`;
+}
@@ -0,0 +1,110 @@
+import { GitRemote, ParsedRemoteUrl } from './types';
+
+/**
+ * Hosts that always belong to github.com
+ */
+const GITHUB_DOT_COM_HOSTS = ['github.com', 'www.github.com', 'ssh.github.com'];
+
+/**
+ * Parse a git remote URL into host, owner and repository name
+ * Supports HTTPS, ssh://, git:// and scp-like (git@host:owner/repo) forms
+ *
+ * @returns Parsed remote or undefined if the URL is not recognized
+ */
+export function parseRemoteUrl(url: string): ParsedRemoteUrl | undefined {
+  const trimmed = url.trim();
+  let host: string;
+  let path: string;
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    try {
+      const parsed = new URL(trimmed);
+      host = parsed.hostname;
+      path = decodeURIComponent(parsed.pathname);
+    } catch {
+      return undefined;
+    }
+  } else {
+    // scp-like syntax: [user@]host:owner/repo(.git)
+    const match = /^(?:[^@/\s]+@)?([^:/\s]{2,}):(?!\/)(.+)$/.exec(trimmed);
+    if (!match) {
+      return undefined;
+    }
+    host = match[1];
+    path = match[2];
+  }
+
+  const segments = path
+    .replace(/\.git\/?$/, '')
+    .split('/')
+    .filter(segment => segment.length > 0);
+
+  if (!host || segments.length < 2) {
+    return undefined;
+  }
+
+  const normalizedHost = host.toLowerCase();
+  return {
+    host: GITHUB_DOT_COM_HOSTS.includes(normalizedHost) ? 'github.com' : normalizedHost,
+    owner: segments[segments.length - 2],
+    repo: segments[segments.length - 1],
+  };
+}
+
+/**
+ * Check whether a host is github.com, a GHE.com tenant or a configured Enterprise Server host
+ */
+export function isGitHubHost(host: string, enterpriseHosts: string[] = []): boolean {
+  const normalized = host.toLowerCase();
+  if (normalized === 'github.com' || normalized.endsWith('.ghe.com')) {
+    return true;
+  }
+  return enterpriseHosts.some(candidate => normalizeHost(candidate) === normalized);
+}
+
+/**
+ * Normalize a host or URL setting value to a bare lowercase hostname
+ */
+export function normalizeHost(value: string): string {
+  const trimmed = value.trim().toLowerCase();
+  try {
+    return new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).hostname;
+  } catch {
+    return trimmed;
+  }
+}
+
+/**
+ * GitHub repository resolved from one of the configured remotes
+ */
+export interface ResolvedRemote extends ParsedRemoteUrl {
+  remoteName: string;
+  remoteUrl: string;
+}
+
+/**
+ * Pick the remote that points to the GitHub repository to work with
+ * The preferred remote wins, then its usual counterpart (upstream/origin),
+ * then any other remote hosted on GitHub in declaration order
+ */
+export function selectGitHubRemote(
+  remotes: GitRemote[],
+  preferredRemote: string,
+  enterpriseHosts: string[] = []
+): ResolvedRemote | undefined {
+  const fallbackRemote = preferredRemote === 'upstream' ? 'origin' : 'upstream';
+  const rank = (name: string): number =>
+    name === preferredRemote ? 0 : name === fallbackRemote ? 1 : 2;
+
+  const candidates: ResolvedRemote[] = [];
+  for (const remote of remotes) {
+    const remoteUrl = remote.fetchUrl ?? remote.pushUrl;
+    const parsed = remoteUrl ? parseRemoteUrl(remoteUrl) : undefined;
+    if (remoteUrl && parsed && isGitHubHost(parsed.host, enterpriseHosts)) {
+      candidates.push({ ...parsed, remoteName: remote.name, remoteUrl });
+    }
+  }
+
+  // Array.prototype.sort is stable, so declaration order is kept within a rank
+  return candidates.sort((a, b) => rank(a.remoteName) - rank(b.remoteName))[0];
+}
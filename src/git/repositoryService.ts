@@ -0,0 +1,367 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getLogger } from '../utils/logger';
+import { getEnterpriseUrl } from '../auth/githubHosts';
+import { readGitConfigRemotes } from './gitConfig';
+import { GitAPI, GitRepository, getGitApi } from './gitExtension';
+import { selectGitHubRemote } from './remoteUrl';
+import { BranchChangeEvent, GitRemote, WorkspaceRepository } from './types';
+
+/**
+ * Workspace state key for the repository selected by the user
+ */
+const SELECTED_REPOSITORY_KEY = 'gitissueBridge.selectedRepository';
+
+/**
+ * Local git repository found in a workspace folder, before remote resolution
+ */
+interface RepositoryCandidate {
+  rootUri: vscode.Uri;
+  remotes: GitRemote[];
+}
+
+/**
+ * Current repository service
+ * Detects the GitHub repositories behind the open workspace folders and tracks
+ * which one is active, notifying listeners when it changes
+ */
+export class RepositoryService implements vscode.Disposable {
+  private static instance: RepositoryService;
+  private logger = getLogger().child('Git');
+  private gitApi: GitAPI | undefined;
+  private workspaceState: vscode.Memento | undefined;
+  private repositories: WorkspaceRepository[] = [];
+  private currentRepository: WorkspaceRepository | undefined;
+  private remoteSignatures = new Map<string, string>();
+  private branchNames = new Map<string, string | undefined>();
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly onDidChangeRepositoriesEmitter = new vscode.EventEmitter<
+    WorkspaceRepository[]
+  >();
+  private readonly onDidChangeCurrentRepositoryEmitter = new vscode.EventEmitter<
+    WorkspaceRepository | undefined
+  >();
+  private readonly onDidChangeBranchEmitter = new vscode.EventEmitter<BranchChangeEvent>();
+
+  /**
+   * Fired after the list of detected repositories is refreshed
+   */
+  public readonly onDidChangeRepositories = this.onDidChangeRepositoriesEmitter.event;
+
+  /**
+   * Fired when the active repository changes (undefined when none is available)
+   */
+  public readonly onDidChangeCurrentRepository = this.onDidChangeCurrentRepositoryEmitter.event;
+
+  /**
+   * Fired when the checked out branch of a local repository changes
+   * Only available when the built-in Git extension is enabled
+   */
+  public readonly onDidChangeBranch = this.onDidChangeBranchEmitter.event;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): RepositoryService {
+    if (!RepositoryService.instance) {
+      RepositoryService.instance = new RepositoryService();
+    }
+    return RepositoryService.instance;
+  }
+
+  /**
+   * Start tracking repositories for the workspace
+   * Restores the previous selection from workspace state
+   */
+  public async initialize(context: vscode.ExtensionContext): Promise<void> {
+    this.workspaceState = context.workspaceState;
+    this.gitApi = await getGitApi();
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => void this.refresh()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (
+          e.affectsConfiguration('gitissueBridge.preferredRemote') ||
+          e.affectsConfiguration('gitissueBridge.enterpriseHosts') ||
+          e.affectsConfiguration('gitissueBridge.enterpriseUrl')
+        ) {
+          void this.refresh();
+        }
+      })
+    );
+
+    if (this.gitApi) {
+      this.gitApi.repositories.forEach(repository => this.watchGitRepository(repository));
+      this.disposables.push(
+        this.gitApi.onDidOpenRepository(repository => {
+          this.watchGitRepository(repository);
+          void this.refresh();
+        }),
+        this.gitApi.onDidCloseRepository(() => void this.refresh())
+      );
+    }
+
+    await this.refresh();
+  }
+
+  /**
+   * Re-detect repositories across all workspace folders
+   */
+  public async refresh(): Promise<WorkspaceRepository[]> {
+    const config = vscode.workspace.getConfiguration('gitissueBridge');
+    const preferredRemote = config.get<string>('preferredRemote', 'upstream');
+    const enterpriseUrl = getEnterpriseUrl();
+    const enterpriseHosts = [
+      ...config.get<string[]>('enterpriseHosts', []),
+      ...(enterpriseUrl ? [enterpriseUrl] : []),
+    ];
+
+    const resolved: WorkspaceRepository[] = [];
+    const seen = new Set<string>();
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      for (const candidate of await this.collectCandidates(folder)) {
+        const key = candidate.rootUri.fsPath;
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+
+        const remote = selectGitHubRemote(candidate.remotes, preferredRemote, enterpriseHosts);
+        if (remote) {
+          resolved.push({ ...remote, rootUri: candidate.rootUri, workspaceFolder: folder });
+        } else {
+          this.logger.debug(`No GitHub remote found in ${key}`);
+        }
+      }
+    }
+
+    this.repositories = resolved;
+    this.logger.info(`Detected ${resolved.length} GitHub repositories in workspace`, {
+      repositories: resolved.map(repository => `${repository.owner}/${repository.repo}`),
+    });
+    this.onDidChangeRepositoriesEmitter.fire(resolved);
+
+    this.restoreCurrentRepository();
+    return resolved;
+  }
+
+  /**
+   * Get all detected repositories
+   */
+  public getRepositories(): WorkspaceRepository[] {
+    return [...this.repositories];
+  }
+
+  /**
+   * Get the active repository
+   */
+  public getCurrentRepository(): WorkspaceRepository | undefined {
+    return this.currentRepository;
+  }
+
+  /**
+   * Get the repository containing a file or folder
+   */
+  public getRepositoryForUri(uri: vscode.Uri): WorkspaceRepository | undefined {
+    return this.repositories
+      .filter(repository => isSameOrInside(uri.fsPath, repository.rootUri.fsPath))
+      .sort((a, b) => b.rootUri.fsPath.length - a.rootUri.fsPath.length)[0];
+  }
+
+  /**
+   * Get the checked out branch of a repository as reported by the Git extension
+   *
+   * @returns Branch name, or undefined when detached or the Git extension is unavailable
+   */
+  public getBranch(repository: WorkspaceRepository): string | undefined {
+    return this.gitApi?.repositories.find(
+      candidate => candidate.rootUri.fsPath === repository.rootUri.fsPath
+    )?.state.HEAD?.name;
+  }
+
+  /**
+   * Make a repository the active one and remember the choice for this workspace
+   */
+  public async setCurrentRepository(repository: WorkspaceRepository): Promise<void> {
+    await this.workspaceState?.update(SELECTED_REPOSITORY_KEY, repository.rootUri.fsPath);
+
+    if (isSameRepository(this.currentRepository, repository)) {
+      return;
+    }
+
+    this.currentRepository = repository;
+    this.logger.info(`Active repository set to ${repository.owner}/${repository.repo}`);
+    this.onDidChangeCurrentRepositoryEmitter.fire(repository);
+  }
+
+  /**
+   * Let the user pick the active repository from a quick pick
+   *
+   * @returns The selected repository or undefined if cancelled
+   */
+  public async selectRepository(): Promise<WorkspaceRepository | undefined> {
+    if (this.repositories.length === 0) {
+      await vscode.window.showInformationMessage(
+        'No GitHub repository detected in this workspace.'
+      );
+      return undefined;
+    }
+
+    const items = this.repositories.map(repository => ({
+      label: `${repository.owner}/${repository.repo}`,
+      description: `${repository.workspaceFolder.name} · ${repository.remoteName}`,
+      detail: repository.host !== 'github.com' ? repository.host : undefined,
+      picked: isSameRepository(repository, this.currentRepository),
+      repository,
+    }));
+
+    const selection = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select the GitHub repository to work with',
+      matchOnDescription: true,
+    });
+
+    if (!selection) {
+      return undefined;
+    }
+
+    await this.setCurrentRepository(selection.repository);
+    return selection.repository;
+  }
+
+  /**
+   * Collect local repositories for a workspace folder
+   * Uses the Git extension when available and falls back to reading .git/config
+   */
+  private async collectCandidates(folder: vscode.WorkspaceFolder): Promise<RepositoryCandidate[]> {
+    const folderPath = folder.uri.fsPath;
+    const candidates: RepositoryCandidate[] = [];
+
+    for (const repository of this.gitApi?.repositories ?? []) {
+      const rootPath = repository.rootUri.fsPath;
+      if (isSameOrInside(rootPath, folderPath) || isSameOrInside(folderPath, rootPath)) {
+        candidates.push({ rootUri: repository.rootUri, remotes: repository.state.remotes });
+      }
+    }
+
+    const coversFolder = candidates.some(
+      candidate =>
+        candidate.remotes.length > 0 && isSameOrInside(folderPath, candidate.rootUri.fsPath)
+    );
+
+    if (!coversFolder) {
+      const remotes = await readGitConfigRemotes(folderPath);
+      if (remotes.length > 0) {
+        candidates.unshift({ rootUri: folder.uri, remotes });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Refresh when the remotes of an open repository change and report branch switches
+   */
+  private watchGitRepository(repository: GitRepository): void {
+    const key = repository.rootUri.fsPath;
+    this.remoteSignatures.set(key, remoteSignature(repository.state.remotes));
+    this.branchNames.set(key, repository.state.HEAD?.name);
+
+    this.disposables.push(
+      repository.state.onDidChange(() => {
+        const branch = repository.state.HEAD?.name;
+        if (branch !== this.branchNames.get(key)) {
+          this.branchNames.set(key, branch);
+          this.logger.debug(`Branch changed in ${key}`, { branch });
+          this.onDidChangeBranchEmitter.fire({ rootUri: repository.rootUri, branch });
+        }
+
+        const signature = remoteSignature(repository.state.remotes);
+        if (signature !== this.remoteSignatures.get(key)) {
+          this.remoteSignatures.set(key, signature);
+          void this.refresh();
+        }
+      })
+    );
+  }
+
+  /**
+   * Keep the current selection if still available, otherwise restore
+   * the persisted one or fall back to the first detected repository
+   */
+  private restoreCurrentRepository(): void {
+    const selectedPath =
+      this.currentRepository?.rootUri.fsPath ??
+      this.workspaceState?.get<string>(SELECTED_REPOSITORY_KEY);
+
+    const next =
+      this.repositories.find(repository => repository.rootUri.fsPath === selectedPath) ??
+      this.repositories[0];
+
+    const changed = !isSameRepository(this.currentRepository, next);
+    this.currentRepository = next;
+
+    if (changed) {
+      this.logger.info(
+        next
+          ? `Active repository: ${next.owner}/${next.repo}`
+          : 'No active GitHub repository in workspace'
+      );
+      this.onDidChangeCurrentRepositoryEmitter.fire(next);
+    }
+  }
+
+  /**
+   * Dispose listeners and event emitters
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.onDidChangeRepositoriesEmitter.dispose();
+    this.onDidChangeCurrentRepositoryEmitter.dispose();
+    this.onDidChangeBranchEmitter.dispose();
+  }
+}
+
+/**
+ * Check whether two repository entries point to the same GitHub repository and working tree
+ */
+function isSameRepository(
+  a: WorkspaceRepository | undefined,
+  b: WorkspaceRepository | undefined
+): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return (
+    a.rootUri.fsPath === b.rootUri.fsPath &&
+    a.host === b.host &&
+    a.owner === b.owner &&
+    a.repo === b.repo
+  );
+}
+
+/**
+ * Check whether a path equals or is nested inside another path
+ */
+function isSameOrInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Stable string representation of a remote list, used to detect changes
+ */
+function remoteSignature(remotes: GitRemote[]): string {
+  return remotes.map(remote => `${remote.name}=${remote.fetchUrl ?? remote.pushUrl}`).join('|');
+}
+
+/**
+ * Get repository service instance (convenience function)
+ */
+export function getRepositoryService(): RepositoryService {
+  return RepositoryService.getInstance();
+}
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { RepositoryRef } from '../api/types';
+
+/**
+ * Git remote as configured in a repository
+ */
+export interface GitRemote {
+  name: string;
+  fetchUrl?: string;
+  pushUrl?: string;
+}
+
+/**
+ * Host, owner and repository name parsed from a remote URL
+ */
+export interface ParsedRemoteUrl extends RepositoryRef {
+  host: string;
+}
+
+/**
+ * GitHub repository detected in a workspace folder
+ */
+export interface WorkspaceRepository extends ParsedRemoteUrl {
+  /** Name of the remote the repository was resolved from */
+  remoteName: string;
+  remoteUrl: string;
+  /** Root of the local git working tree */
+  rootUri: vscode.Uri;
+  workspaceFolder: vscode.WorkspaceFolder;
+}
+
+/**
+ * Branch switch in a local repository
+ */
+export interface BranchChangeEvent {
+  rootUri: vscode.Uri;
+  /** New branch name, undefined for a detached HEAD */
+  branch: string | undefined;
+}
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { ErrorSeverity, getErrorHandler } from '../utils/errorHandler';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { GitHubIssue } from '../api/types';
+import { getHeadCommit } from '../git/gitCommands';
+import { WorkspaceRepository } from '../git/types';
+import { buildTodoIssue, buildTodoPermalink, linkTodoLine } from './todoParser';
+import { TodoItem } from './types';
+
+/**
+ * Issue created for a TODO comment
+ */
+export interface TodoIssue {
+  todo: TodoItem;
+  issue: GitHubIssue;
+}
+
+/**
+ * Create one issue per TODO comment, then rewrite the comments to TODO(#123)
+ * Stops at the first failure; comments of the issues created so far are still linked
+ *
+ * @returns Issues created, in the order of the comments
+ */
+export async function createIssuesFromTodos(
+  repository: WorkspaceRepository,
+  todos: TodoItem[]
+): Promise<TodoIssue[]> {
+  const logger = getLogger().child('Todos');
+  if (!(await getWorkspaceTrustManager().ensureCapability('remoteWrites'))) {
+    logger.warn('Issues not created from TODOs: workspace is not trusted');
+    return [];
+  }
+
+  const client = getGitHubIssuesClient();
+  const labels = vscode.workspace
+    .getConfiguration('gitissueBridge')
+    .get<string[]>('todos.labels', []);
+  const ref = await getPermalinkRef(repository);
+
+  const created: TodoIssue[] = [];
+  try {
+    for (const todo of todos) {
+      const permalink = buildTodoPermalink(repository, ref, todo);
+      const issue = await client.createIssue(repository, buildTodoIssue(todo, permalink, labels));
+      logger.info(`Created issue #${issue.number} for ${todo.relativePath}:${todo.line + 1}`);
+      created.push({ todo, issue });
+    }
+  } catch (error) {
+    await getErrorHandler().handle(error, {
+      operation: 'createIssuesFromTodos',
+      component: 'Todos',
+      metadata: { created: created.length, requested: todos.length },
+    });
+  }
+
+  if (created.length > 0) {
+    await linkTodoComments(repository, created);
+  }
+  return created;
+}
+
+/**
+ * Rewrite TODO comments to reference their new issues
+ * Requires a trusted workspace; lines that changed since the scan are left alone
+ *
+ * @returns Number of comments rewritten
+ */
+export async function linkTodoComments(
+  repository: WorkspaceRepository,
+  todoIssues: TodoIssue[]
+): Promise<number> {
+  const logger = getLogger().child('Todos');
+
+  const isValid = await getWorkspaceTrustManager().validateWorkspace('writeFiles');
+  if (!isValid) {
+    logger.warn('TODO comments not rewritten: workspace validation failed');
+    return 0;
+  }
+
+  const byFile = new Map<string, TodoIssue[]>();
+  for (const todoIssue of todoIssues) {
+    const entries = byFile.get(todoIssue.todo.relativePath) ?? [];
+    entries.push(todoIssue);
+    byFile.set(todoIssue.todo.relativePath, entries);
+  }
+
+  let rewritten = 0;
+  for (const [relativePath, entries] of byFile) {
+    try {
+      const uri = vscode.Uri.joinPath(repository.rootUri, relativePath);
+      const document = await vscode.workspace.openTextDocument(uri);
+      const edit = new vscode.WorkspaceEdit();
+      let linked = 0;
+
+      for (const { todo, issue } of entries) {
+        const line = todo.line < document.lineCount ? document.lineAt(todo.line) : undefined;
+        if (
+          line?.text.slice(todo.keywordStart, todo.keywordStart + todo.keyword.length) !==
+          todo.keyword
+        ) {
+          logger.warn(`Skipped ${relativePath}:${todo.line + 1}: the line changed since the scan`);
+          continue;
+        }
+        edit.replace(uri, line.range, linkTodoLine(line.text, todo, issue.number));
+        linked++;
+      }
+
+      if (linked > 0 && (await vscode.workspace.applyEdit(edit))) {
+        await document.save();
+        rewritten += linked;
+      }
+    } catch (error) {
+      await getErrorHandler().handle(
+        error,
+        {
+          operation: 'linkTodoComments',
+          component: 'Todos',
+          metadata: { file: relativePath },
+        },
+        ErrorSeverity.WARNING
+      );
+    }
+  }
+
+  logger.info(`Linked ${rewritten} TODO comments to their issues`);
+  return rewritten;
+}
+
+/**
+ * Commit the permalinks point at: HEAD when git may run, else the default branch
+ */
+async function getPermalinkRef(repository: WorkspaceRepository): Promise<string> {
+  if (getWorkspaceTrustManager().isTrusted()) {
+    try {
+      return await getHeadCommit(repository.rootUri.fsPath);
+    } catch (error) {
+      getLogger().child('Todos').debug('Could not resolve HEAD for TODO permalinks', error);
+    }
+  }
+  return getGitHubIssuesClient().getDefaultBranch(repository);
+}
@@ -0,0 +1,122 @@
+import { CreateIssueInput } from '../api/types';
+import { ParsedRemoteUrl } from '../git/types';
+import { TodoComment, TodoItem } from './types';
+
+/**
+ * Keywords recognized when no setting overrides them
+ */
+export const DEFAULT_TODO_KEYWORDS = ['TODO', 'FIXME', 'HACK'];
+
+/**
+ * Maximum length of an issue title derived from a comment
+ */
+const MAX_TITLE_LENGTH = 80;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find TODO comments in a file
+ * Recognizes line and block comment markers of common languages (//, #, /*, *, <!--, --, ;).
+ * Keywords are matched case-sensitively so prose like "todo list" is not picked up.
+ */
+export function parseTodoComments(
+  content: string,
+  keywords: string[] = DEFAULT_TODO_KEYWORDS
+): TodoComment[] {
+  if (keywords.length === 0) {
+    return [];
+  }
+
+  const alternatives = keywords.map(keyword => escapeRegExp(keyword)).join('|');
+  const pattern = new RegExp(
+    `(?:\\/\\/+|\\/\\*+|<!--|#+|--|;+|^\\s*\\*+)\\s*(${alternatives})\\b(\\([^)]*\\))?:?\\s*(.*)$`
+  );
+  const todos: TodoComment[] = [];
+
+  content.split(/\r?\n/).forEach((lineText, line) => {
+    const match = pattern.exec(lineText);
+    if (!match) {
+      return;
+    }
+
+    const [full, keyword, suffix = '', rest] = match;
+    const keywordStart = match.index + full.indexOf(keyword);
+    const text = rest.replace(/\s*(?:\*\/|-->)\s*$/, '').trim();
+
+    todos.push({
+      line,
+      keyword,
+      text,
+      linkedIssue: findLinkedIssue(suffix, text),
+      keywordStart,
+      keywordEnd: keywordStart + keyword.length + suffix.length,
+    });
+  });
+
+  return todos;
+}
+
+/**
+ * Issue a TODO already refers to: TODO(#123), "see #123" or an issue URL
+ */
+function findLinkedIssue(suffix: string, text: string): number | undefined {
+  const match =
+    /#(\d+)/.exec(suffix) ?? /(?:^|[\s(])#(\d+)\b/.exec(text) ?? /\/issues\/(\d+)\b/.exec(text);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Rewrite a comment line so its keyword points at an issue, e.g. "TODO(#123): …"
+ */
+export function linkTodoLine(lineText: string, todo: TodoComment, issueNumber: number): string {
+  return (
+    lineText.slice(0, todo.keywordStart) +
+    `${todo.keyword}(#${issueNumber})` +
+    lineText.slice(todo.keywordEnd)
+  );
+}
+
+/**
+ * Link to a line of a file at a fixed commit (or branch) on GitHub
+ */
+export function buildTodoPermalink(
+  repository: ParsedRemoteUrl,
+  ref: string,
+  todo: TodoItem
+): string {
+  const filePath = todo.relativePath.split('/').map(encodeURIComponent).join('/');
+  return (
+    `https://${repository.host}/${repository.owner}/${repository.repo}` +
+    `/blob/${encodeURIComponent(ref)}/${filePath}#L${todo.line + 1}`
+  );
+}
+
+/**
+ * Issue title and body for a TODO comment
+ * The permalink on a line of its own lets GitHub render the code snippet
+ */
+export function buildTodoIssue(
+  todo: TodoItem,
+  permalink: string,
+  labels: string[] = []
+): CreateIssueInput {
+  const summary = todo.text || `${todo.keyword} in ${todo.relativePath}`;
+  const title =
+    summary.length > MAX_TITLE_LENGTH
+      ? `${summary.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+      : summary;
+
+  const location = `\`${todo.relativePath}\` line ${todo.line + 1}`;
+  const body = [
+    `${todo.keyword}: ${todo.text || '(no description)'}`,
+    '',
+    permalink,
+    '',
+    `_Created from a ${todo.keyword} comment in ${location}` +
+      `${todo.author ? `, written by ${todo.author}` : ''}._`,
+  ].join('\n');
+
+  return { title, body, labels: labels.length > 0 ? labels : undefined };
+}
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getLogger } from '../utils/logger';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+import { getLineAuthors, listUnignoredFiles } from '../git/gitCommands';
+import { WorkspaceRepository } from '../git/types';
+import { DEFAULT_TODO_KEYWORDS, parseTodoComments } from './todoParser';
+import { TodoItem } from './types';
+
+/**
+ * Files larger than this are skipped (generated or vendored code)
+ */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Default glob of files to skip, on top of .gitignore
+ */
+export const DEFAULT_TODO_EXCLUDE = '**/{node_modules,dist,out,build,coverage}/**';
+
+/**
+ * TODO comment scanner
+ * Lists the repository's files with the configured globs, honoring .gitignore in
+ * trusted workspaces, and finds TODO comments with their git blame author
+ */
+export class TodoScanner {
+  private static instance: TodoScanner;
+  private logger = getLogger().child('Todos');
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TodoScanner {
+    if (!TodoScanner.instance) {
+      TodoScanner.instance = new TodoScanner();
+    }
+    return TodoScanner.instance;
+  }
+
+  /**
+   * Scan a repository for TODO comments
+   *
+   * @param token Cancels the scan between files
+   * @returns Comments ordered by file and line
+   */
+  public async scan(
+    repository: WorkspaceRepository,
+    token?: vscode.CancellationToken
+  ): Promise<TodoItem[]> {
+    const config = vscode.workspace.getConfiguration('gitissueBridge');
+    const keywords = config.get<string[]>('todos.keywords', DEFAULT_TODO_KEYWORDS);
+    const root = repository.rootUri.fsPath;
+    // git (ls-files, blame) only runs in trusted workspaces
+    const trusted = getWorkspaceTrustManager().isTrusted();
+
+    const files = await this.listFiles(repository, trusted);
+    this.logger.debug(`Scanning ${files.length} files for ${keywords.join('/')} comments`);
+
+    const todos: TodoItem[] = [];
+    for (const relativePath of files) {
+      if (token?.isCancellationRequested) {
+        break;
+      }
+
+      const content = await readTextFile(path.join(root, relativePath));
+      const comments = content ? parseTodoComments(content, keywords) : [];
+      if (comments.length === 0) {
+        continue;
+      }
+
+      const authors = trusted ? await this.getAuthors(root, relativePath) : [];
+      for (const comment of comments) {
+        todos.push({ ...comment, relativePath, author: authors[comment.line] });
+      }
+    }
+
+    this.logger.info(
+      `Found ${todos.length} TODO comments in ${repository.owner}/${repository.repo}`
+    );
+    return todos;
+  }
+
+  /**
+   * Files matching the include/exclude globs, minus the ones .gitignore excludes
+   *
+   * @returns Paths relative to the repository root, sorted
+   */
+  private async listFiles(repository: WorkspaceRepository, trusted: boolean): Promise<string[]> {
+    const config = vscode.workspace.getConfiguration('gitissueBridge');
+    const include = config.get<string>('todos.include', '**/*');
+    const exclude = config.get<string>('todos.exclude', DEFAULT_TODO_EXCLUDE);
+    const root = repository.rootUri.fsPath;
+
+    const uris = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(repository.rootUri, include),
+      exclude || undefined
+    );
+    let files = uris.map(uri => path.relative(root, uri.fsPath).split(path.sep).join('/'));
+
+    if (trusted) {
+      try {
+        const unignored = new Set(await listUnignoredFiles(root));
+        files = files.filter(file => unignored.has(file));
+      } catch (error) {
+        this.logger.warn('Could not apply .gitignore to the TODO scan', error);
+      }
+    }
+
+    return files.filter(file => !file.startsWith('../')).sort();
+  }
+
+  private async getAuthors(root: string, relativePath: string): Promise<(string | undefined)[]> {
+    try {
+      return await getLineAuthors(root, relativePath);
+    } catch {
+      // Untracked files have no history
+      return [];
+    }
+  }
+}
+
+/**
+ * Read a file as text, skipping large and binary files
+ */
+async function readTextFile(filePath: string): Promise<string | undefined> {
+  try {
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile() || stat.size > MAX_FILE_SIZE) {
+      return undefined;
+    }
+    const content = await fs.readFile(filePath, 'utf8');
+    return content.includes('\0') ? undefined : content;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get TODO scanner instance (convenience function)
+ */
+export function getTodoScanner(): TodoScanner {
+  return TodoScanner.getInstance();
+}
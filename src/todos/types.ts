@@ -0,0 +1,26 @@
+/**
+ * TODO/FIXME/HACK comment found in a source file
+ */
+export interface TodoComment {
+  /** Zero-based line number */
+  line: number;
+  keyword: string;
+  /** Comment text after the keyword */
+  text: string;
+  /** Issue the comment already refers to, e.g. TODO(#123) */
+  linkedIssue?: number;
+  /** Start column of the keyword */
+  keywordStart: number;
+  /** End column of the keyword and its optional "(…)" suffix */
+  keywordEnd: number;
+}
+
+/**
+ * TODO comment with its location in the repository
+ */
+export interface TodoItem extends TodoComment {
+  /** Path relative to the repository root, with forward slashes */
+  relativePath: string;
+  /** Author of the line according to git blame */
+  author?: string;
+}
@@ -0,0 +1,181 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { getLogger } from './logger';
+import { getRedactor } from './redaction';
+import { createZip, ZipEntry } from './zipArchive';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getRepositoryService } from '../git/repositoryService';
+
+const REVEAL_ACTION = 'Reveal in File Explorer';
+const REPORT_ISSUE_ACTION = 'Report Issue';
+
+/**
+ * Collect what a bug report needs into zip entries
+ * - environment.json: extension, VS Code, OS and Node.js versions
+ * - settings.json: the extension's settings, with secrets redacted
+ * - status.json: workspace trust, repositories, sign-in state per repository and redaction counts
+ * - logs/: the log files, or the latest log lines when file logging is off
+ *
+ * Everything goes through the redactor, so tokens never end up in the bundle.
+ */
+export async function collectDiagnostics(context: vscode.ExtensionContext): Promise<ZipEntry[]> {
+  const entries: ZipEntry[] = [
+    toJsonEntry('environment.json', getEnvironment(context)),
+    toJsonEntry('settings.json', getSettings(context)),
+    toJsonEntry('status.json', await getStatus()),
+  ];
+
+  const sink = getLogger().getFileSink();
+  const files = sink ? await sink.getFiles() : [];
+  for (const file of files) {
+    const content = await fs.promises.readFile(file, 'utf8');
+    entries.push({ name: `logs/${path.basename(file)}`, content: getRedactor().redact(content) });
+  }
+  if (files.length === 0) {
+    entries.push({ name: 'logs/recent.log', content: getLogger().getRecentLines().join('\n') });
+  }
+
+  return entries;
+}
+
+/**
+ * Ask where to save a diagnostics bundle, write it and offer to report an issue with it
+ *
+ * @returns Where the bundle was saved, or undefined when the user cancelled
+ */
+export async function exportDiagnosticsBundle(
+  context: vscode.ExtensionContext
+): Promise<vscode.Uri | undefined> {
+  const logger = getLogger();
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const fileName = `gitissue-bridge-diagnostics-${timestamp}.zip`;
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(os.homedir(), fileName)),
+    filters: { 'Zip archives': ['zip'] },
+    saveLabel: 'Export',
+  });
+  if (!target) {
+    return undefined;
+  }
+
+  const bundle = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Collecting diagnostics…' },
+    async () => createZip(await collectDiagnostics(context))
+  );
+  await vscode.workspace.fs.writeFile(target, bundle);
+  logger.info(`Exported diagnostics bundle to ${target.fsPath}`);
+
+  const action = await vscode.window.showInformationMessage(
+    `Diagnostics saved to ${path.basename(target.fsPath)}. Tokens are redacted, ` +
+      'but review the bundle before sharing it.',
+    REVEAL_ACTION,
+    REPORT_ISSUE_ACTION
+  );
+  if (action === REVEAL_ACTION) {
+    await vscode.commands.executeCommand('revealFileInOS', target);
+  } else if (action === REPORT_ISSUE_ACTION) {
+    const issueUrl = getIssueUrl(context, path.basename(target.fsPath));
+    if (issueUrl) {
+      await vscode.env.openExternal(vscode.Uri.parse(issueUrl));
+    }
+  }
+  return target;
+}
+
+function getEnvironment(context: vscode.ExtensionContext): Record<string, unknown> {
+  return {
+    generatedAt: new Date().toISOString(),
+    extension: { id: context.extension.id, version: context.extension.packageJSON.version },
+    vscode: {
+      version: vscode.version,
+      appName: vscode.env.appName,
+      appHost: vscode.env.appHost,
+      remoteName: vscode.env.remoteName ?? null,
+      language: vscode.env.language,
+    },
+    os: { platform: process.platform, arch: process.arch, release: os.release() },
+    node: process.versions.node,
+  };
+}
+
+/**
+ * Effective value of every setting the extension contributes
+ */
+function getSettings(context: vscode.ExtensionContext): Record<string, unknown> {
+  const properties: Record<string, unknown> =
+    context.extension.packageJSON.contributes?.configuration?.properties ?? {};
+  const config = vscode.workspace.getConfiguration();
+  const settings: Record<string, unknown> = {};
+  for (const key of Object.keys(properties)) {
+    settings[key] = config.get(key);
+  }
+  return settings;
+}
+
+async function getStatus(): Promise<Record<string, unknown>> {
+  const authManager = getGitHubAuthManager();
+  const repositoryService = getRepositoryService();
+  const repositories = repositoryService.getRepositories();
+  const current = repositoryService.getCurrentRepository();
+
+  const sessions = [];
+  for (const repository of repositories.length > 0 ? repositories : [undefined]) {
+    await authManager.isAuthenticated(repository);
+    const { account, chosenAccount, ...status } = authManager.getSessionStatus(repository);
+    sessions.push({
+      repository: repository ? `${repository.owner}/${repository.repo}` : null,
+      ...status,
+      account: account?.label ?? null,
+      chosenAccount: chosenAccount?.label ?? null,
+      grantedScopes: authManager.getGrantedScopes(repository),
+    });
+  }
+
+  return {
+    workspace: {
+      trusted: vscode.workspace.isTrusted,
+      folders: vscode.workspace.workspaceFolders?.length ?? 0,
+    },
+    repositories: repositories.map(repository => ({
+      host: repository.host,
+      repository: `${repository.owner}/${repository.repo}`,
+      current: repository === current,
+    })),
+    sessions,
+    redactions: getRedactor().getAuditCounts(),
+  };
+}
+
+/**
+ * New issue URL of the extension's own repository, prefilled with the environment
+ */
+function getIssueUrl(context: vscode.ExtensionContext, bundleName: string): string | undefined {
+  const bugsUrl: string | undefined = context.extension.packageJSON.bugs?.url;
+  if (!bugsUrl) {
+    return undefined;
+  }
+
+  const body = [
+    '### Describe the problem',
+    '',
+    '<!-- What did you do, what did you expect and what happened instead? -->',
+    '',
+    '### Environment',
+    '',
+    `- GitIssue Bridge: ${context.extension.packageJSON.version}`,
+    `- VS Code: ${vscode.version} (${vscode.env.appHost})`,
+    `- OS: ${process.platform} ${process.arch}`,
+    '',
+    '### Diagnostics',
+    '',
+    `<!-- Drag ${bundleName} here to attach it -->`,
+  ].join('\n');
+  return `${bugsUrl.replace(/\/+$/, '')}/new?body=${encodeURIComponent(body)}`;
+}
+
+function toJsonEntry(name: string, value: unknown): ZipEntry {
+  return { name, content: JSON.stringify(getRedactor().redactObject(value), null, 2) };
+}
@@ -1,5 +1,13 @@
 import * as vscode from 'vscode';
 import { getLogger } from './logger';
+import {
+  AuthenticationExpiredError,
+  classifyGitHubError,
+  GitHubApiError,
+  isNetworkError,
+  MissingScopeError,
+  SsoRequiredError,
+} from '../api/githubErrors';
 
 /**
  * Error severity levels
@@ -17,8 +25,27 @@ export interface ErrorContext {
   operation?: string;
   component?: string;
   metadata?: Record<string, unknown>;
+  /** Cached data is shown instead, so network errors need no popup */
+  cachedDataAvailable?: boolean;
+  /** Runs the failed operation again; offered as "Retry" for transient failures */
+  retry?: () => unknown;
+  /** Ties the error to the log entries of its invocation; the current log context's by default */
+  correlationId?: string;
 }
 
+/**
+ * Recovery actions offered for classified GitHub errors
+ */
+const REAUTHENTICATE_ACTION = 'Re-authenticate';
+const GRANT_ACCESS_ACTION = 'Grant Access';
+const AUTHORIZE_SSO_ACTION = 'Authorize SSO';
+const RETRY_ACTION = 'Retry';
+
+/**
+ * How long the offline notice stays in the status bar
+ */
+const OFFLINE_MESSAGE_TIMEOUT = 10_000;
+
 /**
  * Centralized error handling service
  * Provides consistent error reporting and user notifications
@@ -43,24 +70,12 @@ export class ErrorHandler {
    * Get user-friendly error message
    */
   private getUserMessage(error: unknown): string {
-    if (error instanceof Error) {
-      // Map common errors to user-friendly messages
-      if (error.message.includes('ENOTFOUND')) {
-        return 'Network error: Unable to connect to GitHub. Please check your internet connection.';
-      }
-      if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-        return 'Authentication failed. Please sign in to GitHub again.';
-      }
-      if (error.message.includes('403') || error.message.includes('Forbidden')) {
-        return 'Access denied. You may not have permission for this operation.';
-      }
-      if (error.message.includes('404') || error.message.includes('Not Found')) {
-        return 'Resource not found. The requested item may have been deleted or moved.';
-      }
-      if (error.message.includes('rate limit')) {
-        return 'GitHub API rate limit exceeded. Please try again later.';
-      }
+    const classified = classifyGitHubError(error);
+    if (classified) {
+      return classified.message;
+    }
 
+    if (error instanceof Error) {
       return error.message;
     }
 
@@ -71,6 +86,25 @@ export class ErrorHandler {
     return 'An unexpected error occurred. Please check the logs for more details.';
   }
 
+  /**
+   * Actions that can resolve a classified GitHub error
+   */
+  private getRecoveryActions(error: GitHubApiError | undefined, context?: ErrorContext): string[] {
+    if (error instanceof AuthenticationExpiredError) {
+      return [REAUTHENTICATE_ACTION];
+    }
+    if (error instanceof MissingScopeError) {
+      return [GRANT_ACCESS_ACTION];
+    }
+    if (error instanceof SsoRequiredError && error.authorizationUrl) {
+      return [AUTHORIZE_SSO_ACTION];
+    }
+    if (error?.retryable && context?.retry) {
+      return [RETRY_ACTION];
+    }
+    return [];
+  }
+
   /**
    * Handle error with context and show to user
    */
@@ -79,15 +113,49 @@ export class ErrorHandler {
     context?: ErrorContext,
     severity: ErrorSeverity = ErrorSeverity.ERROR
   ): Promise<void> {
+    const classified = classifyGitHubError(error);
     const userMessage = this.getUserMessage(error);
     const operation = context?.operation || 'Unknown operation';
     const component = context?.component || 'Unknown component';
+    const logContext = {
+      correlationId: context?.correlationId ?? this.logger.getContext()?.correlationId,
+      component,
+      operation,
+    };
 
-    // Log error with full context
-    this.logger.error(`Error in ${component} during ${operation}`, error, context?.metadata);
+    // The user declined a prompt of the operation (e.g. granting scopes): nothing to report
+    if (error instanceof vscode.CancellationError) {
+      this.logger.withContext(logContext, () =>
+        this.logger.info(`${operation} in ${component} cancelled by the user`)
+      );
+      return;
+    }
+
+    // Offline with cached data on screen: note it in the status bar instead of interrupting
+    if (context?.cachedDataAvailable && isNetworkError(error)) {
+      this.logger.withContext(logContext, () =>
+        this.logger.warn(
+          `GitHub unreachable in ${component} during ${operation}, using cached data`,
+          error
+        )
+      );
+      vscode.window.setStatusBarMessage(
+        '$(cloud-offline) GitHub unreachable — showing cached data',
+        OFFLINE_MESSAGE_TIMEOUT
+      );
+      return;
+    }
+
+    // Log error with full context, under the correlation ID of the failed invocation
+    this.logger.withContext(logContext, () =>
+      this.logger.error(`Error in ${component} during ${operation}`, error, {
+        ...context?.metadata,
+        ...(classified && { errorType: classified.name }),
+      })
+    );
 
     // Show appropriate notification to user
-    const actions = ['Show Logs', 'Dismiss'];
+    const actions = [...this.getRecoveryActions(classified, context), 'Show Logs', 'Dismiss'];
 
     let selectedAction: string | undefined;
 
@@ -104,8 +172,33 @@ export class ErrorHandler {
     }
 
     // Handle user action
-    if (selectedAction === 'Show Logs') {
-      this.logger.show();
+    switch (selectedAction) {
+      case 'Show Logs':
+        this.logger.show();
+        break;
+      case REAUTHENTICATE_ACTION:
+        await vscode.commands.executeCommand('gitissue-bridge.authenticate');
+        break;
+      case GRANT_ACCESS_ACTION:
+        // Retry right away once the scopes are granted, so recovery takes one click
+        if (
+          classified instanceof MissingScopeError &&
+          (await vscode.commands.executeCommand<boolean>(
+            'gitissue-bridge.grantScopes',
+            classified.requiredScopes
+          ))
+        ) {
+          await context?.retry?.();
+        }
+        break;
+      case AUTHORIZE_SSO_ACTION:
+        if (classified instanceof SsoRequiredError && classified.authorizationUrl) {
+          await vscode.env.openExternal(vscode.Uri.parse(classified.authorizationUrl));
+        }
+        break;
+      case RETRY_ACTION:
+        await context?.retry?.();
+        break;
     }
   }
 
@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Name of the current log file; rotated files are named gitissue-bridge.1.log, .2.log…
+ */
+export const LOG_FILE_NAME = 'gitissue-bridge.log';
+
+export interface LogFileOptions {
+  /** Size in bytes from which the current file is rotated */
+  maxFileSize: number;
+  /** Files kept, including the current one */
+  maxFiles: number;
+}
+
+/**
+ * Appends log lines to files in a directory, rotating them by size
+ * Writes are queued so lines keep their order without blocking the caller.
+ */
+export class LogFileSink {
+  private queue: Promise<void> = Promise.resolve();
+  private size: number | undefined;
+  private disposed = false;
+  /** Set after a failed write, so a lasting failure is reported once */
+  private failing = false;
+
+  constructor(
+    private readonly directory: string,
+    private readonly options: LogFileOptions,
+    private readonly onError: (error: unknown) => void = () => undefined
+  ) {}
+
+  /**
+   * Queue a line for the current log file
+   */
+  public write(line: string): void {
+    if (this.disposed) {
+      return;
+    }
+    this.queue = this.queue
+      .then(() => this.append(`${line}\n`))
+      .then(
+        () => {
+          this.failing = false;
+        },
+        error => {
+          // Measure the file again on the next write
+          this.size = undefined;
+          if (!this.failing) {
+            this.failing = true;
+            this.onError(error);
+          }
+        }
+      );
+  }
+
+  /**
+   * Write nothing before the lines of a replaced sink of the same directory are written,
+   * so their appends and rotations do not interleave
+   */
+  public startAfter(previous: LogFileSink): void {
+    this.queue = previous.flush();
+  }
+
+  /**
+   * Whether the sink writes to the directory with the given rotation options
+   */
+  public hasSettings(directory: string, options: LogFileOptions): boolean {
+    return (
+      this.directory === directory &&
+      this.options.maxFileSize === options.maxFileSize &&
+      this.options.maxFiles === options.maxFiles
+    );
+  }
+
+  /**
+   * Wait until queued lines are written
+   */
+  public flush(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * Existing log files, newest first
+   */
+  public async getFiles(): Promise<string[]> {
+    await this.flush();
+    const files: string[] = [];
+    for (let index = 0; index < this.options.maxFiles; index++) {
+      const file = this.getPath(index);
+      if (await exists(file)) {
+        files.push(file);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Stop accepting lines; queued ones are still written
+   */
+  public dispose(): void {
+    this.disposed = true;
+  }
+
+  private async append(text: string): Promise<void> {
+    if (this.size === undefined) {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await this.removeExtraFiles();
+      this.size = await fs.promises.stat(this.getPath(0)).then(
+        stats => stats.size,
+        () => 0
+      );
+    }
+
+    const bytes = Buffer.byteLength(text, 'utf8');
+    if (this.size > 0 && this.size + bytes > this.options.maxFileSize) {
+      await this.rotate();
+    }
+    await fs.promises.appendFile(this.getPath(0), text, 'utf8');
+    this.size += bytes;
+  }
+
+  /**
+   * Shift every file one index up, dropping the oldest
+   */
+  private async rotate(): Promise<void> {
+    await removeIfExists(this.getPath(this.options.maxFiles - 1));
+    for (let index = this.options.maxFiles - 1; index > 0; index--) {
+      const source = this.getPath(index - 1);
+      if (await exists(source)) {
+        await fs.promises.rename(source, this.getPath(index));
+      }
+    }
+    this.size = 0;
+  }
+
+  /**
+   * Delete rotated files beyond the retention, left over when it was larger
+   */
+  private async removeExtraFiles(): Promise<void> {
+    const entries = await fs.promises.readdir(this.directory);
+    for (const entry of entries) {
+      const index = Number(/^gitissue-bridge\.(\d+)\.log$/.exec(entry)?.[1]);
+      if (index >= this.options.maxFiles) {
+        await removeIfExists(path.join(this.directory, entry));
+      }
+    }
+  }
+
+  private getPath(index: number): string {
+    return path.join(
+      this.directory,
+      index === 0 ? LOG_FILE_NAME : LOG_FILE_NAME.replace(/\.log$/, `.${index}.log`)
+    );
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.promises.access(file).then(
+    () => true,
+    () => false
+  );
+}
+
+async function removeIfExists(file: string): Promise<void> {
+  await fs.promises.rm(file, { force: true });
+}
@@ -1,4 +1,19 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
 import * as vscode from 'vscode';
+import { LogFileSink } from './logFileSink';
+import { getRedactor } from './redaction';
+
+/**
+ * Settings the logger follows while the extension runs
+ */
+const LOGGING_SETTINGS = [
+  'gitissueBridge.logLevel',
+  'gitissueBridge.logLevels',
+  'gitissueBridge.logFormat',
+  'gitissueBridge.logFile',
+  'gitissueBridge.redaction',
+];
 
 /**
  * Log levels for the logger
@@ -8,59 +23,103 @@ export enum LogLevel {
   INFO = 1,
   WARN = 2,
   ERROR = 3,
+  OFF = 4,
+}
+
+/**
+ * How entries are written: free-form text or JSON lines
+ */
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Where entries come from, carried through the async calls of one command invocation
+ */
+export interface LogContext {
+  /** Ties together the entries of one invocation, e.g. startIssue → API calls → git */
+  correlationId: string;
+  component?: string;
+  operation?: string;
+}
+
+/**
+ * Running timer started by Logger.startSpan
+ */
+export interface LogSpan {
+  /** Log the duration at debug level; returns it in milliseconds */
+  end(data?: unknown): number;
+  /** Log the duration of a failed operation at debug level; returns it in milliseconds */
+  fail(error: unknown): number;
+}
+
+/**
+ * Fields of one log entry, as written in JSON format
+ */
+interface LogEntry {
+  timestamp: string;
+  level: string;
+  message: string;
+  component?: string;
+  operation?: string;
+  correlationId?: string;
+  durationMs?: number;
+}
+
+/**
+ * Optional parts of a log entry
+ */
+export interface LogDetails {
+  /** Overrides the component of the log context */
+  component?: string;
+  data?: unknown;
+  error?: unknown;
+  durationMs?: number;
+}
+
+/**
+ * Logger whose entries are tagged with a component, created with Logger.child
+ */
+export interface ComponentLogger {
+  readonly component: string;
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, error?: unknown, data?: unknown): void;
+  startSpan(name: string, data?: unknown): LogSpan;
+  time<T>(name: string, task: () => Promise<T>, data?: unknown): Promise<T>;
 }
 
 /**
- * Centralized logging service with automatic sensitive data sanitization
+ * Lines kept in memory for diagnostics bundles when no log file is written
+ */
+const MAX_RECENT_LINES = 1000;
+
+/**
+ * Centralized logging service; secrets are redacted from every entry
  * Implements singleton pattern to ensure single instance across extension
  */
 export class Logger {
   private static instance: Logger;
-  private outputChannel: vscode.OutputChannel;
-  private logLevel: LogLevel = LogLevel.INFO;
-
-  /**
-   * Patterns for detecting sensitive data
-   */
-  private readonly sensitivePatterns = [
-    // GitHub tokens: ghp_, gho_, ghs_, ghr_
-    { pattern: /ghp_[a-zA-Z0-9]{36}/g, replacement: 'ghp_[REDACTED]' },
-    { pattern: /gho_[a-zA-Z0-9]{36}/g, replacement: 'gho_[REDACTED]' },
-    { pattern: /ghs_[a-zA-Z0-9]{36}/g, replacement: 'ghs_[REDACTED]' },
-    { pattern: /ghr_[a-zA-Z0-9]{36}/g, replacement: 'ghr_[REDACTED]' },
-    // Generic tokens (40+ chars of alphanumeric)
-    { pattern: /\b[a-f0-9]{40,}\b/gi, replacement: '[REDACTED_TOKEN]' },
-    // Authorization headers
-    {
-      pattern: /authorization:\s*bearer\s+[^\s]+/gi,
-      replacement: 'authorization: bearer [REDACTED]',
-    },
-    {
-      pattern: /authorization:\s*token\s+[^\s]+/gi,
-      replacement: 'authorization: token [REDACTED]',
-    },
-  ];
-
-  /**
-   * Sensitive field names to redact
-   */
-  private readonly sensitiveFields = [
-    'token',
-    'password',
-    'secret',
-    'apiKey',
-    'api_key',
-    'accessToken',
-    'access_token',
-    'refreshToken',
-    'refresh_token',
-    'privateKey',
-    'private_key',
-    'authorization',
-  ];
+  private outputChannel: vscode.LogOutputChannel;
+  /** Level from the settings; when unset, the level of the output channel applies */
+  private configuredLevel?: LogLevel;
+  /** Levels per component, keyed in lower case */
+  private componentLevels = new Map<string, LogLevel>();
+  private logUri?: vscode.Uri;
+  private format: LogFormat = 'text';
+  private contextStorage = new AsyncLocalStorage<LogContext>();
+  private fileSink?: LogFileSink;
+  private recentLines: string[] = [];
+
+  private redactor = getRedactor();
 
   private constructor() {
-    this.outputChannel = vscode.window.createOutputChannel('GitIssue Bridge');
+    // A log channel, so "Developer: Set Log Level" applies to it
+    this.outputChannel = vscode.window.createOutputChannel('GitIssue Bridge', { log: true });
+    this.outputChannel.onDidChangeLogLevel(level => {
+      if (this.configuredLevel === undefined) {
+        this.info(`Log level set to ${LogLevel[fromVsCodeLogLevel(level)]} by VS Code`);
+      }
+    });
   }
 
   /**
@@ -74,10 +133,92 @@ export class Logger {
   }
 
   /**
-   * Set minimum log level
+   * Apply the logging settings and follow their changes
+   * Log files are written to the extension's log folder.
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    this.logUri = context.logUri;
+    this.applyConfiguration();
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (LOGGING_SETTINGS.some(setting => event.affectsConfiguration(setting))) {
+          this.applyConfiguration();
+        }
+      })
+    );
+  }
+
+  /**
+   * Read level, per-component levels, format, log file and redaction settings
+   */
+  private applyConfiguration(): void {
+    const config = vscode.workspace.getConfiguration('gitissueBridge');
+
+    const level = parseLogLevel(config.get<string>('logLevel'));
+    if (level !== this.configuredLevel) {
+      this.configuredLevel = level;
+      this.info(
+        level === undefined
+          ? `Log level follows VS Code: ${LogLevel[this.getLogLevel()]}`
+          : `Log level set to ${LogLevel[level]}`
+      );
+    }
+
+    this.componentLevels = new Map();
+    for (const [component, value] of Object.entries(
+      config.get<Record<string, string>>('logLevels', {})
+    )) {
+      const componentLevel = parseLogLevel(value);
+      if (componentLevel !== undefined) {
+        this.componentLevels.set(component.toLowerCase(), componentLevel);
+      }
+    }
+
+    this.format = config.get<LogFormat>('logFormat', 'text');
+    this.configureLogFile(config);
+
+    const invalid = this.redactor.setCustomPatterns(config.get<string[]>('redaction.patterns', []));
+    if (invalid.length > 0) {
+      this.warn('Ignoring invalid redaction patterns', { patterns: invalid });
+    }
+  }
+
+  /**
+   * Start or stop writing logs to files, following the logFile settings
+   * The sink is only replaced when its directory or rotation options change.
+   */
+  private configureLogFile(config: vscode.WorkspaceConfiguration): void {
+    if (!this.logUri || !config.get<boolean>('logFile.enabled', false)) {
+      this.setFileSink(undefined);
+      return;
+    }
+
+    const directory = this.logUri.fsPath;
+    const options = {
+      maxFileSize: config.get<number>('logFile.maxSizeKB', 1024) * 1024,
+      maxFiles: Math.max(1, config.get<number>('logFile.maxFiles', 5)),
+    };
+    const previous = this.fileSink;
+    if (previous?.hasSettings(directory, options)) {
+      return;
+    }
+
+    this.setFileSink(undefined);
+    const sink = new LogFileSink(directory, options, error =>
+      this.warn(`Failed to write the log file in ${directory}`, { error: String(error) })
+    );
+    if (previous) {
+      sink.startAfter(previous);
+    }
+    this.setFileSink(sink);
+    this.info(`Writing logs to ${directory}`);
+  }
+
+  /**
+   * Set minimum log level, overriding the level of the output channel
    */
   public setLogLevel(level: LogLevel): void {
-    this.logLevel = level;
+    this.configuredLevel = level;
     this.info(`Log level set to ${LogLevel[level]}`);
   }
 
@@ -85,7 +226,25 @@ export class Logger {
    * Get current log level
    */
   public getLogLevel(): LogLevel {
-    return this.logLevel;
+    return this.configuredLevel ?? fromVsCodeLogLevel(this.outputChannel.logLevel);
+  }
+
+  /**
+   * Minimum level of a component's entries
+   */
+  public getComponentLogLevel(component?: string): LogLevel {
+    return (
+      (component !== undefined ? this.componentLevels.get(component.toLowerCase()) : undefined) ??
+      this.getLogLevel()
+    );
+  }
+
+  /**
+   * Logger that tags its entries with a component, e.g. `getLogger().child('Git')`
+   * The component's level from the logLevels setting applies to them.
+   */
+  public child(component: string): ComponentLogger {
+    return new ScopedLogger(this, component);
   }
 
   /**
@@ -107,65 +266,168 @@ export class Logger {
    */
   public clear(): void {
     this.outputChannel.clear();
+    this.recentLines = [];
   }
 
   /**
-   * Sanitize sensitive data from message
+   * Also write logs to files, or stop doing so
    */
-  private sanitize(message: string): string {
-    let sanitized = message;
+  public setFileSink(sink: LogFileSink | undefined): void {
+    this.fileSink?.dispose();
+    this.fileSink = sink;
+  }
 
-    // Apply pattern-based sanitization
-    for (const { pattern, replacement } of this.sensitivePatterns) {
-      sanitized = sanitized.replace(pattern, replacement);
-    }
+  /**
+   * Sink writing logs to files, if enabled
+   */
+  public getFileSink(): LogFileSink | undefined {
+    return this.fileSink;
+  }
 
-    return sanitized;
+  /**
+   * Latest formatted log lines, already redacted
+   */
+  public getRecentLines(): string[] {
+    return [...this.recentLines];
   }
 
   /**
-   * Sanitize object by redacting sensitive fields
+   * Set how entries are written: free-form text or one JSON object per line
    */
-  private sanitizeObject(obj: unknown): unknown {
-    if (obj === null || obj === undefined) {
-      return obj;
-    }
+  public setFormat(format: LogFormat): void {
+    this.format = format;
+  }
 
-    if (typeof obj !== 'object') {
-      return obj;
-    }
+  /**
+   * Get current log format
+   */
+  public getFormat(): LogFormat {
+    return this.format;
+  }
+
+  /**
+   * Run a callback in a log context, carried by every entry logged inside it,
+   * including entries of the async calls it starts
+   * Nested contexts keep the correlation ID of the outer one unless given another.
+   */
+  public withContext<T>(context: Partial<LogContext>, callback: () => T): T {
+    const current = this.contextStorage.getStore();
+    return this.contextStorage.run(
+      {
+        ...current,
+        ...context,
+        correlationId: context.correlationId ?? current?.correlationId ?? createCorrelationId(),
+      },
+      callback
+    );
+  }
+
+  /**
+   * Log context of the running code, if any
+   */
+  public getContext(): LogContext | undefined {
+    return this.contextStorage.getStore();
+  }
 
-    if (Array.isArray(obj)) {
-      return obj.map(item => this.sanitizeObject(item));
+  /**
+   * Start timing an operation; ending the span logs its duration at debug level
+   */
+  public startSpan(name: string, data?: unknown, component?: string): LogSpan {
+    const start = Date.now();
+    return {
+      end: (endData?: unknown) => {
+        const durationMs = Date.now() - start;
+        this.log(LogLevel.DEBUG, `${name} took ${durationMs}ms`, {
+          component,
+          data: endData ?? data,
+          durationMs,
+        });
+        return durationMs;
+      },
+      fail: (error: unknown) => {
+        const durationMs = Date.now() - start;
+        this.log(LogLevel.DEBUG, `${name} failed after ${durationMs}ms`, {
+          component,
+          data,
+          error,
+          durationMs,
+        });
+        return durationMs;
+      },
+    };
+  }
+
+  /**
+   * Time an async task, logging its duration whether it succeeds or fails
+   */
+  public async time<T>(
+    name: string,
+    task: () => Promise<T>,
+    data?: unknown,
+    component?: string
+  ): Promise<T> {
+    const span = this.startSpan(name, data, component);
+    try {
+      const result = await task();
+      span.end();
+      return result;
+    } catch (error) {
+      span.fail(error);
+      throw error;
     }
+  }
 
-    const sanitized: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(obj)) {
-      const lowerKey = key.toLowerCase();
-      if (this.sensitiveFields.some(field => lowerKey.includes(field.toLowerCase()))) {
-        sanitized[key] = '[REDACTED]';
-      } else if (typeof value === 'object' && value !== null) {
-        sanitized[key] = this.sanitizeObject(value);
-      } else {
-        sanitized[key] = value;
-      }
+  /**
+   * Build an entry from the message and the current context, then write it
+   * Entries below the level of their component are dropped.
+   */
+  public log(level: LogLevel, message: string, details: LogDetails = {}): void {
+    const context = this.contextStorage.getStore();
+    const component = details.component ?? context?.component;
+    if (level < this.getComponentLogLevel(component) || level === LogLevel.OFF) {
+      return;
     }
 
-    return sanitized;
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level: LogLevel[level],
+      message: this.redactor.redact(message),
+      component,
+      operation: context?.operation,
+      correlationId: context?.correlationId,
+      durationMs: details.durationMs,
+    };
+    if (this.format === 'json') {
+      const line = this.formatJson(entry, details);
+      this.write(level, line, line);
+    } else {
+      const text = this.formatText(entry, details);
+      this.write(level, text, `[${entry.timestamp}] [${entry.level}] ${text}`);
+    }
   }
 
   /**
-   * Format message with optional data
+   * Format an entry as text, with data and error details on the following lines
+   * Timestamp and level are left out; the output channel adds its own.
    */
-  private formatMessage(level: string, message: string, data?: unknown): string {
-    const timestamp = new Date().toISOString();
-    let formatted = `[${timestamp}] [${level}] ${this.sanitize(message)}`;
+  private formatText(entry: LogEntry, { data, error }: LogDetails): string {
+    let formatted = [entry.correlationId, entry.component]
+      .filter(part => part !== undefined)
+      .map(part => `[${part}] `)
+      .join('');
+    formatted += entry.message;
+
+    if (error instanceof Error) {
+      formatted += this.redactor.redact(`\nError: ${error.message}\nStack: ${error.stack || ''}`);
+    } else if (error) {
+      formatted += `\nError: ${this.redactor.redact(JSON.stringify(this.redactor.redactObject(error)))}`;
+    }
 
     if (data !== undefined) {
       try {
-        const sanitizedData = this.sanitizeObject(data);
-        const dataStr = JSON.stringify(sanitizedData, null, 2);
-        formatted += `\n${this.sanitize(dataStr)}`;
+        const redactedData = this.redactor.redactObject(data);
+        const dataStr = JSON.stringify(redactedData, null, 2);
+        formatted += `\n${this.redactor.redact(dataStr)}`;
       } catch (error) {
         formatted += `\n[Error formatting data: ${error}]`;
       }
@@ -174,58 +436,91 @@ export class Logger {
     return formatted;
   }
 
+  /**
+   * Format an entry as a single line JSON object
+   */
+  private formatJson(entry: LogEntry, { data, error }: LogDetails): string {
+    try {
+      return this.redactor.redact(
+        JSON.stringify({
+          ...entry,
+          data: this.redactor.redactObject(data),
+          error:
+            error instanceof Error
+              ? { name: error.name, message: error.message, stack: error.stack }
+              : this.redactor.redactObject(error),
+        })
+      );
+    } catch (formatError) {
+      return this.redactor.redact(
+        JSON.stringify({ ...entry, data: `[Error formatting data: ${formatError}]` })
+      );
+    }
+  }
+
+  /**
+   * Write an entry to the output channel at its level, and a full line to the log file
+   * The output channel leaves out entries below the level chosen with "Developer: Set Log Level".
+   * Entries the settings let through are written at the channel's level instead, tagged
+   * with their own, so logLevel and logLevels work without changing the channel's level.
+   */
+  private write(level: LogLevel, message: string, line: string): void {
+    const channelLevel = fromVsCodeLogLevel(this.outputChannel.logLevel);
+    const raised = level < channelLevel && channelLevel !== LogLevel.OFF;
+    const text = raised ? `[${LogLevel[level]}] ${message}` : message;
+    switch (raised ? channelLevel : level) {
+      case LogLevel.DEBUG:
+        this.outputChannel.debug(text);
+        break;
+      case LogLevel.INFO:
+        this.outputChannel.info(text);
+        break;
+      case LogLevel.WARN:
+        this.outputChannel.warn(text);
+        break;
+      default:
+        this.outputChannel.error(text);
+    }
+    this.fileSink?.write(line);
+    this.recentLines.push(line);
+    if (this.recentLines.length > MAX_RECENT_LINES) {
+      this.recentLines.shift();
+    }
+  }
+
   /**
    * Log debug message
    */
   public debug(message: string, data?: unknown): void {
-    if (this.logLevel <= LogLevel.DEBUG) {
-      const formatted = this.formatMessage('DEBUG', message, data);
-      this.outputChannel.appendLine(formatted);
-    }
+    this.log(LogLevel.DEBUG, message, { data });
   }
 
   /**
    * Log info message
    */
   public info(message: string, data?: unknown): void {
-    if (this.logLevel <= LogLevel.INFO) {
-      const formatted = this.formatMessage('INFO', message, data);
-      this.outputChannel.appendLine(formatted);
-    }
+    this.log(LogLevel.INFO, message, { data });
   }
 
   /**
    * Log warning message
    */
   public warn(message: string, data?: unknown): void {
-    if (this.logLevel <= LogLevel.WARN) {
-      const formatted = this.formatMessage('WARN', message, data);
-      this.outputChannel.appendLine(formatted);
-    }
+    this.log(LogLevel.WARN, message, { data });
   }
 
   /**
    * Log error message
    */
   public error(message: string, error?: unknown, data?: unknown): void {
-    if (this.logLevel <= LogLevel.ERROR) {
-      let errorDetails = '';
-
-      if (error instanceof Error) {
-        errorDetails = `\nError: ${error.message}\nStack: ${this.sanitize(error.stack || '')}`;
-      } else if (error) {
-        errorDetails = `\nError: ${JSON.stringify(this.sanitizeObject(error))}`;
-      }
-
-      const formatted = this.formatMessage('ERROR', message + errorDetails, data);
-      this.outputChannel.appendLine(formatted);
-    }
+    this.log(LogLevel.ERROR, message, { error, data });
   }
 
   /**
    * Dispose logger resources
    */
   public dispose(): void {
+    this.setFileSink(undefined);
     this.outputChannel.dispose();
   }
 }
@@ -236,3 +531,70 @@ export class Logger {
 export function getLogger(): Logger {
   return Logger.getInstance();
 }
+
+/**
+ * Short random ID to correlate the entries of one invocation
+ */
+function createCorrelationId(): string {
+  return randomBytes(4).toString('hex');
+}
+
+/**
+ * Child logger that tags entries with its component
+ */
+class ScopedLogger implements ComponentLogger {
+  constructor(
+    private readonly parent: Logger,
+    public readonly component: string
+  ) {}
+
+  public debug(message: string, data?: unknown): void {
+    this.parent.log(LogLevel.DEBUG, message, { component: this.component, data });
+  }
+
+  public info(message: string, data?: unknown): void {
+    this.parent.log(LogLevel.INFO, message, { component: this.component, data });
+  }
+
+  public warn(message: string, data?: unknown): void {
+    this.parent.log(LogLevel.WARN, message, { component: this.component, data });
+  }
+
+  public error(message: string, error?: unknown, data?: unknown): void {
+    this.parent.log(LogLevel.ERROR, message, { component: this.component, error, data });
+  }
+
+  public startSpan(name: string, data?: unknown): LogSpan {
+    return this.parent.startSpan(name, data, this.component);
+  }
+
+  public time<T>(name: string, task: () => Promise<T>, data?: unknown): Promise<T> {
+    return this.parent.time(name, task, data, this.component);
+  }
+}
+
+/**
+ * Parse a level setting such as "debug"; undefined when unset or unknown
+ */
+function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  return value ? LogLevel[value.toUpperCase() as keyof typeof LogLevel] : undefined;
+}
+
+/**
+ * Map a level of VS Code's log output channels to the logger's levels
+ */
+function fromVsCodeLogLevel(level: vscode.LogLevel): LogLevel {
+  switch (level) {
+    case vscode.LogLevel.Trace:
+    case vscode.LogLevel.Debug:
+      return LogLevel.DEBUG;
+    case vscode.LogLevel.Info:
+      return LogLevel.INFO;
+    case vscode.LogLevel.Warning:
+      return LogLevel.WARN;
+    case vscode.LogLevel.Error:
+      return LogLevel.ERROR;
+    default:
+      return LogLevel.OFF;
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * One shape of secret and what replaces it
+ */
+export interface RedactionRule {
+  /** Identifies the rule in audit counts, e.g. "github-token" */
+  name: string;
+  /** Global pattern of the secret */
+  pattern: RegExp;
+  /** Replacement; may refer to groups of the pattern as $1, $2… */
+  replacement: string;
+}
+
+/**
+ * Built-in rules, applied in order
+ */
+export const DEFAULT_REDACTION_RULES: readonly RedactionRule[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    replacement: '[REDACTED_PRIVATE_KEY]',
+  },
+  // Fine-grained personal access tokens
+  {
+    name: 'github-fine-grained-token',
+    pattern: /\bgithub_pat_[A-Za-z0-9_]{22,}/g,
+    replacement: 'github_pat_[REDACTED]',
+  },
+  // Classic, OAuth, user-to-server, server-to-server and refresh tokens: ghp_, gho_, ghu_, ghs_, ghr_
+  {
+    name: 'github-token',
+    pattern: /\b(gh[pousr])_[A-Za-z0-9]{36,}/g,
+    replacement: '$1_[REDACTED]',
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+    replacement: '[REDACTED_JWT]',
+  },
+  {
+    name: 'authorization-header',
+    pattern: /(authorization:\s*(?:bearer|token|basic)\s+)[^\s]+/gi,
+    replacement: '$1[REDACTED]',
+  },
+  {
+    name: 'url-credentials',
+    pattern: /(\b[a-z][a-z0-9+.-]*:\/\/)[^/\s:@]+:[^/\s@]+@/gi,
+    replacement: '$1[REDACTED]@',
+  },
+  // SSH remotes such as git@github.com are not emails
+  {
+    name: 'email',
+    pattern: /\b(?!git@)[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+    replacement: '[REDACTED_EMAIL]',
+  },
+  // Long hex strings, like tokens from before GitHub prefixed them
+  {
+    name: 'hex-secret',
+    pattern: /\b[a-f0-9]{40,}\b/gi,
+    replacement: '[REDACTED_TOKEN]',
+  },
+];
+
+/**
+ * Field names whose values are replaced as a whole
+ */
+const SENSITIVE_FIELDS = [
+  'token',
+  'password',
+  'secret',
+  'apikey',
+  'api_key',
+  'accesstoken',
+  'access_token',
+  'refreshtoken',
+  'refresh_token',
+  'privatekey',
+  'private_key',
+  'authorization',
+];
+
+/**
+ * Whole names of fields that hold commit SHAs, e.g. sha, headSha, head_sha, commit_id, oid
+ * Names merely starting with these, like shared_secret or oidc_client_id, do not count.
+ */
+const SHA_NAME =
+  '(?:(?:head|base|parent|tree|merge_?commit|commit)[_-]?)?(?:sha|oid)|commit(?:[_-]?id)?|head|base|parent|tree';
+const SHA_FIELD = new RegExp(`^(?:${SHA_NAME})$`, 'i');
+const SHA = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/;
+
+/**
+ * Known-safe text the built-in rules leave as is: SHAs assigned to a SHA field name,
+ * "commit <sha>" as git prints it, and SHAs in commit, blob and tree URLs
+ */
+const SAFE_SHAPES = [
+  new RegExp(`\\b(?:${SHA_NAME})\\b["']?\\s*[:=]\\s*["']?[0-9a-f]{40}(?:[0-9a-f]{24})?\\b`, 'gi'),
+  /\bcommit\s+[0-9a-f]{40}(?:[0-9a-f]{24})?\b/gi,
+  /\/(?:commit|commits|blob|tree)\/[0-9a-f]{40}(?:[0-9a-f]{24})?\b/gi,
+];
+
+/**
+ * Marks a span kept aside while rules run; cannot occur in log text
+ */
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+/**
+ * Redacts secrets from text and objects
+ * Rules are pluggable; patterns from the settings run after the built-in ones. Counts how
+ * many redactions each rule made, so diagnostics can show that redaction is at work.
+ */
+export class Redactor {
+  private static instance: Redactor;
+  private rules: RedactionRule[];
+  private customRules: RedactionRule[] = [];
+  private auditCounts = new Map<string, number>();
+
+  constructor(rules: readonly RedactionRule[] = DEFAULT_REDACTION_RULES) {
+    this.rules = [...rules];
+  }
+
+  /**
+   * Get singleton instance, with the built-in rules
+   */
+  public static getInstance(): Redactor {
+    if (!Redactor.instance) {
+      Redactor.instance = new Redactor();
+    }
+    return Redactor.instance;
+  }
+
+  /**
+   * Add a rule, or replace the rule with the same name
+   */
+  public addRule(rule: RedactionRule): void {
+    this.removeRule(rule.name);
+    this.rules.push(rule);
+  }
+
+  /**
+   * Remove a rule by name
+   */
+  public removeRule(name: string): void {
+    this.rules = this.rules.filter(rule => rule.name !== name);
+  }
+
+  /**
+   * Active rules, built-in and custom
+   */
+  public getRules(): readonly RedactionRule[] {
+    return [...this.rules, ...this.customRules];
+  }
+
+  /**
+   * Replace the user-supplied patterns, e.g. from the settings
+   * Patterns that do not compile, or that match empty text, are skipped.
+   *
+   * @returns The patterns that were skipped
+   */
+  public setCustomPatterns(patterns: readonly string[]): string[] {
+    const invalid: string[] = [];
+    this.customRules = [];
+    patterns.forEach((source, index) => {
+      try {
+        if (new RegExp(source).test('')) {
+          invalid.push(source);
+          return;
+        }
+        this.customRules.push({
+          name: `custom-${index + 1}`,
+          pattern: new RegExp(source, 'g'),
+          replacement: '[REDACTED]',
+        });
+      } catch {
+        invalid.push(source);
+      }
+    });
+    return invalid;
+  }
+
+  /**
+   * Redact secrets from text
+   * Known-safe SHAs are kept from the built-in rules only; user patterns apply to all text.
+   */
+  public redact(text: string): string {
+    const kept: string[] = [];
+    let result = text;
+    for (const shape of SAFE_SHAPES) {
+      result = result.replace(shape, match => `\u0000${kept.push(match) - 1}\u0000`);
+    }
+
+    result = this.applyRules(result, this.rules);
+    result = result.replace(PLACEHOLDER, (_, index: string) => kept[Number(index)]);
+    return this.applyRules(result, this.customRules);
+  }
+
+  private applyRules(text: string, rules: readonly RedactionRule[]): string {
+    let result = text;
+    for (const rule of rules) {
+      const matches = result.match(rule.pattern);
+      if (matches) {
+        this.auditCounts.set(rule.name, (this.auditCounts.get(rule.name) ?? 0) + matches.length);
+        result = result.replace(rule.pattern, rule.replacement);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Redact an object: sensitive fields are replaced whole, strings are redacted,
+   * and SHAs in SHA fields are kept
+   */
+  public redactObject(value: unknown, seen = new WeakSet<object>()): unknown {
+    if (typeof value === 'string') {
+      return this.redact(value);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactObject(item, seen));
+    }
+
+    const redacted: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      const lowerKey = key.toLowerCase();
+      if (SENSITIVE_FIELDS.some(name => lowerKey.includes(name))) {
+        redacted[key] = '[REDACTED]';
+        this.auditCounts.set('sensitive-field', (this.auditCounts.get('sensitive-field') ?? 0) + 1);
+      } else if (typeof field === 'string' && SHA_FIELD.test(key) && SHA.test(field)) {
+        redacted[key] = field;
+      } else {
+        redacted[key] = this.redactObject(field, seen);
+      }
+    }
+    return redacted;
+  }
+
+  /**
+   * Redactions made so far, per rule
+   */
+  public getAuditCounts(): Record<string, number> {
+    return Object.fromEntries(this.auditCounts);
+  }
+
+  /**
+   * Total number of redactions made so far
+   */
+  public getTotalRedactions(): number {
+    return [...this.auditCounts.values()].reduce((total, count) => total + count, 0);
+  }
+
+  /**
+   * Start counting from zero
+   */
+  public resetAuditCounts(): void {
+    this.auditCounts.clear();
+  }
+}
+
+/**
+ * Get redactor instance (convenience function)
+ */
+export function getRedactor(): Redactor {
+  return Redactor.getInstance();
+}
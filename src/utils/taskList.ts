@@ -0,0 +1,66 @@
+/**
+ * Markdown task list item ("- [ ] text" / "- [x] text")
+ */
+export interface TaskListItem {
+  text: string;
+  checked: boolean;
+  /** Zero-based line index in the source markdown */
+  line: number;
+}
+
+/**
+ * Matches a task list item in any bullet style, capturing state and text
+ */
+const TASK_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/;
+
+/**
+ * Extract task list items from markdown, ignoring fenced code blocks
+ */
+export function parseTaskList(markdown: string): TaskListItem[] {
+  const items: TaskListItem[] = [];
+  let inFence = false;
+
+  markdown.split(/\r?\n/).forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) {
+      return;
+    }
+
+    const match = TASK_ITEM_PATTERN.exec(line);
+    if (match) {
+      items.push({ text: match[2].trim(), checked: match[1] !== ' ', line: index });
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Count completed and total task list items
+ */
+export function summarizeTaskList(items: TaskListItem[]): { completed: number; total: number } {
+  return { completed: items.filter(item => item.checked).length, total: items.length };
+}
+
+/**
+ * Check or uncheck the task list item at the given index
+ *
+ * @returns Updated markdown, or undefined when there is no such item
+ */
+export function setTaskChecked(
+  markdown: string,
+  index: number,
+  checked: boolean
+): string | undefined {
+  const item = parseTaskList(markdown)[index];
+  if (!item) {
+    return undefined;
+  }
+
+  const lines = markdown.split('\n');
+  lines[item.line] = lines[item.line].replace(/\[[ xX]\]/, checked ? '[x]' : '[ ]');
+  return lines.join('\n');
+}
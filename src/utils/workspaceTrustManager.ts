@@ -1,6 +1,40 @@
 import * as vscode from 'vscode';
 import { getLogger } from './logger';
 
+/**
+ * What an operation needs to do, so features degrade one by one in Restricted Mode
+ * - readApi: read issues, milestones and users from GitHub
+ * - writeFiles: write files into the workspace
+ * - gitMutations: run git commands that change the repository, which also runs its hooks
+ * - remoteWrites: create or change issues on GitHub
+ */
+export type TrustCapability = 'readApi' | 'writeFiles' | 'gitMutations' | 'remoteWrites';
+
+/**
+ * Whether each capability requires a trusted workspace
+ */
+const CAPABILITY_REQUIRES_TRUST: Record<TrustCapability, boolean> = {
+  readApi: false,
+  writeFiles: true,
+  gitMutations: true,
+  remoteWrites: true,
+};
+
+/**
+ * What each capability does, as shown in the trust request
+ */
+const CAPABILITY_DESCRIPTIONS: Record<TrustCapability, string> = {
+  readApi: 'read issues from GitHub',
+  writeFiles: 'write files into this workspace',
+  gitMutations: 'run git commands in this repository',
+  remoteWrites: 'change issues on GitHub',
+};
+
+/**
+ * How long to wait for the user to decide in the workspace trust editor
+ */
+const TRUST_DECISION_TIMEOUT_MS = 2 * 60 * 1000;
+
 /**
  * Centralized workspace trust management service
  * Implements singleton pattern to ensure single instance across extension
@@ -8,7 +42,7 @@ import { getLogger } from './logger';
  */
 export class WorkspaceTrustManager {
   private static instance: WorkspaceTrustManager;
-  private logger = getLogger();
+  private logger = getLogger().child('WorkspaceTrust');
 
   private constructor() {}
 
@@ -30,6 +64,24 @@ export class WorkspaceTrustManager {
     return vscode.workspace.isTrusted;
   }
 
+  /**
+   * Check whether an operation may use a capability right now, without asking
+   */
+  public isAllowed(capability: TrustCapability): boolean {
+    return !CAPABILITY_REQUIRES_TRUST[capability] || this.isTrusted();
+  }
+
+  /**
+   * Ensure an operation may use a capability, requesting trust when it needs it
+   * @returns Promise<boolean> - true if the capability is available, false otherwise
+   */
+  public async ensureCapability(capability: TrustCapability): Promise<boolean> {
+    if (this.isAllowed(capability)) {
+      return true;
+    }
+    return this.ensureTrustedWorkspace(capability);
+  }
+
   /**
    * Check if a workspace is currently open
    * @returns true if workspace folders exist, false otherwise
@@ -46,11 +98,17 @@ export class WorkspaceTrustManager {
 
   /**
    * Ensure workspace is trusted before performing sensitive operations
-   * Shows modal dialog requesting trust if workspace is not trusted
+   * Shows modal dialog requesting trust if workspace is not trusted, then waits for the
+   * user's decision in the workspace trust editor
    * 
+   * @param capability What the operation needs, explained in the dialog
+   * @param timeoutMs How long to wait for the decision
    * @returns Promise<boolean> - true if workspace is trusted or user grants trust, false otherwise
    */
-  public async ensureTrustedWorkspace(): Promise<boolean> {
+  public async ensureTrustedWorkspace(
+    capability?: TrustCapability,
+    timeoutMs: number = TRUST_DECISION_TIMEOUT_MS
+  ): Promise<boolean> {
     // Check if workspace is already trusted
     if (this.isTrusted()) {
       this.logger.debug('Workspace is already trusted');
@@ -63,7 +121,9 @@ export class WorkspaceTrustManager {
     const selection = await vscode.window.showWarningMessage(
       '🔒 This operation requires a trusted workspace for security. ' +
       'Please trust this workspace to continue.',
-      { modal: true },
+      capability
+        ? { modal: true, detail: `It needs to ${CAPABILITY_DESCRIPTIONS[capability]}.` }
+        : { modal: true },
       'Trust Workspace',
       'Learn More',
       'Cancel'
@@ -77,20 +137,32 @@ export class WorkspaceTrustManager {
       );
       
       // Show the dialog again after they learn more
-      return this.ensureTrustedWorkspace();
+      return this.ensureTrustedWorkspace(capability, timeoutMs);
     }
 
     if (selection === 'Trust Workspace') {
       this.logger.info('User chose to trust workspace, opening trust dialog');
-      
-      // Execute the built-in command to manage workspace trust
-      await vscode.commands.executeCommand('workbench.trust.manage');
-      
-      // After the trust dialog, check if workspace is now trusted
-      // Note: There's a small delay as the user needs to interact with the dialog
-      // We return true optimistically, as the user expressed intent to trust
-      this.logger.info('Workspace trust dialog opened');
-      return true;
+
+      // Listen before opening the trust editor, which may grant trust right away
+      const wait = this.waitForTrust(timeoutMs);
+      try {
+        await vscode.commands.executeCommand('workbench.trust.manage');
+      } catch (error) {
+        this.logger.error('Failed to open the workspace trust editor', error);
+        wait.dispose();
+        return false;
+      }
+
+      const trusted = await wait.decision;
+      if (trusted) {
+        this.logger.info('Workspace trust granted, continuing');
+      } else {
+        this.logger.warn(`Workspace trust was not granted within ${timeoutMs / 1000}s`);
+        void vscode.window.showInformationMessage(
+          'The workspace is still in Restricted Mode. Run the command again once you trust it.'
+        );
+      }
+      return trusted;
     }
 
     // User cancelled
@@ -102,9 +174,10 @@ export class WorkspaceTrustManager {
    * Validate workspace: checks both existence and trust
    * Combines hasWorkspace() and ensureTrustedWorkspace() checks
    * 
+   * @param capability What the operation needs; trust is only requested when the capability requires it
    * @returns Promise<boolean> - true if workspace exists and is trusted, false otherwise
    */
-  public async validateWorkspace(): Promise<boolean> {
+  public async validateWorkspace(capability?: TrustCapability): Promise<boolean> {
     // First check if workspace exists
     if (!this.hasWorkspace()) {
       this.logger.error('Cannot validate workspace: No workspace is open');
@@ -115,7 +188,9 @@ export class WorkspaceTrustManager {
     }
 
     // Then check if workspace is trusted
-    const trusted = await this.ensureTrustedWorkspace();
+    const trusted = capability
+      ? await this.ensureCapability(capability)
+      : await this.ensureTrustedWorkspace();
     
     if (trusted) {
       this.logger.debug('Workspace validation successful: workspace exists and is trusted');
@@ -126,6 +201,26 @@ export class WorkspaceTrustManager {
     return trusted;
   }
 
+  /**
+   * Wait until trust is granted or the timeout passes
+   * The decision resolves true when trust is granted, or with the current trust state after
+   * the timeout; disposing the wait stops listening and resolves it with the current state.
+   */
+  private waitForTrust(timeoutMs: number): vscode.Disposable & { decision: Promise<boolean> } {
+    let finish: (trusted: boolean) => void = () => undefined;
+    const decision = new Promise<boolean>(resolve => {
+      finish = trusted => {
+        clearTimeout(timer);
+        listener.dispose();
+        resolve(trusted);
+      };
+    });
+    const timer = setTimeout(() => finish(this.isTrusted()), timeoutMs);
+    const listener = vscode.workspace.onDidGrantWorkspaceTrust(() => finish(true));
+
+    return { decision, dispose: () => finish(this.isTrusted()) };
+  }
+
   /**
    * Register event listener for workspace trust changes
    * @param callback Function to call when workspace trust is granted
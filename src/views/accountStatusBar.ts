@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getRepositoryService } from '../git/repositoryService';
+
+/**
+ * Status bar item id, used by VS Code to remember its visibility
+ */
+export const ACCOUNT_STATUS_BAR_ID = 'gitissueBridge.account';
+
+/**
+ * Status bar item showing the GitHub account used for the current repository
+ * Clicking it switches accounts, or signs in when no account is signed in.
+ * Hidden when the workspace has no GitHub repository.
+ */
+export class AccountStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private updateCount = 0;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.item = vscode.window.createStatusBarItem(
+      ACCOUNT_STATUS_BAR_ID,
+      vscode.StatusBarAlignment.Left,
+      101
+    );
+    this.item.name = 'GitIssue Bridge: GitHub Account';
+
+    this.disposables.push(
+      this.item,
+      getGitHubAuthManager().onDidChangeSession(() => void this.update()),
+      getRepositoryService().onDidChangeCurrentRepository(() => void this.update())
+    );
+
+    void this.update();
+  }
+
+  /**
+   * Show the account of the current repository
+   */
+  public async update(): Promise<void> {
+    const updateId = ++this.updateCount;
+    const repository = getRepositoryService().getCurrentRepository();
+    if (!repository) {
+      this.item.hide();
+      return;
+    }
+
+    const authManager = getGitHubAuthManager();
+    const isAuthenticated = await authManager.isAuthenticated(repository);
+    // Only the latest update may touch the item
+    if (updateId !== this.updateCount) {
+      return;
+    }
+
+    const name = `${repository.owner}/${repository.repo}`;
+    const account = isAuthenticated ? authManager.getAccount(repository) : undefined;
+    if (account) {
+      this.item.text = `$(account) ${account.label}`;
+      this.item.tooltip = `GitHub account for ${name} on ${repository.host}. Click to switch accounts.`;
+      this.item.command = 'gitissue-bridge.switchAccount';
+    } else {
+      this.item.text = '$(account) Sign in';
+      this.item.tooltip = `Sign in to ${repository.host} to work with ${name}`;
+      this.item.command = 'gitissue-bridge.authenticate';
+    }
+    this.item.show();
+  }
+
+  /**
+   * Dispose the status bar item and listeners
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+}
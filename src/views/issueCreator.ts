@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { getErrorHandler } from '../utils/errorHandler';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { CreateIssueInput, GitHubIssue } from '../api/types';
+import { getRepositoryService } from '../git/repositoryService';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+
+/**
+ * Create an issue in the current repository
+ * The title is always confirmed in an input box, pre-filled from the draft when given
+ *
+ * @param draft Proposed title, body and labels (e.g. from the chat participant)
+ * @returns Created issue or undefined if cancelled
+ */
+export async function createIssue(draft?: CreateIssueInput): Promise<GitHubIssue | undefined> {
+  const logger = getLogger().child('Views');
+  const repository = getRepositoryService().getCurrentRepository();
+  if (!repository) {
+    throw new Error('No GitHub repository detected in this workspace.');
+  }
+
+  if (!(await getWorkspaceTrustManager().ensureCapability('remoteWrites'))) {
+    logger.warn('Create issue cancelled: workspace is not trusted');
+    return undefined;
+  }
+
+  const isAuthenticated = await getGitHubAuthManager().ensureAuthenticated(repository);
+  if (!isAuthenticated) {
+    return undefined;
+  }
+
+  const title = await vscode.window.showInputBox({
+    prompt: `New issue in ${repository.owner}/${repository.repo}`,
+    placeHolder: 'Issue title',
+    value: draft?.title,
+    validateInput: value => (value.trim() ? undefined : 'The title cannot be empty'),
+  });
+  if (!title) {
+    logger.debug('Create issue cancelled: no title entered');
+    return undefined;
+  }
+
+  const issue = await getGitHubIssuesClient().createIssue(repository, {
+    ...draft,
+    title: title.trim(),
+  });
+  logger.info(`Created issue #${issue.number} in ${repository.owner}/${repository.repo}`);
+
+  const action = await getErrorHandler().showInfo(
+    `✅ Created issue #${issue.number}: ${issue.title}`,
+    'Open on GitHub',
+    'Start Working'
+  );
+  if (action === 'Open on GitHub') {
+    await vscode.env.openExternal(vscode.Uri.parse(issue.htmlUrl));
+  } else if (action === 'Start Working') {
+    await vscode.commands.executeCommand('gitissue-bridge.startIssue', `#${issue.number}`);
+  }
+
+  return issue;
+}
@@ -0,0 +1,581 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { getErrorHandler } from '../utils/errorHandler';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+import { parseTaskList, setTaskChecked } from '../utils/taskList';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { isNetworkError } from '../api/githubErrors';
+import {
+  GitHubIssue,
+  GitHubIssueDetail,
+  GitHubReactions,
+  GitHubTimelineEvent,
+  GitHubTimelineItem,
+  ReactionContent,
+} from '../api/types';
+import { getIssueCache } from '../cache/issueCache';
+import { getRepositoryService } from '../git/repositoryService';
+import { ParsedRemoteUrl } from '../git/types';
+import { IssueNode } from './issueTreeProvider';
+import { pickIssue, resolveIssueReference } from './issuePicker';
+import {
+  escapeHtml,
+  getWebviewOptions,
+  renderLabel,
+  renderUser,
+  renderWebviewDocument,
+  toRemote,
+} from './webview';
+
+/**
+ * View type of the issue detail panels, also used by the serializer
+ */
+export const ISSUE_DETAIL_VIEW_TYPE = 'gitissueBridge.issueDetail';
+
+/**
+ * What a panel keeps in its webview state to be restored after a reload
+ */
+export interface IssueDetailState {
+  repository: ParsedRemoteUrl;
+  number: number;
+}
+
+/**
+ * Messages the webview posts to the extension
+ */
+export type IssueDetailMessage =
+  | { type: 'refresh' }
+  | { type: 'comment'; body: string }
+  | { type: 'editBody'; body: string }
+  | { type: 'toggleTask'; index: number; checked: boolean }
+  | { type: 'editLabels' }
+  | { type: 'editAssignees' }
+  | { type: 'editMilestone' }
+  | { type: 'close'; reason: 'completed' | 'not_planned' }
+  | { type: 'reopen' };
+
+interface OpenPanel extends IssueDetailState {
+  panel: vscode.WebviewPanel;
+  /** Last rendered issue, to detect changes made on GitHub in between */
+  issue?: GitHubIssue;
+}
+
+const REACTION_EMOJI: Record<ReactionContent, string> = {
+  '+1': '👍',
+  '-1': '👎',
+  laugh: '😄',
+  hooray: '🎉',
+  confused: '😕',
+  heart: '❤️',
+  rocket: '🚀',
+  eyes: '👀',
+};
+
+/**
+ * Webview panels showing an issue with its comments and events, one per issue
+ * The body and comments are rendered by GitHub; writes go through the workspace trust check.
+ */
+export class IssueDetailPanels
+  implements vscode.WebviewPanelSerializer<IssueDetailState>, vscode.Disposable
+{
+  private logger = getLogger().child('IssueDetail');
+  private errorHandler = getErrorHandler();
+  private panels = new Map<string, OpenPanel>();
+  private readonly onDidChangeIssueEmitter = new vscode.EventEmitter<GitHubIssue>();
+
+  /**
+   * Fired after an issue was changed from a panel
+   */
+  public readonly onDidChangeIssue = this.onDidChangeIssueEmitter.event;
+
+  constructor(private readonly extensionUri: vscode.Uri) {}
+
+  /**
+   * Open the panel of a tree node, issue number/URL, or an issue picked by the user
+   */
+  public async open(target?: IssueNode | string): Promise<void> {
+    if (typeof target === 'object') {
+      const { owner, repo } = target.repository;
+      const repository = getRepositoryService()
+        .getRepositories()
+        .find(candidate => candidate.owner === owner && candidate.repo === repo);
+      if (!repository) {
+        throw new Error(`No local clone of ${owner}/${repo} is open in this workspace.`);
+      }
+      await this.show(repository, target.issue.number);
+      return;
+    }
+
+    const picked =
+      typeof target === 'string'
+        ? await resolveIssueReference(target)
+        : await pickIssue('Select the issue to open');
+    if (picked) {
+      await this.show(picked.repository, picked.issue.number);
+    }
+  }
+
+  /**
+   * Show the panel of an issue, reusing it when it is already open
+   */
+  public async show(repository: ParsedRemoteUrl, issueNumber: number): Promise<void> {
+    const existing = this.panels.get(panelKey(repository, issueNumber));
+    if (existing) {
+      existing.panel.reveal();
+      await this.render(existing);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      ISSUE_DETAIL_VIEW_TYPE,
+      `#${issueNumber}`,
+      vscode.ViewColumn.Active,
+      getWebviewOptions(this.extensionUri)
+    );
+    await this.attach(panel, { repository: toRemote(repository), number: issueNumber });
+  }
+
+  /**
+   * Restore a panel after a reload
+   */
+  public async deserializeWebviewPanel(
+    panel: vscode.WebviewPanel,
+    state: IssueDetailState | undefined
+  ): Promise<void> {
+    if (!state?.repository || !state.number) {
+      panel.dispose();
+      return;
+    }
+
+    panel.webview.options = getWebviewOptions(this.extensionUri);
+    await this.attach(panel, state);
+  }
+
+  public dispose(): void {
+    for (const { panel } of [...this.panels.values()]) {
+      panel.dispose();
+    }
+    this.onDidChangeIssueEmitter.dispose();
+  }
+
+  private async attach(panel: vscode.WebviewPanel, state: IssueDetailState): Promise<void> {
+    const entry: OpenPanel = { ...state, panel };
+    const key = panelKey(state.repository, state.number);
+    this.panels.set(key, entry);
+
+    const listener = panel.webview.onDidReceiveMessage((message: IssueDetailMessage) =>
+      this.handleMessage(entry, message)
+    );
+    panel.onDidDispose(() => {
+      listener.dispose();
+      this.panels.delete(key);
+    });
+
+    await this.render(entry);
+  }
+
+  /**
+   * Load the issue and replace the panel content
+   * Offline, the cached issue and comments are shown as plain text
+   */
+  private async render(entry: OpenPanel): Promise<void> {
+    const { panel, repository, number } = entry;
+    try {
+      let detail: GitHubIssueDetail;
+      let offline = false;
+      try {
+        detail = await getGitHubIssuesClient().getIssueDetail(repository, number);
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          throw error;
+        }
+        detail = await this.getCachedDetail(repository, number);
+        offline = true;
+        await this.errorHandler.handle(error, {
+          operation: 'openIssue',
+          component: 'Views',
+          cachedDataAvailable: true,
+        });
+      }
+
+      entry.issue = detail.issue;
+      panel.title = `#${number} ${detail.issue.title}`;
+      panel.webview.html = this.getHtml(panel.webview, entry, detail, offline);
+    } catch (error) {
+      panel.webview.html = this.getErrorHtml(panel.webview, entry, error);
+      await this.errorHandler.handle(error, {
+        operation: 'openIssue',
+        component: 'Views',
+        metadata: { issue: number },
+        retry: () => this.render(entry),
+      });
+    }
+  }
+
+  private async getCachedDetail(
+    repository: ParsedRemoteUrl,
+    issueNumber: number
+  ): Promise<GitHubIssueDetail> {
+    const cache = getIssueCache();
+    const issue = await cache.getIssue(repository, issueNumber);
+    const comments = await cache.getComments(repository, issue).catch(() => []);
+    this.logger.debug(`Showing cached issue #${issueNumber} while offline`);
+
+    return {
+      issue,
+      bodyHtml: renderPlainText(issue.body),
+      reactions: {},
+      timeline: comments.map(comment => ({
+        kind: 'comment',
+        comment,
+        bodyHtml: renderPlainText(comment.body),
+        reactions: {},
+      })),
+    };
+  }
+
+  private async handleMessage(entry: OpenPanel, message: IssueDetailMessage): Promise<void> {
+    if (message.type === 'refresh') {
+      await this.render(entry);
+      return;
+    }
+
+    try {
+      if (!(await getWorkspaceTrustManager().ensureCapability('remoteWrites'))) {
+        return;
+      }
+
+      const issue = await this.applyChange(entry, message);
+      if (issue) {
+        this.onDidChangeIssueEmitter.fire(issue);
+      }
+    } catch (error) {
+      await this.errorHandler.handle(error, {
+        operation: 'editIssue',
+        component: 'Views',
+        metadata: { action: message.type, issue: entry.number },
+      });
+    } finally {
+      // Also puts back checkboxes and forms after a failed or cancelled change
+      await this.render(entry);
+    }
+  }
+
+  /**
+   * Apply a change asked from the webview
+   *
+   * @returns Updated issue, or undefined if nothing changed
+   */
+  private async applyChange(
+    entry: OpenPanel,
+    message: IssueDetailMessage
+  ): Promise<GitHubIssue | undefined> {
+    const client = getGitHubIssuesClient();
+    const { repository, number } = entry;
+
+    switch (message.type) {
+      case 'comment':
+        if (!message.body.trim()) {
+          return undefined;
+        }
+        await client.createComment(repository, number, message.body);
+        return client.getIssue(repository, number);
+
+      case 'editBody': {
+        const current = await client.getIssue(repository, number);
+        if (entry.issue && current.body !== entry.issue.body) {
+          const overwrite = await vscode.window.showWarningMessage(
+            `The description of #${number} changed on GitHub since it was loaded here.`,
+            { modal: true },
+            'Overwrite'
+          );
+          if (overwrite !== 'Overwrite') {
+            return undefined;
+          }
+        }
+        return client.updateIssue(repository, number, { body: message.body });
+      }
+
+      case 'toggleTask': {
+        const current = await client.getIssue(repository, number);
+        const expected = parseTaskList(entry.issue?.body ?? '')[message.index];
+        const body = setTaskChecked(current.body, message.index, message.checked);
+        if (
+          !expected ||
+          !body ||
+          parseTaskList(current.body)[message.index].text !== expected.text
+        ) {
+          await vscode.window.showWarningMessage(
+            `The task list of #${number} changed on GitHub. Showing the latest version.`
+          );
+          return undefined;
+        }
+        return client.updateIssue(repository, number, { body });
+      }
+
+      case 'editLabels':
+        return this.editLabels(entry);
+
+      case 'editAssignees':
+        return this.editAssignees(entry);
+
+      case 'editMilestone':
+        return this.editMilestone(entry);
+
+      case 'close':
+        return client.updateIssue(repository, number, {
+          state: 'closed',
+          stateReason: message.reason,
+        });
+
+      case 'reopen':
+        return client.updateIssue(repository, number, { state: 'open', stateReason: 'reopened' });
+
+      default:
+        return undefined;
+    }
+  }
+
+  private async editLabels({
+    repository,
+    number,
+    issue,
+  }: OpenPanel): Promise<GitHubIssue | undefined> {
+    const client = getGitHubIssuesClient();
+    const current = new Set(issue?.labels.map(label => label.name));
+    const items = client.listLabels(repository).then(labels =>
+      labels.map(label => ({
+        label: label.name,
+        description: label.description,
+        picked: current.has(label.name),
+      }))
+    );
+    const picked = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: `Labels of #${number}`,
+    });
+    return picked
+      ? client.updateIssue(repository, number, { labels: picked.map(item => item.label) })
+      : undefined;
+  }
+
+  private async editAssignees({
+    repository,
+    number,
+    issue,
+  }: OpenPanel): Promise<GitHubIssue | undefined> {
+    const client = getGitHubIssuesClient();
+    const current = new Set(issue?.assignees.map(assignee => assignee.login));
+    const items = client
+      .listAssignees(repository)
+      .then(users => users.map(user => ({ label: user.login, picked: current.has(user.login) })));
+    const picked = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: `Assignees of #${number}`,
+    });
+    return picked
+      ? client.updateIssue(repository, number, { assignees: picked.map(item => item.label) })
+      : undefined;
+  }
+
+  private async editMilestone({
+    repository,
+    number,
+    issue,
+  }: OpenPanel): Promise<GitHubIssue | undefined> {
+    const client = getGitHubIssuesClient();
+    const items = client.listMilestones(repository, { state: 'open' }).then(milestones => [
+      { label: 'No milestone', milestone: null as number | null },
+      ...milestones.map(milestone => ({
+        label: milestone.title,
+        description: milestone.number === issue?.milestone?.number ? 'current' : undefined,
+        milestone: milestone.number as number | null,
+      })),
+    ]);
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: `Milestone of #${number}`,
+    });
+    return picked
+      ? client.updateIssue(repository, number, { milestone: picked.milestone })
+      : undefined;
+  }
+
+  private getHtml(
+    webview: vscode.Webview,
+    entry: OpenPanel,
+    detail: GitHubIssueDetail,
+    offline: boolean
+  ): string {
+    const { issue } = detail;
+    const isOpen = issue.state === 'open';
+    const state = isOpen ? 'Open' : issue.stateReason === 'not_planned' ? 'Not planned' : 'Closed';
+
+    const content = `
+      <header>
+        <h1>${escapeHtml(issue.title)} <span class="number">#${issue.number}</span></h1>
+        <p>
+          <span class="state state-${isOpen ? 'open' : 'closed'}">${state}</span>
+          ${renderUser(issue.author)} opened this ${renderDate(issue.createdAt)}
+          · <a href="${escapeHtml(issue.htmlUrl)}">Open on GitHub</a>
+          · <button class="link" data-action="refresh">Refresh</button>
+        </p>
+        ${offline ? '<p class="notice">GitHub cannot be reached. Showing the cached issue.</p>' : ''}
+      </header>
+      <div class="layout">
+        <main>
+          <article class="comment">
+            <div class="comment-header">
+              ${renderUser(issue.author)} · ${renderDate(issue.createdAt)}
+              <button class="link" data-action="showEditBody">Edit</button>
+            </div>
+            <div id="issue-body" class="markdown-body">${detail.bodyHtml || '<p class="empty">No description provided.</p>'}</div>
+            <form id="edit-body" hidden>
+              <textarea name="body" rows="12">${escapeHtml(issue.body)}</textarea>
+              <div class="actions">
+                <button type="button" class="secondary" data-action="cancelEditBody">Cancel</button>
+                <button type="submit">Save</button>
+              </div>
+            </form>
+            ${renderReactions(detail.reactions)}
+          </article>
+          ${detail.timeline.map(item => renderTimelineItem(item)).join('\n')}
+          <form id="new-comment">
+            <textarea name="body" rows="5" placeholder="Leave a comment (markdown)"></textarea>
+            <div class="actions">
+              ${
+                isOpen
+                  ? `<button type="button" class="secondary" data-action="close" data-reason="completed">Close as completed</button>
+                     <button type="button" class="secondary" data-action="close" data-reason="not_planned">Close as not planned</button>`
+                  : '<button type="button" class="secondary" data-action="reopen">Reopen</button>'
+              }
+              <button type="submit">Comment</button>
+            </div>
+          </form>
+        </main>
+        <aside>
+          <section>
+            <h2>Assignees <button class="link" data-action="editAssignees">Edit</button></h2>
+            ${issue.assignees.map(user => `<p>${renderUser(user)}</p>`).join('') || '<p class="empty">No one</p>'}
+          </section>
+          <section>
+            <h2>Labels <button class="link" data-action="editLabels">Edit</button></h2>
+            <p>${issue.labels.map(label => renderLabel(label)).join(' ') || '<span class="empty">None yet</span>'}</p>
+          </section>
+          <section>
+            <h2>Milestone <button class="link" data-action="editMilestone">Edit</button></h2>
+            <p>${issue.milestone ? escapeHtml(issue.milestone.title) : '<span class="empty">No milestone</span>'}</p>
+          </section>
+        </aside>
+      </div>`;
+
+    return this.getDocument(webview, entry, content);
+  }
+
+  private getErrorHtml(webview: vscode.Webview, entry: OpenPanel, error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    return this.getDocument(
+      webview,
+      entry,
+      `<p class="notice">Could not load issue #${entry.number}: ${escapeHtml(message)}</p>
+       <button data-action="refresh">Try again</button>`
+    );
+  }
+
+  private getDocument(webview: vscode.Webview, entry: OpenPanel, content: string): string {
+    const state: IssueDetailState = { repository: entry.repository, number: entry.number };
+    return renderWebviewDocument(webview, this.extensionUri, {
+      assets: 'issueDetail',
+      title: `#${entry.number}`,
+      state,
+      body: content,
+    });
+  }
+}
+
+function panelKey(repository: ParsedRemoteUrl, issueNumber: number): string {
+  return `${repository.host}/${repository.owner}/${repository.repo}#${issueNumber}`.toLowerCase();
+}
+
+function renderPlainText(text: string): string {
+  return text ? `<pre class="plain">${escapeHtml(text)}</pre>` : '';
+}
+
+function renderDate(date: string): string {
+  return `<time datetime="${escapeHtml(date)}">${escapeHtml(new Date(date).toLocaleString())}</time>`;
+}
+
+function renderReactions(reactions: GitHubReactions): string {
+  const entries = Object.entries(reactions) as [ReactionContent, number][];
+  if (entries.length === 0) {
+    return '';
+  }
+  return `<div class="reactions">${entries
+    .map(
+      ([content, count]) =>
+        `<span class="reaction" title="${content}">${REACTION_EMOJI[content]} ${count}</span>`
+    )
+    .join('')}</div>`;
+}
+
+function renderTimelineItem(item: GitHubTimelineItem): string {
+  if (item.kind === 'comment') {
+    const { comment } = item;
+    return `
+      <article class="comment">
+        <div class="comment-header">
+          ${renderUser(comment.author)} commented
+          <a href="${escapeHtml(comment.htmlUrl)}">${renderDate(comment.createdAt)}</a>
+        </div>
+        <div class="markdown-body">${item.bodyHtml}</div>
+        ${renderReactions(item.reactions)}
+      </article>`;
+  }
+
+  return `<p class="event event-${escapeHtml(item.event)}">${renderUser(item.actor)} ${describeEvent(item)} ${renderDate(item.createdAt)}</p>`;
+}
+
+/**
+ * Sentence describing a timeline event, after the actor's name
+ */
+function describeEvent(event: GitHubTimelineEvent): string {
+  switch (event.event) {
+    case 'labeled':
+      return `added the ${event.label ? renderLabel(event.label) : ''} label`;
+    case 'unlabeled':
+      return `removed the ${event.label ? renderLabel(event.label) : ''} label`;
+    case 'assigned':
+      return event.assignee?.login === event.actor?.login
+        ? 'self-assigned this'
+        : `assigned ${renderUser(event.assignee)}`;
+    case 'unassigned':
+      return `unassigned ${renderUser(event.assignee)}`;
+    case 'milestoned':
+      return `added this to the <strong>${escapeHtml(event.milestone ?? '')}</strong> milestone`;
+    case 'demilestoned':
+      return `removed this from the <strong>${escapeHtml(event.milestone ?? '')}</strong> milestone`;
+    case 'renamed':
+      return event.rename
+        ? `changed the title <del>${escapeHtml(event.rename.from)}</del> <ins>${escapeHtml(event.rename.to)}</ins>`
+        : 'changed the title';
+    case 'closed':
+      return event.stateReason === 'not_planned'
+        ? 'closed this as not planned'
+        : 'closed this as completed';
+    case 'reopened':
+      return 'reopened this';
+    case 'cross-referenced': {
+      const source = event.source;
+      if (!source) {
+        return 'mentioned this';
+      }
+      const kind = source.isPullRequest ? 'pull request' : 'issue';
+      return `mentioned this in ${kind} <a href="${escapeHtml(source.htmlUrl)}">${escapeHtml(source.repository)}#${source.number} ${escapeHtml(source.title)}</a>`;
+    }
+    case 'referenced':
+      return event.commitId
+        ? `referenced this in commit <code>${escapeHtml(event.commitId.slice(0, 7))}</code>`
+        : 'referenced this in a commit';
+    default:
+      return escapeHtml(event.event);
+  }
+}
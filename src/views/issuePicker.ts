@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { getIssueCache } from '../cache/issueCache';
+import { GitHubIssue } from '../api/types';
+import { getRepositoryService } from '../git/repositoryService';
+import { WorkspaceRepository } from '../git/types';
+
+/**
+ * Issue reference typed by the user: "42", "#42", "owner/repo#42" or an issue URL
+ */
+export interface IssueReference {
+  host?: string;
+  owner?: string;
+  repo?: string;
+  number: number;
+}
+
+/**
+ * Issue together with the workspace repository it belongs to
+ */
+export interface PickedIssue {
+  repository: WorkspaceRepository;
+  issue: GitHubIssue;
+}
+
+/**
+ * Parse an issue number, shorthand reference or GitHub issue URL
+ *
+ * @returns Parsed reference or undefined if the input is not recognized
+ */
+export function parseIssueReference(input: string): IssueReference | undefined {
+  const value = input.trim();
+
+  const numberMatch = /^#?(\d+)$/.exec(value);
+  if (numberMatch) {
+    return { number: Number(numberMatch[1]) };
+  }
+
+  const shorthand = /^([\w.-]+)\/([\w.-]+)#(\d+)$/.exec(value);
+  if (shorthand) {
+    return { owner: shorthand[1], repo: shorthand[2], number: Number(shorthand[3]) };
+  }
+
+  try {
+    const url = new URL(value);
+    const path = /^\/([^/]+)\/([^/]+)\/(?:issues|pull)\/(\d+)\/?$/.exec(url.pathname);
+    if (path && (url.protocol === 'https:' || url.protocol === 'http:')) {
+      return {
+        host: url.hostname.toLowerCase(),
+        owner: path[1],
+        repo: path[2],
+        number: Number(path[3]),
+      };
+    }
+  } catch {
+    // Not a URL
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the workspace repository an issue reference points to
+ * References without owner/repo resolve to the given default repository
+ */
+export function findRepositoryForReference(
+  reference: IssueReference,
+  repositories: WorkspaceRepository[],
+  defaultRepository: WorkspaceRepository | undefined
+): WorkspaceRepository | undefined {
+  if (!reference.owner || !reference.repo) {
+    return defaultRepository;
+  }
+
+  return repositories.find(
+    repository =>
+      repository.owner.toLowerCase() === reference.owner?.toLowerCase() &&
+      repository.repo.toLowerCase() === reference.repo?.toLowerCase() &&
+      (!reference.host || repository.host === reference.host)
+  );
+}
+
+/**
+ * Resolve an issue reference typed by the user against the workspace repositories
+ * Throws when the reference is invalid or points outside the workspace
+ */
+export async function resolveIssueReference(input: string): Promise<PickedIssue> {
+  const reference = parseIssueReference(input);
+  if (!reference) {
+    throw new Error(`"${input}" is not a valid issue number or URL.`);
+  }
+
+  const repositoryService = getRepositoryService();
+  const repository = findRepositoryForReference(
+    reference,
+    repositoryService.getRepositories(),
+    repositoryService.getCurrentRepository()
+  );
+  if (!repository) {
+    const name = reference.owner ? `${reference.owner}/${reference.repo}` : 'this workspace';
+    throw new Error(`No local clone of ${name} is open in this workspace.`);
+  }
+
+  const issue = await getIssueCache().getIssue(repository, reference.number);
+  return { repository, issue };
+}
+
+/**
+ * Show a quick pick of open issues of the current repository
+ * The first entry lets the user type an issue number or URL instead
+ *
+ * @returns Picked issue or undefined if cancelled
+ */
+export async function pickIssue(placeHolder: string): Promise<PickedIssue | undefined> {
+  const repository = getRepositoryService().getCurrentRepository();
+  if (!repository) {
+    throw new Error('No GitHub repository detected in this workspace.');
+  }
+
+  const manualEntry = {
+    label: '$(edit) Enter issue number or URL…',
+    issue: undefined as GitHubIssue | undefined,
+  };
+
+  const items = getIssueCache()
+    .getIssues(repository, { state: 'open' })
+    .then(issues => [
+      manualEntry,
+      ...issues.map(issue => ({
+        label: `#${issue.number} ${issue.title}`,
+        description: issue.labels.map(label => label.name).join(', '),
+        detail: issue.milestone ? `$(milestone) ${issue.milestone.title}` : undefined,
+        issue: issue as GitHubIssue | undefined,
+      })),
+    ]);
+
+  const selection = await vscode.window.showQuickPick(items, {
+    placeHolder,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+
+  if (!selection) {
+    return undefined;
+  }
+
+  if (selection.issue) {
+    return { repository, issue: selection.issue };
+  }
+
+  const input = await vscode.window.showInputBox({
+    prompt: 'Issue number, owner/repo#number or GitHub issue URL',
+    placeHolder: '#42',
+    validateInput: value =>
+      parseIssueReference(value) ? undefined : 'Enter an issue number, reference or URL',
+  });
+
+  return input ? resolveIssueReference(input) : undefined;
+}
@@ -0,0 +1,497 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { getErrorHandler } from '../utils/errorHandler';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { isNetworkError } from '../api/githubErrors';
+import { GitHubIssue } from '../api/types';
+import { getIssueCache } from '../cache/issueCache';
+import { getRepositoryService } from '../git/repositoryService';
+import { ParsedRemoteUrl } from '../git/types';
+
+/**
+ * Workspace state key of the recent and favorite issues, per repository
+ */
+const HISTORY_KEY = 'gitissueBridge.issueHistory';
+
+/**
+ * Number of recent issues remembered per repository
+ */
+const MAX_RECENT_ISSUES = 10;
+
+/**
+ * Results listed when searching the cache offline
+ */
+const MAX_CACHED_RESULTS = 30;
+
+/**
+ * Delay after the last keystroke before searching
+ */
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * What the history keeps of an issue: enough to list it and act on it
+ */
+export type IssueSummary = Pick<GitHubIssue, 'number' | 'title' | 'state' | 'htmlUrl'>;
+
+/**
+ * Qualifier of a search query, e.g. label:bug or -milestone:"v2"
+ */
+export interface SearchQualifier {
+  key: string;
+  value: string;
+  negated: boolean;
+}
+
+/**
+ * Search query split into free text and qualifiers
+ */
+export interface SearchQuery {
+  terms: string[];
+  qualifiers: SearchQualifier[];
+}
+
+interface RepositoryHistory {
+  recent: IssueSummary[];
+  favorites: IssueSummary[];
+}
+
+type IssueAction = 'show' | 'start' | 'open' | 'copyLink' | 'insertReference' | 'favorite';
+
+interface IssueSearchItem extends vscode.QuickPickItem {
+  issue?: IssueSummary;
+}
+
+interface IssueButton extends vscode.QuickInputButton {
+  action: IssueAction;
+}
+
+/**
+ * Split a query in GitHub search syntax into free text and qualifiers
+ * Values may be quoted: milestone:"Sprint 2"
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = { terms: [], qualifiers: [] };
+  for (const match of query.matchAll(/(-?)([a-z]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi)) {
+    const [, negation, key, quotedValue, value, phrase, word] = match;
+    if (key) {
+      parsed.qualifiers.push({
+        key: key.toLowerCase(),
+        value: quotedValue ?? value,
+        negated: negation === '-',
+      });
+    } else {
+      parsed.terms.push(phrase ?? word);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Check an issue against a query, as the offline stand-in for GitHub search
+ * Free text matches the number, title or body, and fuzzily the title. Qualifiers that
+ * cannot be checked locally are ignored.
+ *
+ * @param username Login that @me stands for
+ */
+export function matchesSearchQuery(
+  issue: GitHubIssue,
+  query: SearchQuery,
+  username?: string
+): boolean {
+  return (
+    query.terms.every(term => matchesTerm(issue, term)) &&
+    query.qualifiers.every(qualifier => {
+      const matches = matchesQualifier(issue, qualifier, username);
+      return matches === undefined || matches !== qualifier.negated;
+    })
+  );
+}
+
+/**
+ * Search cached issues: matches in the title first, then the most recently updated
+ */
+export function searchCachedIssues(
+  issues: GitHubIssue[],
+  query: string,
+  username?: string
+): GitHubIssue[] {
+  const parsed = parseSearchQuery(query);
+  const inTitle = (issue: GitHubIssue) =>
+    parsed.terms.every(term => issue.title.toLowerCase().includes(term.toLowerCase()));
+
+  return issues
+    .filter(issue => matchesSearchQuery(issue, parsed, username))
+    .sort(
+      (a, b) => Number(inTitle(b)) - Number(inTitle(a)) || b.updatedAt.localeCompare(a.updatedAt)
+    )
+    .slice(0, MAX_CACHED_RESULTS);
+}
+
+function matchesTerm(issue: GitHubIssue, term: string): boolean {
+  const numberMatch = /^#?(\d+)$/.exec(term);
+  if (numberMatch && issue.number === Number(numberMatch[1])) {
+    return true;
+  }
+
+  const needle = term.toLowerCase();
+  const title = issue.title.toLowerCase();
+  return (
+    title.includes(needle) ||
+    issue.body.toLowerCase().includes(needle) ||
+    isSubsequence(needle, title)
+  );
+}
+
+/**
+ * Whether the characters of the needle appear in order in the text
+ */
+function isSubsequence(needle: string, text: string): boolean {
+  let index = 0;
+  for (const character of text) {
+    if (character === needle[index]) {
+      index++;
+    }
+  }
+  return index === needle.length;
+}
+
+/**
+ * @returns Whether the issue matches, or undefined when the qualifier is not supported offline
+ */
+function matchesQualifier(
+  issue: GitHubIssue,
+  { key, value }: SearchQualifier,
+  username: string | undefined
+): boolean | undefined {
+  const same = (text: string | undefined) => text?.toLowerCase() === value.toLowerCase();
+  const sameUser = (login: string | undefined) =>
+    login?.toLowerCase() === (value === '@me' ? username : value)?.toLowerCase();
+
+  switch (key) {
+    case 'label':
+      return issue.labels.some(label => same(label.name));
+    case 'milestone':
+      return same(issue.milestone?.title);
+    case 'assignee':
+      return issue.assignees.some(assignee => sameUser(assignee.login));
+    case 'author':
+      return sameUser(issue.author?.login);
+    case 'is':
+    case 'state':
+      return value === 'open' || value === 'closed' ? issue.state === value : undefined;
+    case 'no':
+      switch (value) {
+        case 'label':
+          return issue.labels.length === 0;
+        case 'assignee':
+          return issue.assignees.length === 0;
+        case 'milestone':
+          return !issue.milestone;
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Quick pick searching the issues of the current repository with GitHub search syntax
+ * Favorites and recent issues come first. Accepting an issue shows its details; each
+ * issue has buttons to start it, open it on GitHub, copy its link or insert a #123
+ * reference. Searches the offline cache when GitHub cannot be reached.
+ */
+export class IssueSearchPicker {
+  private logger = getLogger().child('Views');
+  private errorHandler = getErrorHandler();
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  /**
+   * Open the quick pick; results follow what the user types
+   */
+  public async show(): Promise<void> {
+    const repository = getRepositoryService().getCurrentRepository();
+    if (!repository) {
+      throw new Error('No GitHub repository detected in this workspace.');
+    }
+
+    const quickPick = vscode.window.createQuickPick<IssueSearchItem>();
+    quickPick.title = `Search Issues in ${repository.owner}/${repository.repo}`;
+    quickPick.placeholder = 'Search text and qualifiers, e.g. login label:bug assignee:@me';
+
+    // Keystrokes can outrun responses; only the latest search may fill the list
+    let searchCount = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const update = async (query: string) => {
+      const searchId = ++searchCount;
+      quickPick.busy = true;
+      const items = await this.getItems(repository, query);
+      if (searchId === searchCount) {
+        quickPick.items = items;
+        quickPick.busy = false;
+      }
+    };
+
+    quickPick.onDidChangeValue(value => {
+      clearTimeout(timer);
+      timer = setTimeout(() => void update(value), SEARCH_DELAY_MS);
+    });
+    quickPick.onDidAccept(() => {
+      const issue = quickPick.selectedItems[0]?.issue;
+      if (issue) {
+        quickPick.hide();
+        void this.runAction('show', repository, issue);
+      }
+    });
+    quickPick.onDidTriggerItemButton(async ({ item, button }) => {
+      const { action } = button as IssueButton;
+      if (!item.issue) {
+        return;
+      }
+      if (action === 'favorite') {
+        await this.toggleFavorite(repository, item.issue);
+        await update(quickPick.value);
+        return;
+      }
+      quickPick.hide();
+      await this.runAction(action, repository, item.issue);
+    });
+    quickPick.onDidHide(() => {
+      clearTimeout(timer);
+      quickPick.dispose();
+    });
+
+    quickPick.show();
+    await update('');
+  }
+
+  /**
+   * Favorite and recent issues of a repository, most recent first
+   */
+  public getHistory(repository: ParsedRemoteUrl): RepositoryHistory {
+    return (
+      this.state.get<Record<string, RepositoryHistory>>(HISTORY_KEY, {})[
+        historyKey(repository)
+      ] ?? { recent: [], favorites: [] }
+    );
+  }
+
+  /**
+   * Add or remove an issue from the favorites
+   *
+   * @returns Whether the issue is now a favorite
+   */
+  public async toggleFavorite(repository: ParsedRemoteUrl, issue: IssueSummary): Promise<boolean> {
+    const history = this.getHistory(repository);
+    const favorite = !history.favorites.some(entry => entry.number === issue.number);
+    await this.saveHistory(repository, {
+      ...history,
+      favorites: favorite
+        ? [summarize(issue), ...history.favorites]
+        : history.favorites.filter(entry => entry.number !== issue.number),
+    });
+    return favorite;
+  }
+
+  /**
+   * Run an item action and remember the issue as recent
+   */
+  private async runAction(
+    action: IssueAction,
+    repository: ParsedRemoteUrl,
+    issue: IssueSummary
+  ): Promise<void> {
+    try {
+      const history = this.getHistory(repository);
+      await this.saveHistory(repository, {
+        ...history,
+        recent: [
+          summarize(issue),
+          ...history.recent.filter(entry => entry.number !== issue.number),
+        ].slice(0, MAX_RECENT_ISSUES),
+      });
+
+      switch (action) {
+        case 'show':
+          await vscode.commands.executeCommand('gitissue-bridge.openIssue', issue.htmlUrl);
+          break;
+        case 'start':
+          await vscode.commands.executeCommand('gitissue-bridge.startIssue', issue.htmlUrl);
+          break;
+        case 'open':
+          await vscode.env.openExternal(vscode.Uri.parse(issue.htmlUrl));
+          break;
+        case 'copyLink':
+          await vscode.env.clipboard.writeText(issue.htmlUrl);
+          vscode.window.setStatusBarMessage(`Copied link to #${issue.number}`, 3000);
+          break;
+        case 'insertReference':
+          await this.insertReference(issue);
+          break;
+      }
+    } catch (error) {
+      await this.errorHandler.handle(error, {
+        operation: 'searchIssues',
+        component: 'Views',
+        metadata: { action, issue: issue.number },
+      });
+    }
+  }
+
+  /**
+   * Replace the selections of the active editor with #123
+   */
+  private async insertReference(issue: IssueSummary): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      await vscode.window.showWarningMessage(
+        `Open an editor to insert the reference to #${issue.number} into.`
+      );
+      return;
+    }
+
+    const reference = `#${issue.number}`;
+    await editor.edit(builder => {
+      for (const selection of editor.selections) {
+        builder.replace(selection, reference);
+      }
+    });
+  }
+
+  /**
+   * Items for a query: favorites, recent and open issues when empty, else search results
+   * with favorites and recent issues first
+   */
+  private async getItems(repository: ParsedRemoteUrl, query: string): Promise<IssueSearchItem[]> {
+    const history = this.getHistory(repository);
+    const favorites = new Set(history.favorites.map(issue => issue.number));
+    const toItems = (issues: IssueSummary[]) =>
+      issues.map(issue => toSearchItem(issue, favorites.has(issue.number)));
+
+    try {
+      if (!query.trim()) {
+        const cached = await getIssueCache()
+          .getIssues(repository, { state: 'all' })
+          .catch(() => [] as GitHubIssue[]);
+        const latest = (issue: IssueSummary) =>
+          cached.find(entry => entry.number === issue.number) ?? issue;
+        const listed = new Set([...favorites, ...history.recent.map(issue => issue.number)]);
+        return [
+          ...section('Favorites', toItems(history.favorites.map(latest))),
+          ...section(
+            'Recent',
+            toItems(history.recent.filter(issue => !favorites.has(issue.number)).map(latest))
+          ),
+          ...section(
+            'Open issues',
+            toItems(cached.filter(issue => issue.state === 'open' && !listed.has(issue.number)))
+          ),
+        ];
+      }
+
+      const { issues, offline } = await this.search(repository, query);
+      const rank = (issue: IssueSummary) =>
+        favorites.has(issue.number)
+          ? 0
+          : history.recent.some(entry => entry.number === issue.number)
+            ? 1
+            : 2;
+      const items = toItems([...issues].sort((a, b) => rank(a) - rank(b)));
+      return offline ? section('Cached issues (offline)', items) : items;
+    } catch (error) {
+      await this.errorHandler.handle(error, {
+        operation: 'searchIssues',
+        component: 'Views',
+        metadata: { repository: `${repository.owner}/${repository.repo}` },
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Search GitHub, or the cached issues when GitHub cannot be reached
+   */
+  private async search(
+    repository: ParsedRemoteUrl,
+    query: string
+  ): Promise<{ issues: GitHubIssue[]; offline: boolean }> {
+    if (!getIssueCache().isOffline(repository)) {
+      try {
+        return {
+          issues: await getGitHubIssuesClient().searchIssues(repository, query),
+          offline: false,
+        };
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          throw error;
+        }
+        this.logger.info('GitHub cannot be reached, searching the cached issues');
+      }
+    }
+
+    const cached = await getIssueCache().getIssues(repository, { state: 'all' });
+    const username = await getGitHubAuthManager().getUsername(repository);
+    return { issues: searchCachedIssues(cached, query, username), offline: true };
+  }
+
+  private async saveHistory(
+    repository: ParsedRemoteUrl,
+    history: RepositoryHistory
+  ): Promise<void> {
+    await this.state.update(HISTORY_KEY, {
+      ...this.state.get<Record<string, RepositoryHistory>>(HISTORY_KEY, {}),
+      [historyKey(repository)]: history,
+    });
+  }
+}
+
+function toSearchItem(issue: IssueSummary, favorite: boolean): IssueSearchItem {
+  const details = 'labels' in issue ? (issue as GitHubIssue) : undefined;
+  const buttons: IssueButton[] = [];
+  // Starting an issue runs git, which Restricted Mode does not allow
+  if (issue.state === 'open' && getWorkspaceTrustManager().isAllowed('gitMutations')) {
+    buttons.push({
+      action: 'start',
+      iconPath: new vscode.ThemeIcon('play'),
+      tooltip: 'Start Working on Issue',
+    });
+  }
+  buttons.push(
+    {
+      action: 'insertReference',
+      iconPath: new vscode.ThemeIcon('insert'),
+      tooltip: `Insert #${issue.number}`,
+    },
+    { action: 'copyLink', iconPath: new vscode.ThemeIcon('link'), tooltip: 'Copy Link' },
+    { action: 'open', iconPath: new vscode.ThemeIcon('link-external'), tooltip: 'Open on GitHub' },
+    {
+      action: 'favorite',
+      iconPath: new vscode.ThemeIcon(favorite ? 'star-full' : 'star-empty'),
+      tooltip: favorite ? 'Remove from Favorites' : 'Add to Favorites',
+    }
+  );
+
+  return {
+    label: `${issue.state === 'closed' ? '$(pass)' : '$(issues)'} #${issue.number} ${issue.title}`,
+    description: details?.labels.map(label => label.name).join(', '),
+    detail: details?.milestone ? `$(milestone) ${details.milestone.title}` : undefined,
+    // Results are already filtered; the query text would hide them otherwise
+    alwaysShow: true,
+    buttons,
+    issue: summarize(issue),
+  };
+}
+
+function section(label: string, items: IssueSearchItem[]): IssueSearchItem[] {
+  return items.length > 0 ? [{ label, kind: vscode.QuickPickItemKind.Separator }, ...items] : [];
+}
+
+function summarize({ number, title, state, htmlUrl }: IssueSummary): IssueSummary {
+  return { number, title, state, htmlUrl };
+}
+
+function historyKey(repository: ParsedRemoteUrl): string {
+  return `${repository.host}/${repository.owner}/${repository.repo}`.toLowerCase();
+}
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { getErrorHandler } from '../utils/errorHandler';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+import { parseTaskList, summarizeTaskList } from '../utils/taskList';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getApiHost } from '../auth/githubHosts';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { getIssueCache } from '../cache/issueCache';
+import { formatRateLimit, getRequestScheduler } from '../api/requestScheduler';
+import { GitHubIssue, milestoneProgress, RateLimitInfo } from '../api/types';
+import { getBranchIssueMapper } from '../git/branchIssueMapper';
+import { ParsedRemoteUrl } from '../git/types';
+
+/**
+ * Status bar item id, used by VS Code to remember its visibility
+ */
+export const ISSUE_STATUS_BAR_ID = 'gitissueBridge.activeIssue';
+
+/**
+ * Maximum number of checklist items listed in the tooltip
+ */
+const MAX_TOOLTIP_TASKS = 10;
+
+/**
+ * Issue shown in the status bar together with its repository
+ */
+interface StatusBarIssue {
+  repository: ParsedRemoteUrl;
+  issue: GitHubIssue;
+}
+
+/**
+ * Status bar text for an issue: "#42 Fix login" plus milestone progress
+ */
+export function formatStatusBarText(issue: GitHubIssue, maxTitleLength = 30): string {
+  const title =
+    issue.title.length > maxTitleLength
+      ? `${issue.title.slice(0, maxTitleLength - 1).trimEnd()}…`
+      : issue.title;
+  const icon = issue.state === 'closed' ? '$(pass)' : '$(issues)';
+  let text = `${icon} #${issue.number} ${title}`;
+
+  if (issue.milestone) {
+    text += ` $(milestone) ${milestoneProgress(issue.milestone)}%`;
+  }
+
+  return text;
+}
+
+/**
+ * Tooltip for an issue, listing milestone and checklist progress and the remaining API quota
+ */
+export function buildStatusBarTooltip(
+  issue: GitHubIssue,
+  rateLimit?: RateLimitInfo
+): vscode.MarkdownString {
+  const tooltip = new vscode.MarkdownString(`**#${issue.number} ${issue.title}**\n\n`, true);
+  tooltip.appendMarkdown(`State: ${issue.state}`);
+
+  if (issue.milestone) {
+    const { title, openIssues, closedIssues } = issue.milestone;
+    tooltip.appendMarkdown(
+      `\n\n$(milestone) ${title}: ${milestoneProgress(issue.milestone)}% complete ` +
+        `(${closedIssues}/${openIssues + closedIssues} closed)`
+    );
+  }
+
+  const tasks = parseTaskList(issue.body);
+  if (tasks.length > 0) {
+    const { completed, total } = summarizeTaskList(tasks);
+    tooltip.appendMarkdown(`\n\n$(checklist) ${completed}/${total} tasks done\n`);
+    for (const task of tasks.slice(0, MAX_TOOLTIP_TASKS)) {
+      tooltip.appendMarkdown(`\n- ${task.checked ? '$(pass-filled)' : '$(circle-large-outline)'} `);
+      tooltip.appendText(task.text);
+    }
+    if (tasks.length > MAX_TOOLTIP_TASKS) {
+      tooltip.appendMarkdown(`\n- … ${tasks.length - MAX_TOOLTIP_TASKS} more`);
+    }
+  }
+
+  if (rateLimit) {
+    tooltip.appendMarkdown(`\n\n$(dashboard) GitHub API ${formatRateLimit(rateLimit)}`);
+  }
+
+  tooltip.appendMarkdown('\n\n_Click for actions_');
+  return tooltip;
+}
+
+/**
+ * Status bar item showing the issue tied to the current branch
+ * Hidden when the branch does not reference an issue or reading issues is not allowed
+ */
+export class IssueStatusBar implements vscode.Disposable {
+  private logger = getLogger().child('StatusBar');
+  private errorHandler = getErrorHandler();
+  private item: vscode.StatusBarItem;
+  private active: StatusBarIssue | undefined;
+  private updateCount = 0;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.item = vscode.window.createStatusBarItem(
+      ISSUE_STATUS_BAR_ID,
+      vscode.StatusBarAlignment.Left,
+      100
+    );
+    this.item.name = 'GitIssue Bridge: Active Issue';
+
+    this.disposables.push(
+      this.item,
+      getBranchIssueMapper().onDidChangeCurrentIssue(() => void this.update()),
+      getGitHubAuthManager().onDidChangeSession(() => void this.update()),
+      getWorkspaceTrustManager().onDidGrantWorkspaceTrust(() => void this.update()),
+      getRequestScheduler().onDidChangeRateLimit(rateLimit => {
+        if (
+          this.active &&
+          rateLimit.resource === 'core' &&
+          rateLimit.host === getApiHost(this.active.repository.host)
+        ) {
+          this.item.tooltip = buildStatusBarTooltip(this.active.issue, rateLimit);
+        }
+      })
+    );
+
+    void this.update();
+  }
+
+  /**
+   * Get the issue currently shown in the status bar
+   */
+  public getActiveIssue(): StatusBarIssue | undefined {
+    return this.active;
+  }
+
+  /**
+   * Reload the issue of the current branch
+   */
+  public async update(): Promise<void> {
+    // Branch switches can overlap; only the latest update may touch the item
+    const updateId = ++this.updateCount;
+    const isLatest = () => updateId === this.updateCount;
+
+    const link = getBranchIssueMapper().getCurrentLink();
+    if (!link || !getWorkspaceTrustManager().isAllowed('readApi')) {
+      this.hide();
+      return;
+    }
+
+    const { repository, issueNumber } = link;
+
+    const isAuthenticated = await getGitHubAuthManager().isAuthenticated();
+    if (!isLatest()) {
+      return;
+    }
+    if (!isAuthenticated) {
+      this.active = undefined;
+      this.item.text = `$(issues) #${issueNumber}`;
+      this.item.tooltip = 'Sign in to GitHub to load issue details';
+      this.item.command = 'gitissue-bridge.authenticate';
+      this.item.show();
+      return;
+    }
+
+    try {
+      const issue = await getIssueCache().getIssue(repository, issueNumber);
+      if (!isLatest()) {
+        return;
+      }
+
+      this.active = { repository, issue };
+      this.item.text = formatStatusBarText(issue);
+      this.item.tooltip = buildStatusBarTooltip(
+        issue,
+        getRequestScheduler().getRateLimit('core', getApiHost(repository.host))
+      );
+      this.item.command = 'gitissue-bridge.showIssueActions';
+      this.item.show();
+    } catch (error) {
+      if (!isLatest()) {
+        return;
+      }
+      this.logger.warn(`Failed to load issue #${issueNumber} for the status bar`, error);
+      this.active = undefined;
+      this.item.text = `$(issues) #${issueNumber}`;
+      this.item.tooltip = `Could not load issue #${issueNumber}. Click to retry.`;
+      this.item.command = 'gitissue-bridge.showIssueActions';
+      this.item.show();
+    }
+  }
+
+  /**
+   * Show the actions available for the active issue
+   */
+  public async showActions(): Promise<void> {
+    const active = this.active;
+    if (!active) {
+      await this.update();
+      return;
+    }
+
+    const { repository, issue } = active;
+    const actions = [
+      { label: '$(link-external) Open on GitHub', action: 'open' },
+      { label: '$(comment) Add Comment', action: 'comment' },
+      { label: '$(arrow-swap) Switch Issue', action: 'switch' },
+      { label: '$(pass) Finish Issue', action: 'finish' },
+    ];
+
+    const selection = await vscode.window.showQuickPick(actions, {
+      placeHolder: `#${issue.number} ${issue.title}`,
+    });
+
+    switch (selection?.action) {
+      case 'open':
+        await vscode.env.openExternal(vscode.Uri.parse(issue.htmlUrl));
+        break;
+      case 'comment':
+        await this.addComment(repository, issue);
+        break;
+      case 'switch':
+        await vscode.commands.executeCommand('gitissue-bridge.startIssue');
+        break;
+      case 'finish':
+        await vscode.commands.executeCommand('gitissue-bridge.finishIssue', issue.htmlUrl);
+        await this.update();
+        break;
+    }
+  }
+
+  /**
+   * Prompt for a comment and post it on the issue
+   */
+  private async addComment(repository: ParsedRemoteUrl, issue: GitHubIssue): Promise<void> {
+    if (!(await getWorkspaceTrustManager().ensureCapability('remoteWrites'))) {
+      this.logger.warn('Comment cancelled: workspace is not trusted');
+      return;
+    }
+
+    const body = await vscode.window.showInputBox({
+      prompt: `Comment on #${issue.number} ${issue.title}`,
+      placeHolder: 'Markdown is supported',
+      validateInput: value => (value.trim() ? undefined : 'The comment cannot be empty'),
+    });
+    if (!body) {
+      return;
+    }
+
+    try {
+      await getGitHubIssuesClient().createComment(repository, issue.number, body);
+      this.logger.info(`Commented on issue #${issue.number}`);
+      await this.errorHandler.showSuccess(`Comment added to #${issue.number}`);
+    } catch (error) {
+      await this.errorHandler.handle(error, {
+        operation: 'addComment',
+        component: 'StatusBar',
+        metadata: { issue: issue.number },
+      });
+    }
+  }
+
+  private hide(): void {
+    this.active = undefined;
+    this.item.hide();
+  }
+
+  /**
+   * Dispose the status bar item and listeners
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,367 @@
+import * as vscode from 'vscode';
+import { getErrorHandler } from '../utils/errorHandler';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getIssueCache } from '../cache/issueCache';
+import { getRepositoryService } from '../git/repositoryService';
+import { WorkspaceRepository } from '../git/types';
+import { GitHubIssue, GitHubMilestone, milestoneProgress, RepositoryRef } from '../api/types';
+
+/**
+ * Tree view identifier (must match package.json)
+ */
+export const ISSUES_VIEW_ID = 'gitissueBridge.issues';
+
+/**
+ * Milestone with its open issues
+ */
+export interface MilestoneNode {
+  kind: 'milestone';
+  repository: RepositoryRef;
+  milestone: GitHubMilestone;
+  issues: GitHubIssue[];
+}
+
+/**
+ * Bucket for open issues without a milestone
+ */
+export interface NoMilestoneNode {
+  kind: 'noMilestone';
+  repository: RepositoryRef;
+  issues: GitHubIssue[];
+}
+
+/**
+ * Single issue
+ */
+export interface IssueNode {
+  kind: 'issue';
+  repository: RepositoryRef;
+  issue: GitHubIssue;
+}
+
+export type IssueTreeNode = MilestoneNode | NoMilestoneNode | IssueNode;
+
+/**
+ * Tree data provider for Milestones → Issues
+ * Reads from the offline cache, which falls back to the last sync when GitHub cannot be reached
+ */
+export class IssueTreeProvider
+  implements vscode.TreeDataProvider<IssueTreeNode>, vscode.Disposable
+{
+  private errorHandler = getErrorHandler();
+  private authManager = getGitHubAuthManager();
+  private repositoryService = getRepositoryService();
+  private issueCache = getIssueCache();
+  private syncRequested = false;
+  private treeView: vscode.TreeView<IssueTreeNode> | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<
+    IssueTreeNode | undefined | void
+  >();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  constructor() {
+    this.disposables.push(
+      this.authManager.onDidChangeSession(() => this.refresh()),
+      this.repositoryService.onDidChangeCurrentRepository(() =>
+        this.onDidChangeTreeDataEmitter.fire()
+      ),
+      // Background and manual syncs only need a re-render from the cache
+      this.issueCache.onDidSync(() => this.onDidChangeTreeDataEmitter.fire())
+    );
+  }
+
+  /**
+   * Attach the tree view so offline status can be shown in its message area
+   */
+  public setTreeView(treeView: vscode.TreeView<IssueTreeNode>): void {
+    this.treeView = treeView;
+  }
+
+  /**
+   * Sync with GitHub and re-render the tree
+   */
+  public refresh(): void {
+    this.syncRequested = true;
+    this.onDidChangeTreeDataEmitter.fire();
+  }
+
+  public getTreeItem(node: IssueTreeNode): vscode.TreeItem {
+    switch (node.kind) {
+      case 'milestone':
+        return createMilestoneItem(node);
+      case 'noMilestone':
+        return createNoMilestoneItem(node);
+      case 'issue':
+        return createIssueItem(node);
+    }
+  }
+
+  public async getChildren(node?: IssueTreeNode): Promise<IssueTreeNode[]> {
+    if (node) {
+      return node.kind === 'issue'
+        ? []
+        : node.issues.map(issue => ({ kind: 'issue', repository: node.repository, issue }));
+    }
+
+    const isAuthenticated = await this.authManager.isAuthenticated();
+    const repository = this.repositoryService.getCurrentRepository();
+    await vscode.commands.executeCommand(
+      'setContext',
+      'gitissueBridge.authenticated',
+      isAuthenticated
+    );
+    await vscode.commands.executeCommand(
+      'setContext',
+      'gitissueBridge.hasRepository',
+      !!repository
+    );
+
+    // Returning nothing lets the welcome views in package.json take over
+    if (!isAuthenticated || !repository) {
+      this.setMessage(undefined);
+      return [];
+    }
+
+    try {
+      if (this.syncRequested) {
+        this.syncRequested = false;
+        await this.sync(repository);
+      }
+
+      const [milestones, issues] = await Promise.all([
+        this.issueCache.getMilestones(repository, { state: 'open' }),
+        this.issueCache.getIssues(repository, { state: 'open' }),
+      ]);
+      this.updateSyncStatus(repository);
+      return buildRootNodes(repository, milestones, issues);
+    } catch (error) {
+      await this.errorHandler.handle(error, {
+        operation: 'loadIssueTree',
+        component: 'Views',
+        metadata: { repository: repositoryKey(repository) },
+        retry: () => this.refresh(),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Sync requested by the user; failures are reported unless cached data can be shown
+   */
+  private async sync(repository: WorkspaceRepository): Promise<void> {
+    try {
+      await this.issueCache.sync(repository);
+    } catch (error) {
+      await this.errorHandler.handle(error, {
+        operation: 'syncIssueTree',
+        component: 'Views',
+        metadata: { repository: repositoryKey(repository) },
+        cachedDataAvailable: await this.issueCache.hasData(repository),
+        retry: () => this.refresh(),
+      });
+    }
+  }
+
+  /**
+   * Show the last sync time, and the offline state in the message area
+   */
+  private updateSyncStatus(repository: WorkspaceRepository): void {
+    const lastSyncedAt = this.issueCache.getLastSyncedAt(repository);
+    if (this.treeView) {
+      this.treeView.description = lastSyncedAt
+        ? `Synced ${formatSyncTime(lastSyncedAt)}`
+        : undefined;
+    }
+    this.setMessage(
+      this.issueCache.isOffline(repository) && lastSyncedAt
+        ? `Offline — showing data from ${new Date(lastSyncedAt).toLocaleString()}`
+        : undefined
+    );
+  }
+
+  private setMessage(message: string | undefined): void {
+    if (this.treeView) {
+      this.treeView.message = message;
+    }
+  }
+
+  /**
+   * Dispose listeners and event emitter
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+}
+
+/**
+ * Unique key for a repository across hosts
+ */
+function repositoryKey(repository: WorkspaceRepository): string {
+  return `${repository.host}/${repository.owner}/${repository.repo}`;
+}
+
+/**
+ * Group issues under their milestones, ordered by due date, with a trailing "No milestone" bucket
+ */
+export function buildRootNodes(
+  repository: RepositoryRef,
+  allMilestones: GitHubMilestone[],
+  issues: GitHubIssue[]
+): IssueTreeNode[] {
+  const milestones = [...allMilestones].sort((a, b) => {
+    if (a.dueOn && b.dueOn) {
+      return a.dueOn.localeCompare(b.dueOn);
+    }
+    return a.dueOn ? -1 : b.dueOn ? 1 : a.title.localeCompare(b.title);
+  });
+
+  const nodes: IssueTreeNode[] = milestones.map(milestone => ({
+    kind: 'milestone',
+    repository,
+    milestone,
+    issues: issues.filter(issue => issue.milestone?.number === milestone.number),
+  }));
+
+  const knownMilestones = new Set(milestones.map(milestone => milestone.number));
+  const withoutMilestone = issues.filter(
+    issue => !issue.milestone || !knownMilestones.has(issue.milestone.number)
+  );
+  if (withoutMilestone.length > 0) {
+    nodes.push({ kind: 'noMilestone', repository, issues: withoutMilestone });
+  }
+
+  return nodes;
+}
+
+/**
+ * Describe how long ago a sync happened
+ */
+export function formatSyncTime(syncedAt: string, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - new Date(syncedAt).getTime()) / 60_000);
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes} min ago`;
+  }
+  return `at ${new Date(syncedAt).toLocaleString()}`;
+}
+
+/**
+ * Describe how far a due date is from now
+ */
+export function formatDueDate(dueOn: string, now: Date = new Date()): string {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const days = Math.ceil((new Date(dueOn).getTime() - now.getTime()) / dayMs);
+
+  if (days === 0) {
+    return 'due today';
+  }
+  if (days < 0) {
+    return `overdue by ${-days} day${days === -1 ? '' : 's'}`;
+  }
+  return `due in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+function createMilestoneItem(node: MilestoneNode): vscode.TreeItem {
+  const { milestone } = node;
+  const total = milestone.openIssues + milestone.closedIssues;
+  const percent = milestoneProgress(milestone);
+  const overdue = !!milestone.dueOn && new Date(milestone.dueOn).getTime() < Date.now();
+
+  const item = new vscode.TreeItem(milestone.title, vscode.TreeItemCollapsibleState.Expanded);
+  item.id = `milestone:${milestone.number}`;
+  item.contextValue = 'milestone';
+  item.iconPath = new vscode.ThemeIcon(
+    'milestone',
+    overdue ? new vscode.ThemeColor('errorForeground') : undefined
+  );
+  item.description = [
+    `${milestone.closedIssues}/${total} (${percent}%)`,
+    milestone.dueOn ? formatDueDate(milestone.dueOn) : undefined,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const tooltip = new vscode.MarkdownString(`**${milestone.title}**\n\n`);
+  if (milestone.description) {
+    tooltip.appendMarkdown(`${milestone.description}\n\n`);
+  }
+  tooltip.appendMarkdown(
+    `${percent}% complete — ${milestone.openIssues} open, ${milestone.closedIssues} closed`
+  );
+  if (milestone.dueOn) {
+    tooltip.appendMarkdown(`\n\nDue ${new Date(milestone.dueOn).toLocaleDateString()}`);
+  }
+  item.tooltip = tooltip;
+  return item;
+}
+
+function createNoMilestoneItem(node: NoMilestoneNode): vscode.TreeItem {
+  const item = new vscode.TreeItem('No milestone', vscode.TreeItemCollapsibleState.Collapsed);
+  item.id = 'milestone:none';
+  item.contextValue = 'noMilestone';
+  item.iconPath = new vscode.ThemeIcon('inbox');
+  item.description = `${node.issues.length} open`;
+  return item;
+}
+
+function createIssueItem(node: IssueNode): vscode.TreeItem {
+  const { issue } = node;
+  const item = new vscode.TreeItem(
+    `#${issue.number} ${issue.title}`,
+    vscode.TreeItemCollapsibleState.None
+  );
+  item.id = `issue:${issue.number}`;
+  item.contextValue = 'issue';
+  item.command = { command: 'gitissue-bridge.openIssue', title: 'Open Issue', arguments: [node] };
+  item.iconPath =
+    issue.state === 'open'
+      ? new vscode.ThemeIcon('issues', new vscode.ThemeColor('charts.green'))
+      : new vscode.ThemeIcon('issue-closed', new vscode.ThemeColor('charts.purple'));
+  item.description = [
+    issue.labels.map(label => label.name).join(', '),
+    issue.assignees.map(assignee => `@${assignee.login}`).join(' '),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const tooltip = new vscode.MarkdownString(
+    `**#${issue.number} ${issue.title}** (${issue.state})\n\n`
+  );
+  if (issue.labels.length > 0) {
+    tooltip.appendMarkdown(
+      `Labels: ${issue.labels.map(label => `\`${label.name}\``).join(' ')}\n\n`
+    );
+  }
+  if (issue.assignees.length > 0) {
+    const avatars = issue.assignees
+      .map(
+        assignee =>
+          `![${assignee.login}](${assignee.avatarUrl}|width=16,height=16) @${assignee.login}`
+      )
+      .join('  ');
+    tooltip.appendMarkdown(`Assignees: ${avatars}\n\n`);
+  }
+  tooltip.appendMarkdown(`[Open on GitHub](${issue.htmlUrl})`);
+  item.tooltip = tooltip;
+  return item;
+}
+
+/**
+ * URL on GitHub for a tree node, if it has one
+ */
+export function getNodeUrl(node: IssueTreeNode): string | undefined {
+  switch (node.kind) {
+    case 'milestone':
+      return node.milestone.htmlUrl;
+    case 'issue':
+      return node.issue.htmlUrl;
+    case 'noMilestone':
+      return undefined;
+  }
+}
@@ -0,0 +1,221 @@
+import { GitHubIssue, GitHubMilestone, UpdateIssueInput } from '../api/types';
+
+/**
+ * What the columns of the board stand for
+ * - state: Open, In progress (the in-progress label) and Closed
+ * - labels: Open, one column per configured label, and Closed
+ */
+export type BoardColumnMode = 'state' | 'labels';
+
+/**
+ * Settings the board columns are built from
+ */
+export interface BoardSettings {
+  mode: BoardColumnMode;
+  /** Column labels in "labels" mode */
+  labels: string[];
+  /** Label of the "In progress" column in "state" mode */
+  inProgressLabel: string;
+  /** Maximum number of issues per column, by column title or label */
+  wipLimits: Record<string, number>;
+}
+
+/**
+ * Column of the board
+ */
+export interface BoardColumn {
+  id: string;
+  title: string;
+  /** Label that puts an open issue in this column */
+  label?: string;
+  /** Whether this is the column of the closed issues */
+  closed?: boolean;
+  wipLimit?: number;
+}
+
+/**
+ * Day of the burndown chart
+ */
+export interface BurndownPoint {
+  /** YYYY-MM-DD, in UTC */
+  date: string;
+  /** Open issues at the end of the day; unset for days still to come */
+  remaining?: number;
+  /** Open issues if work were spread evenly until the due date */
+  ideal: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build the board columns from the settings
+ */
+export function getBoardColumns(settings: BoardSettings): BoardColumn[] {
+  const labels = settings.mode === 'state' ? [settings.inProgressLabel] : settings.labels;
+  const seen = new Set<string>();
+  const labelColumns: BoardColumn[] = [];
+  for (const label of labels.map(value => value.trim())) {
+    if (label && !seen.has(label.toLowerCase())) {
+      seen.add(label.toLowerCase());
+      labelColumns.push({
+        id: `label:${label.toLowerCase()}`,
+        title: settings.mode === 'state' ? 'In progress' : label,
+        label,
+      });
+    }
+  }
+
+  const wipLimits = new Map(
+    Object.entries(settings.wipLimits).map(([name, limit]) => [name.toLowerCase(), limit])
+  );
+  return [
+    { id: 'open', title: 'Open' },
+    ...labelColumns,
+    { id: 'closed', title: 'Closed', closed: true },
+  ].map(column => {
+    const wipLimit =
+      wipLimits.get(column.title.toLowerCase()) ?? wipLimits.get(column.label?.toLowerCase() ?? '');
+    return typeof wipLimit === 'number' && wipLimit > 0 ? { ...column, wipLimit } : column;
+  });
+}
+
+/**
+ * Column an issue belongs in: Closed, the first label column it has a label of, or Open
+ */
+export function getIssueColumn(issue: GitHubIssue, columns: BoardColumn[]): BoardColumn {
+  const open = columns.find(column => !column.label && !column.closed);
+  const closed = columns.find(column => column.closed);
+  if (issue.state === 'closed' && closed) {
+    return closed;
+  }
+
+  const labels = new Set(issue.labels.map(label => label.name.toLowerCase()));
+  return (
+    columns.find(column => column.label && labels.has(column.label.toLowerCase())) ??
+    open ??
+    columns[0]
+  );
+}
+
+/**
+ * Changes that move an issue to a column: swap the column labels and close or reopen it
+ *
+ * @returns The update, or undefined if the issue is already in the column
+ */
+export function getMoveUpdate(
+  issue: GitHubIssue,
+  target: BoardColumn,
+  columns: BoardColumn[]
+): UpdateIssueInput | undefined {
+  const columnLabels = new Set(
+    columns.flatMap(column => (column.label ? [column.label.toLowerCase()] : []))
+  );
+  const current = issue.labels.map(label => label.name);
+  const labels = current.filter(name => !columnLabels.has(name.toLowerCase()));
+  if (target.label) {
+    labels.push(target.label);
+  }
+
+  const update: UpdateIssueInput = {};
+  if (!sameNames(current, labels)) {
+    update.labels = labels;
+  }
+  if (target.closed && issue.state === 'open') {
+    update.state = 'closed';
+    update.stateReason = 'completed';
+  } else if (!target.closed && issue.state === 'closed') {
+    update.state = 'open';
+    update.stateReason = 'reopened';
+  }
+
+  return Object.keys(update).length > 0 ? update : undefined;
+}
+
+/**
+ * Describe what changed in an issue between two fetches, for conflict warnings
+ */
+export function describeIssueChanges(before: GitHubIssue, after: GitHubIssue): string[] {
+  const changes: string[] = [];
+  if (before.title !== after.title) {
+    changes.push(`Title changed to "${after.title}"`);
+  }
+  if (before.state !== after.state) {
+    changes.push(after.state === 'closed' ? 'Closed' : 'Reopened');
+  }
+  changes.push(
+    ...describeListChanges(
+      'label',
+      before.labels.map(label => label.name),
+      after.labels.map(label => label.name)
+    ),
+    ...describeListChanges(
+      'assignee',
+      before.assignees.map(user => `@${user.login}`),
+      after.assignees.map(user => `@${user.login}`)
+    )
+  );
+  if (before.milestone?.number !== after.milestone?.number) {
+    changes.push(
+      after.milestone ? `Moved to milestone "${after.milestone.title}"` : 'Removed from milestone'
+    );
+  }
+  if (before.body !== after.body) {
+    changes.push('Description edited');
+  }
+  if (changes.length === 0 && before.updatedAt !== after.updatedAt) {
+    changes.push('Updated (new comments or other details)');
+  }
+  return changes;
+}
+
+/**
+ * Open issues of a milestone per day, from its creation to its due date (or today)
+ * Closed issues count as done from the day they were closed.
+ */
+export function computeBurndown(
+  milestone: GitHubMilestone,
+  issues: GitHubIssue[],
+  today: Date = new Date()
+): BurndownPoint[] {
+  const start = startOfDay(new Date(milestone.createdAt));
+  const now = startOfDay(today);
+  const end = milestone.dueOn ? startOfDay(new Date(milestone.dueOn)) : now;
+  const days = Math.max(0, Math.round((end - start) / DAY_MS));
+  const closedAt = issues.map(issue =>
+    issue.state === 'closed' && issue.closedAt ? new Date(issue.closedAt).getTime() : Infinity
+  );
+
+  const points: BurndownPoint[] = [];
+  for (let day = 0; day <= days; day++) {
+    const dayStart = start + day * DAY_MS;
+    const dayEnd = dayStart + DAY_MS;
+    points.push({
+      date: new Date(dayStart).toISOString().slice(0, 10),
+      remaining: dayStart <= now ? closedAt.filter(time => time >= dayEnd).length : undefined,
+      ideal: days === 0 ? 0 : Math.round((issues.length * (days - day) * 10) / days) / 10,
+    });
+  }
+  return points;
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function sameNames(a: string[], b: string[]): boolean {
+  const lower = (names: string[]) => names.map(name => name.toLowerCase()).sort();
+  return lower(a).join('\n') === lower(b).join('\n');
+}
+
+function describeListChanges(kind: string, before: string[], after: string[]): string[] {
+  const added = after.filter(name => !before.includes(name));
+  const removed = before.filter(name => !after.includes(name));
+  return [
+    ...(added.length > 0
+      ? [`Added ${kind}${added.length > 1 ? 's' : ''} ${added.join(', ')}`]
+      : []),
+    ...(removed.length > 0
+      ? [`Removed ${kind}${removed.length > 1 ? 's' : ''} ${removed.join(', ')}`]
+      : []),
+  ];
+}
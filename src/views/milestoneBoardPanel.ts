@@ -0,0 +1,474 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { getErrorHandler } from '../utils/errorHandler';
+import { getWorkspaceTrustManager } from '../utils/workspaceTrustManager';
+import { getGitHubIssuesClient } from '../api/githubIssuesClient';
+import { isNetworkError } from '../api/githubErrors';
+import { GitHubIssue, GitHubMilestone } from '../api/types';
+import { getIssueCache } from '../cache/issueCache';
+import { getRepositoryService } from '../git/repositoryService';
+import { ParsedRemoteUrl } from '../git/types';
+import { MilestoneNode } from './issueTreeProvider';
+import {
+  BoardColumn,
+  BoardColumnMode,
+  BoardSettings,
+  BurndownPoint,
+  computeBurndown,
+  describeIssueChanges,
+  getBoardColumns,
+  getIssueColumn,
+  getMoveUpdate,
+} from './milestoneBoard';
+import {
+  escapeHtml,
+  getWebviewOptions,
+  renderLabel,
+  renderUser,
+  renderWebviewDocument,
+  toRemote,
+} from './webview';
+
+/**
+ * View type of the milestone boards, also used by the serializer
+ */
+export const MILESTONE_BOARD_VIEW_TYPE = 'gitissueBridge.milestoneBoard';
+
+/**
+ * What a board keeps in its webview state to be restored after a reload
+ */
+export interface MilestoneBoardState {
+  repository: ParsedRemoteUrl;
+  milestone: number;
+}
+
+/**
+ * Messages the webview posts to the extension
+ */
+export type MilestoneBoardMessage =
+  | { type: 'refresh' }
+  | { type: 'open'; issue: number }
+  | { type: 'move'; issue: number; column: string };
+
+interface OpenBoard extends MilestoneBoardState {
+  panel: vscode.WebviewPanel;
+  columns: BoardColumn[];
+  /** Issues as last rendered, to detect changes made on GitHub in between */
+  issues: GitHubIssue[];
+}
+
+const MOVE_ANYWAY = 'Move Anyway';
+
+/**
+ * Kanban boards of milestones: issues in columns by state or label, moved by drag and drop,
+ * with WIP limits and a burndown chart. One board per milestone.
+ */
+export class MilestoneBoardPanels
+  implements vscode.WebviewPanelSerializer<MilestoneBoardState>, vscode.Disposable
+{
+  private logger = getLogger().child('Board');
+  private errorHandler = getErrorHandler();
+  private boards = new Map<string, OpenBoard>();
+  private disposables: vscode.Disposable[] = [];
+  private readonly onDidChangeIssueEmitter = new vscode.EventEmitter<GitHubIssue>();
+
+  /**
+   * Fired after an issue was moved on a board
+   */
+  public readonly onDidChangeIssue = this.onDidChangeIssueEmitter.event;
+
+  constructor(private readonly extensionUri: vscode.Uri) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (
+          e.affectsConfiguration('gitissueBridge.board') ||
+          e.affectsConfiguration('gitissueBridge.startIssue.inProgressLabel')
+        ) {
+          for (const board of this.boards.values()) {
+            void this.render(board);
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * Open the board of a milestone tree node, or of a milestone picked by the user
+   */
+  public async open(target?: MilestoneNode): Promise<void> {
+    if (target) {
+      const { owner, repo } = target.repository;
+      const repository = getRepositoryService()
+        .getRepositories()
+        .find(candidate => candidate.owner === owner && candidate.repo === repo);
+      if (!repository) {
+        throw new Error(`No local clone of ${owner}/${repo} is open in this workspace.`);
+      }
+      await this.show(repository, target.milestone.number);
+      return;
+    }
+
+    const repository = getRepositoryService().getCurrentRepository();
+    if (!repository) {
+      throw new Error('No GitHub repository detected in this workspace.');
+    }
+
+    const items = getIssueCache()
+      .getMilestones(repository, { state: 'open' })
+      .then(milestones =>
+        milestones.map(milestone => ({
+          label: milestone.title,
+          description: `${milestone.closedIssues}/${milestone.openIssues + milestone.closedIssues} closed`,
+          milestone,
+        }))
+      );
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select the milestone to plan',
+    });
+    if (picked) {
+      await this.show(repository, picked.milestone.number);
+    }
+  }
+
+  /**
+   * Show the board of a milestone, reusing it when it is already open
+   */
+  public async show(repository: ParsedRemoteUrl, milestoneNumber: number): Promise<void> {
+    const existing = this.boards.get(boardKey(repository, milestoneNumber));
+    if (existing) {
+      existing.panel.reveal();
+      await this.render(existing);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      MILESTONE_BOARD_VIEW_TYPE,
+      'Milestone Board',
+      vscode.ViewColumn.Active,
+      getWebviewOptions(this.extensionUri)
+    );
+    await this.attach(panel, { repository: toRemote(repository), milestone: milestoneNumber });
+  }
+
+  /**
+   * Restore a board after a reload
+   */
+  public async deserializeWebviewPanel(
+    panel: vscode.WebviewPanel,
+    state: MilestoneBoardState | undefined
+  ): Promise<void> {
+    if (!state?.repository || !state.milestone) {
+      panel.dispose();
+      return;
+    }
+
+    panel.webview.options = getWebviewOptions(this.extensionUri);
+    await this.attach(panel, state);
+  }
+
+  public dispose(): void {
+    for (const { panel } of [...this.boards.values()]) {
+      panel.dispose();
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.onDidChangeIssueEmitter.dispose();
+  }
+
+  private async attach(panel: vscode.WebviewPanel, state: MilestoneBoardState): Promise<void> {
+    const board: OpenBoard = { ...state, panel, columns: [], issues: [] };
+    const key = boardKey(state.repository, state.milestone);
+    this.boards.set(key, board);
+
+    const listener = panel.webview.onDidReceiveMessage((message: MilestoneBoardMessage) =>
+      this.handleMessage(board, message)
+    );
+    panel.onDidDispose(() => {
+      listener.dispose();
+      this.boards.delete(key);
+    });
+
+    await this.render(board);
+  }
+
+  /**
+   * Load the milestone and its issues and replace the board content
+   * Offline, the cached issues are shown; closed issues may be missing from the cache.
+   */
+  private async render(board: OpenBoard): Promise<void> {
+    const { panel, repository } = board;
+    try {
+      let milestone: GitHubMilestone;
+      let issues: GitHubIssue[];
+      let offline = false;
+      try {
+        const client = getGitHubIssuesClient();
+        [milestone, issues] = await Promise.all([
+          client.getMilestone(repository, board.milestone),
+          client.listIssues(repository, { milestone: board.milestone, state: 'all' }),
+        ]);
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          throw error;
+        }
+        [milestone, issues] = await this.getCachedMilestone(repository, board.milestone, error);
+        offline = true;
+        await this.errorHandler.handle(error, {
+          operation: 'openBoard',
+          component: 'Views',
+          cachedDataAvailable: true,
+        });
+      }
+
+      board.columns = getBoardColumns(readBoardSettings());
+      board.issues = issues;
+      panel.title = `Board: ${milestone.title}`;
+      panel.webview.html = this.getDocument(
+        panel.webview,
+        board,
+        renderBoard(milestone, board, offline)
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      panel.webview.html = this.getDocument(
+        panel.webview,
+        board,
+        `<p class="notice">Could not load the milestone board: ${escapeHtml(message)}</p>
+         <button data-action="refresh">Try again</button>`
+      );
+      await this.errorHandler.handle(error, {
+        operation: 'openBoard',
+        component: 'Views',
+        metadata: { milestone: board.milestone },
+        retry: () => this.render(board),
+      });
+    }
+  }
+
+  private async getCachedMilestone(
+    repository: ParsedRemoteUrl,
+    milestoneNumber: number,
+    error: unknown
+  ): Promise<[GitHubMilestone, GitHubIssue[]]> {
+    const cache = getIssueCache();
+    const milestone = (await cache.getMilestones(repository, { state: 'all' })).find(
+      candidate => candidate.number === milestoneNumber
+    );
+    if (!milestone) {
+      throw error;
+    }
+    const issues = await cache.getIssues(repository, { state: 'all' });
+    this.logger.debug(`Showing cached board of milestone ${milestone.title} while offline`);
+    return [milestone, issues.filter(issue => issue.milestone?.number === milestoneNumber)];
+  }
+
+  private async handleMessage(board: OpenBoard, message: MilestoneBoardMessage): Promise<void> {
+    switch (message.type) {
+      case 'refresh':
+        await this.render(board);
+        return;
+
+      case 'open': {
+        const issue = board.issues.find(candidate => candidate.number === message.issue);
+        if (issue) {
+          await vscode.commands.executeCommand('gitissue-bridge.openIssue', issue.htmlUrl);
+        }
+        return;
+      }
+
+      case 'move':
+        try {
+          const issue = await this.moveIssue(board, message.issue, message.column);
+          if (issue) {
+            this.onDidChangeIssueEmitter.fire(issue);
+          }
+        } catch (error) {
+          await this.errorHandler.handle(error, {
+            operation: 'moveIssue',
+            component: 'Views',
+            metadata: { issue: message.issue, column: message.column },
+          });
+        } finally {
+          // Shows the latest board, also putting back a card whose move failed or was cancelled
+          await this.render(board);
+        }
+        return;
+    }
+  }
+
+  /**
+   * Move an issue to a column, checking the WIP limit and changes made on GitHub first
+   *
+   * @returns Updated issue, or undefined if it was not moved
+   */
+  private async moveIssue(
+    board: OpenBoard,
+    issueNumber: number,
+    columnId: string
+  ): Promise<GitHubIssue | undefined> {
+    const { repository, columns } = board;
+    const target = columns.find(column => column.id === columnId);
+    const loaded = board.issues.find(issue => issue.number === issueNumber);
+    if (!target || !loaded) {
+      return undefined;
+    }
+
+    if (!(await getWorkspaceTrustManager().ensureCapability('remoteWrites'))) {
+      return undefined;
+    }
+
+    if (target.wipLimit !== undefined) {
+      const count = board.issues.filter(
+        issue => issue.number !== issueNumber && getIssueColumn(issue, columns).id === target.id
+      ).length;
+      if (count >= target.wipLimit) {
+        const choice = await vscode.window.showWarningMessage(
+          `"${target.title}" has reached its WIP limit of ${target.wipLimit}.`,
+          { modal: true, detail: `Move #${issueNumber} there anyway?` },
+          MOVE_ANYWAY
+        );
+        if (choice !== MOVE_ANYWAY) {
+          return undefined;
+        }
+      }
+    }
+
+    // Someone else may have changed the issue since the board was loaded
+    const client = getGitHubIssuesClient();
+    const latest = await client.getIssue(repository, issueNumber);
+    if (latest.updatedAt !== loaded.updatedAt) {
+      const changes = describeIssueChanges(loaded, latest);
+      this.logger.info(`Issue #${issueNumber} changed since the board was loaded`, { changes });
+      const choice = await vscode.window.showWarningMessage(
+        `#${issueNumber} ${latest.title} changed on GitHub since the board was loaded.`,
+        {
+          modal: true,
+          detail: `${changes.map(change => `• ${change}`).join('\n')}\n\nMove it to "${target.title}" anyway?`,
+        },
+        MOVE_ANYWAY
+      );
+      if (choice !== MOVE_ANYWAY) {
+        return undefined;
+      }
+    }
+
+    const update = getMoveUpdate(latest, target, columns);
+    if (!update) {
+      return undefined;
+    }
+    this.logger.info(`Moving issue #${issueNumber} to "${target.title}"`);
+    return client.updateIssue(repository, issueNumber, update);
+  }
+
+  private getDocument(webview: vscode.Webview, board: OpenBoard, content: string): string {
+    const state: MilestoneBoardState = { repository: board.repository, milestone: board.milestone };
+    return renderWebviewDocument(webview, this.extensionUri, {
+      assets: 'milestoneBoard',
+      title: 'Milestone Board',
+      state,
+      body: content,
+    });
+  }
+}
+
+function boardKey(repository: ParsedRemoteUrl, milestoneNumber: number): string {
+  return `${repository.host}/${repository.owner}/${repository.repo}/milestone/${milestoneNumber}`.toLowerCase();
+}
+
+function readBoardSettings(): BoardSettings {
+  const config = vscode.workspace.getConfiguration('gitissueBridge');
+  return {
+    mode: config.get<BoardColumnMode>('board.columns', 'state'),
+    labels: config.get<string[]>('board.labels', ['in progress', 'review']),
+    inProgressLabel: config.get<string>('startIssue.inProgressLabel', 'in progress'),
+    wipLimits: config.get<Record<string, number>>('board.wipLimits', {}),
+  };
+}
+
+function renderBoard(milestone: GitHubMilestone, board: OpenBoard, offline: boolean): string {
+  const { columns, issues } = board;
+  const closed = issues.filter(issue => issue.state === 'closed').length;
+  const byColumn = new Map<string, GitHubIssue[]>(columns.map(column => [column.id, []]));
+  for (const issue of issues) {
+    byColumn.get(getIssueColumn(issue, columns).id)?.push(issue);
+  }
+
+  return `
+    <header>
+      <h1>${escapeHtml(milestone.title)}</h1>
+      <p>
+        ${closed}/${issues.length} closed
+        ${milestone.dueOn ? `· due ${escapeHtml(new Date(milestone.dueOn).toLocaleDateString())}` : ''}
+        · <a href="${escapeHtml(milestone.htmlUrl)}">Open on GitHub</a>
+        · <button class="link" data-action="refresh">Refresh</button>
+      </p>
+      ${offline ? '<p class="notice">GitHub cannot be reached. Showing cached issues; moving them is not possible offline.</p>' : ''}
+    </header>
+    <div class="board">
+      ${columns.map(column => renderColumn(column, byColumn.get(column.id) ?? [], columns)).join('\n')}
+    </div>
+    <section class="burndown">
+      <h2>Burndown</h2>
+      ${renderBurndown(computeBurndown(milestone, issues))}
+    </section>`;
+}
+
+function renderColumn(column: BoardColumn, issues: GitHubIssue[], columns: BoardColumn[]): string {
+  const overLimit = column.wipLimit !== undefined && issues.length > column.wipLimit;
+  const count =
+    column.wipLimit !== undefined ? `${issues.length}/${column.wipLimit}` : `${issues.length}`;
+  const columnLabels = new Set(
+    columns.flatMap(entry => (entry.label ? [entry.label.toLowerCase()] : []))
+  );
+
+  return `
+    <section class="column${overLimit ? ' over-limit' : ''}" data-column="${escapeHtml(column.id)}">
+      <h2>${escapeHtml(column.title)} <span class="count" title="${overLimit ? 'Over the WIP limit' : ''}">${count}</span></h2>
+      <div class="cards">
+        ${issues
+          .map(
+            issue => `
+          <article class="card" draggable="true" data-issue="${issue.number}">
+            <button class="link" data-action="open">#${issue.number} ${escapeHtml(issue.title)}</button>
+            <div>${issue.labels
+              .filter(label => !columnLabels.has(label.name.toLowerCase()))
+              .map(label => renderLabel(label))
+              .join(' ')}</div>
+            <div>${issue.assignees.map(user => renderUser(user)).join(' ')}</div>
+          </article>`
+          )
+          .join('')}
+      </div>
+    </section>`;
+}
+
+/**
+ * Burndown chart as an SVG: remaining open issues per day against the ideal line
+ */
+function renderBurndown(points: BurndownPoint[]): string {
+  if (points.length < 2) {
+    return '<p class="empty">The burndown appears once the milestone spans more than a day.</p>';
+  }
+
+  const width = 600;
+  const height = 200;
+  const max = Math.max(1, ...points.map(point => Math.max(point.ideal, point.remaining ?? 0)));
+  const x = (index: number) => Math.round((index / (points.length - 1)) * width);
+  const y = (value: number) => Math.round(height - (value / max) * height);
+  const line = (values: (number | undefined)[]) =>
+    values
+      .flatMap((value, index) => (value === undefined ? [] : [`${x(index)},${y(value)}`]))
+      .join(' ');
+
+  return `
+    <svg viewBox="-30 -10 ${width + 40} ${height + 30}" role="img" aria-label="Burndown chart">
+      <line class="axis" x1="0" y1="${height}" x2="${width}" y2="${height}" />
+      <line class="axis" x1="0" y1="0" x2="0" y2="${height}" />
+      <text class="tick" x="-6" y="4" text-anchor="end">${max}</text>
+      <text class="tick" x="-6" y="${height}" text-anchor="end">0</text>
+      <text class="tick" x="0" y="${height + 16}">${points[0].date}</text>
+      <text class="tick" x="${width}" y="${height + 16}" text-anchor="end">${points[points.length - 1].date}</text>
+      <polyline class="ideal" points="${line(points.map(point => point.ideal))}" />
+      <polyline class="remaining" points="${line(points.map(point => point.remaining))}" />
+    </svg>
+    <p class="legend"><span class="legend-remaining">Remaining</span> <span class="legend-ideal">Ideal</span></p>`;
+}
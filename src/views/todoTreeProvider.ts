@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { getErrorHandler } from '../utils/errorHandler';
+import { getGitHubAuthManager } from '../auth/githubAuthManager';
+import { getRepositoryService } from '../git/repositoryService';
+import { WorkspaceRepository } from '../git/types';
+import { getTodoScanner } from '../todos/todoScanner';
+import { createIssuesFromTodos } from '../todos/todoIssues';
+import { TodoItem } from '../todos/types';
+
+/**
+ * Tree view identifier (must match package.json)
+ */
+export const TODOS_VIEW_ID = 'gitissueBridge.todos';
+
+/**
+ * File with TODO comments
+ */
+export interface TodoFileNode {
+  kind: 'file';
+  relativePath: string;
+  todos: TodoItem[];
+}
+
+/**
+ * Single TODO comment
+ */
+export interface TodoNode {
+  kind: 'todo';
+  todo: TodoItem;
+}
+
+export type TodoTreeNode = TodoFileNode | TodoNode;
+
+/**
+ * Review panel for TODO comments
+ * Comments without an issue get a checkbox; checked ones are filed by "Create Issues"
+ */
+export class TodoTreeProvider implements vscode.TreeDataProvider<TodoTreeNode>, vscode.Disposable {
+  private logger = getLogger().child('Views');
+  private errorHandler = getErrorHandler();
+  private repository: WorkspaceRepository | undefined;
+  private todos: TodoItem[] = [];
+  private checked = new Set<string>();
+  private treeView: vscode.TreeView<TodoTreeNode> | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<
+    TodoTreeNode | undefined | void
+  >();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  constructor() {
+    this.disposables.push(
+      // Results belong to one repository; switching invalidates them
+      getRepositoryService().onDidChangeCurrentRepository(() => this.clear())
+    );
+  }
+
+  /**
+   * Attach the tree view to track checkboxes and show the scan summary
+   */
+  public setTreeView(treeView: vscode.TreeView<TodoTreeNode>): void {
+    this.treeView = treeView;
+    this.disposables.push(
+      treeView.onDidChangeCheckboxState(event => {
+        for (const [node, state] of event.items) {
+          this.setChecked(node, state === vscode.TreeItemCheckboxState.Checked);
+        }
+      })
+    );
+  }
+
+  /**
+   * Scan the current repository and show the results
+   */
+  public async scan(): Promise<void> {
+    const repository = getRepositoryService().getCurrentRepository();
+    if (!repository) {
+      throw new Error('No GitHub repository detected in this workspace.');
+    }
+
+    const todos = await vscode.window.withProgress(
+      { location: { viewId: TODOS_VIEW_ID }, title: 'Scanning for TODO comments…' },
+      (_progress, token) => getTodoScanner().scan(repository, token)
+    );
+
+    this.repository = repository;
+    this.todos = todos;
+    this.checked.clear();
+    this.updateMessage();
+    this.onDidChangeTreeDataEmitter.fire();
+  }
+
+  /**
+   * Comments checked in the panel, in file and line order
+   */
+  public getCheckedTodos(): TodoItem[] {
+    return this.todos.filter(todo => this.checked.has(todoKey(todo)));
+  }
+
+  /**
+   * File issues for the checked comments after confirmation, then rescan
+   *
+   * @returns Number of issues created
+   */
+  public async createIssues(): Promise<number> {
+    const repository = this.repository;
+    const todos = this.getCheckedTodos();
+    if (!repository || todos.length === 0) {
+      await this.errorHandler.showValidationError(
+        'Check the TODO comments to file as issues first.'
+      );
+      return 0;
+    }
+
+    const isAuthenticated = await getGitHubAuthManager().ensureAuthenticated(repository);
+    if (!isAuthenticated) {
+      return 0;
+    }
+
+    const count = todos.length === 1 ? '1 issue' : `${todos.length} issues`;
+    const choice = await vscode.window.showWarningMessage(
+      `Create ${count} in ${repository.owner}/${repository.repo}?`,
+      {
+        modal: true,
+        detail:
+          todos.map(todo => `• ${todo.relativePath}:${todo.line + 1} ${todo.text}`).join('\n') +
+          `\n\nThe comments will be rewritten to ${todos[0].keyword}(#number).`,
+      },
+      'Create Issues'
+    );
+    if (choice !== 'Create Issues') {
+      this.logger.info('Create issues from TODOs cancelled by user');
+      return 0;
+    }
+
+    const created = await createIssuesFromTodos(repository, todos);
+    if (created.length > 0) {
+      await this.errorHandler.showSuccess(
+        `Created ${created.length === 1 ? '1 issue' : `${created.length} issues`} from TODO comments`
+      );
+    }
+
+    await this.scan();
+    return created.length;
+  }
+
+  public getTreeItem(node: TodoTreeNode): vscode.TreeItem {
+    return node.kind === 'file' ? this.createFileItem(node) : this.createTodoItem(node.todo);
+  }
+
+  public getChildren(node?: TodoTreeNode): TodoTreeNode[] {
+    if (node) {
+      return node.kind === 'file' ? node.todos.map(todo => ({ kind: 'todo', todo })) : [];
+    }
+
+    const files = new Map<string, TodoItem[]>();
+    for (const todo of this.todos) {
+      files.set(todo.relativePath, [...(files.get(todo.relativePath) ?? []), todo]);
+    }
+    return [...files].map(([relativePath, todos]) => ({ kind: 'file', relativePath, todos }));
+  }
+
+  private createFileItem(node: TodoFileNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      node.relativePath.split('/').pop() ?? node.relativePath,
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+    item.id = `file:${node.relativePath}`;
+    item.contextValue = 'todoFile';
+    item.description = node.relativePath.includes('/')
+      ? node.relativePath.slice(0, node.relativePath.lastIndexOf('/'))
+      : undefined;
+    if (this.repository) {
+      item.resourceUri = vscode.Uri.joinPath(this.repository.rootUri, node.relativePath);
+    }
+    item.iconPath = vscode.ThemeIcon.File;
+
+    const open = node.todos.filter(todo => !todo.linkedIssue);
+    if (open.length > 0) {
+      item.checkboxState = open.every(todo => this.checked.has(todoKey(todo)))
+        ? vscode.TreeItemCheckboxState.Checked
+        : vscode.TreeItemCheckboxState.Unchecked;
+    }
+    return item;
+  }
+
+  private createTodoItem(todo: TodoItem): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      todo.text || todo.keyword,
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.id = `todo:${todoKey(todo)}`;
+    item.description = [
+      `${todo.keyword} · line ${todo.line + 1}`,
+      todo.author,
+      todo.linkedIssue ? `#${todo.linkedIssue}` : undefined,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+    if (todo.linkedIssue) {
+      // Already filed: shown for reference only
+      item.contextValue = 'linkedTodo';
+      item.iconPath = new vscode.ThemeIcon('link');
+    } else {
+      item.contextValue = 'todo';
+      item.iconPath = new vscode.ThemeIcon(
+        todo.keyword === 'FIXME' ? 'bug' : 'checklist',
+        new vscode.ThemeColor('list.warningForeground')
+      );
+      item.checkboxState = this.checked.has(todoKey(todo))
+        ? vscode.TreeItemCheckboxState.Checked
+        : vscode.TreeItemCheckboxState.Unchecked;
+    }
+
+    if (this.repository) {
+      const position = new vscode.Position(todo.line, todo.keywordStart);
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open',
+        arguments: [
+          vscode.Uri.joinPath(this.repository.rootUri, todo.relativePath),
+          { selection: new vscode.Range(position, position) },
+        ],
+      };
+    }
+    return item;
+  }
+
+  private setChecked(node: TodoTreeNode, checked: boolean): void {
+    const todos = node.kind === 'file' ? node.todos : [node.todo];
+    for (const todo of todos.filter(candidate => !candidate.linkedIssue)) {
+      if (checked) {
+        this.checked.add(todoKey(todo));
+      } else {
+        this.checked.delete(todoKey(todo));
+      }
+    }
+    this.onDidChangeTreeDataEmitter.fire();
+  }
+
+  private updateMessage(): void {
+    if (!this.treeView) {
+      return;
+    }
+    const linked = this.todos.filter(todo => todo.linkedIssue).length;
+    this.treeView.message =
+      this.todos.length === 0
+        ? 'No TODO comments found.'
+        : `${this.todos.length} comments, ${linked} already linked to issues`;
+  }
+
+  private clear(): void {
+    this.repository = undefined;
+    this.todos = [];
+    this.checked.clear();
+    if (this.treeView) {
+      this.treeView.message = undefined;
+    }
+    this.onDidChangeTreeDataEmitter.fire();
+  }
+
+  /**
+   * Dispose listeners and event emitter
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+}
+
+/**
+ * Stable key of a TODO comment within a scan
+ */
+function todoKey(todo: TodoItem): string {
+  return `${todo.relativePath}:${todo.line}`;
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { GitHubLabel, GitHubUser } from '../api/types';
+import { ParsedRemoteUrl } from '../git/types';
+
+/**
+ * Content of a webview document and the assets/media files it loads
+ */
+export interface WebviewDocument {
+  /** Base name of the script and stylesheet in assets/media */
+  assets: string;
+  title: string;
+  /** Saved by the script with vscode.setState, for the panel serializer */
+  state: unknown;
+  body: string;
+}
+
+/**
+ * Options of the webview panels: scripts on, local files limited to assets/media
+ */
+export function getWebviewOptions(
+  extensionUri: vscode.Uri
+): vscode.WebviewPanelOptions & vscode.WebviewOptions {
+  return {
+    enableScripts: true,
+    localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'assets', 'media')],
+  };
+}
+
+/**
+ * Wrap webview content in a document with a strict Content Security Policy
+ * Only our own script and stylesheet run; images may come from GitHub over https.
+ */
+export function renderWebviewDocument(
+  webview: vscode.Webview,
+  extensionUri: vscode.Uri,
+  document: WebviewDocument
+): string {
+  const nonce = randomBytes(16).toString('base64');
+  const media = vscode.Uri.joinPath(extensionUri, 'assets', 'media');
+  const script = webview.asWebviewUri(vscode.Uri.joinPath(media, `${document.assets}.js`));
+  const style = webview.asWebviewUri(vscode.Uri.joinPath(media, `${document.assets}.css`));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <link rel="stylesheet" href="${style.toString()}">
+  <title>${escapeHtml(document.title)}</title>
+</head>
+<body data-state="${escapeHtml(JSON.stringify(document.state))}">
+  ${document.body}
+  <script nonce="${nonce}" src="${script.toString()}"></script>
+</body>
+</html>`;
+}
+
+/**
+ * Keep only the repository fields, so webview state does not hold workspace details
+ */
+export function toRemote({ host, owner, repo }: ParsedRemoteUrl): ParsedRemoteUrl {
+  return { host, owner, repo };
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderUser(user: GitHubUser | undefined): string {
+  return user
+    ? `<a class="user" href="${escapeHtml(user.htmlUrl)}">@${escapeHtml(user.login)}</a>`
+    : '<span class="user">ghost</span>';
+}
+
+/**
+ * Label chip; the scripts color it from data-color since the CSP blocks inline styles
+ */
+export function renderLabel(label: GitHubLabel): string {
+  return `<span class="label" data-color="${escapeHtml(label.color)}">${escapeHtml(label.name)}</span>`;
+}
@@ -0,0 +1,40 @@
+import { GitHubIssue, GitHubMilestone } from '../../src/api/types';
+
+/**
+ * Open issue of octo/bridge without labels, assignees or comments
+ */
+export function makeIssue(number = 42, overrides: Partial<GitHubIssue> = {}): GitHubIssue {
+  return {
+    number,
+    title: `Issue ${number}`,
+    body: '',
+    state: 'open',
+    labels: [],
+    assignees: [],
+    comments: 0,
+    htmlUrl: `https://github.com/octo/bridge/issues/${number}`,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Open milestone of octo/bridge without issues
+ */
+export function makeMilestone(
+  number = 1,
+  overrides: Partial<GitHubMilestone> = {}
+): GitHubMilestone {
+  return {
+    number,
+    title: `v${number}.0`,
+    state: 'open',
+    openIssues: 0,
+    closedIssues: 0,
+    htmlUrl: `https://github.com/octo/bridge/milestone/${number}`,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
@@ -0,0 +1,143 @@
+import {
+  AccessDeniedError,
+  AuthenticationExpiredError,
+  classifyGitHubError,
+  isNetworkError,
+  MissingScopeError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  SsoRequiredError,
+  ValidationFailedError,
+} from '../../../src/api/githubErrors';
+
+describe('githubErrors', () => {
+  const requestError = (
+    status: number,
+    headers: Record<string, string> = {},
+    message = 'Request failed',
+    data?: unknown
+  ) => Object.assign(new Error(message), { status, response: { headers, data } });
+
+  describe('isNetworkError', () => {
+    it('should recognize network errors', () => {
+      const fetchFailed = new Error('fetch failed', {
+        cause: Object.assign(new Error('getaddrinfo ENOTFOUND api.github.com'), {
+          code: 'ENOTFOUND',
+        }),
+      });
+
+      expect(isNetworkError(Object.assign(new Error('socket'), { code: 'ECONNRESET' }))).toBe(true);
+      expect(isNetworkError(fetchFailed)).toBe(true);
+      expect(isNetworkError(new NetworkError())).toBe(true);
+      expect(isNetworkError(new Error('Not Found'))).toBe(false);
+      expect(isNetworkError('ENOTFOUND')).toBe(false);
+    });
+
+    it('should not go by the error message', () => {
+      expect(isNetworkError(new Error('getaddrinfo ENOTFOUND api.github.com'))).toBe(false);
+      expect(isNetworkError(new Error('fetch failed'))).toBe(false);
+      expect(classifyGitHubError(requestError(404, {}, 'No issue named ETIMEDOUT'))).toBeInstanceOf(
+        NotFoundError
+      );
+    });
+  });
+
+  describe('classifyGitHubError', () => {
+    it('should leave errors without a status alone', () => {
+      expect(classifyGitHubError(new Error('Fix 404 page'))).toBeUndefined();
+      expect(classifyGitHubError('401')).toBeUndefined();
+    });
+
+    it('should classify network failures', () => {
+      expect(
+        classifyGitHubError(
+          Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' })
+        )
+      ).toBeInstanceOf(NetworkError);
+    });
+
+    it('should classify expired sessions', () => {
+      const original = requestError(401);
+      const error = classifyGitHubError(original);
+
+      expect(error).toBeInstanceOf(AuthenticationExpiredError);
+      expect(error?.cause).toBe(original);
+      expect(error?.retryable).toBe(false);
+    });
+
+    it('should detect missing scopes from the OAuth scope headers', () => {
+      const error = classifyGitHubError(
+        requestError(404, { 'x-accepted-oauth-scopes': 'repo', 'x-oauth-scopes': 'read:org' })
+      );
+
+      expect(error).toBeInstanceOf(MissingScopeError);
+      expect((error as MissingScopeError).requiredScopes).toEqual(['repo']);
+    });
+
+    it('should treat a 404 with a sufficient scope as not found', () => {
+      expect(
+        classifyGitHubError(
+          requestError(404, { 'x-accepted-oauth-scopes': 'repo', 'x-oauth-scopes': 'repo, gist' })
+        )
+      ).toBeInstanceOf(NotFoundError);
+      expect(classifyGitHubError(requestError(403))).toBeInstanceOf(AccessDeniedError);
+    });
+
+    it('should read the SSO authorization URL', () => {
+      const error = classifyGitHubError(
+        requestError(403, {
+          'x-github-sso': 'required; url=https://github.com/orgs/acme/sso?authorization_request=1',
+        })
+      );
+
+      expect(error).toBeInstanceOf(SsoRequiredError);
+      expect((error as SsoRequiredError).authorizationUrl).toBe(
+        'https://github.com/orgs/acme/sso?authorization_request=1'
+      );
+    });
+
+    it('should classify primary and secondary rate limits', () => {
+      const primary = classifyGitHubError(
+        requestError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1767225600' })
+      );
+      const secondary = classifyGitHubError(
+        requestError(403, {}, 'You have exceeded a secondary rate limit')
+      );
+
+      expect(primary).toBeInstanceOf(RateLimitError);
+      expect((primary as RateLimitError).resetAt).toBe(1767225600 * 1000);
+      expect(primary?.message).toContain('It resets at');
+      expect(secondary).toBeInstanceOf(RateLimitError);
+      expect(secondary?.retryable).toBe(true);
+    });
+
+    it('should list field errors of validation failures', () => {
+      const error = classifyGitHubError(
+        requestError(422, {}, 'Validation Failed', {
+          errors: [
+            { resource: 'Issue', field: 'title', code: 'missing_field' },
+            { resource: 'Label', field: 'name', code: 'already_exists' },
+            {
+              resource: 'Issue',
+              field: 'assignees',
+              code: 'invalid',
+              message: 'octo is not valid',
+            },
+          ],
+        })
+      );
+
+      expect(error).toBeInstanceOf(ValidationFailedError);
+      expect(error?.message).toBe(
+        'GitHub rejected the request: title is missing; name already exists; octo is not valid.'
+      );
+    });
+
+    it('should classify server errors', () => {
+      expect(classifyGitHubError(requestError(503))).toBeInstanceOf(ServerError);
+      expect(classifyGitHubError(requestError(400))).toBeUndefined();
+    });
+  });
+});
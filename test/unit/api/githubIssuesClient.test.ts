@@ -0,0 +1,662 @@
+import { GitHubIssuesClient, getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import * as vscode from 'vscode';
+
+// Mock vscode
+jest.mock('vscode');
+
+// Mock auth manager so the client receives our fake Octokit
+jest.mock('../../../src/auth/githubAuthManager', () => ({
+  getGitHubAuthManager: jest.fn(),
+}));
+
+describe('GitHubIssuesClient', () => {
+  let client: GitHubIssuesClient;
+  let mockOctokit: any;
+
+  const repo = { owner: 'octo', repo: 'bridge' };
+
+  const rawUser = {
+    login: 'octocat',
+    avatar_url: 'https://avatars.example/octocat',
+    html_url: 'https://github.com/octocat',
+  };
+
+  const rawMilestone = {
+    number: 3,
+    title: 'v1.0',
+    description: null,
+    state: 'open',
+    open_issues: 2,
+    closed_issues: 5,
+    html_url: 'https://github.com/octo/bridge/milestone/3',
+    due_on: '2026-12-01T00:00:00Z',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-02T00:00:00Z',
+    closed_at: null,
+  };
+
+  const rawIssue = {
+    number: 42,
+    title: 'Fix login',
+    body: null,
+    state: 'open',
+    state_reason: null,
+    labels: ['bug', { name: 'ui', color: 'ff0000', description: null }],
+    assignees: [rawUser],
+    user: rawUser,
+    milestone: rawMilestone,
+    comments: 1,
+    html_url: 'https://github.com/octo/bridge/issues/42',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-03T00:00:00Z',
+    closed_at: null,
+  };
+
+  const rawComment = {
+    id: 7,
+    body: 'Looks good',
+    user: rawUser,
+    html_url: 'https://github.com/octo/bridge/issues/42#issuecomment-7',
+    created_at: '2026-01-04T00:00:00Z',
+    updated_at: '2026-01-04T00:00:00Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // Reset singleton instance to prevent state leakage between tests
+    (GitHubIssuesClient as any).instance = undefined;
+
+    mockOctokit = {
+      paginate: jest.fn(),
+      rest: {
+        issues: {
+          listForRepo: jest.fn(),
+          get: jest.fn(),
+          create: jest.fn(),
+          update: jest.fn(),
+          listMilestones: jest.fn(),
+          getMilestone: jest.fn(),
+          createMilestone: jest.fn(),
+          updateMilestone: jest.fn(),
+          listLabelsForRepo: jest.fn(),
+          createLabel: jest.fn(),
+          addLabels: jest.fn(),
+          removeLabel: jest.fn(),
+          listAssignees: jest.fn(),
+          addAssignees: jest.fn(),
+          removeAssignees: jest.fn(),
+          listComments: jest.fn(),
+          createComment: jest.fn(),
+          listEventsForTimeline: jest.fn(),
+        },
+        pulls: {
+          list: jest.fn(),
+          create: jest.fn(),
+          requestReviewers: jest.fn(),
+        },
+        repos: {
+          get: jest.fn(),
+        },
+        search: {
+          issuesAndPullRequests: jest.fn(),
+        },
+      },
+      graphql: jest.fn(),
+    };
+
+    (getGitHubAuthManager as jest.Mock).mockReturnValue({
+      getOctokit: jest.fn(() => mockOctokit),
+      requestCapability: jest.fn().mockResolvedValue(true),
+    });
+
+    client = GitHubIssuesClient.getInstance();
+  });
+
+  describe('Singleton Pattern', () => {
+    it('should return same instance', () => {
+      const instance1 = GitHubIssuesClient.getInstance();
+      const instance2 = getGitHubIssuesClient();
+
+      expect(instance1).toBe(instance2);
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should throw when not authenticated', async () => {
+      (GitHubIssuesClient as any).instance = undefined;
+      (getGitHubAuthManager as jest.Mock).mockReturnValue({ getOctokit: jest.fn(() => undefined) });
+      const unauthenticated = GitHubIssuesClient.getInstance();
+
+      await expect(unauthenticated.listIssues(repo)).rejects.toThrow('Not authenticated');
+    });
+
+    it("should use the Octokit of the repository's account", async () => {
+      const getOctokit = jest.fn(() => mockOctokit);
+      (GitHubIssuesClient as any).instance = undefined;
+      (getGitHubAuthManager as jest.Mock).mockReturnValue({ getOctokit });
+      mockOctokit.rest.issues.get.mockResolvedValue({ data: rawIssue });
+
+      const enterpriseRepo = { ...repo, host: 'ghe.example.com' };
+      await GitHubIssuesClient.getInstance().getIssue(enterpriseRepo, 42);
+
+      expect(getOctokit).toHaveBeenCalledWith(enterpriseRepo);
+    });
+
+    it('should ask for the write capability and cancel when the user declines', async () => {
+      const requestCapability = jest.fn().mockResolvedValue(false);
+      (GitHubIssuesClient as any).instance = undefined;
+      (getGitHubAuthManager as jest.Mock).mockReturnValue({
+        getOctokit: jest.fn(() => mockOctokit),
+        requestCapability,
+      });
+      const readOnly = GitHubIssuesClient.getInstance();
+
+      await expect(readOnly.createComment(repo, 42, 'Hi')).rejects.toBeInstanceOf(
+        vscode.CancellationError
+      );
+      expect(requestCapability).toHaveBeenCalledWith('write', repo);
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+
+      mockOctokit.rest.issues.get.mockResolvedValue({ data: rawIssue });
+      await readOnly.getIssue(repo, 42);
+      expect(requestCapability).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Issues', () => {
+    it('should paginate issues and filter out pull requests', async () => {
+      mockOctokit.paginate.mockResolvedValue([
+        rawIssue,
+        { ...rawIssue, number: 43, pull_request: { url: 'https://api.github.com/pulls/43' } },
+      ]);
+
+      const issues = await client.listIssues(repo, { milestone: 3, labels: ['bug', 'ui'] });
+
+      expect(mockOctokit.paginate).toHaveBeenCalledWith(
+        mockOctokit.rest.issues.listForRepo,
+        expect.objectContaining({
+          owner: 'octo',
+          repo: 'bridge',
+          state: 'open',
+          milestone: '3',
+          labels: 'bug,ui',
+          per_page: 100,
+        })
+      );
+      expect(issues).toHaveLength(1);
+      expect(issues[0].number).toBe(42);
+    });
+
+    it('should map raw issue to domain type', async () => {
+      mockOctokit.rest.issues.get.mockResolvedValue({ data: rawIssue });
+
+      const issue = await client.getIssue(repo, 42);
+
+      expect(issue).toEqual({
+        number: 42,
+        title: 'Fix login',
+        body: '',
+        state: 'open',
+        stateReason: undefined,
+        labels: [
+          { name: 'bug', color: '' },
+          { name: 'ui', color: 'ff0000', description: undefined },
+        ],
+        assignees: [
+          {
+            login: 'octocat',
+            avatarUrl: 'https://avatars.example/octocat',
+            htmlUrl: 'https://github.com/octocat',
+          },
+        ],
+        author: {
+          login: 'octocat',
+          avatarUrl: 'https://avatars.example/octocat',
+          htmlUrl: 'https://github.com/octocat',
+        },
+        milestone: expect.objectContaining({ number: 3, title: 'v1.0', openIssues: 2 }),
+        comments: 1,
+        htmlUrl: 'https://github.com/octo/bridge/issues/42',
+        createdAt: '2026-01-01T00:00:00Z',
+        updatedAt: '2026-01-03T00:00:00Z',
+        closedAt: undefined,
+      });
+      expect(issue).not.toHaveProperty('html_url');
+    });
+
+    it('should search issues of the repository with qualifiers', async () => {
+      mockOctokit.rest.search.issuesAndPullRequests.mockResolvedValue({
+        data: { total_count: 1, items: [rawIssue] },
+      });
+
+      const issues = await client.searchIssues(repo, 'login label:bug assignee:@me');
+
+      expect(mockOctokit.rest.search.issuesAndPullRequests).toHaveBeenCalledWith({
+        q: 'repo:octo/bridge is:issue login label:bug assignee:@me',
+        per_page: 30,
+      });
+      expect(issues.map(issue => issue.number)).toEqual([42]);
+    });
+
+    it('should create issue', async () => {
+      mockOctokit.rest.issues.create.mockResolvedValue({ data: rawIssue });
+
+      const issue = await client.createIssue(repo, { title: 'Fix login', labels: ['bug'] });
+
+      expect(mockOctokit.rest.issues.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          owner: 'octo',
+          repo: 'bridge',
+          title: 'Fix login',
+          labels: ['bug'],
+        })
+      );
+      expect(issue.number).toBe(42);
+    });
+
+    it('should update issue and translate field names', async () => {
+      mockOctokit.rest.issues.update.mockResolvedValue({ data: { ...rawIssue, state: 'closed' } });
+
+      const issue = await client.updateIssue(repo, 42, {
+        state: 'closed',
+        stateReason: 'completed',
+        milestone: null,
+      });
+
+      expect(mockOctokit.rest.issues.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          issue_number: 42,
+          state: 'closed',
+          state_reason: 'completed',
+          milestone: null,
+        })
+      );
+      expect(issue.state).toBe('closed');
+    });
+  });
+
+  describe('Milestones', () => {
+    it('should list milestones with pagination', async () => {
+      mockOctokit.paginate.mockResolvedValue([rawMilestone]);
+
+      const milestones = await client.listMilestones(repo, { state: 'all' });
+
+      expect(mockOctokit.paginate).toHaveBeenCalledWith(
+        mockOctokit.rest.issues.listMilestones,
+        expect.objectContaining({ state: 'all', per_page: 100 })
+      );
+      expect(milestones[0]).toEqual(
+        expect.objectContaining({
+          number: 3,
+          title: 'v1.0',
+          description: undefined,
+          closedIssues: 5,
+          dueOn: '2026-12-01T00:00:00Z',
+        })
+      );
+    });
+
+    it('should send the ETag and report unchanged milestones', async () => {
+      mockOctokit.rest.issues.listMilestones.mockRejectedValue(
+        Object.assign(new Error('Not Modified'), { status: 304 })
+      );
+
+      const result = await client.listMilestonesIfModified(repo, '"abc"');
+
+      expect(result).toEqual({ modified: false });
+      expect(mockOctokit.rest.issues.listMilestones).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'all', headers: { 'if-none-match': '"abc"' } })
+      );
+    });
+
+    it('should return changed milestones with the new ETag', async () => {
+      mockOctokit.rest.issues.listMilestones.mockResolvedValue({
+        data: [rawMilestone],
+        headers: { etag: '"def"' },
+      });
+
+      const result = await client.listMilestonesIfModified(repo, '"abc"');
+
+      expect(result).toEqual({
+        modified: true,
+        data: [expect.objectContaining({ number: 3 })],
+        etag: '"def"',
+      });
+      expect(mockOctokit.paginate).not.toHaveBeenCalled();
+    });
+
+    it('should not keep an ETag for milestones spanning several pages', async () => {
+      mockOctokit.rest.issues.listMilestones.mockResolvedValue({
+        data: [rawMilestone],
+        headers: { etag: '"p1"', link: '<https://api.github.com/milestones?page=2>; rel="next"' },
+      });
+      mockOctokit.paginate.mockResolvedValue([rawMilestone, { ...rawMilestone, number: 4 }]);
+
+      const first = await client.listMilestonesIfModified(repo);
+      expect(first).toEqual({
+        modified: true,
+        data: [expect.objectContaining({ number: 3 }), expect.objectContaining({ number: 4 })],
+        etag: undefined,
+      });
+
+      // A change on page 2 only is still seen, since the next check is not conditional
+      mockOctokit.paginate.mockResolvedValue([rawMilestone, { ...rawMilestone, number: 5 }]);
+      const second = await client.listMilestonesIfModified(repo, first.modified ? first.etag : '');
+
+      expect(mockOctokit.rest.issues.listMilestones).toHaveBeenLastCalledWith(
+        expect.objectContaining({ headers: undefined })
+      );
+      expect(second.modified && second.data.map(milestone => milestone.number)).toEqual([3, 5]);
+    });
+
+    it('should get milestone', async () => {
+      mockOctokit.rest.issues.getMilestone.mockResolvedValue({ data: rawMilestone });
+
+      const milestone = await client.getMilestone(repo, 3);
+
+      expect(milestone.number).toBe(3);
+    });
+
+    it('should create and update milestones', async () => {
+      mockOctokit.rest.issues.createMilestone.mockResolvedValue({ data: rawMilestone });
+      mockOctokit.rest.issues.updateMilestone.mockResolvedValue({
+        data: { ...rawMilestone, state: 'closed' },
+      });
+
+      await client.createMilestone(repo, { title: 'v1.0', dueOn: '2026-12-01T00:00:00Z' });
+      const updated = await client.updateMilestone(repo, 3, { state: 'closed' });
+
+      expect(mockOctokit.rest.issues.createMilestone).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'v1.0', due_on: '2026-12-01T00:00:00Z' })
+      );
+      expect(updated.state).toBe('closed');
+    });
+  });
+
+  describe('Labels', () => {
+    it('should list labels', async () => {
+      mockOctokit.paginate.mockResolvedValue([
+        { name: 'bug', color: 'd73a4a', description: 'Bug' },
+      ]);
+
+      const labels = await client.listLabels(repo);
+
+      expect(labels).toEqual([{ name: 'bug', color: 'd73a4a', description: 'Bug' }]);
+    });
+
+    it('should fetch every page of labels when they changed', async () => {
+      mockOctokit.rest.issues.listLabelsForRepo.mockResolvedValue({
+        data: [{ name: 'bug', color: 'd73a4a', description: null }],
+        headers: { etag: '"v2"', link: '<https://api.github.com/labels?page=2>; rel="next"' },
+      });
+      mockOctokit.paginate.mockResolvedValue([
+        { name: 'bug', color: 'd73a4a', description: null },
+        { name: 'docs', color: '0075ca', description: null },
+      ]);
+
+      const result = await client.listLabelsIfModified(repo);
+
+      expect(result.modified && result.data.map(label => label.name)).toEqual(['bug', 'docs']);
+      expect(result.modified && result.etag).toBeUndefined();
+    });
+
+    it('should rethrow other errors of conditional requests', async () => {
+      mockOctokit.rest.issues.listLabelsForRepo.mockRejectedValue(
+        Object.assign(new Error('Server Error'), { status: 500 })
+      );
+
+      await expect(client.listLabelsIfModified(repo, '"v1"')).rejects.toThrow('Server Error');
+    });
+
+    it('should add and remove labels on an issue', async () => {
+      mockOctokit.rest.issues.addLabels.mockResolvedValue({
+        data: [{ name: 'bug', color: 'd73a4a', description: null }],
+      });
+      mockOctokit.rest.issues.removeLabel.mockResolvedValue({ data: [] });
+
+      const added = await client.addLabels(repo, 42, ['bug']);
+      const remaining = await client.removeLabel(repo, 42, 'bug');
+
+      expect(added[0].name).toBe('bug');
+      expect(remaining).toEqual([]);
+      expect(mockOctokit.rest.issues.removeLabel).toHaveBeenCalledWith(
+        expect.objectContaining({ issue_number: 42, name: 'bug' })
+      );
+    });
+  });
+
+  describe('Assignees', () => {
+    it('should list assignable users', async () => {
+      mockOctokit.paginate.mockResolvedValue([rawUser]);
+
+      const users = await client.listAssignees(repo);
+
+      expect(users[0].login).toBe('octocat');
+    });
+
+    it('should add assignees', async () => {
+      mockOctokit.rest.issues.addAssignees.mockResolvedValue({ data: rawIssue });
+
+      const issue = await client.addAssignees(repo, 42, ['octocat']);
+
+      expect(mockOctokit.rest.issues.addAssignees).toHaveBeenCalledWith(
+        expect.objectContaining({ issue_number: 42, assignees: ['octocat'] })
+      );
+      expect(issue.assignees[0].login).toBe('octocat');
+    });
+  });
+
+  describe('Comments', () => {
+    it('should list comments', async () => {
+      mockOctokit.paginate.mockResolvedValue([rawComment]);
+
+      const comments = await client.listComments(repo, 42);
+
+      expect(comments[0]).toEqual(
+        expect.objectContaining({ id: 7, body: 'Looks good', author: expect.anything() })
+      );
+    });
+
+    it('should create comment', async () => {
+      mockOctokit.rest.issues.createComment.mockResolvedValue({ data: rawComment });
+
+      const comment = await client.createComment(repo, 42, 'Looks good');
+
+      expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+        expect.objectContaining({ issue_number: 42, body: 'Looks good' })
+      );
+      expect(comment.id).toBe(7);
+    });
+  });
+
+  describe('Linked pull requests', () => {
+    it('should return pull requests that cross-reference the issue', async () => {
+      const source = (number: number, pullRequest: object | undefined) => ({
+        event: 'cross-referenced',
+        source: {
+          issue: {
+            number,
+            title: `PR ${number}`,
+            state: 'closed',
+            html_url: `https://github.com/octo/bridge/pull/${number}`,
+            repository_url: 'https://api.github.com/repos/octo/bridge',
+            pull_request: pullRequest,
+          },
+        },
+      });
+      mockOctokit.paginate.mockResolvedValue([
+        { event: 'labeled' },
+        source(7, { merged_at: '2026-01-03T00:00:00Z' }),
+        source(8, undefined),
+        source(7, { merged_at: '2026-01-03T00:00:00Z' }),
+      ]);
+
+      const pullRequests = await client.listLinkedPullRequests(repo, 42);
+
+      expect(mockOctokit.paginate).toHaveBeenCalledWith(
+        mockOctokit.rest.issues.listEventsForTimeline,
+        expect.objectContaining({ issue_number: 42 })
+      );
+      expect(pullRequests).toEqual([
+        {
+          number: 7,
+          title: 'PR 7',
+          state: 'closed',
+          merged: true,
+          htmlUrl: 'https://github.com/octo/bridge/pull/7',
+          repository: 'octo/bridge',
+        },
+      ]);
+    });
+
+    it('should get the rendered issue with reactions and its timeline', async () => {
+      mockOctokit.rest.issues.get.mockResolvedValue({
+        data: {
+          ...rawIssue,
+          body_html: '<p>Steps</p>',
+          reactions: { total_count: 3, '+1': 2, heart: 1, eyes: 0 },
+        },
+      });
+      mockOctokit.paginate.mockResolvedValue([
+        { ...rawComment, event: 'commented', body_html: '<p>Looks good</p>' },
+        {
+          event: 'labeled',
+          actor: rawUser,
+          created_at: '2026-01-05T00:00:00Z',
+          label: { name: 'bug', color: 'd73a4a' },
+        },
+        { event: 'subscribed', actor: rawUser, created_at: '2026-01-05T00:00:00Z' },
+        {
+          event: 'cross-referenced',
+          created_at: '2026-01-06T00:00:00Z',
+          source: {
+            issue: {
+              number: 50,
+              title: 'Related',
+              state: 'open',
+              html_url: 'https://github.com/octo/other/issues/50',
+              repository_url: 'https://api.github.com/repos/octo/other',
+            },
+          },
+        },
+      ]);
+
+      const detail = await client.getIssueDetail(repo, 42);
+
+      expect(mockOctokit.rest.issues.get).toHaveBeenCalledWith(
+        expect.objectContaining({ issue_number: 42, mediaType: { format: 'full' } })
+      );
+      expect(detail.issue.number).toBe(42);
+      expect(detail.bodyHtml).toBe('<p>Steps</p>');
+      expect(detail.reactions).toEqual({ '+1': 2, heart: 1 });
+      expect(detail.timeline).toEqual([
+        expect.objectContaining({
+          kind: 'comment',
+          bodyHtml: '<p>Looks good</p>',
+          comment: expect.objectContaining({ id: 7, body: 'Looks good' }),
+        }),
+        expect.objectContaining({
+          kind: 'event',
+          event: 'labeled',
+          actor: expect.objectContaining({ login: 'octocat' }),
+          label: { name: 'bug', color: 'd73a4a' },
+        }),
+        expect.objectContaining({
+          kind: 'event',
+          event: 'cross-referenced',
+          source: {
+            number: 50,
+            title: 'Related',
+            state: 'open',
+            isPullRequest: false,
+            htmlUrl: 'https://github.com/octo/other/issues/50',
+            repository: 'octo/other',
+          },
+        }),
+      ]);
+    });
+
+    it('should list branches linked to open issues', async () => {
+      mockOctokit.graphql.mockResolvedValue({
+        repository: {
+          issues: {
+            nodes: [
+              { number: 42, linkedBranches: { nodes: [{ ref: { name: 'login-fix' } }] } },
+              { number: 43, linkedBranches: { nodes: [{ ref: null }] } },
+            ],
+          },
+        },
+      });
+
+      const branches = await client.listLinkedBranches(repo);
+
+      expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.stringContaining('linkedBranches'), {
+        owner: 'octo',
+        repo: 'bridge',
+      });
+      expect(branches).toEqual([{ issueNumber: 42, branch: 'login-fix' }]);
+    });
+  });
+
+  describe('pull requests', () => {
+    const rawPullRequest = {
+      number: 7,
+      title: 'Fix login',
+      state: 'open',
+      draft: true,
+      html_url: 'https://github.com/octo/bridge/pull/7',
+      head: { ref: 'fix/42-fix-login' },
+      base: { ref: 'main' },
+    };
+
+    it('should open a pull request and map the response', async () => {
+      mockOctokit.rest.pulls.create.mockResolvedValue({ data: rawPullRequest });
+
+      const pullRequest = await client.createPullRequest(repo, {
+        title: 'Fix login',
+        body: 'Closes #42',
+        head: 'fix/42-fix-login',
+        base: 'main',
+        draft: true,
+      });
+
+      expect(mockOctokit.rest.pulls.create).toHaveBeenCalledWith(
+        expect.objectContaining({ owner: 'octo', repo: 'bridge', head: 'fix/42-fix-login' })
+      );
+      expect(pullRequest).toEqual({
+        number: 7,
+        title: 'Fix login',
+        state: 'open',
+        draft: true,
+        htmlUrl: 'https://github.com/octo/bridge/pull/7',
+        head: 'fix/42-fix-login',
+        base: 'main',
+      });
+    });
+
+    it('should look up open pull requests by owner-qualified head', async () => {
+      mockOctokit.rest.pulls.list.mockResolvedValue({ data: [] });
+
+      const pullRequest = await client.findOpenPullRequest(repo, 'fix/42-fix-login');
+
+      expect(pullRequest).toBeUndefined();
+      expect(mockOctokit.rest.pulls.list).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'open', head: 'octo:fix/42-fix-login' })
+      );
+    });
+
+    it('should skip review requests without reviewers', async () => {
+      await client.requestReviewers(repo, 7, { reviewers: [], teamReviewers: [] });
+
+      expect(mockOctokit.rest.pulls.requestReviewers).not.toHaveBeenCalled();
+    });
+
+    it('should get the default branch', async () => {
+      mockOctokit.rest.repos.get.mockResolvedValue({ data: { default_branch: 'trunk' } });
+
+      expect(await client.getDefaultBranch(repo)).toBe('trunk');
+    });
+  });
+});
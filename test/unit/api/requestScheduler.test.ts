@@ -0,0 +1,280 @@
+import {
+  RequestScheduler,
+  formatRateLimit,
+  getRequestScheduler,
+} from '../../../src/api/requestScheduler';
+
+jest.mock('vscode');
+
+describe('RequestScheduler', () => {
+  const now = new Date('2026-03-01T12:00:00Z').getTime();
+  const resetSeconds = now / 1000 + 3600;
+  let scheduler: RequestScheduler;
+
+  const response = (headers: Record<string, string> = {}) => ({ status: 200, headers, data: {} });
+  const quota = (remaining: number, extra: Record<string, string> = {}) => ({
+    'x-ratelimit-limit': '5000',
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-used': String(5000 - remaining),
+    'x-ratelimit-reset': String(resetSeconds),
+    'x-ratelimit-resource': 'core',
+    ...extra,
+  });
+  const httpError = (status: number, headers: Record<string, string> = {}, message = 'Failed') =>
+    Object.assign(new Error(message), { status, response: { status, headers } });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    (RequestScheduler as any).instance = undefined;
+    scheduler = getRequestScheduler();
+  });
+
+  afterEach(() => {
+    scheduler.dispose();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should return same instance', () => {
+    expect(RequestScheduler.getInstance()).toBe(scheduler);
+  });
+
+  it('should record the quota from response headers', async () => {
+    const listener = jest.fn();
+    scheduler.onDidChangeRateLimit(listener);
+    const send = jest.fn().mockResolvedValue(response(quota(4990)));
+
+    await scheduler.schedule(send);
+
+    expect(scheduler.getRateLimit()).toEqual({
+      host: 'api.github.com',
+      resource: 'core',
+      limit: 5000,
+      remaining: 4990,
+      used: 10,
+      resetAt: resetSeconds * 1000,
+    });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ remaining: 4990 }));
+  });
+
+  it('should retry server errors with jittered exponential backoff', async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(502))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue(response());
+
+    const result = scheduler.schedule(send);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // 1s backoff with 0.5 jitter waits 750ms
+    await jest.advanceTimersByTimeAsync(749);
+    expect(send).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    // Then 2s backoff waits 1500ms
+    await jest.advanceTimersByTimeAsync(1500);
+    await expect(result).resolves.toEqual(response());
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    const send = jest.fn().mockRejectedValue(httpError(500));
+
+    const result = scheduler.schedule(send);
+    const assertion = expect(result).rejects.toThrow('Failed');
+    await jest.advanceTimersByTimeAsync(60_000);
+
+    await assertion;
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+
+  it('should retry network failures of reads but not of writes', async () => {
+    const networkError = () =>
+      Object.assign(new Error('getaddrinfo ENOTFOUND api.github.com'), { code: 'ENOTFOUND' });
+    const read = jest.fn().mockRejectedValueOnce(networkError()).mockResolvedValue(response());
+    const write = jest.fn().mockRejectedValue(networkError());
+
+    const readResult = scheduler.schedule(read, 'GET');
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(readResult).resolves.toBeDefined();
+
+    await expect(scheduler.schedule(write, 'POST')).rejects.toThrow('ENOTFOUND');
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry client errors', async () => {
+    const send = jest.fn().mockRejectedValue(httpError(404));
+
+    await expect(scheduler.schedule(send)).rejects.toThrow('Failed');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait retry-after on secondary rate limits and hold other requests', async () => {
+    const limited = jest
+      .fn()
+      .mockRejectedValueOnce(
+        httpError(403, { 'retry-after': '30' }, 'You have exceeded a secondary rate limit')
+      )
+      .mockResolvedValue(response());
+    const other = jest.fn().mockResolvedValue(response());
+
+    const first = scheduler.schedule(limited, 'POST');
+    await jest.advanceTimersByTimeAsync(0);
+    const second = scheduler.schedule(other);
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(other).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, second]);
+    expect(limited).toHaveBeenCalledTimes(2);
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait a minute on secondary rate limits without retry-after', async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(403, {}, 'You have exceeded a secondary rate limit'))
+      .mockResolvedValue(response());
+
+    const result = scheduler.schedule(send);
+    await jest.advanceTimersByTimeAsync(59_999);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await result;
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail fast when the primary quota resets too late', async () => {
+    const send = jest.fn().mockRejectedValue(httpError(403, quota(0), 'API rate limit exceeded'));
+
+    await expect(scheduler.schedule(send)).rejects.toThrow('API rate limit exceeded');
+
+    const next = jest.fn().mockResolvedValue(response());
+    await expect(scheduler.schedule(next)).rejects.toThrow(
+      /GitHub API rate limit exceeded\. It resets at/
+    );
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should not hold back requests of other quotas when one is exhausted', async () => {
+    const octokit = { hook: { wrap: jest.fn() } };
+    scheduler.install(octokit as any);
+    const [, wrapper] = octokit.hook.wrap.mock.calls[0];
+    const baseUrl = 'https://api.github.com';
+
+    const search = jest
+      .fn()
+      .mockResolvedValue(response(quota(0, { 'x-ratelimit-resource': 'search' })));
+    await wrapper(search, { method: 'GET', baseUrl, url: '/search/issues' });
+
+    const core = jest.fn().mockResolvedValue(response(quota(4000)));
+    await wrapper(core, { method: 'GET', baseUrl, url: '/repos/{owner}/{repo}/issues' });
+    expect(core).toHaveBeenCalled();
+
+    const nextSearch = jest.fn().mockResolvedValue(response());
+    await expect(
+      wrapper(nextSearch, { method: 'GET', baseUrl, url: '/search/issues' })
+    ).rejects.toThrow(/rate limit exceeded/);
+    expect(nextSearch).not.toHaveBeenCalled();
+  });
+
+  it('should keep the quotas of each host apart', async () => {
+    const octokit = { hook: { wrap: jest.fn() } };
+    scheduler.install(octokit as any);
+    const [, wrapper] = octokit.hook.wrap.mock.calls[0];
+
+    await wrapper(jest.fn().mockResolvedValue(response(quota(0))), {
+      method: 'GET',
+      baseUrl: 'https://github.example.com/api/v3',
+      url: '/repos/{owner}/{repo}/issues',
+    });
+    const dotcom = jest.fn().mockResolvedValue(response(quota(4000)));
+    await wrapper(dotcom, {
+      method: 'GET',
+      baseUrl: 'https://api.github.com',
+      url: '/repos/{owner}/{repo}/issues',
+    });
+
+    expect(dotcom).toHaveBeenCalled();
+    expect(scheduler.getRateLimit()?.remaining).toBe(4000);
+    expect(scheduler.getRateLimit('core', 'github.example.com')?.remaining).toBe(0);
+  });
+
+  it('should not retry plain forbidden errors', async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValue(httpError(403, quota(4000), 'Resource not accessible'));
+
+    await expect(scheduler.schedule(send)).rejects.toThrow('Resource not accessible');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should limit the number of concurrent requests', async () => {
+    const pending: (() => void)[] = [];
+    const send = jest.fn(
+      () =>
+        new Promise<ReturnType<typeof response>>(resolve => {
+          pending.push(() => resolve(response()));
+        })
+    );
+
+    const results = Array.from({ length: 6 }, () => scheduler.schedule(send));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(4);
+
+    pending.shift()?.();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(5);
+
+    while (pending.length > 0) {
+      pending.shift()?.();
+      await jest.advanceTimersByTimeAsync(0);
+    }
+    await Promise.all(results);
+    expect(send).toHaveBeenCalledTimes(6);
+  });
+
+  it('should space out mutations', async () => {
+    const send = jest.fn().mockResolvedValue(response());
+
+    const first = scheduler.schedule(send, 'POST');
+    const second = scheduler.schedule(send, 'PATCH');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, second]);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should route Octokit requests through the scheduler', async () => {
+    const octokit = { hook: { wrap: jest.fn() } };
+    scheduler.install(octokit as any);
+
+    const [name, wrapper] = octokit.hook.wrap.mock.calls[0];
+    const request = jest.fn().mockResolvedValue(response(quota(100)));
+    await wrapper(request, { method: 'GET', url: '/repos/{owner}/{repo}/issues' });
+
+    expect(name).toBe('request');
+    expect(request).toHaveBeenCalled();
+    expect(scheduler.getRateLimit()?.remaining).toBe(100);
+  });
+
+  it('should format quotas', () => {
+    expect(
+      formatRateLimit({
+        host: 'api.github.com',
+        resource: 'core',
+        limit: 5000,
+        remaining: 42,
+        used: 4958,
+        resetAt: now,
+      })
+    ).toMatch(/^core: 42\/5000 requests left, resets at /);
+  });
+});
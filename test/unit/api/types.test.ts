@@ -0,0 +1,15 @@
+import { milestoneProgress } from '../../../src/api/types';
+import { makeMilestone } from '../../fixtures/issues';
+
+describe('types', () => {
+  describe('milestoneProgress', () => {
+    it('should round the share of closed issues to a whole percentage', () => {
+      expect(milestoneProgress(makeMilestone(1, { openIssues: 2, closedIssues: 1 }))).toBe(33);
+      expect(milestoneProgress(makeMilestone(1, { openIssues: 0, closedIssues: 4 }))).toBe(100);
+    });
+
+    it('should report 0% for milestones without issues', () => {
+      expect(milestoneProgress(makeMilestone())).toBe(0);
+    });
+  });
+});
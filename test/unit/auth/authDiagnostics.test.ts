@@ -0,0 +1,168 @@
+import { diagnoseAuthentication, formatAuthDiagnosis } from '../../../src/auth/authDiagnostics';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+
+jest.mock('vscode');
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+
+describe('authDiagnostics', () => {
+  const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' };
+  const account = { id: '1', label: 'octocat' };
+  let mockAuth: any;
+  let octokit: any;
+
+  function requestError(status: number, headers: Record<string, string>): Error {
+    return Object.assign(new Error(`HTTP ${status}`), { status, response: { headers } });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    octokit = {
+      rest: {
+        users: {
+          getAuthenticated: jest.fn().mockResolvedValue({
+            data: { login: 'octocat' },
+            headers: {
+              'x-oauth-scopes': 'public_repo, read:org',
+              'github-authentication-token-expiration': '2099-01-01 00:00:00 UTC',
+            },
+          }),
+        },
+        orgs: {
+          listForAuthenticatedUser: jest.fn().mockResolvedValue({
+            data: [{ login: 'octo', id: 1 }],
+            headers: { 'x-github-sso': 'partial-results; organizations=21955855,20582480' },
+          }),
+        },
+        repos: {
+          get: jest.fn().mockResolvedValue({
+            data: { private: false, permissions: { push: true } },
+          }),
+        },
+        rateLimit: {
+          get: jest.fn().mockResolvedValue({
+            data: {
+              resources: {
+                core: { limit: 5000, remaining: 4990, used: 10, reset: 1700000000 },
+                search: { limit: 30, remaining: 1, used: 29, reset: 1700000000 },
+                integration_manifest: { limit: 5000, remaining: 5000, used: 0, reset: 0 },
+              },
+            },
+          }),
+        },
+      },
+    };
+    mockAuth = {
+      isAuthenticated: jest.fn().mockResolvedValue(true),
+      getOctokit: jest.fn(() => octokit),
+      getSessionStatus: jest.fn(() => ({
+        host: 'github.com',
+        authProviderId: 'github',
+        account,
+        signedOut: false,
+        requestedScopes: ['public_repo'],
+      })),
+    };
+    (getGitHubAuthManager as jest.Mock).mockReturnValue(mockAuth);
+    (getRepositoryService as jest.Mock).mockReturnValue({
+      getCurrentRepository: jest.fn(() => repository),
+    });
+  });
+
+  function findCheck(checks: { name: string }[], name: string): any {
+    return checks.find(check => check.name === name);
+  }
+
+  it('should validate the token and report scopes, expiry, organizations and rate limits', async () => {
+    const { checks } = await diagnoseAuthentication();
+
+    expect(mockAuth.isAuthenticated).toHaveBeenCalledWith(repository);
+    expect(findCheck(checks, 'Session')).toEqual(
+      expect.objectContaining({ status: 'ok', detail: expect.stringContaining('@octocat') })
+    );
+    expect(findCheck(checks, 'Token').status).toBe('ok');
+    expect(findCheck(checks, 'Scopes').detail).toBe(
+      'Granted: public_repo, read:org (requested: public_repo).'
+    );
+    expect(findCheck(checks, 'Token expiry')).toEqual(
+      expect.objectContaining({ status: 'ok', detail: 'Expires 2099-01-01T00:00:00.000Z.' })
+    );
+    expect(findCheck(checks, 'Organization octo').status).toBe('ok');
+    expect(findCheck(checks, 'Organization #21955855').status).toBe('warning');
+    expect(findCheck(checks, 'Organization #20582480').status).toBe('warning');
+    expect(findCheck(checks, 'Repository octo/bridge').detail).toBe(
+      'Read and write access to this public repository.'
+    );
+    expect(findCheck(checks, 'Rate limit (core)').status).toBe('ok');
+    expect(findCheck(checks, 'Rate limit (search)').status).toBe('warning');
+    expect(findCheck(checks, 'Rate limit (integration_manifest)')).toBeUndefined();
+  });
+
+  it('should only check the session when not signed in', async () => {
+    mockAuth.getSessionStatus.mockReturnValue({
+      host: 'github.com',
+      authProviderId: 'github',
+      signedOut: true,
+      requestedScopes: [],
+    });
+
+    const { checks } = await diagnoseAuthentication();
+
+    expect(checks).toEqual([expect.objectContaining({ name: 'Session', status: 'warning' })]);
+    expect(octokit.rest.users.getAuthenticated).not.toHaveBeenCalled();
+  });
+
+  it('should report a rejected token without failing', async () => {
+    octokit.rest.users.getAuthenticated.mockRejectedValue(requestError(401, {}));
+
+    const { checks } = await diagnoseAuthentication();
+
+    expect(findCheck(checks, 'Token').status).toBe('error');
+    expect(findCheck(checks, 'Scopes')).toBeUndefined();
+    expect(findCheck(checks, 'Rate limit (core)')).toBeDefined();
+  });
+
+  it('should point to the SSO authorization of a repository', async () => {
+    octokit.rest.repos.get.mockRejectedValue(
+      requestError(403, { 'x-github-sso': 'required; url=https://github.com/orgs/octo/sso?x=1' })
+    );
+
+    const { checks } = await diagnoseAuthentication();
+
+    expect(findCheck(checks, 'Repository octo/bridge')).toEqual(
+      expect.objectContaining({
+        status: 'error',
+        detail: expect.stringContaining('https://github.com/orgs/octo/sso?x=1'),
+      })
+    );
+  });
+
+  it('should warn about tokens that expire soon', async () => {
+    const soon = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    octokit.rest.users.getAuthenticated.mockResolvedValue({
+      data: { login: 'octocat' },
+      headers: {
+        'github-authentication-token-expiration': soon.toISOString().replace('T', ' '),
+      },
+    });
+
+    const { checks } = await diagnoseAuthentication();
+
+    expect(findCheck(checks, 'Token expiry').status).toBe('warning');
+    expect(findCheck(checks, 'Scopes').detail).toContain('Not reported');
+  });
+
+  it('should format the diagnosis as a Markdown table', async () => {
+    const diagnosis = await diagnoseAuthentication();
+
+    const report = formatAuthDiagnosis(diagnosis);
+
+    expect(report).toContain('# GitHub Authentication Diagnosis');
+    expect(report).toContain('- Account: @octocat');
+    expect(report).toContain('- Repository: octo/bridge');
+    expect(report).toContain('| Token | ✅ | Valid for @octocat. |');
+    expect(report).toContain('| Organization #21955855 | ⚠️ |');
+  });
+});
@@ -1,4 +1,6 @@
 import { GitHubAuthManager, getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { Octokit } from '@octokit/rest';
+import { getRepositoryService } from '../../../src/git/repositoryService';
 import * as vscode from 'vscode';
 
 // Mock vscode
@@ -10,6 +12,7 @@ jest.mock('@octokit/rest', () => {
     Octokit: jest.fn().mockImplementation(() => ({
       rest: {},
       auth: jest.fn(),
+      hook: { wrap: jest.fn(), after: jest.fn() },
     })),
   };
 });
@@ -68,7 +71,7 @@ describe('GitHubAuthManager', () => {
       expect(result).toBe(true);
       expect(mockAuthentication.getSession).toHaveBeenCalledWith(
         'github',
-        ['repo', 'read:org'],
+        [],
         { createIfNone: true }
       );
       // Octokit should be created with the token
@@ -76,6 +79,17 @@ describe('GitHubAuthManager', () => {
       expect(octokit).toBeDefined();
     });
 
+    it('should route requests through the rate-limit aware scheduler', async () => {
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(mockSession);
+
+      await authManager.authenticate();
+
+      expect(authManager.getOctokit()?.hook.wrap).toHaveBeenCalledWith(
+        'request',
+        expect.any(Function)
+      );
+    });
+
     it('should return false when user cancels authentication', async () => {
       (mockAuthentication.getSession as jest.Mock).mockResolvedValue(null);
 
@@ -113,7 +127,7 @@ describe('GitHubAuthManager', () => {
       expect(result).toBe(true);
       expect(mockAuthentication.getSession).toHaveBeenCalledWith(
         'github',
-        ['repo', 'read:org'],
+        [],
         { createIfNone: false, silent: true }
       );
     });
@@ -256,11 +270,94 @@ describe('GitHubAuthManager', () => {
     });
   });
 
+  describe('Signing out', () => {
+    let state: Record<string, unknown>;
+
+    beforeEach(() => {
+      state = {};
+      const memento = {
+        get: jest.fn((key: string, defaultValue?: unknown) => state[key] ?? defaultValue),
+        update: jest.fn(async (key: string, value: unknown) => {
+          state[key] = value;
+        }),
+      };
+      authManager.initialize({ workspaceState: memento, globalState: memento } as any);
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(mockSession);
+    });
+
+    it('should not pick the session up silently after logout', async () => {
+      await authManager.authenticate();
+      await authManager.logout();
+      (mockAuthentication.getSession as jest.Mock).mockClear();
+
+      expect(await authManager.isAuthenticated()).toBe(false);
+      expect(mockAuthentication.getSession).not.toHaveBeenCalled();
+      expect(state['gitissueBridge.signedOutHosts']).toEqual(['github.com']);
+    });
+
+    it('should remember the sign-out across restarts', async () => {
+      await authManager.logout();
+
+      (GitHubAuthManager as any).instance = undefined;
+      const restarted = GitHubAuthManager.getInstance();
+      restarted.initialize({
+        workspaceState: {},
+        globalState: { get: () => state['gitissueBridge.signedOutHosts'] },
+      } as any);
+
+      expect(await restarted.isAuthenticated()).toBe(false);
+      expect(restarted.getSessionStatus().signedOut).toBe(true);
+    });
+
+    it('should let the user pick an account when signing in again', async () => {
+      await authManager.logout();
+
+      const result = await authManager.authenticate();
+
+      expect(result).toBe(true);
+      expect(mockAuthentication.getSession).toHaveBeenCalledWith('github', [], {
+        createIfNone: true,
+        clearSessionPreference: true,
+      });
+      expect(state['gitissueBridge.signedOutHosts']).toEqual([]);
+      expect(await authManager.isAuthenticated()).toBe(true);
+    });
+
+    it('should record failed session refreshes for diagnostics', async () => {
+      (mockAuthentication.getSession as jest.Mock).mockRejectedValue(new Error('Keychain locked'));
+      const onDidChangeSessions = (mockAuthentication.onDidChangeSessions as jest.Mock).mock
+        .calls[0][0];
+
+      await onDidChangeSessions({ provider: { id: 'github' } });
+
+      expect(authManager.getSessionStatus()).toEqual(
+        expect.objectContaining({
+          host: 'github.com',
+          account: undefined,
+          signedOut: false,
+          lastRefreshError: 'Keychain locked',
+        })
+      );
+    });
+  });
+
   describe('Session change handling', () => {
     it('should register session change listener', () => {
       expect(mockAuthentication.onDidChangeSessions).toHaveBeenCalled();
     });
 
+    it('should notify listeners on authenticate and logout', async () => {
+      const listener = jest.fn();
+      authManager.onDidChangeSession(listener);
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(mockSession);
+
+      await authManager.authenticate();
+      await authManager.logout();
+
+      expect(listener).toHaveBeenNthCalledWith(1, mockSession);
+      expect(listener).toHaveBeenNthCalledWith(2, undefined);
+    });
+
     it('should have all required methods', () => {
       expect(typeof authManager.authenticate).toBe('function');
       expect(typeof authManager.isAuthenticated).toBe('function');
@@ -271,6 +368,273 @@ describe('GitHubAuthManager', () => {
     });
   });
 
+  describe('GitHub Enterprise', () => {
+    const enterpriseConfig = (uri: string) => {
+      const update = jest.fn().mockResolvedValue(undefined);
+      (vscode.workspace.getConfiguration as jest.Mock).mockImplementation((section?: string) => ({
+        get: jest.fn((key: string, defaultValue: unknown) =>
+          section === 'github-enterprise' && key === 'uri' ? uri : defaultValue
+        ),
+        update,
+      }));
+      return update;
+    };
+
+    afterEach(() => {
+      (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+        get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+      }));
+    });
+
+    it('should sign in with the github-enterprise provider and its API base URL', async () => {
+      enterpriseConfig('https://ghe.example.com');
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(mockSession);
+
+      const result = await authManager.authenticate('ghe.example.com');
+
+      expect(result).toBe(true);
+      expect(mockAuthentication.getSession).toHaveBeenCalledWith(
+        'github-enterprise',
+        [],
+        { createIfNone: true }
+      );
+      expect(Octokit).toHaveBeenLastCalledWith({
+        auth: mockSession.accessToken,
+        baseUrl: 'https://ghe.example.com/api/v3',
+      });
+      expect(authManager.getSignedInHosts()).toEqual(['ghe.example.com']);
+    });
+
+    it('should keep separate sessions per host', async () => {
+      enterpriseConfig('https://ghe.example.com');
+      const enterpriseSession = { ...mockSession, account: { id: 'e-1', label: 'corp-user' } };
+      (mockAuthentication.getSession as jest.Mock)
+        .mockResolvedValueOnce(mockSession)
+        .mockResolvedValueOnce(enterpriseSession);
+
+      await authManager.authenticate('github.com');
+      await authManager.authenticate('ghe.example.com');
+
+      expect(await authManager.getUsername('github.com')).toBe('testuser');
+      expect(await authManager.getUsername('ghe.example.com')).toBe('corp-user');
+      expect(authManager.getOctokit('github.com')).not.toBe(
+        authManager.getOctokit('ghe.example.com')
+      );
+    });
+
+    it('should configure the enterprise sign-in URI on first interactive sign-in', async () => {
+      const update = enterpriseConfig('');
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(mockSession);
+
+      await authManager.authenticate('ghe.example.com');
+
+      expect(update).toHaveBeenCalledWith(
+        'uri',
+        'https://ghe.example.com',
+        vscode.ConfigurationTarget.Global
+      );
+    });
+
+    it('should not check silently for a host the enterprise sign-in is not set up for', async () => {
+      enterpriseConfig('https://other.example.com');
+
+      expect(await authManager.isAuthenticated('ghe.example.com')).toBe(false);
+      expect(mockAuthentication.getSession).not.toHaveBeenCalled();
+    });
+
+    it('should pass clearSessionPreference when switching accounts', async () => {
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(mockSession);
+
+      await authManager.authenticate('github.com', true);
+
+      expect(mockAuthentication.getSession).toHaveBeenCalledWith('github', [], {
+        createIfNone: true,
+        clearSessionPreference: true,
+      });
+    });
+  });
+
+  describe('Multiple accounts', () => {
+    const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' } as any;
+    const otherRepository = { host: 'github.com', owner: 'octo', repo: 'docs' } as any;
+    const workAccount = { id: 'user-456', label: 'work-user' };
+    const workSession = { ...mockSession, accessToken: 'gho_work', account: workAccount };
+    let state: Record<string, unknown>;
+    let spies: jest.SpyInstance[];
+
+    beforeEach(() => {
+      state = {};
+      const memento = {
+        get: jest.fn((key: string, defaultValue?: unknown) => state[key] ?? defaultValue),
+        update: jest.fn(async (key: string, value: unknown) => {
+          state[key] = value;
+        }),
+      };
+      authManager.initialize({ workspaceState: memento, globalState: memento } as any);
+      spies = [
+        jest.spyOn(getRepositoryService(), 'getCurrentRepository').mockReturnValue(repository),
+        jest.spyOn(getRepositoryService(), 'getRepositories').mockReturnValue([repository]),
+      ];
+    });
+
+    afterEach(() => {
+      spies.forEach(spy => spy.mockRestore());
+      (mockAuthentication.getAccounts as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should remember the account picked for the current repository', async () => {
+      (mockAuthentication.getAccounts as jest.Mock).mockResolvedValue([
+        mockSession.account,
+        workAccount,
+      ]);
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(workSession);
+      (mockWindow.showQuickPick as jest.Mock).mockImplementation(async (items: any[]) =>
+        items.find(item => item.account?.id === workAccount.id)
+      );
+
+      const result = await authManager.switchAccount();
+
+      expect(result).toBe(true);
+      expect(mockAuthentication.getSession).toHaveBeenCalledWith('github', [], {
+        createIfNone: true,
+        account: workAccount,
+      });
+      expect(state['gitissueBridge.repositoryAccounts']).toEqual({
+        'github.com/octo/bridge': workAccount,
+      });
+      expect(authManager.getAccount()).toEqual(workAccount);
+      // Other repositories keep using the default account
+      expect(authManager.getAccount(otherRepository)).toBeUndefined();
+    });
+
+    it('should offer signing in with another account for every host', async () => {
+      await authManager.switchAccount();
+
+      const items = (mockWindow.showQuickPick as jest.Mock).mock.calls[0][0];
+      expect(items).toEqual([
+        expect.objectContaining({ label: 'github.com', kind: vscode.QuickPickItemKind.Separator }),
+        expect.objectContaining({ label: '$(add) Sign in with another account…' }),
+      ]);
+    });
+
+    it('should request the remembered account of a repository', async () => {
+      state['gitissueBridge.repositoryAccounts'] = { 'github.com/octo/bridge': workAccount };
+      (mockAuthentication.getSession as jest.Mock).mockImplementation(
+        async (_provider: string, _scopes: string[], options: any) =>
+          options.account?.id === workAccount.id ? workSession : mockSession
+      );
+
+      await authManager.isAuthenticated(repository);
+      await authManager.isAuthenticated(otherRepository);
+
+      expect(mockAuthentication.getSession).toHaveBeenCalledWith('github', [], {
+        createIfNone: false,
+        silent: true,
+        account: workAccount,
+      });
+      expect(await authManager.getUsername(repository)).toBe('work-user');
+      expect(await authManager.getUsername(otherRepository)).toBe('testuser');
+      expect(authManager.getOctokit(repository)).not.toBe(authManager.getOctokit(otherRepository));
+    });
+
+    it('should forget the session when the remembered account signed out', async () => {
+      state['gitissueBridge.repositoryAccounts'] = { 'github.com/octo/bridge': workAccount };
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValueOnce(workSession);
+      await authManager.isAuthenticated(repository);
+
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(undefined);
+
+      expect(await authManager.isAuthenticated(repository)).toBe(false);
+      expect(authManager.getOctokit(repository)).toBeUndefined();
+    });
+  });
+
+  describe('Scope escalation', () => {
+    const readOnlySession = { ...mockSession, scopes: [] };
+    let state: Record<string, unknown>;
+
+    beforeEach(() => {
+      state = {};
+      const memento = {
+        get: jest.fn((key: string) => state[key]),
+        update: jest.fn(async (key: string, value: unknown) => {
+          state[key] = value;
+        }),
+      };
+      authManager.initialize({ workspaceState: memento, globalState: memento } as any);
+    });
+
+    it('should find sessions that earlier versions created with the legacy scopes', async () => {
+      (mockAuthentication.getSession as jest.Mock).mockImplementation(
+        async (_provider: string, scopes: string[]) => (scopes.length > 0 ? mockSession : undefined)
+      );
+
+      expect(await authManager.isAuthenticated('github.com')).toBe(true);
+
+      expect(mockAuthentication.getSession).toHaveBeenLastCalledWith(
+        'github',
+        ['read:org', 'repo'],
+        { createIfNone: false, silent: true }
+      );
+      expect(state['gitissueBridge.requestedScopes']).toEqual({
+        'github.com': ['read:org', 'repo'],
+      });
+    });
+
+    it('should not prompt when the granted scopes cover the capability', async () => {
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(mockSession);
+      await authManager.authenticate('github.com');
+
+      expect(await authManager.requestCapability('write', 'github.com')).toBe(true);
+      expect(mockWindow.showInformationMessage).not.toHaveBeenCalled();
+    });
+
+    it('should explain and request missing scopes for the same account', async () => {
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValueOnce(readOnlySession);
+      await authManager.authenticate('github.com');
+      (mockWindow.showInformationMessage as jest.Mock).mockResolvedValue('Grant Access');
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue({
+        ...mockSession,
+        accessToken: 'gho_upgraded',
+        scopes: ['public_repo'],
+      });
+
+      const granted = await authManager.requestCapability('write', 'github.com');
+
+      expect(granted).toBe(true);
+      expect((mockWindow.showInformationMessage as jest.Mock).mock.calls[0][0]).toMatch(
+        /needs the public_repo scope on github\.com to create and update issues/
+      );
+      expect(mockAuthentication.getSession).toHaveBeenLastCalledWith('github', ['public_repo'], {
+        createIfNone: true,
+        account: mockSession.account,
+      });
+      expect(state['gitissueBridge.requestedScopes']).toEqual({ 'github.com': ['public_repo'] });
+      expect(authManager.getGrantedScopes('github.com')).toEqual(['public_repo']);
+    });
+
+    it('should not request scopes the user declined', async () => {
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(readOnlySession);
+      await authManager.authenticate('github.com');
+      (mockWindow.showInformationMessage as jest.Mock).mockResolvedValue(undefined);
+
+      expect(await authManager.requestCapability('organizations', 'github.com')).toBe(false);
+      expect(mockAuthentication.getSession).toHaveBeenCalledTimes(1);
+    });
+
+    it('should trust the x-oauth-scopes header over the requested scopes', async () => {
+      (mockAuthentication.getSession as jest.Mock).mockResolvedValue(readOnlySession);
+      await authManager.authenticate('github.com');
+
+      const octokit = authManager.getOctokit('github.com') as any;
+      const [name, callback] = octokit.hook.after.mock.calls[0];
+      callback({ headers: { 'x-oauth-scopes': 'repo, read:org' } });
+
+      expect(name).toBe('request');
+      expect(authManager.getGrantedScopes('github.com')).toEqual(['repo', 'read:org']);
+    });
+  });
+
   describe('Error scenarios', () => {
     it('should handle network errors during authentication', async () => {
       const networkError = new Error('Network error');
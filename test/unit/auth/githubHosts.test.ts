@@ -0,0 +1,81 @@
+import { getApiHost, getEnterpriseUrl, resolveGitHubHost } from '../../../src/auth/githubHosts';
+import * as vscode from 'vscode';
+
+jest.mock('vscode');
+
+describe('githubHosts', () => {
+  const setEnterpriseUrl = (value: string) => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === 'enterpriseUrl' ? value : defaultValue
+      ),
+    }));
+  };
+
+  beforeEach(() => {
+    setEnterpriseUrl('');
+  });
+
+  describe('getEnterpriseUrl', () => {
+    it('should return undefined when not configured', () => {
+      expect(getEnterpriseUrl()).toBeUndefined();
+    });
+
+    it('should trim whitespace and trailing slashes', () => {
+      setEnterpriseUrl(' https://ghe.example.com/ ');
+
+      expect(getEnterpriseUrl()).toBe('https://ghe.example.com');
+    });
+  });
+
+  describe('resolveGitHubHost', () => {
+    it('should use the github provider and api.github.com for github.com', () => {
+      expect(resolveGitHubHost('github.com')).toEqual({
+        host: 'github.com',
+        authProviderId: 'github',
+        apiBaseUrl: 'https://api.github.com',
+        webUrl: 'https://github.com',
+      });
+      expect(resolveGitHubHost().host).toBe('github.com');
+    });
+
+    it('should use the api subdomain for GHE.com tenants', () => {
+      expect(resolveGitHubHost('octocorp.ghe.com')).toEqual({
+        host: 'octocorp.ghe.com',
+        authProviderId: 'github-enterprise',
+        apiBaseUrl: 'https://api.octocorp.ghe.com',
+        webUrl: 'https://octocorp.ghe.com',
+      });
+    });
+
+    it('should use /api/v3 for Enterprise Server hosts', () => {
+      expect(resolveGitHubHost('GHE.Example.com')).toEqual({
+        host: 'ghe.example.com',
+        authProviderId: 'github-enterprise',
+        apiBaseUrl: 'https://ghe.example.com/api/v3',
+        webUrl: 'https://ghe.example.com',
+      });
+    });
+
+    it('should keep the scheme and port of the configured server', () => {
+      setEnterpriseUrl('http://ghe.internal:8080/');
+
+      expect(resolveGitHubHost('ghe.internal')).toEqual(
+        expect.objectContaining({
+          apiBaseUrl: 'http://ghe.internal:8080/api/v3',
+          webUrl: 'http://ghe.internal:8080',
+        })
+      );
+    });
+  });
+
+  describe('getApiHost', () => {
+    it('should return the host of the REST API', () => {
+      setEnterpriseUrl('http://ghe.internal:8080');
+
+      expect(getApiHost('github.com')).toBe('api.github.com');
+      expect(getApiHost('octocorp.ghe.com')).toBe('api.octocorp.ghe.com');
+      expect(getApiHost('ghe.internal')).toBe('ghe.internal:8080');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  getCapabilityReason,
+  getCapabilityScopes,
+  hasScopes,
+  mergeScopes,
+  parseScopesHeader,
+} from '../../../src/auth/githubScopes';
+
+describe('githubScopes', () => {
+  describe('capabilities', () => {
+    it('should need no scope for reading public repositories', () => {
+      expect(getCapabilityScopes('read')).toEqual([]);
+    });
+
+    it('should map capabilities to their scopes and reasons', () => {
+      expect(getCapabilityScopes('write')).toEqual(['public_repo']);
+      expect(getCapabilityScopes('organizations')).toEqual(['read:org']);
+      expect(getCapabilityReason('organizations')).toBe('request reviews from teams');
+    });
+  });
+
+  describe('hasScopes', () => {
+    it('should accept granted and implied scopes', () => {
+      expect(hasScopes(['public_repo'], ['public_repo'])).toBe(true);
+      expect(hasScopes(['repo'], ['public_repo'])).toBe(true);
+      expect(hasScopes(['admin:org'], ['read:org'])).toBe(true);
+      expect(hasScopes([], [])).toBe(true);
+    });
+
+    it('should reject missing scopes', () => {
+      expect(hasScopes(['public_repo'], ['repo'])).toBe(false);
+      expect(hasScopes(['repo'], ['repo', 'read:org'])).toBe(false);
+    });
+  });
+
+  describe('mergeScopes', () => {
+    it('should combine, sort and drop implied scopes', () => {
+      expect(mergeScopes(['public_repo'], ['read:org', 'repo'])).toEqual(['read:org', 'repo']);
+      expect(mergeScopes([], ['public_repo'])).toEqual(['public_repo']);
+    });
+  });
+
+  describe('parseScopesHeader', () => {
+    it('should split the header', () => {
+      expect(parseScopesHeader('repo, read:org')).toEqual(['repo', 'read:org']);
+      expect(parseScopesHeader('')).toEqual([]);
+    });
+
+    it('should return undefined without the header', () => {
+      expect(parseScopesHeader(undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IssueCache, getIssueCache } from '../../../src/cache/issueCache';
+import { getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { GitHubIssue } from '../../../src/api/types';
+import * as vscode from 'vscode';
+
+jest.mock('vscode');
+jest.mock('../../../src/api/githubIssuesClient', () => ({ getGitHubIssuesClient: jest.fn() }));
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+
+describe('IssueCache', () => {
+  const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' } as any;
+  const offlineError = () =>
+    Object.assign(new Error('getaddrinfo ENOTFOUND api.github.com'), { code: 'ENOTFOUND' });
+
+  const issue = (number: number, updatedAt: string, state = 'open'): GitHubIssue => ({
+    number,
+    title: `Issue ${number}`,
+    body: '',
+    state: state as GitHubIssue['state'],
+    labels: [],
+    assignees: [],
+    comments: 0,
+    htmlUrl: `https://github.com/octo/bridge/issues/${number}`,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt,
+  });
+  const milestone = { number: 1, title: 'v1', state: 'open' } as any;
+
+  let storage: string;
+  let context: any;
+  let cache: IssueCache;
+  let mockClient: any;
+  let mockAuth: any;
+
+  const createCache = () => {
+    (IssueCache as any).instance = undefined;
+    const created = getIssueCache();
+    created.initialize(context);
+    return created;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+      get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+    }));
+
+    storage = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-cache-'));
+    context = { globalStorageUri: { fsPath: storage } };
+
+    mockClient = {
+      listIssues: jest
+        .fn()
+        .mockResolvedValue([issue(2, '2026-01-02T00:00:00Z'), issue(1, '2026-01-01T00:00:00Z')]),
+      listMilestonesIfModified: jest
+        .fn()
+        .mockResolvedValue({ modified: true, data: [milestone], etag: '"m1"' }),
+      listLabelsIfModified: jest
+        .fn()
+        .mockResolvedValue({ modified: true, data: [{ name: 'bug', color: '' }], etag: '"l1"' }),
+      getIssue: jest.fn(),
+      listComments: jest.fn().mockResolvedValue([{ id: 1, body: 'Hi' }]),
+    };
+    mockAuth = { isAuthenticated: jest.fn().mockResolvedValue(true) };
+    (getGitHubIssuesClient as jest.Mock).mockReturnValue(mockClient);
+    (getGitHubAuthManager as jest.Mock).mockReturnValue(mockAuth);
+    (getRepositoryService as jest.Mock).mockReturnValue({
+      getCurrentRepository: jest.fn(() => repository),
+    });
+
+    cache = createCache();
+  });
+
+  afterEach(() => {
+    cache.dispose();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    fs.rmSync(storage, { recursive: true, force: true });
+  });
+
+  it('should return same instance', () => {
+    expect(IssueCache.getInstance()).toBe(getIssueCache());
+  });
+
+  it('should fetch open issues on the first sync and store them on disk', async () => {
+    const listener = jest.fn();
+    cache.onDidSync(listener);
+
+    await cache.sync(repository);
+
+    expect(mockClient.listIssues).toHaveBeenCalledWith(repository, { state: 'open' });
+    expect(mockClient.listMilestonesIfModified).toHaveBeenCalledWith(repository, undefined);
+    expect(cache.getLastSyncedAt(repository)).toBeDefined();
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ repository, offline: false }));
+    expect(fs.existsSync(path.join(storage, 'cache', 'github.com', 'octo', 'bridge.json'))).toBe(
+      true
+    );
+  });
+
+  it('should sync incrementally with since and ETags', async () => {
+    await cache.sync(repository);
+    mockClient.listIssues.mockResolvedValue([issue(1, '2026-01-03T00:00:00Z', 'closed')]);
+    mockClient.listMilestonesIfModified.mockResolvedValue({ modified: false });
+
+    await cache.sync(repository);
+
+    expect(mockClient.listIssues).toHaveBeenLastCalledWith(repository, {
+      state: 'all',
+      since: '2026-01-02T00:00:00Z',
+    });
+    expect(mockClient.listMilestonesIfModified).toHaveBeenLastCalledWith(repository, '"m1"');
+    expect(mockClient.listLabelsIfModified).toHaveBeenLastCalledWith(repository, '"l1"');
+    expect((await cache.getIssues(repository)).map(cached => cached.number)).toEqual([2]);
+    expect(await cache.getIssues(repository, { state: 'closed' })).toEqual([
+      expect.objectContaining({ number: 1 }),
+    ]);
+    expect(await cache.getMilestones(repository)).toEqual([milestone]);
+  });
+
+  it('should share one request between concurrent syncs', async () => {
+    await Promise.all([cache.sync(repository), cache.sync(repository)]);
+
+    expect(mockClient.listIssues).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve fresh data without contacting GitHub', async () => {
+    await cache.getIssues(repository);
+    await cache.getLabels(repository);
+
+    expect(mockClient.listIssues).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load the stored cache in a new session', async () => {
+    await cache.sync(repository);
+    cache.dispose();
+    cache = createCache();
+    mockClient.listIssues.mockRejectedValue(offlineError());
+
+    expect(await cache.hasData(repository)).toBe(true);
+    expect(await cache.getIssues(repository)).toHaveLength(2);
+  });
+
+  it('should serve stale data while offline', async () => {
+    await cache.sync(repository);
+    const later = Date.now() + 10 * 60 * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+    mockClient.listIssues.mockRejectedValue(offlineError());
+
+    const issues = await cache.getIssues(repository);
+
+    expect(issues).toHaveLength(2);
+    expect(cache.isOffline(repository)).toBe(true);
+    // The failed attempt counts as recent, so the next read does not retry
+    await cache.getIssues(repository);
+    expect(mockClient.listIssues).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw when nothing is cached and GitHub is unreachable', async () => {
+    mockClient.listIssues.mockRejectedValue(offlineError());
+
+    await expect(cache.getIssues(repository)).rejects.toThrow('ENOTFOUND');
+    expect(await cache.hasData(repository)).toBe(false);
+  });
+
+  it('should fall back to the cached issue when offline', async () => {
+    await cache.sync(repository);
+    mockClient.getIssue.mockRejectedValue(offlineError());
+
+    expect(await cache.getIssue(repository, 2)).toEqual(expect.objectContaining({ number: 2 }));
+    await expect(cache.getIssue(repository, 99)).rejects.toThrow('ENOTFOUND');
+  });
+
+  it('should refetch comments only when the issue was updated', async () => {
+    const cached = issue(2, '2026-01-02T00:00:00Z');
+
+    await cache.getComments(repository, cached);
+    await cache.getComments(repository, cached);
+    expect(mockClient.listComments).toHaveBeenCalledTimes(1);
+
+    await cache.getComments(repository, { ...cached, updatedAt: '2026-01-05T00:00:00Z' });
+    expect(mockClient.listComments).toHaveBeenCalledTimes(2);
+  });
+
+  it('should sync the current repository in the background while signed in', async () => {
+    cache.dispose();
+    jest.useFakeTimers();
+    cache = createCache();
+    const sync = jest.spyOn(cache, 'sync').mockResolvedValue();
+
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(sync).toHaveBeenCalledWith(repository);
+
+    mockAuth.isAuthenticated.mockResolvedValue(false);
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not sync in the background when the interval is 0', async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+      get: jest.fn(() => 0),
+    }));
+    cache.dispose();
+    jest.useFakeTimers();
+    cache = createCache();
+    const sync = jest.spyOn(cache, 'sync').mockResolvedValue();
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+    expect(sync).not.toHaveBeenCalled();
+  });
+});
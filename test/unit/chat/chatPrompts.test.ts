@@ -0,0 +1,145 @@
+import {
+  buildFallbackAnswer,
+  buildFallbackDraft,
+  buildFallbackSummary,
+  buildIssueDocument,
+  buildRepositoryContext,
+  extractIssueNumbers,
+  findMentionedMilestone,
+  formatIssueLine,
+  parseIssueDraft,
+} from '../../../src/chat/chatPrompts';
+import { GitHubIssue, GitHubMilestone } from '../../../src/api/types';
+
+describe('chatPrompts', () => {
+  const milestone = (number: number, title: string, open = 2, closed = 2): GitHubMilestone => ({
+    number,
+    title,
+    state: 'open',
+    openIssues: open,
+    closedIssues: closed,
+    htmlUrl: '',
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  });
+
+  const issue = (number: number, title: string, overrides: Partial<GitHubIssue> = {}) =>
+    ({
+      number,
+      title,
+      body: '',
+      state: 'open',
+      labels: [],
+      assignees: [],
+      comments: 0,
+      htmlUrl: `https://github.com/octo/bridge/issues/${number}`,
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-01T00:00:00Z',
+      ...overrides,
+    }) as GitHubIssue;
+
+  const v12 = milestone(1, 'v1.2', 1, 3);
+  const v1 = milestone(2, 'v1');
+  const issues = [
+    issue(42, 'Fix login', {
+      milestone: v12,
+      labels: [{ name: 'bug', color: '' }],
+      assignees: [{ login: 'octocat', avatarUrl: '', htmlUrl: '' }],
+    }),
+    issue(43, 'Write docs'),
+  ];
+
+  it('should format issue lines with labels and assignees', () => {
+    expect(formatIssueLine(issues[0])).toBe('#42 Fix login (labels: bug; assignees: @octocat)');
+    expect(formatIssueLine(issues[1])).toBe('#43 Write docs');
+  });
+
+  it('should describe the repository and sanitize the result', () => {
+    const context = buildRepositoryContext('octo/bridge', [v12], issues, text =>
+      text.replace(/octocat/g, '[user]')
+    );
+
+    expect(context).toContain('- v1.2: 1 open, 3 closed (75% complete)');
+    expect(context).toContain(
+      '- #42 Fix login (labels: bug; assignees: @[user]) [milestone: v1.2]'
+    );
+    expect(context).toContain('Open issues (2):');
+  });
+
+  it('should describe an issue with its comments', () => {
+    const document = buildIssueDocument(
+      issues[0],
+      [
+        {
+          id: 1,
+          body: 'Repro steps',
+          author: { login: 'hubot', avatarUrl: '', htmlUrl: '' },
+          htmlUrl: '',
+          createdAt: '2026-01-02T00:00:00Z',
+          updatedAt: '2026-01-02T00:00:00Z',
+        },
+      ],
+      text => text
+    );
+
+    expect(document).toContain('Milestone: v1.2');
+    expect(document).toContain('(no description)');
+    expect(document).toContain('@hubot (2026-01-02T00:00:00Z):\nRepro steps');
+  });
+
+  it('should summarize an issue without a language model', () => {
+    const summary = buildFallbackSummary(
+      issue(7, 'Checklist', { body: '- [x] one\n- [ ] two' }),
+      []
+    );
+
+    expect(summary).toContain('**#7 Checklist** — open');
+    expect(summary).toContain('- Checklist: 1/2 done');
+  });
+
+  it('should prefer the longest milestone title mentioned in the prompt', () => {
+    expect(findMentionedMilestone("what's left in milestone v1.2?", [v1, v12])).toBe(v12);
+    expect(findMentionedMilestone('what is open?', [v1, v12])).toBeUndefined();
+  });
+
+  it('should answer milestone questions without a language model', () => {
+    const answer = buildFallbackAnswer("what's left in v1.2?", [v12], issues);
+
+    expect(answer).toContain('**v1.2** is 75% complete with 1 open issue(s):');
+    expect(answer).toContain('#42 Fix login');
+    expect(answer).not.toContain('#43');
+  });
+
+  it('should group open issues by milestone when no milestone is mentioned', () => {
+    const answer = buildFallbackAnswer('what is open?', [v12], issues);
+
+    expect(answer).toContain('There are 2 open issue(s):');
+    expect(answer).toContain('**No milestone**\n- #43 Write docs');
+  });
+
+  it('should parse fenced JSON drafts and keep only known labels', () => {
+    const draft = parseIssueDraft(
+      '```json\n{"title": "Login crash", "body": "Steps", "labels": ["Bug", "made-up"]}\n```',
+      ['bug', 'enhancement']
+    );
+
+    expect(draft).toEqual({ title: 'Login crash', body: 'Steps', labels: ['bug'] });
+  });
+
+  it('should reject drafts without a title', () => {
+    expect(parseIssueDraft('{"body": "x"}', [])).toBeUndefined();
+    expect(parseIssueDraft('not json', [])).toBeUndefined();
+  });
+
+  it('should use the description as title in the fallback draft', () => {
+    expect(buildFallbackDraft('a bug for the login crash\nhappens on Safari')).toEqual({
+      title: 'a bug for the login crash',
+      body: 'happens on Safari',
+      labels: [],
+    });
+  });
+
+  it('should extract unique issue numbers', () => {
+    expect(extractIssueNumbers('See #42 and #7, also #42. Not a&#39; or abc#5')).toEqual([42, 7]);
+  });
+});
@@ -0,0 +1,196 @@
+import { IssuesChatParticipant } from '../../../src/chat/issuesChatParticipant';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getIssueCache } from '../../../src/cache/issueCache';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { getIssueWorkflow } from '../../../src/git/issueWorkflow';
+import { getBranchIssueMapper } from '../../../src/git/branchIssueMapper';
+import { resolveIssueReference } from '../../../src/views/issuePicker';
+import { makeIssue } from '../../fixtures/issues';
+
+jest.mock('vscode');
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+jest.mock('../../../src/cache/issueCache', () => ({ getIssueCache: jest.fn() }));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+jest.mock('../../../src/git/issueWorkflow', () => ({ getIssueWorkflow: jest.fn() }));
+jest.mock('../../../src/git/branchIssueMapper', () => ({ getBranchIssueMapper: jest.fn() }));
+jest.mock('../../../src/views/issuePicker', () => ({
+  ...jest.requireActual('../../../src/views/issuePicker'),
+  resolveIssueReference: jest.fn(),
+}));
+
+describe('IssuesChatParticipant', () => {
+  const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' } as any;
+
+  const issue = makeIssue(42, { title: 'Fix login', body: '- [ ] Reproduce' });
+
+  let participant: IssuesChatParticipant;
+  let stream: any;
+  let mockAuth: any;
+  let mockCache: any;
+  let mockRepositoryService: any;
+  let mockMapper: any;
+  const token = { isCancellationRequested: false } as any;
+
+  const modelReplying = (...fragments: string[]) => ({
+    sendRequest: jest.fn().mockResolvedValue({
+      text: (async function* () {
+        yield* fragments;
+      })(),
+    }),
+  });
+
+  const request = (prompt: string, command?: string, model?: unknown) =>
+    ({ prompt, command, model }) as any;
+
+  const output = () => stream.markdown.mock.calls.map((call: string[]) => call[0]).join('');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    participant = new IssuesChatParticipant();
+    stream = { markdown: jest.fn(), button: jest.fn(), progress: jest.fn() };
+
+    mockAuth = { isAuthenticated: jest.fn().mockResolvedValue(true) };
+    mockCache = {
+      getIssues: jest.fn().mockResolvedValue([issue]),
+      getMilestones: jest.fn().mockResolvedValue([]),
+      getComments: jest.fn().mockResolvedValue([]),
+      getLabels: jest.fn().mockResolvedValue([{ name: 'bug', color: '' }]),
+    };
+    mockRepositoryService = { getCurrentRepository: jest.fn(() => repository) };
+
+    (getGitHubAuthManager as jest.Mock).mockReturnValue(mockAuth);
+    (getIssueCache as jest.Mock).mockReturnValue(mockCache);
+    (getRepositoryService as jest.Mock).mockReturnValue(mockRepositoryService);
+    mockMapper = { getCurrentLink: jest.fn(() => undefined) };
+    (getBranchIssueMapper as jest.Mock).mockReturnValue(mockMapper);
+  });
+
+  it('should ask to sign in when not authenticated', async () => {
+    mockAuth.isAuthenticated.mockResolvedValue(false);
+
+    await participant.handle(request('what is open?'), {} as any, stream, token);
+
+    expect(stream.button).toHaveBeenCalledWith(
+      expect.objectContaining({ command: 'gitissue-bridge.authenticate' })
+    );
+    expect(mockCache.getIssues).not.toHaveBeenCalled();
+  });
+
+  it('should offer repository selection when none is detected', async () => {
+    mockRepositoryService.getCurrentRepository.mockReturnValue(undefined);
+
+    await participant.handle(request('what is open?'), {} as any, stream, token);
+
+    expect(stream.button).toHaveBeenCalledWith(
+      expect.objectContaining({ command: 'gitissue-bridge.selectRepository' })
+    );
+  });
+
+  it('should answer questions with the language model grounded in repository issues', async () => {
+    const model = modelReplying('Only ', '#42 is left.');
+
+    const result = await participant.handle(
+      request('what is left?', undefined, model),
+      {} as any,
+      stream,
+      token
+    );
+
+    const [messages] = model.sendRequest.mock.calls[0];
+    expect(messages.map((message: any) => message.content).join('\n')).toContain('#42 Fix login');
+    expect(output()).toBe('Only #42 is left.');
+    expect(result.metadata).toEqual({ command: 'ask', issueNumbers: [42] });
+  });
+
+  it('should fall back to the issue list when the model is unavailable', async () => {
+    const model = { sendRequest: jest.fn().mockRejectedValue(new Error('No consent')) };
+
+    await participant.handle(request('what is open?', undefined, model), {} as any, stream, token);
+
+    expect(output()).toContain('No language model is available');
+    expect(output()).toContain('#42 Fix login');
+  });
+
+  it('should start an issue', async () => {
+    const startIssue = jest.fn().mockResolvedValue(true);
+    (getIssueWorkflow as jest.Mock).mockReturnValue({ startIssue });
+
+    const result = await participant.handle(request(' 42 ', 'start'), {} as any, stream, token);
+
+    expect(startIssue).toHaveBeenCalledWith('42');
+    expect(output()).toContain('You are now working on #42.');
+    expect(participant.provideFollowups(result)).toEqual([
+      { prompt: '42', command: 'summarize', label: 'Summarize #42' },
+    ]);
+  });
+
+  it('should explain usage when /start has no issue number', async () => {
+    (getIssueWorkflow as jest.Mock).mockReturnValue({ startIssue: jest.fn() });
+
+    await participant.handle(request('', 'start'), {} as any, stream, token);
+
+    expect(output()).toContain('/start 42');
+    expect(getIssueWorkflow().startIssue).not.toHaveBeenCalled();
+  });
+
+  it('should summarize without a model and offer to start the issue', async () => {
+    (resolveIssueReference as jest.Mock).mockResolvedValue({ repository, issue });
+
+    const result = await participant.handle(request('42', 'summarize'), {} as any, stream, token);
+
+    expect(output()).toContain('**#42 Fix login** — open');
+    expect(stream.button).toHaveBeenCalledWith(
+      expect.objectContaining({ command: 'gitissue-bridge.startIssue', arguments: [issue.htmlUrl] })
+    );
+    expect(participant.provideFollowups(result)).toEqual([
+      { prompt: '42', command: 'start', label: 'Start working on #42' },
+    ]);
+  });
+
+  it('should summarize the issue of the current branch when no issue is given', async () => {
+    mockMapper.getCurrentLink.mockReturnValue({ repository, branch: 'fix/42', issueNumber: 42 });
+    (resolveIssueReference as jest.Mock).mockResolvedValue({ repository, issue });
+
+    await participant.handle(request('', 'summarize'), {} as any, stream, token);
+
+    expect(resolveIssueReference).toHaveBeenCalledWith('#42');
+  });
+
+  it('should tell the model which issue is being worked on', async () => {
+    mockMapper.getCurrentLink.mockReturnValue({ repository, branch: 'fix/42', issueNumber: 42 });
+    const model = modelReplying('Done.');
+
+    await participant.handle(request('what next?', undefined, model), {} as any, stream, token);
+
+    const [messages] = model.sendRequest.mock.calls[0];
+    expect(messages.map((message: any) => message.content)).toContain(
+      'The developer is working on #42 (branch fix/42).'
+    );
+  });
+
+  it('should draft an issue and leave creation to the createIssue command', async () => {
+    const model = modelReplying('{"title": "Login crash", "body": "Steps", "labels": ["bug"]}');
+
+    await participant.handle(
+      request('a bug for the login crash', 'create', model),
+      {} as any,
+      stream,
+      token
+    );
+
+    expect(stream.button).toHaveBeenCalledWith(
+      expect.objectContaining({
+        command: 'gitissue-bridge.createIssue',
+        arguments: [{ title: 'Login crash', body: 'Steps', labels: ['bug'] }],
+      })
+    );
+  });
+
+  it('should report failures as error details', async () => {
+    mockCache.getIssues.mockRejectedValue(new Error('Network down'));
+
+    const result = await participant.handle(request('what is open?'), {} as any, stream, token);
+
+    expect(result.errorDetails).toEqual({ message: 'Network down' });
+  });
+});
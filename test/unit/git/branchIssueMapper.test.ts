@@ -0,0 +1,174 @@
+import {
+  BranchIssueMapper,
+  findIssueInCommitMessages,
+  getBranchIssueMapper,
+} from '../../../src/git/branchIssueMapper';
+import { getBranchCommitMessages, getCurrentBranch } from '../../../src/git/gitCommands';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getWorkspaceTrustManager } from '../../../src/utils/workspaceTrustManager';
+
+jest.mock('vscode');
+jest.mock('../../../src/git/gitCommands', () => ({
+  getBranchCommitMessages: jest.fn(),
+  getCurrentBranch: jest.fn(),
+}));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+jest.mock('../../../src/api/githubIssuesClient', () => ({ getGitHubIssuesClient: jest.fn() }));
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+jest.mock('../../../src/utils/workspaceTrustManager', () => ({
+  getWorkspaceTrustManager: jest.fn(),
+}));
+
+describe('BranchIssueMapper', () => {
+  const repository = {
+    host: 'github.com',
+    owner: 'octo',
+    repo: 'bridge',
+    rootUri: { fsPath: '/work/bridge' },
+  } as any;
+
+  describe('findIssueInCommitMessages', () => {
+    it('should pick the most referenced issue', () => {
+      expect(findIssueInCommitMessages(['Fix #7', 'Refs #42', 'Part of #42'])).toBe(42);
+    });
+
+    it('should prefer the most recent commit on ties and accept GH- references', () => {
+      expect(findIssueInCommitMessages(['GH-9 wip', 'Start #3'])).toBe(9);
+    });
+
+    it('should ignore references to other repositories and HTML entities', () => {
+      expect(findIssueInCommitMessages(['See octo/other#5 and &#39;'])).toBeUndefined();
+    });
+  });
+
+  describe('service', () => {
+    let mapper: BranchIssueMapper;
+    let state: Map<string, unknown>;
+    let mockRepositoryService: any;
+    let mockClient: any;
+    let mockAuth: any;
+    let mockTrust: any;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (BranchIssueMapper as any).instance = undefined;
+
+      mockRepositoryService = {
+        getCurrentRepository: jest.fn(() => repository),
+        getBranch: jest.fn(() => 'fix/42-fix-login'),
+        onDidChangeCurrentRepository: jest.fn(() => ({ dispose: jest.fn() })),
+        onDidChangeBranch: jest.fn(() => ({ dispose: jest.fn() })),
+      };
+      mockClient = { listLinkedBranches: jest.fn().mockResolvedValue([]) };
+      mockAuth = {
+        isAuthenticated: jest.fn().mockResolvedValue(true),
+        onDidChangeSession: jest.fn(() => ({ dispose: jest.fn() })),
+      };
+      mockTrust = {
+        isTrusted: jest.fn(() => true),
+        onDidGrantWorkspaceTrust: jest.fn(() => ({ dispose: jest.fn() })),
+      };
+      (getRepositoryService as jest.Mock).mockReturnValue(mockRepositoryService);
+      (getGitHubIssuesClient as jest.Mock).mockReturnValue(mockClient);
+      (getGitHubAuthManager as jest.Mock).mockReturnValue(mockAuth);
+      (getWorkspaceTrustManager as jest.Mock).mockReturnValue(mockTrust);
+      (getBranchCommitMessages as jest.Mock).mockResolvedValue([]);
+
+      state = new Map();
+      mapper = getBranchIssueMapper();
+      (mapper as any).workspaceState = {
+        get: (key: string) => state.get(key),
+        update: async (key: string, value: unknown) => {
+          state.set(key, value);
+        },
+      };
+    });
+
+    afterEach(() => {
+      mapper.dispose();
+    });
+
+    it('should map branches matching the naming template without network calls', async () => {
+      const link = await mapper.resolve(repository, 'fix/42-fix-login');
+
+      expect(link).toEqual({
+        repository: { host: 'github.com', owner: 'octo', repo: 'bridge' },
+        branch: 'fix/42-fix-login',
+        issueNumber: 42,
+        source: 'template',
+      });
+      expect(mockClient.listLinkedBranches).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to linked branches on GitHub and remember the match', async () => {
+      mockClient.listLinkedBranches.mockResolvedValue([{ issueNumber: 12, branch: 'login' }]);
+
+      const link = await mapper.resolve(repository, 'login');
+      expect(link).toEqual(expect.objectContaining({ issueNumber: 12, source: 'linkedBranch' }));
+
+      mockClient.listLinkedBranches.mockClear();
+      const again = await mapper.resolve(repository, 'login');
+      expect(again?.issueNumber).toBe(12);
+      expect(mockClient.listLinkedBranches).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to commit messages', async () => {
+      (getBranchCommitMessages as jest.Mock).mockResolvedValue(['Handle timeout (#77)']);
+
+      const link = await mapper.resolve(repository, 'login');
+
+      expect(getBranchCommitMessages).toHaveBeenCalledWith('/work/bridge', 'login');
+      expect(link).toEqual(expect.objectContaining({ issueNumber: 77, source: 'commits' }));
+    });
+
+    it('should skip GitHub when signed out and git when untrusted', async () => {
+      mockAuth.isAuthenticated.mockResolvedValue(false);
+      mockTrust.isTrusted.mockReturnValue(false);
+
+      expect(await mapper.resolve(repository, 'login')).toBeUndefined();
+      expect(mockClient.listLinkedBranches).not.toHaveBeenCalled();
+      expect(getBranchCommitMessages).not.toHaveBeenCalled();
+    });
+
+    it('should publish the issue of the current branch', async () => {
+      const listener = jest.fn();
+      mapper.onDidChangeCurrentIssue(listener);
+
+      await mapper.refresh();
+      await mapper.refresh();
+
+      expect(mapper.getCurrentLink()?.issueNumber).toBe(42);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      mockRepositoryService.getBranch.mockReturnValue('main');
+      await mapper.refresh();
+
+      expect(listener).toHaveBeenLastCalledWith(undefined);
+    });
+
+    it('should ask git for the branch when the Git extension is unavailable', async () => {
+      mockRepositoryService.getBranch.mockReturnValue(undefined);
+      (getCurrentBranch as jest.Mock).mockResolvedValue('feat/8-docs');
+
+      const link = await mapper.refresh();
+
+      expect(getCurrentBranch).toHaveBeenCalledWith('/work/bridge');
+      expect(link?.issueNumber).toBe(8);
+    });
+
+    it('should record branches created for an issue', async () => {
+      const listener = jest.fn();
+      mapper.onDidChangeCurrentIssue(listener);
+
+      await mapper.setIssueForBranch(repository, 'my-work', 5);
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ issueNumber: 5 }));
+      expect(state.get('gitissueBridge.branchIssues')).toEqual({
+        'github.com/octo/bridge': { 'my-work': { issueNumber: 5, source: 'start' } },
+      });
+      expect((await mapper.resolve(repository, 'my-work'))?.source).toBe('start');
+    });
+  });
+});
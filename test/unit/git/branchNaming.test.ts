@@ -0,0 +1,92 @@
+import {
+  buildBranchName,
+  deriveBranchType,
+  parseIssueNumberFromBranch,
+  sanitizeBranchName,
+  slugify,
+} from '../../../src/git/branchNaming';
+import { GitHubIssue } from '../../../src/api/types';
+
+describe('branchNaming', () => {
+  const issue = (title: string, labels: string[] = []): GitHubIssue => ({
+    number: 42,
+    title,
+    body: '',
+    state: 'open',
+    labels: labels.map(name => ({ name, color: '' })),
+    assignees: [],
+    comments: 0,
+    htmlUrl: 'https://github.com/octo/bridge/issues/42',
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  });
+
+  describe('slugify', () => {
+    it('should lowercase and dash-separate words', () => {
+      expect(slugify('Fix Login: crash on "Submit"!')).toBe('fix-login-crash-on-submit');
+    });
+
+    it('should strip diacritics', () => {
+      expect(slugify('Configuração de autenticação')).toBe('configuracao-de-autenticacao');
+    });
+
+    it('should cut long titles at a word boundary', () => {
+      expect(slugify('one two three four', 12)).toBe('one-two');
+      expect(slugify('supercalifragilistic', 5)).toBe('super');
+    });
+  });
+
+  describe('deriveBranchType', () => {
+    it('should map labels case-insensitively', () => {
+      expect(deriveBranchType(['priority', 'Bug'])).toBe('fix');
+      expect(deriveBranchType(['enhancement'])).toBe('feat');
+    });
+
+    it('should use custom mappings and default to feat', () => {
+      expect(deriveBranchType(['ops'], { ops: 'chore' })).toBe('chore');
+      expect(deriveBranchType(['question'])).toBe('feat');
+    });
+  });
+
+  describe('sanitizeBranchName', () => {
+    it('should remove characters git rejects', () => {
+      expect(sanitizeBranchName('feat/a b~c^d:e?f*g[h')).toBe('feat/a-b-c-d-e-f-g-h');
+      expect(sanitizeBranchName('/.hidden//x..y.lock/')).toBe('hidden/x.y');
+    });
+  });
+
+  describe('buildBranchName', () => {
+    it('should apply the default template', () => {
+      expect(buildBranchName(issue('Fix login', ['bug']))).toBe('fix/42-fix-login');
+    });
+
+    it('should apply a custom template', () => {
+      expect(
+        buildBranchName(issue('Add dark mode', ['enhancement']), {
+          template: 'issue-{number}/{type}/{slug}',
+        })
+      ).toBe('issue-42/feat/add-dark-mode');
+    });
+  });
+
+  describe('parseIssueNumberFromBranch', () => {
+    it('should parse branches built from the default template', () => {
+      expect(parseIssueNumberFromBranch('fix/42-fix-login')).toBe(42);
+    });
+
+    it('should parse branches built from a custom template', () => {
+      expect(parseIssueNumberFromBranch('octocat/gh-7/docs', '{type}/gh-{number}/{slug}')).toBe(7);
+    });
+
+    it('should fall back to common issue branch patterns', () => {
+      expect(parseIssueNumberFromBranch('issue-15')).toBe(15);
+      expect(parseIssueNumberFromBranch('feature/123_new-api')).toBe(123);
+    });
+
+    it('should ignore branches without an issue number', () => {
+      expect(parseIssueNumberFromBranch('main')).toBeUndefined();
+      expect(parseIssueNumberFromBranch('release/1.2')).toBeUndefined();
+      expect(parseIssueNumberFromBranch('v2-hotfix')).toBeUndefined();
+    });
+  });
+});
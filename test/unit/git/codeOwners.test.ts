@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  findCodeOwners,
+  parseCodeOwners,
+  readCodeOwners,
+  toReviewRequest,
+} from '../../../src/git/codeOwners';
+
+describe('codeOwners', () => {
+  const rules = parseCodeOwners(
+    [
+      '# Default owners',
+      '*       @octo/maintainers',
+      '*.md    @docs-team-lead  # docs',
+      '/src/auth/ @alice @bob',
+      'docs/*  docs@example.com',
+      '**/tests/** @qa',
+    ].join('\n')
+  );
+
+  it('should parse patterns and owners, skipping comments', () => {
+    expect(rules).toHaveLength(5);
+    expect(rules[1]).toEqual({ pattern: '*.md', owners: ['@docs-team-lead'] });
+  });
+
+  it('should let the last matching rule win', () => {
+    expect(findCodeOwners(rules, ['src/auth/login.ts'])).toEqual(['@alice', '@bob']);
+    expect(findCodeOwners(rules, ['src/auth/README.md'])).toEqual(['@alice', '@bob']);
+    expect(findCodeOwners(rules, ['README.md'])).toEqual(['@docs-team-lead']);
+    expect(findCodeOwners(rules, ['src/extension.ts'])).toEqual(['@octo/maintainers']);
+  });
+
+  it('should match nested directories and direct children only for dir/*', () => {
+    expect(findCodeOwners(rules, ['src/git/tests/a.ts'])).toEqual(['@qa']);
+    expect(findCodeOwners(rules, ['docs/guide.txt'])).toEqual(['docs@example.com']);
+    expect(findCodeOwners(rules, ['docs/api/index.txt'])).toEqual(['@octo/maintainers']);
+  });
+
+  it('should split users and teams and drop e-mails and the author', () => {
+    expect(
+      toReviewRequest(['@alice', '@octo/maintainers', 'docs@example.com', '@Octocat'], 'octocat')
+    ).toEqual({ reviewers: ['alice'], teamReviewers: ['maintainers'] });
+  });
+
+  it('should read CODEOWNERS from the .github directory', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'codeowners-'));
+    try {
+      expect(await readCodeOwners(root)).toEqual([]);
+
+      fs.mkdirSync(path.join(root, '.github'));
+      fs.writeFileSync(path.join(root, '.github', 'CODEOWNERS'), '* @alice\n');
+
+      expect(await readCodeOwners(root)).toEqual([{ pattern: '*', owners: ['@alice'] }]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
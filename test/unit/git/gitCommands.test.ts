@@ -0,0 +1,177 @@
+import { execFile } from 'child_process';
+import {
+  GitCommandError,
+  branchExists,
+  createBranch,
+  getBranchCommitMessages,
+  getChangedFiles,
+  getCurrentBranch,
+  getLineAuthors,
+  hasUncommittedChanges,
+  listUnignoredFiles,
+  pushBranch,
+  runGit,
+  stashChanges,
+} from '../../../src/git/gitCommands';
+
+jest.mock('vscode');
+
+jest.mock('child_process', () => ({
+  execFile: jest.fn(),
+}));
+
+describe('gitCommands', () => {
+  const mockExecFile = execFile as unknown as jest.Mock;
+
+  const succeed = (stdout = '') =>
+    mockExecFile.mockImplementationOnce((_file, _args, _options, callback) =>
+      callback(null, stdout, '')
+    );
+  const fail = (stderr: string, code = 1) =>
+    mockExecFile.mockImplementationOnce((_file, _args, _options, callback) =>
+      callback(Object.assign(new Error('Command failed'), { code }), '', stderr)
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run git without a shell in the given directory', async () => {
+    succeed('  output\n');
+
+    const result = await runGit('/repo', ['status']);
+
+    expect(result).toBe('output');
+    expect(mockExecFile).toHaveBeenCalledWith(
+      'git',
+      ['status'],
+      expect.objectContaining({ cwd: '/repo' }),
+      expect.any(Function)
+    );
+  });
+
+  it('should reject with GitCommandError including stderr', async () => {
+    fail('fatal: not a git repository', 128);
+
+    const error = await runGit('/repo', ['status']).catch(e => e);
+
+    expect(error).toBeInstanceOf(GitCommandError);
+    expect(error.message).toContain('not a git repository');
+    expect(error.exitCode).toBe(128);
+  });
+
+  it('should report current branch or undefined when detached', async () => {
+    succeed('main');
+    expect(await getCurrentBranch('/repo')).toBe('main');
+
+    fail('');
+    expect(await getCurrentBranch('/repo')).toBeUndefined();
+  });
+
+  it('should detect uncommitted changes', async () => {
+    succeed(' M src/index.ts');
+    expect(await hasUncommittedChanges('/repo')).toBe(true);
+
+    succeed('');
+    expect(await hasUncommittedChanges('/repo')).toBe(false);
+  });
+
+  it('should check branch existence', async () => {
+    succeed('abc123');
+    expect(await branchExists('/repo', 'fix/1-a')).toBe(true);
+    expect(mockExecFile.mock.calls[0][1]).toEqual([
+      'rev-parse',
+      '--verify',
+      '--quiet',
+      'refs/heads/fix/1-a',
+    ]);
+
+    fail('');
+    expect(await branchExists('/repo', 'fix/1-a')).toBe(false);
+  });
+
+  it('should create branches and stash changes', async () => {
+    succeed();
+    succeed();
+
+    await createBranch('/repo', 'fix/1-a');
+    await stashChanges('/repo', 'before #1');
+
+    expect(mockExecFile.mock.calls[0][1]).toEqual(['checkout', '-b', 'fix/1-a']);
+    expect(mockExecFile.mock.calls[1][1]).toEqual([
+      'stash',
+      'push',
+      '--include-untracked',
+      '--message',
+      'before #1',
+    ]);
+  });
+
+  it('should list messages of commits only on the branch', async () => {
+    succeed('Fix login (#42)\n\nDetails\n\u0000\nStart #42\n\u0000\n');
+
+    const messages = await getBranchCommitMessages('/repo', 'fix/login');
+
+    expect(messages).toEqual(['Fix login (#42)\n\nDetails', 'Start #42']);
+    expect(mockExecFile.mock.calls[0][1]).toEqual([
+      'log',
+      '--format=%B%x00',
+      '--max-count=50',
+      'refs/heads/fix/login',
+      '--not',
+      '--exclude=fix/login',
+      '--branches',
+      '--exclude=*/fix/login',
+      '--remotes',
+    ]);
+  });
+
+  it('should push a branch and set its upstream', async () => {
+    succeed();
+
+    await pushBranch('/repo', 'origin', 'fix/42');
+
+    expect(mockExecFile.mock.calls[0][1]).toEqual([
+      'push',
+      '--set-upstream',
+      'origin',
+      'refs/heads/fix/42:refs/heads/fix/42',
+    ]);
+  });
+
+  it('should list files changed since the merge base', async () => {
+    succeed('src/a.ts\nsrc/b.ts\n');
+
+    const files = await getChangedFiles('/repo', 'origin/main', 'fix/42');
+
+    expect(files).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(mockExecFile.mock.calls[0][1]).toEqual([
+      'diff',
+      '--name-only',
+      'origin/main...refs/heads/fix/42',
+    ]);
+  });
+
+  it('should list files that are not ignored', async () => {
+    succeed('src/a.ts\0docs/b c.md\0');
+
+    expect(await listUnignoredFiles('/repo')).toEqual(['src/a.ts', 'docs/b c.md']);
+    expect(mockExecFile.mock.calls[0][1]).toContain('--exclude-standard');
+  });
+
+  it('should read line authors from git blame', async () => {
+    succeed(
+      [
+        'abc 1 1 1',
+        'author Alice',
+        'author-mail <alice@example.com>',
+        '\tline one',
+        '0000 2 2 1',
+        'author Not Committed Yet',
+        '\tline two',
+      ].join('\n')
+    );
+
+    expect(await getLineAuthors('/repo', 'src/a.ts')).toEqual(['Alice', undefined]);
+  });
+});
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseGitConfigRemotes,
+  readGitConfigRemotes,
+  resolveGitDir,
+} from '../../../src/git/gitConfig';
+
+describe('gitConfig', () => {
+  describe('parseGitConfigRemotes', () => {
+    it('should parse remote sections', () => {
+      const content = [
+        '[core]',
+        '\trepositoryformatversion = 0',
+        '[remote "origin"]',
+        '\turl = git@github.com:me/bridge.git',
+        '\tfetch = +refs/heads/*:refs/remotes/origin/*',
+        '; comment',
+        '[remote "upstream"]',
+        '\turl = "https://github.com/octo/bridge.git"',
+        '\tpushurl = no_push',
+        '[branch "main"]',
+        '\tremote = origin',
+        '\turl = ignored',
+      ].join('\n');
+
+      expect(parseGitConfigRemotes(content)).toEqual([
+        {
+          name: 'origin',
+          fetchUrl: 'git@github.com:me/bridge.git',
+          pushUrl: 'git@github.com:me/bridge.git',
+        },
+        { name: 'upstream', fetchUrl: 'https://github.com/octo/bridge.git', pushUrl: 'no_push' },
+      ]);
+    });
+
+    it('should skip remotes without URL', () => {
+      expect(parseGitConfigRemotes('[remote "empty"]\n\tfetch = x')).toEqual([]);
+    });
+  });
+
+  describe('reading from disk', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gitissue-bridge-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read remotes from .git/config', async () => {
+      fs.mkdirSync(path.join(tempDir, '.git'));
+      fs.writeFileSync(
+        path.join(tempDir, '.git', 'config'),
+        '[remote "origin"]\n\turl = https://github.com/octo/bridge.git\n'
+      );
+
+      const remotes = await readGitConfigRemotes(tempDir);
+
+      expect(remotes).toEqual([
+        expect.objectContaining({ name: 'origin', fetchUrl: 'https://github.com/octo/bridge.git' }),
+      ]);
+    });
+
+    it('should follow gitdir pointers of linked worktrees', async () => {
+      const mainGitDir = path.join(tempDir, 'main', '.git');
+      const worktreeGitDir = path.join(mainGitDir, 'worktrees', 'feature');
+      const worktree = path.join(tempDir, 'feature');
+      fs.mkdirSync(worktreeGitDir, { recursive: true });
+      fs.mkdirSync(worktree);
+      fs.writeFileSync(path.join(worktreeGitDir, 'commondir'), '../..\n');
+      fs.writeFileSync(path.join(worktree, '.git'), `gitdir: ${worktreeGitDir}\n`);
+
+      expect(await resolveGitDir(worktree)).toBe(mainGitDir);
+    });
+
+    it('should treat an unreadable gitdir pointer as no repository', async () => {
+      fs.writeFileSync(path.join(tempDir, '.git'), 'gitdir: elsewhere\n');
+      const readFile = jest
+        .spyOn(fs.promises, 'readFile')
+        .mockRejectedValueOnce(Object.assign(new Error('EACCES'), { code: 'EACCES' }));
+
+      try {
+        expect(await resolveGitDir(tempDir)).toBeUndefined();
+      } finally {
+        readFile.mockRestore();
+      }
+    });
+
+    it('should return no remotes outside a repository', async () => {
+      expect(await resolveGitDir(tempDir)).toBeUndefined();
+      expect(await readGitConfigRemotes(tempDir)).toEqual([]);
+    });
+  });
+});
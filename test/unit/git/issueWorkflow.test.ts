@@ -0,0 +1,328 @@
+import { IssueWorkflow, getIssueWorkflow } from '../../../src/git/issueWorkflow';
+import * as gitCommands from '../../../src/git/gitCommands';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getWorkspaceTrustManager } from '../../../src/utils/workspaceTrustManager';
+import { getIssueContextGenerator } from '../../../src/context/issueContextGenerator';
+import { getBranchIssueMapper } from '../../../src/git/branchIssueMapper';
+import { readCodeOwners } from '../../../src/git/codeOwners';
+import { pickIssue, resolveIssueReference } from '../../../src/views/issuePicker';
+import * as vscode from 'vscode';
+import { makeIssue } from '../../fixtures/issues';
+
+jest.mock('vscode');
+jest.mock('../../../src/git/gitCommands');
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+jest.mock('../../../src/api/githubIssuesClient', () => ({ getGitHubIssuesClient: jest.fn() }));
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+jest.mock('../../../src/utils/workspaceTrustManager', () => ({
+  getWorkspaceTrustManager: jest.fn(),
+}));
+jest.mock('../../../src/git/branchIssueMapper', () => ({
+  getBranchIssueMapper: jest.fn(),
+}));
+jest.mock('../../../src/context/issueContextGenerator', () => ({
+  getIssueContextGenerator: jest.fn(),
+}));
+jest.mock('../../../src/git/codeOwners', () => ({
+  ...jest.requireActual('../../../src/git/codeOwners'),
+  readCodeOwners: jest.fn(),
+}));
+jest.mock('../../../src/views/issuePicker', () => ({
+  pickIssue: jest.fn(),
+  resolveIssueReference: jest.fn(),
+}));
+
+describe('IssueWorkflow', () => {
+  const repository = {
+    host: 'github.com',
+    owner: 'octo',
+    repo: 'bridge',
+    rootUri: { fsPath: '/work/bridge' },
+    workspaceFolder: { name: 'bridge' },
+  } as any;
+
+  const issue = makeIssue(42, { title: 'Fix login', labels: [{ name: 'bug', color: '' }] });
+
+  const node = { kind: 'issue' as const, repository, issue };
+
+  let workflow: IssueWorkflow;
+  let mockGit: jest.Mocked<typeof gitCommands>;
+  let mockClient: any;
+  let mockTrust: any;
+  let mockContextGenerator: any;
+  let mockMapper: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    workflow = IssueWorkflow.getInstance();
+
+    mockGit = gitCommands as jest.Mocked<typeof gitCommands>;
+    mockGit.getCurrentBranch.mockResolvedValue('main');
+    mockGit.hasUncommittedChanges.mockResolvedValue(false);
+    mockGit.branchExists.mockResolvedValue(false);
+
+    mockClient = {
+      addAssignees: jest.fn().mockResolvedValue(issue),
+      addLabels: jest.fn().mockResolvedValue([]),
+      updateIssue: jest.fn().mockResolvedValue({ ...issue, state: 'closed' }),
+    };
+    mockContextGenerator = {
+      activate: jest.fn(),
+      finish: jest.fn(),
+      getActiveIssue: jest.fn(() => ({ repository, number: 42 })),
+    };
+    (getIssueContextGenerator as jest.Mock).mockReturnValue(mockContextGenerator);
+    mockMapper = { setIssueForBranch: jest.fn() };
+    (getBranchIssueMapper as jest.Mock).mockReturnValue(mockMapper);
+    mockTrust = { validateWorkspace: jest.fn().mockResolvedValue(true) };
+
+    (getGitHubIssuesClient as jest.Mock).mockReturnValue(mockClient);
+    (getWorkspaceTrustManager as jest.Mock).mockReturnValue(mockTrust);
+    (getRepositoryService as jest.Mock).mockReturnValue({ getRepositories: () => [repository] });
+    (getGitHubAuthManager as jest.Mock).mockReturnValue({
+      ensureAuthenticated: jest.fn().mockResolvedValue(true),
+      getUsername: jest.fn().mockResolvedValue('octocat'),
+    });
+  });
+
+  it('should return same instance', () => {
+    expect(IssueWorkflow.getInstance()).toBe(getIssueWorkflow());
+  });
+
+  it('should create the branch and mark the issue in progress', async () => {
+    const result = await workflow.startIssue(node);
+
+    expect(result).toBe(true);
+    expect(mockGit.createBranch).toHaveBeenCalledWith('/work/bridge', 'fix/42-fix-login');
+    expect(mockClient.addAssignees).toHaveBeenCalledWith(repository, 42, ['octocat']);
+    expect(mockClient.addLabels).toHaveBeenCalledWith(repository, 42, ['in progress']);
+    expect(mockMapper.setIssueForBranch).toHaveBeenCalledWith(repository, 'fix/42-fix-login', 42);
+  });
+
+  it('should validate the workspace before touching git', async () => {
+    mockTrust.validateWorkspace.mockResolvedValue(false);
+
+    const result = await workflow.startIssue(node);
+
+    expect(result).toBe(false);
+    expect(mockGit.hasUncommittedChanges).not.toHaveBeenCalled();
+    expect(mockGit.createBranch).not.toHaveBeenCalled();
+  });
+
+  it('should check out an existing branch', async () => {
+    mockGit.branchExists.mockResolvedValue(true);
+
+    await workflow.startIssue(node);
+
+    expect(mockGit.checkoutBranch).toHaveBeenCalledWith('/work/bridge', 'fix/42-fix-login');
+    expect(mockGit.createBranch).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to switch with uncommitted changes unless the user stashes', async () => {
+    mockGit.hasUncommittedChanges.mockResolvedValue(true);
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce(undefined);
+
+    expect(await workflow.startIssue(node)).toBe(false);
+    expect(mockGit.createBranch).not.toHaveBeenCalled();
+
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Stash and Continue');
+
+    expect(await workflow.startIssue(node)).toBe(true);
+    expect(mockGit.stashChanges).toHaveBeenCalledWith(
+      '/work/bridge',
+      expect.stringContaining('#42')
+    );
+  });
+
+  it('should do nothing when already on the issue branch', async () => {
+    mockGit.getCurrentBranch.mockResolvedValue('fix/42-fix-login');
+
+    expect(await workflow.startIssue(node)).toBe(true);
+    expect(mockGit.createBranch).not.toHaveBeenCalled();
+    expect(mockClient.addAssignees).not.toHaveBeenCalled();
+  });
+
+  it('should skip GitHub updates disabled in settings', async () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+      get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+    });
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key === 'startIssue.assignToMe'
+          ? false
+          : key === 'startIssue.inProgressLabel'
+            ? ''
+            : defaultValue
+      ),
+    });
+
+    await workflow.startIssue(node);
+
+    expect(mockClient.addAssignees).not.toHaveBeenCalled();
+    expect(mockClient.addLabels).not.toHaveBeenCalled();
+  });
+
+  it('should keep the branch when GitHub updates fail', async () => {
+    mockClient.addAssignees.mockRejectedValue(new Error('Forbidden'));
+
+    const result = await workflow.startIssue(node);
+
+    expect(result).toBe(true);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalled();
+  });
+
+  it('should show the issue quick pick without a target', async () => {
+    (pickIssue as jest.Mock).mockResolvedValue(undefined);
+
+    expect(await workflow.startIssue()).toBe(false);
+    expect(pickIssue).toHaveBeenCalled();
+    expect(mockTrust.validateWorkspace).not.toHaveBeenCalled();
+  });
+
+  describe('finishIssue', () => {
+    const pullRequest = {
+      number: 7,
+      title: 'Fix login',
+      state: 'open',
+      draft: false,
+      htmlUrl: 'https://github.com/octo/bridge/pull/7',
+      head: 'fix/42-fix-login',
+      base: 'main',
+    };
+    const milestoneIssue = {
+      ...issue,
+      milestone: { number: 3, title: 'v1.2' } as any,
+    };
+
+    beforeEach(() => {
+      repository.remoteName = 'origin';
+      mockGit.getCurrentBranch.mockResolvedValue('fix/42-fix-login');
+      mockGit.getChangedFiles.mockResolvedValue(['src/auth/login.ts']);
+      (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn((_key, defaultValue) => defaultValue),
+      });
+      mockMapper.resolve = jest.fn().mockResolvedValue({ issueNumber: 42 });
+      (readCodeOwners as jest.Mock).mockResolvedValue([
+        { pattern: '*', owners: ['@octo/maintainers'] },
+        { pattern: 'src/auth/', owners: ['@alice', '@octocat'] },
+      ]);
+      mockClient.findOpenPullRequest = jest.fn().mockResolvedValue(undefined);
+      mockClient.getDefaultBranch = jest.fn().mockResolvedValue('main');
+      mockClient.createPullRequest = jest.fn().mockResolvedValue(pullRequest);
+      mockClient.requestReviewers = jest.fn().mockResolvedValue(undefined);
+      (vscode.window.showInputBox as jest.Mock).mockImplementation(async options => options.value);
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(
+        'Push and Open Pull Request'
+      );
+    });
+
+    it('should push the branch and open a pull request that closes the issue', async () => {
+      const result = await workflow.finishIssue({ ...node, issue: milestoneIssue });
+
+      expect(result).toBe(true);
+      expect(mockGit.pushBranch).toHaveBeenCalledWith('/work/bridge', 'origin', 'fix/42-fix-login');
+      expect(mockClient.createPullRequest).toHaveBeenCalledWith(repository, {
+        title: 'Fix login',
+        body: 'Closes #42',
+        head: 'fix/42-fix-login',
+        base: 'main',
+        draft: false,
+      });
+      expect(mockClient.updateIssue).toHaveBeenCalledWith(repository, 7, {
+        labels: ['bug'],
+        milestone: 3,
+      });
+      expect(mockContextGenerator.finish).toHaveBeenCalled();
+      expect(vscode.env.openExternal).toHaveBeenCalledWith({ fsPath: pullRequest.htmlUrl });
+    });
+
+    it('should request the code owners of the changed files, except the author', async () => {
+      await workflow.finishIssue(node);
+
+      expect(mockGit.getChangedFiles).toHaveBeenCalledWith(
+        '/work/bridge',
+        'origin/main',
+        'fix/42-fix-login'
+      );
+      expect(mockClient.requestReviewers).toHaveBeenCalledWith(repository, 7, {
+        reviewers: ['alice'],
+        teamReviewers: [],
+      });
+    });
+
+    it('should prefer the configured reviewers over CODEOWNERS', async () => {
+      (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+        get: jest.fn((key, defaultValue) =>
+          key === 'finishIssue.reviewers' ? ['bob', 'octo/devs'] : defaultValue
+        ),
+      });
+
+      await workflow.finishIssue(node);
+
+      expect(readCodeOwners).not.toHaveBeenCalled();
+      expect(mockClient.requestReviewers).toHaveBeenCalledWith(repository, 7, {
+        reviewers: ['bob'],
+        teamReviewers: ['devs'],
+      });
+    });
+
+    it('should summarize the remote writes before performing them', async () => {
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+
+      expect(await workflow.finishIssue(node)).toBe(false);
+
+      const [, options] = (vscode.window.showWarningMessage as jest.Mock).mock.calls[0];
+      expect(options.modal).toBe(true);
+      expect(options.detail).toContain('Push fix/42-fix-login to origin');
+      expect(options.detail).toContain('Reviewers: @alice');
+      expect(options.detail).toContain('Merging the pull request closes #42.');
+      expect(mockGit.pushBranch).not.toHaveBeenCalled();
+      expect(mockClient.createPullRequest).not.toHaveBeenCalled();
+    });
+
+    it('should require a trusted workspace', async () => {
+      mockTrust.validateWorkspace.mockResolvedValue(false);
+
+      expect(await workflow.finishIssue(node)).toBe(false);
+      expect(mockGit.pushBranch).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the issue has no local branch', async () => {
+      mockGit.getCurrentBranch.mockResolvedValue('main');
+      mockMapper.resolve.mockResolvedValue(undefined);
+
+      await expect(workflow.finishIssue(node)).rejects.toThrow('No local branch found');
+    });
+
+    it('should finish the issue of the current branch by default', async () => {
+      mockMapper.getCurrentLink = jest.fn(() => ({ issueNumber: 42 }));
+      (resolveIssueReference as jest.Mock).mockResolvedValue({ repository, issue });
+
+      await workflow.finishIssue();
+
+      expect(resolveIssueReference).toHaveBeenCalledWith('#42');
+      expect(mockClient.createPullRequest).toHaveBeenCalled();
+    });
+
+    it('should push to an already open pull request instead of opening another', async () => {
+      mockClient.findOpenPullRequest.mockResolvedValue(pullRequest);
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Push and Open');
+
+      expect(await workflow.finishIssue(node)).toBe(true);
+      expect(mockGit.pushBranch).toHaveBeenCalled();
+      expect(mockClient.createPullRequest).not.toHaveBeenCalled();
+      expect(vscode.env.openExternal).toHaveBeenCalledWith({ fsPath: pullRequest.htmlUrl });
+    });
+
+    it('should open the pull request in the GitHub Pull Requests extension when installed', async () => {
+      (vscode.extensions.getExtension as jest.Mock).mockReturnValueOnce({});
+
+      await workflow.finishIssue(node);
+
+      const [uri] = (vscode.env.openExternal as jest.Mock).mock.calls[0];
+      expect(uri.fsPath).toContain('GitHub.vscode-pull-request-github/open-pull-request-webview');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { buildPullRequestBody, buildPullRequestTitle } from '../../../src/git/pullRequestText';
+import { makeIssue } from '../../fixtures/issues';
+
+describe('pullRequestText', () => {
+  const issue = makeIssue(42, { title: 'Fix login', labels: [{ name: 'bug', color: '' }] });
+  const options = { branch: 'fix/42-fix-login' };
+
+  it('should default to the issue title', () => {
+    expect(buildPullRequestTitle(issue, undefined, options)).toBe('Fix login');
+  });
+
+  it('should fill the title placeholders', () => {
+    expect(buildPullRequestTitle(issue, '{type}: {title} (#{number})', options)).toBe(
+      'fix: Fix login (#42)'
+    );
+  });
+
+  it('should close the issue by default', () => {
+    expect(buildPullRequestBody(issue, undefined, options)).toBe('Closes #42');
+  });
+
+  it('should keep a closing keyword from the template', () => {
+    expect(buildPullRequestBody(issue, 'Fixes #{number} from {branch}', options)).toBe(
+      'Fixes #42 from fix/42-fix-login'
+    );
+  });
+
+  it('should append the closing keyword when the template lacks one', () => {
+    expect(buildPullRequestBody(issue, 'Related to #{number}', options)).toBe(
+      'Related to #42\n\nCloses #42'
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  isGitHubHost,
+  normalizeHost,
+  parseRemoteUrl,
+  selectGitHubRemote,
+} from '../../../src/git/remoteUrl';
+
+describe('remoteUrl', () => {
+  describe('parseRemoteUrl', () => {
+    it.each([
+      ['https://github.com/octo/bridge.git', 'github.com', 'octo', 'bridge'],
+      ['https://github.com/octo/bridge', 'github.com', 'octo', 'bridge'],
+      ['https://user@github.com/octo/bridge.git/', 'github.com', 'octo', 'bridge'],
+      ['git@github.com:octo/bridge.git', 'github.com', 'octo', 'bridge'],
+      ['ssh://git@github.com/octo/bridge.git', 'github.com', 'octo', 'bridge'],
+      ['ssh://git@ssh.github.com:443/octo/bridge.git', 'github.com', 'octo', 'bridge'],
+      ['git://github.com/octo/bridge.git', 'github.com', 'octo', 'bridge'],
+      ['https://GHE.Example.com/team/service.git', 'ghe.example.com', 'team', 'service'],
+      ['git@ghe.example.com:team/service.git', 'ghe.example.com', 'team', 'service'],
+      ['org-123@ssh.dev.example.com:team/my.repo.git', 'ssh.dev.example.com', 'team', 'my.repo'],
+    ])('should parse %s', (url, host, owner, repo) => {
+      expect(parseRemoteUrl(url)).toEqual({ host, owner, repo });
+    });
+
+    it.each([
+      ['/local/path/to/repo'],
+      ['C:/local/repo'],
+      ['https://github.com/only-owner'],
+      ['not a url'],
+    ])('should reject %s', url => {
+      expect(parseRemoteUrl(url)).toBeUndefined();
+    });
+  });
+
+  describe('isGitHubHost', () => {
+    it('should accept github.com and GHE.com tenants', () => {
+      expect(isGitHubHost('github.com')).toBe(true);
+      expect(isGitHubHost('acme.ghe.com')).toBe(true);
+    });
+
+    it('should accept configured enterprise hosts in any form', () => {
+      expect(isGitHubHost('ghe.example.com', ['https://GHE.example.com/'])).toBe(true);
+      expect(isGitHubHost('ghe.example.com', ['ghe.example.com'])).toBe(true);
+    });
+
+    it('should reject other hosts', () => {
+      expect(isGitHubHost('gitlab.com')).toBe(false);
+    });
+  });
+
+  describe('normalizeHost', () => {
+    it('should strip scheme, path and case', () => {
+      expect(normalizeHost('https://GHE.Example.com/api/v3')).toBe('ghe.example.com');
+      expect(normalizeHost('ghe.example.com')).toBe('ghe.example.com');
+    });
+  });
+
+  describe('selectGitHubRemote', () => {
+    const remotes = [
+      { name: 'fork', fetchUrl: 'git@github.com:me/bridge.git' },
+      { name: 'origin', fetchUrl: 'https://github.com/me/bridge.git' },
+      { name: 'upstream', fetchUrl: 'https://github.com/octo/bridge.git' },
+      { name: 'mirror', fetchUrl: 'https://gitlab.com/octo/bridge.git' },
+    ];
+
+    it('should prefer the configured remote', () => {
+      expect(selectGitHubRemote(remotes, 'upstream')).toEqual(
+        expect.objectContaining({ owner: 'octo', remoteName: 'upstream' })
+      );
+      expect(selectGitHubRemote(remotes, 'origin')).toEqual(
+        expect.objectContaining({ owner: 'me', remoteName: 'origin' })
+      );
+    });
+
+    it('should fall back to the counterpart and then to other GitHub remotes', () => {
+      expect(selectGitHubRemote(remotes.slice(0, 2), 'upstream')?.remoteName).toBe('origin');
+      expect(selectGitHubRemote(remotes.slice(0, 1), 'upstream')?.remoteName).toBe('fork');
+    });
+
+    it('should ignore remotes not hosted on GitHub', () => {
+      expect(selectGitHubRemote(remotes.slice(3), 'upstream')).toBeUndefined();
+    });
+
+    it('should accept enterprise hosts when configured', () => {
+      const enterprise = [{ name: 'origin', fetchUrl: 'git@ghe.example.com:team/service.git' }];
+
+      expect(selectGitHubRemote(enterprise, 'upstream')).toBeUndefined();
+      expect(selectGitHubRemote(enterprise, 'upstream', ['ghe.example.com'])).toEqual({
+        host: 'ghe.example.com',
+        owner: 'team',
+        repo: 'service',
+        remoteName: 'origin',
+        remoteUrl: 'git@ghe.example.com:team/service.git',
+      });
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { RepositoryService, getRepositoryService } from '../../../src/git/repositoryService';
+import { readGitConfigRemotes } from '../../../src/git/gitConfig';
+import { getGitApi } from '../../../src/git/gitExtension';
+import * as vscode from 'vscode';
+
+// Mock vscode
+jest.mock('vscode');
+
+jest.mock('../../../src/git/gitConfig', () => ({
+  readGitConfigRemotes: jest.fn(),
+}));
+
+jest.mock('../../../src/git/gitExtension', () => ({
+  getGitApi: jest.fn(),
+}));
+
+describe('RepositoryService', () => {
+  let service: RepositoryService;
+  let mockWorkspace: typeof vscode.workspace;
+  let mockWindow: typeof vscode.window;
+  let workspaceState: Map<string, unknown>;
+  let context: vscode.ExtensionContext;
+
+  const folderA = { uri: { fsPath: '/work/a' }, name: 'a', index: 0 };
+  const folderB = { uri: { fsPath: '/work/b' }, name: 'b', index: 1 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // Reset singleton instance to prevent state leakage between tests
+    (RepositoryService as any).instance = undefined;
+
+    mockWorkspace = vscode.workspace as typeof vscode.workspace;
+    mockWindow = vscode.window as typeof vscode.window;
+    (mockWorkspace as any).workspaceFolders = [folderA, folderB];
+
+    workspaceState = new Map();
+    context = {
+      workspaceState: {
+        get: jest.fn((key: string) => workspaceState.get(key)),
+        update: jest.fn(async (key: string, value: unknown) => {
+          workspaceState.set(key, value);
+        }),
+      },
+    } as any;
+
+    (getGitApi as jest.Mock).mockResolvedValue(undefined);
+    (readGitConfigRemotes as jest.Mock).mockImplementation(async (root: string) => {
+      if (root === '/work/a') {
+        return [
+          { name: 'origin', fetchUrl: 'git@github.com:me/alpha.git' },
+          { name: 'upstream', fetchUrl: 'https://github.com/octo/alpha.git' },
+        ];
+      }
+      if (root === '/work/b') {
+        return [{ name: 'origin', fetchUrl: 'https://github.com/octo/beta.git' }];
+      }
+      return [];
+    });
+
+    service = RepositoryService.getInstance();
+  });
+
+  afterEach(() => {
+    (mockWorkspace as any).workspaceFolders = [
+      { uri: { fsPath: '/mock/workspace' }, name: 'mock-workspace', index: 0 },
+    ];
+  });
+
+  describe('Singleton Pattern', () => {
+    it('should return same instance', () => {
+      expect(RepositoryService.getInstance()).toBe(getRepositoryService());
+    });
+  });
+
+  describe('detection', () => {
+    it('should detect one repository per workspace folder', async () => {
+      await service.initialize(context);
+
+      const repositories = service.getRepositories();
+
+      expect(repositories.map(r => `${r.owner}/${r.repo}`)).toEqual(['octo/alpha', 'octo/beta']);
+      expect(repositories[0].remoteName).toBe('upstream');
+      expect(repositories[0].workspaceFolder).toBe(folderA);
+    });
+
+    it('should honor the preferred remote setting', async () => {
+      (mockWorkspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+        get: jest.fn((key: string, defaultValue: unknown) =>
+          key === 'preferredRemote' ? 'origin' : defaultValue
+        ),
+      });
+
+      await service.initialize(context);
+
+      expect(service.getRepositories()[0]).toEqual(
+        expect.objectContaining({ owner: 'me', remoteName: 'origin' })
+      );
+    });
+
+    it('should use repositories from the Git extension when available', async () => {
+      const nested = {
+        rootUri: { fsPath: '/work/b/packages/gamma' },
+        state: {
+          remotes: [{ name: 'origin', fetchUrl: 'https://github.com/octo/gamma.git' }],
+          onDidChange: jest.fn(() => ({ dispose: jest.fn() })),
+        },
+      };
+      (getGitApi as jest.Mock).mockResolvedValue({
+        repositories: [nested],
+        onDidOpenRepository: jest.fn(() => ({ dispose: jest.fn() })),
+        onDidCloseRepository: jest.fn(() => ({ dispose: jest.fn() })),
+      });
+
+      await service.initialize(context);
+
+      expect(service.getRepositories().map(r => r.repo)).toEqual(['alpha', 'beta', 'gamma']);
+      expect(
+        service.getRepositoryForUri({ fsPath: '/work/b/packages/gamma/src/index.ts' } as any)?.repo
+      ).toBe('gamma');
+      expect(service.getRepositoryForUri({ fsPath: '/work/b/README.md' } as any)?.repo).toBe(
+        'beta'
+      );
+    });
+
+    it('should report branch switches from the Git extension', async () => {
+      let notifyChange: () => void = () => undefined;
+      const state = {
+        HEAD: { name: 'main' },
+        remotes: [{ name: 'origin', fetchUrl: 'https://github.com/octo/alpha.git' }],
+        onDidChange: jest.fn(listener => {
+          notifyChange = listener;
+          return { dispose: jest.fn() };
+        }),
+      };
+      (getGitApi as jest.Mock).mockResolvedValue({
+        repositories: [{ rootUri: { fsPath: '/work/a' }, state }],
+        onDidOpenRepository: jest.fn(() => ({ dispose: jest.fn() })),
+        onDidCloseRepository: jest.fn(() => ({ dispose: jest.fn() })),
+      });
+      await service.initialize(context);
+      const listener = jest.fn();
+      service.onDidChangeBranch(listener);
+
+      expect(service.getBranch(service.getRepositories()[0])).toBe('main');
+
+      notifyChange();
+      state.HEAD = { name: 'fix/42-fix-login' };
+      notifyChange();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({
+        rootUri: { fsPath: '/work/a' },
+        branch: 'fix/42-fix-login',
+      });
+    });
+
+    it('should report no repository for folders without GitHub remotes', async () => {
+      (readGitConfigRemotes as jest.Mock).mockResolvedValue([]);
+
+      await service.initialize(context);
+
+      expect(service.getRepositories()).toEqual([]);
+      expect(service.getCurrentRepository()).toBeUndefined();
+    });
+  });
+
+  describe('current repository', () => {
+    it('should default to the first repository and fire change event', async () => {
+      const listener = jest.fn();
+      service.onDidChangeCurrentRepository(listener);
+
+      await service.initialize(context);
+
+      expect(service.getCurrentRepository()?.repo).toBe('alpha');
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ repo: 'alpha' }));
+    });
+
+    it('should restore the persisted selection', async () => {
+      workspaceState.set('gitissueBridge.selectedRepository', '/work/b');
+
+      await service.initialize(context);
+
+      expect(service.getCurrentRepository()?.repo).toBe('beta');
+    });
+
+    it('should persist selection made from the quick pick', async () => {
+      await service.initialize(context);
+      (mockWindow.showQuickPick as jest.Mock).mockImplementation(async (items: any[]) => items[1]);
+      const listener = jest.fn();
+      service.onDidChangeCurrentRepository(listener);
+
+      const selected = await service.selectRepository();
+
+      expect(selected?.repo).toBe('beta');
+      expect(service.getCurrentRepository()?.repo).toBe('beta');
+      expect(workspaceState.get('gitissueBridge.selectedRepository')).toBe('/work/b');
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not fire when refresh keeps the same repository', async () => {
+      await service.initialize(context);
+      const listener = jest.fn();
+      service.onDidChangeCurrentRepository(listener);
+
+      await service.refresh();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should inform user when there is nothing to select', async () => {
+      (readGitConfigRemotes as jest.Mock).mockResolvedValue([]);
+      await service.initialize(context);
+
+      const selected = await service.selectRepository();
+
+      expect(selected).toBeUndefined();
+      expect(mockWindow.showInformationMessage).toHaveBeenCalledWith(
+        expect.stringContaining('No GitHub repository detected')
+      );
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { createIssuesFromTodos, linkTodoComments } from '../../../src/todos/todoIssues';
+import { getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { getWorkspaceTrustManager } from '../../../src/utils/workspaceTrustManager';
+import { getHeadCommit } from '../../../src/git/gitCommands';
+import { parseTodoComments } from '../../../src/todos/todoParser';
+import { TodoItem } from '../../../src/todos/types';
+import * as vscode from 'vscode';
+
+jest.mock('vscode');
+jest.mock('../../../src/git/gitCommands');
+jest.mock('../../../src/api/githubIssuesClient', () => ({ getGitHubIssuesClient: jest.fn() }));
+jest.mock('../../../src/utils/workspaceTrustManager', () => ({
+  getWorkspaceTrustManager: jest.fn(),
+}));
+
+describe('todoIssues', () => {
+  const repository = {
+    host: 'github.com',
+    owner: 'octo',
+    repo: 'bridge',
+    rootUri: { fsPath: '/work/bridge' },
+  } as any;
+  const lines = ['const a = 1;', '  // TODO: handle errors', '# FIXME retry'];
+  const [first, second] = parseTodoComments(lines.join('\n'));
+  const todos: TodoItem[] = [
+    { ...first, relativePath: 'src/a.ts' },
+    { ...second, relativePath: 'src/a.ts' },
+  ];
+
+  let mockClient: any;
+  let mockTrust: any;
+  let document: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    let next = 100;
+    mockClient = {
+      createIssue: jest.fn(async () => ({ number: next++ })),
+      getDefaultBranch: jest.fn().mockResolvedValue('main'),
+    };
+    mockTrust = {
+      isTrusted: jest.fn(() => true),
+      ensureCapability: jest.fn().mockResolvedValue(true),
+      validateWorkspace: jest.fn().mockResolvedValue(true),
+    };
+    document = {
+      lineCount: lines.length,
+      lineAt: jest.fn((line: number) => ({ text: lines[line], range: { line } })),
+      save: jest.fn().mockResolvedValue(true),
+    };
+
+    (getGitHubIssuesClient as jest.Mock).mockReturnValue(mockClient);
+    (getWorkspaceTrustManager as jest.Mock).mockReturnValue(mockTrust);
+    (getHeadCommit as jest.Mock).mockResolvedValue('abc123');
+    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue(document);
+    (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('should create an issue per comment with a permalink at HEAD', async () => {
+    const created = await createIssuesFromTodos(repository, todos);
+
+    expect(created.map(entry => entry.issue.number)).toEqual([100, 101]);
+    expect(mockClient.createIssue).toHaveBeenCalledWith(
+      repository,
+      expect.objectContaining({
+        title: 'handle errors',
+        body: expect.stringContaining('https://github.com/octo/bridge/blob/abc123/src/a.ts#L2'),
+      })
+    );
+  });
+
+  it('should rewrite the comments to reference their issues', async () => {
+    await createIssuesFromTodos(repository, todos);
+
+    const [edit] = (vscode.workspace.applyEdit as jest.Mock).mock.calls[0];
+    expect(edit.edits.map((entry: any) => entry.newText)).toEqual([
+      '  // TODO(#100): handle errors',
+      '# FIXME(#101) retry',
+    ]);
+    expect(document.save).toHaveBeenCalled();
+  });
+
+  it('should link the comments of issues created before a failure', async () => {
+    mockClient.createIssue
+      .mockResolvedValueOnce({ number: 100 })
+      .mockRejectedValueOnce(new Error('boom'));
+
+    const created = await createIssuesFromTodos(repository, todos);
+
+    expect(created).toHaveLength(1);
+    const [edit] = (vscode.workspace.applyEdit as jest.Mock).mock.calls[0];
+    expect(edit.edits).toHaveLength(1);
+  });
+
+  it('should not create issues when trust is not granted', async () => {
+    mockTrust.ensureCapability.mockResolvedValue(false);
+
+    const created = await createIssuesFromTodos(repository, todos);
+
+    expect(created).toEqual([]);
+    expect(mockTrust.ensureCapability).toHaveBeenCalledWith('remoteWrites');
+    expect(mockClient.createIssue).not.toHaveBeenCalled();
+  });
+
+  it('should not rewrite comments in untrusted workspaces', async () => {
+    mockTrust.validateWorkspace.mockResolvedValue(false);
+
+    const rewritten = await linkTodoComments(repository, [
+      { todo: todos[0], issue: { number: 100 } as any },
+    ]);
+
+    expect(rewritten).toBe(0);
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+
+  it('should skip lines that changed since the scan', async () => {
+    document.lineAt.mockReturnValue({ text: 'something else', range: {} });
+
+    const rewritten = await linkTodoComments(repository, [
+      { todo: todos[0], issue: { number: 100 } as any },
+    ]);
+
+    expect(rewritten).toBe(0);
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  buildTodoIssue,
+  buildTodoPermalink,
+  linkTodoLine,
+  parseTodoComments,
+} from '../../../src/todos/todoParser';
+
+describe('todoParser', () => {
+  describe('parseTodoComments', () => {
+    it('should find comments in common comment syntaxes', () => {
+      const content = [
+        'const a = 1; // TODO: handle errors',
+        '# FIXME retry on timeout',
+        '/* HACK: work around the API bug */',
+        ' * TODO document this',
+        '<!-- TODO: translate -->',
+        '-- TODO: add an index',
+      ].join('\n');
+
+      const todos = parseTodoComments(content);
+
+      expect(todos.map(todo => [todo.line, todo.keyword, todo.text])).toEqual([
+        [0, 'TODO', 'handle errors'],
+        [1, 'FIXME', 'retry on timeout'],
+        [2, 'HACK', 'work around the API bug'],
+        [3, 'TODO', 'document this'],
+        [4, 'TODO', 'translate'],
+        [5, 'TODO', 'add an index'],
+      ]);
+    });
+
+    it('should ignore keywords outside comments and in other casing', () => {
+      const content = ['const TODO = 1;', '// todo: lowercase', '// TODOS are fine'].join('\n');
+
+      expect(parseTodoComments(content)).toEqual([]);
+    });
+
+    it('should detect comments already linked to an issue', () => {
+      const content = [
+        '// TODO(#12): linked',
+        '// TODO(alice): see #34',
+        '// FIXME: https://github.com/octo/bridge/issues/56',
+        '// TODO: not linked yet',
+      ].join('\n');
+
+      expect(parseTodoComments(content).map(todo => todo.linkedIssue)).toEqual([
+        12,
+        34,
+        56,
+        undefined,
+      ]);
+    });
+
+    it('should honor custom keywords', () => {
+      expect(parseTodoComments('// XXX: check', ['XXX'])[0].keyword).toBe('XXX');
+      expect(parseTodoComments('// TODO: check', [])).toEqual([]);
+    });
+  });
+
+  it('should rewrite the keyword to reference the issue', () => {
+    const [plain] = parseTodoComments('  // TODO: handle errors');
+    const [owned] = parseTodoComments('# FIXME(alice) retry');
+
+    expect(linkTodoLine('  // TODO: handle errors', plain, 7)).toBe('  // TODO(#7): handle errors');
+    expect(linkTodoLine('# FIXME(alice) retry', owned, 8)).toBe('# FIXME(#8) retry');
+  });
+
+  it('should build a permalink to the line', () => {
+    const [todo] = parseTodoComments('\n// TODO: x');
+    const permalink = buildTodoPermalink(
+      { host: 'github.com', owner: 'octo', repo: 'bridge' },
+      'abc123',
+      { ...todo, relativePath: 'src/my file.ts' }
+    );
+
+    expect(permalink).toBe('https://github.com/octo/bridge/blob/abc123/src/my%20file.ts#L2');
+  });
+
+  it('should build the issue from the comment', () => {
+    const [todo] = parseTodoComments('// TODO: handle errors');
+    const input = buildTodoIssue(
+      { ...todo, relativePath: 'src/a.ts', author: 'Alice' },
+      'https://example.com/permalink',
+      ['tech-debt']
+    );
+
+    expect(input.title).toBe('handle errors');
+    expect(input.body).toContain('\nhttps://example.com/permalink\n');
+    expect(input.body).toContain('`src/a.ts` line 1, written by Alice');
+    expect(input.labels).toEqual(['tech-debt']);
+  });
+});
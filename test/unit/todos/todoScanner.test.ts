@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TodoScanner, getTodoScanner } from '../../../src/todos/todoScanner';
+import * as gitCommands from '../../../src/git/gitCommands';
+import { getWorkspaceTrustManager } from '../../../src/utils/workspaceTrustManager';
+import * as vscode from 'vscode';
+
+jest.mock('vscode');
+jest.mock('../../../src/git/gitCommands');
+jest.mock('../../../src/utils/workspaceTrustManager', () => ({
+  getWorkspaceTrustManager: jest.fn(),
+}));
+
+describe('TodoScanner', () => {
+  let root: string;
+  let repository: any;
+  let mockGit: jest.Mocked<typeof gitCommands>;
+  let mockTrust: any;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'todos-'));
+    repository = { host: 'github.com', owner: 'octo', repo: 'bridge', rootUri: { fsPath: root } };
+
+    write('src/a.ts', 'const a = 1;\n// TODO: handle errors\n');
+    write('src/b.ts', '// FIXME(#12): linked\n');
+    write('ignored.log', '// TODO: should be ignored\n');
+    write('image.bin', '// TODO\0binary');
+
+    (vscode.workspace.findFiles as jest.Mock).mockResolvedValue(
+      ['src/a.ts', 'src/b.ts', 'ignored.log', 'image.bin'].map(file => ({
+        fsPath: path.join(root, file),
+      }))
+    );
+
+    mockGit = gitCommands as jest.Mocked<typeof gitCommands>;
+    mockGit.listUnignoredFiles.mockResolvedValue(['src/a.ts', 'src/b.ts', 'image.bin']);
+    mockGit.getLineAuthors.mockResolvedValue([undefined, 'Alice']);
+
+    mockTrust = { isTrusted: jest.fn(() => true) };
+    (getWorkspaceTrustManager as jest.Mock).mockReturnValue(mockTrust);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should return same instance', () => {
+    expect(TodoScanner.getInstance()).toBe(getTodoScanner());
+  });
+
+  it('should find comments with their blame author, honoring .gitignore', async () => {
+    const todos = await getTodoScanner().scan(repository);
+
+    expect(todos).toEqual([
+      expect.objectContaining({
+        relativePath: 'src/a.ts',
+        line: 1,
+        text: 'handle errors',
+        author: 'Alice',
+      }),
+      expect.objectContaining({ relativePath: 'src/b.ts', line: 0, linkedIssue: 12 }),
+    ]);
+  });
+
+  it('should pass the configured globs to the file search', async () => {
+    await getTodoScanner().scan(repository);
+
+    const [include, exclude] = (vscode.workspace.findFiles as jest.Mock).mock.calls[0];
+    expect(include.pattern).toBe('**/*');
+    expect(exclude).toBe('**/{node_modules,dist,out,build,coverage}/**');
+  });
+
+  it('should not run git in untrusted workspaces', async () => {
+    mockTrust.isTrusted.mockReturnValue(false);
+
+    const todos = await getTodoScanner().scan(repository);
+
+    expect(mockGit.listUnignoredFiles).not.toHaveBeenCalled();
+    expect(mockGit.getLineAuthors).not.toHaveBeenCalled();
+    expect(todos.map(todo => todo.relativePath)).toEqual(['ignored.log', 'src/a.ts', 'src/b.ts']);
+    expect(todos[1].author).toBeUndefined();
+  });
+
+  it('should stop when cancelled', async () => {
+    const todos = await getTodoScanner().scan(repository, {
+      isCancellationRequested: true,
+    } as any);
+
+    expect(todos).toEqual([]);
+  });
+});
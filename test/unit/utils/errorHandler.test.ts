@@ -1,4 +1,7 @@
+import * as vscode from 'vscode';
 import { ErrorHandler, ErrorSeverity, getErrorHandler } from '../../../src/utils/errorHandler';
+import { MissingScopeError } from '../../../src/api/githubErrors';
+import { getLogger } from '../../../src/utils/logger';
 
 describe('ErrorHandler', () => {
   let errorHandler: ErrorHandler;
@@ -104,4 +107,166 @@ describe('ErrorHandler', () => {
       expect(true).toBe(true);
     });
   });
+
+  describe('Offline Handling', () => {
+    it('should skip the popup for network errors when cached data is shown', async () => {
+      const offline = Object.assign(new Error('getaddrinfo ENOTFOUND api.github.com'), {
+        code: 'ENOTFOUND',
+      });
+
+      await errorHandler.handle(offline, { operation: 'sync', cachedDataAvailable: true });
+
+      expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+      expect(vscode.window.setStatusBarMessage).toHaveBeenCalledWith(
+        expect.stringContaining('cached data'),
+        expect.any(Number)
+      );
+    });
+
+    it('should still report other errors when cached data is shown', async () => {
+      await errorHandler.handle(new Error('Forbidden'), { cachedDataAvailable: true });
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalled();
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should not report operations the user cancelled', async () => {
+      await errorHandler.handle(new vscode.CancellationError(), { operation: 'createComment' });
+
+      expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GitHub Errors', () => {
+    const requestError = (
+      status: number,
+      headers: Record<string, string> = {},
+      message = 'Request failed'
+    ) => Object.assign(new Error(message), { status, response: { headers } });
+
+    it('should classify by status instead of matching the message', async () => {
+      await errorHandler.handle(new Error('Fix 404 page'));
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        'Fix 404 page',
+        'Show Logs',
+        'Dismiss'
+      );
+    });
+
+    it('should offer to re-authenticate when the session expired', async () => {
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Re-authenticate');
+
+      await errorHandler.handle(requestError(401, {}, 'Bad credentials'));
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        expect.stringContaining('session has expired'),
+        'Re-authenticate',
+        'Show Logs',
+        'Dismiss'
+      );
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('gitissue-bridge.authenticate');
+    });
+
+    it('should grant missing scopes and retry in one click', async () => {
+      const retry = jest.fn();
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Grant Access');
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(true);
+
+      await errorHandler.handle(
+        requestError(404, { 'x-accepted-oauth-scopes': 'repo', 'x-oauth-scopes': '' }),
+        { retry }
+      );
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        expect.stringContaining('missing the repo scope'),
+        'Grant Access',
+        'Show Logs',
+        'Dismiss'
+      );
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('gitissue-bridge.grantScopes', [
+        'repo',
+      ]);
+      expect(retry).toHaveBeenCalled();
+    });
+
+    it('should not retry when the scopes were not granted', async () => {
+      const retry = jest.fn();
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Grant Access');
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(false);
+
+      await errorHandler.handle(new MissingScopeError(['public_repo']), { retry });
+
+      expect(retry).not.toHaveBeenCalled();
+    });
+
+    it('should open the SSO authorization page', async () => {
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Authorize SSO');
+
+      await errorHandler.handle(
+        requestError(403, { 'x-github-sso': 'required; url=https://github.com/orgs/acme/sso?x=1' })
+      );
+
+      expect(vscode.env.openExternal).toHaveBeenCalledWith(
+        expect.objectContaining({ fsPath: 'https://github.com/orgs/acme/sso?x=1' })
+      );
+    });
+
+    it('should offer Retry for transient failures when the operation can be retried', async () => {
+      const retry = jest.fn();
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Retry');
+
+      await errorHandler.handle(requestError(502), { retry });
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        expect.stringContaining('HTTP 502'),
+        'Retry',
+        'Show Logs',
+        'Dismiss'
+      );
+      expect(retry).toHaveBeenCalled();
+    });
+
+    it('should not offer Retry for errors that would fail again', async () => {
+      await errorHandler.handle(requestError(404), { retry: jest.fn() });
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        expect.stringContaining('Not found'),
+        'Show Logs',
+        'Dismiss'
+      );
+    });
+  });
+
+  describe('Correlation', () => {
+    function findErrorLine(): string | undefined {
+      return getLogger()
+        .getRecentLines()
+        .reverse()
+        .find(line => line.includes('Error in Git during startIssue'));
+    }
+
+    it('should log the error under the correlation ID of the context', async () => {
+      await errorHandler.handle(new Error('checkout failed'), {
+        operation: 'startIssue',
+        component: 'Git',
+        correlationId: 'abc123',
+      });
+
+      expect(findErrorLine()).toContain('[abc123] [Git]');
+    });
+
+    it('should use the correlation ID of the running invocation', async () => {
+      await getLogger().withContext({ correlationId: 'def456' }, () =>
+        errorHandler.handle(new Error('checkout failed'), {
+          operation: 'startIssue',
+          component: 'Git',
+        })
+      );
+
+      expect(findErrorLine()).toContain('[def456] [Git]');
+    });
+  });
 });
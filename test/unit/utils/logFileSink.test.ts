@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogFileSink, LOG_FILE_NAME } from '../../../src/utils/logFileSink';
+
+describe('LogFileSink', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'gitissue-bridge-logs-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  function read(name: string): string {
+    return fs.readFileSync(path.join(directory, name), 'utf8');
+  }
+
+  it('should append lines in order, creating the directory', async () => {
+    const logDirectory = path.join(directory, 'nested');
+    const sink = new LogFileSink(logDirectory, { maxFileSize: 1024, maxFiles: 3 });
+
+    sink.write('first');
+    sink.write('second');
+    await sink.flush();
+
+    expect(fs.readFileSync(path.join(logDirectory, LOG_FILE_NAME), 'utf8')).toBe(
+      'first\nsecond\n'
+    );
+  });
+
+  it('should rotate by size and keep only the configured number of files', async () => {
+    const sink = new LogFileSink(directory, { maxFileSize: 10, maxFiles: 3 });
+
+    for (const line of ['line-1', 'line-2', 'line-3', 'line-4']) {
+      sink.write(line);
+    }
+
+    expect(await sink.getFiles()).toEqual([
+      path.join(directory, 'gitissue-bridge.log'),
+      path.join(directory, 'gitissue-bridge.1.log'),
+      path.join(directory, 'gitissue-bridge.2.log'),
+    ]);
+    expect(read('gitissue-bridge.log')).toBe('line-4\n');
+    expect(read('gitissue-bridge.1.log')).toBe('line-3\n');
+    expect(read('gitissue-bridge.2.log')).toBe('line-2\n');
+  });
+
+  it('should continue the existing file and drop files beyond the retention', async () => {
+    fs.writeFileSync(path.join(directory, LOG_FILE_NAME), 'before reload\n');
+    fs.writeFileSync(path.join(directory, 'gitissue-bridge.1.log'), 'older\n');
+    fs.writeFileSync(path.join(directory, 'gitissue-bridge.5.log'), 'too old\n');
+    const sink = new LogFileSink(directory, { maxFileSize: 1024, maxFiles: 2 });
+
+    sink.write('after reload');
+
+    expect(await sink.getFiles()).toHaveLength(2);
+    expect(read(LOG_FILE_NAME)).toBe('before reload\nafter reload\n');
+    expect(fs.existsSync(path.join(directory, 'gitissue-bridge.5.log'))).toBe(false);
+  });
+
+  it('should report a lasting write failure once and keep going', async () => {
+    const onError = jest.fn();
+    // A file where the directory should be makes every write fail
+    const blocked = path.join(directory, 'blocked');
+    fs.writeFileSync(blocked, '');
+    const sink = new LogFileSink(blocked, { maxFileSize: 1024, maxFiles: 2 }, onError);
+
+    sink.write('first');
+    sink.write('second');
+    await sink.flush();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore lines after being disposed', async () => {
+    const sink = new LogFileSink(directory, { maxFileSize: 1024, maxFiles: 2 });
+
+    sink.write('kept');
+    sink.dispose();
+    sink.write('ignored');
+    await sink.flush();
+
+    expect(read(LOG_FILE_NAME)).toBe('kept\n');
+  });
+
+  it('should write after the lines of the sink it replaces', async () => {
+    const previous = new LogFileSink(directory, { maxFileSize: 1024, maxFiles: 2 });
+    previous.write('old');
+    previous.dispose();
+
+    const sink = new LogFileSink(directory, { maxFileSize: 1024, maxFiles: 3 });
+    sink.startAfter(previous);
+    sink.write('new');
+    await sink.flush();
+
+    expect(read(LOG_FILE_NAME)).toBe('old\nnew\n');
+    expect(sink.hasSettings(directory, { maxFileSize: 1024, maxFiles: 3 })).toBe(true);
+    expect(sink.hasSettings(directory, { maxFileSize: 1024, maxFiles: 2 })).toBe(false);
+  });
+});
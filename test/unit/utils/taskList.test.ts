@@ -0,0 +1,42 @@
+import { parseTaskList, setTaskChecked, summarizeTaskList } from '../../../src/utils/taskList';
+
+describe('taskList', () => {
+  it('should parse checked and unchecked items in any bullet style', () => {
+    const markdown = [
+      '## Acceptance criteria',
+      '- [ ] Login works',
+      '* [x] Error is shown',
+      '1. [X] Tests added',
+      '- not a task',
+    ].join('\n');
+
+    expect(parseTaskList(markdown)).toEqual([
+      { text: 'Login works', checked: false, line: 1 },
+      { text: 'Error is shown', checked: true, line: 2 },
+      { text: 'Tests added', checked: true, line: 3 },
+    ]);
+  });
+
+  it('should ignore items inside fenced code blocks', () => {
+    const markdown = ['```md', '- [ ] example', '```', '- [ ] real'].join('\n');
+
+    expect(parseTaskList(markdown).map(item => item.text)).toEqual(['real']);
+  });
+
+  it('should summarize progress', () => {
+    expect(summarizeTaskList(parseTaskList('- [x] a\n- [ ] b\n- [x] c'))).toEqual({
+      completed: 2,
+      total: 3,
+    });
+  });
+
+  it('should toggle one item and keep the rest of the markdown', () => {
+    const markdown = '```\n- [ ] example\n```\r\n- [ ] a\r\n- [x] b';
+
+    expect(setTaskChecked(markdown, 0, true)).toBe('```\n- [ ] example\n```\r\n- [x] a\r\n- [x] b');
+    expect(setTaskChecked(markdown, 1, false)).toBe(
+      '```\n- [ ] example\n```\r\n- [ ] a\r\n- [ ] b'
+    );
+    expect(setTaskChecked(markdown, 2, true)).toBeUndefined();
+  });
+});
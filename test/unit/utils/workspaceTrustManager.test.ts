@@ -31,6 +31,21 @@ describe('WorkspaceTrustManager', () => {
     ];
   });
 
+  /**
+   * Simulate the user trusting the workspace in the trust editor
+   */
+  function grantTrustOnManage(): void {
+    let grant: () => void = () => {};
+    (mockWorkspace.onDidGrantWorkspaceTrust as jest.Mock).mockImplementation(listener => {
+      grant = listener;
+      return { dispose: jest.fn() };
+    });
+    (mockCommands.executeCommand as jest.Mock).mockImplementation(async () => {
+      (mockWorkspace as any).isTrusted = true;
+      grant();
+    });
+  }
+
   describe('Singleton Pattern', () => {
     it('should return same instance', () => {
       const instance1 = WorkspaceTrustManager.getInstance();
@@ -131,10 +146,10 @@ describe('WorkspaceTrustManager', () => {
       expect(result).toBe(false);
     });
 
-    it('should open trust dialog when user clicks Trust Workspace', async () => {
+    it('should open trust dialog when user clicks Trust Workspace and wait for the grant', async () => {
       (mockWorkspace as any).isTrusted = false;
       (mockWindow.showWarningMessage as jest.Mock).mockResolvedValue('Trust Workspace');
-      (mockCommands.executeCommand as jest.Mock).mockResolvedValue(undefined);
+      grantTrustOnManage();
 
       const result = await trustManager.ensureTrustedWorkspace();
 
@@ -142,6 +157,56 @@ describe('WorkspaceTrustManager', () => {
       expect(result).toBe(true);
     });
 
+    it('should return false when trust is not granted before the timeout', async () => {
+      (mockWorkspace as any).isTrusted = false;
+      (mockWindow.showWarningMessage as jest.Mock).mockResolvedValue('Trust Workspace');
+      (mockCommands.executeCommand as jest.Mock).mockResolvedValue(undefined);
+      const dispose = jest.fn();
+      (mockWorkspace.onDidGrantWorkspaceTrust as jest.Mock).mockReturnValue({ dispose });
+
+      const result = await trustManager.ensureTrustedWorkspace(undefined, 10);
+
+      expect(result).toBe(false);
+      expect(dispose).toHaveBeenCalled();
+      expect(mockWindow.showInformationMessage).toHaveBeenCalledWith(
+        expect.stringContaining('still in Restricted Mode')
+      );
+    });
+
+    it('should stop waiting when the trust editor cannot be opened', async () => {
+      (mockWorkspace as any).isTrusted = false;
+      (mockWindow.showWarningMessage as jest.Mock).mockResolvedValue('Trust Workspace');
+      (mockCommands.executeCommand as jest.Mock).mockRejectedValue(new Error('command not found'));
+      const dispose = jest.fn();
+      (mockWorkspace.onDidGrantWorkspaceTrust as jest.Mock).mockReturnValue({ dispose });
+      jest.useFakeTimers();
+
+      try {
+        const result = await trustManager.ensureTrustedWorkspace();
+
+        expect(result).toBe(false);
+        expect(dispose).toHaveBeenCalled();
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should explain the capability the operation needs', async () => {
+      (mockWorkspace as any).isTrusted = false;
+      (mockWindow.showWarningMessage as jest.Mock).mockResolvedValue('Cancel');
+
+      await trustManager.ensureTrustedWorkspace('gitMutations');
+
+      expect(mockWindow.showWarningMessage).toHaveBeenCalledWith(
+        expect.any(String),
+        { modal: true, detail: 'It needs to run git commands in this repository.' },
+        'Trust Workspace',
+        'Learn More',
+        'Cancel'
+      );
+    });
+
     it('should open documentation when user clicks Learn More and then show modal again', async () => {
       (mockWorkspace as any).isTrusted = false;
       
@@ -200,12 +265,46 @@ describe('WorkspaceTrustManager', () => {
       (mockWorkspace as any).isTrusted = false;
       (mockWorkspace as any).workspaceFolders = [{ uri: { fsPath: '/test' }, name: 'test', index: 0 }];
       (mockWindow.showWarningMessage as jest.Mock).mockResolvedValue('Trust Workspace');
-      (mockCommands.executeCommand as jest.Mock).mockResolvedValue(undefined);
+      grantTrustOnManage();
 
       const result = await trustManager.validateWorkspace();
 
       expect(result).toBe(true);
     });
+
+    it('should not request trust for capabilities available in Restricted Mode', async () => {
+      (mockWorkspace as any).isTrusted = false;
+
+      const result = await trustManager.validateWorkspace('readApi');
+
+      expect(result).toBe(true);
+      expect(mockWindow.showWarningMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Capabilities', () => {
+    it('should allow only capabilities that do not need trust in untrusted workspaces', () => {
+      (mockWorkspace as any).isTrusted = false;
+
+      expect(trustManager.isAllowed('readApi')).toBe(true);
+      expect(trustManager.isAllowed('writeFiles')).toBe(false);
+      expect(trustManager.isAllowed('gitMutations')).toBe(false);
+      expect(trustManager.isAllowed('remoteWrites')).toBe(false);
+
+      (mockWorkspace as any).isTrusted = true;
+      expect(trustManager.isAllowed('remoteWrites')).toBe(true);
+    });
+
+    it('should request trust for a capability that needs it', async () => {
+      (mockWorkspace as any).isTrusted = false;
+      (mockWindow.showWarningMessage as jest.Mock).mockResolvedValue('Trust Workspace');
+      grantTrustOnManage();
+
+      const result = await trustManager.ensureCapability('remoteWrites');
+
+      expect(result).toBe(true);
+      expect(mockWindow.showWarningMessage).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('onDidGrantWorkspaceTrust', () => {
@@ -0,0 +1,70 @@
+import * as zlib from 'zlib';
+import { crc32, createZip } from '../../../src/utils/zipArchive';
+
+/**
+ * Read the entries back through the central directory
+ */
+function readZip(archive: Buffer): Record<string, string> {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  const files: Record<string, string> = {};
+  for (let index = 0; index < count; index++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+
+    expect(archive.readUInt32LE(offset)).toBe(0x04034b50);
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+    const content = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(content)).toBe(archive.readUInt32LE(position + 16));
+    files[name] = content.toString('utf8');
+
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('zipArchive', () => {
+  describe('crc32', () => {
+    it('should compute the standard checksum', () => {
+      expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+      expect(crc32(Buffer.alloc(0))).toBe(0);
+    });
+  });
+
+  describe('createZip', () => {
+    it('should store entries that read back unchanged', () => {
+      const archive = createZip([
+        { name: 'environment.json', content: '{"version":"0.0.1"}' },
+        { name: 'logs/gitissue-bridge.log', content: Buffer.from('line 1\nline 2\n') },
+        { name: 'notas/ação.txt', content: 'çã' },
+      ]);
+
+      expect(readZip(archive)).toEqual({
+        'environment.json': '{"version":"0.0.1"}',
+        'logs/gitissue-bridge.log': 'line 1\nline 2\n',
+        'notas/ação.txt': 'çã',
+      });
+    });
+
+    it('should create an empty archive', () => {
+      const archive = createZip([]);
+
+      expect(archive.length).toBe(22);
+      expect(readZip(archive)).toEqual({});
+    });
+
+    it('should compress repetitive content', () => {
+      const content = 'INFO Synced issues\n'.repeat(1000);
+
+      const archive = createZip([{ name: 'log', content }]);
+
+      expect(archive.length).toBeLessThan(content.length / 10);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { AccountStatusBar } from '../../../src/views/accountStatusBar';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import * as vscode from 'vscode';
+
+jest.mock('vscode');
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+
+describe('AccountStatusBar', () => {
+  const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' };
+  let statusBar: AccountStatusBar;
+  let item: any;
+  let mockAuth: any;
+  let mockRepositories: any;
+  let sessionListener: () => void;
+  let repositoryListener: () => void;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAuth = {
+      isAuthenticated: jest.fn().mockResolvedValue(true),
+      getAccount: jest.fn(() => ({ id: '1', label: 'octocat' })),
+      onDidChangeSession: jest.fn(listener => {
+        sessionListener = listener;
+        return { dispose: jest.fn() };
+      }),
+    };
+    mockRepositories = {
+      getCurrentRepository: jest.fn(() => repository),
+      onDidChangeCurrentRepository: jest.fn(listener => {
+        repositoryListener = listener;
+        return { dispose: jest.fn() };
+      }),
+    };
+    (getGitHubAuthManager as jest.Mock).mockReturnValue(mockAuth);
+    (getRepositoryService as jest.Mock).mockReturnValue(mockRepositories);
+
+    statusBar = new AccountStatusBar();
+    item = (vscode.window.createStatusBarItem as jest.Mock).mock.results[0].value;
+  });
+
+  afterEach(() => {
+    statusBar.dispose();
+  });
+
+  it('should show the account of the current repository', async () => {
+    await statusBar.update();
+
+    expect(mockAuth.isAuthenticated).toHaveBeenCalledWith(repository);
+    expect(mockAuth.getAccount).toHaveBeenCalledWith(repository);
+    expect(item.text).toBe('$(account) octocat');
+    expect(item.command).toBe('gitissue-bridge.switchAccount');
+    expect(item.show).toHaveBeenCalled();
+  });
+
+  it('should offer sign in when not authenticated', async () => {
+    mockAuth.isAuthenticated.mockResolvedValue(false);
+
+    await statusBar.update();
+
+    expect(item.text).toBe('$(account) Sign in');
+    expect(item.command).toBe('gitissue-bridge.authenticate');
+  });
+
+  it('should hide without a GitHub repository', async () => {
+    mockRepositories.getCurrentRepository.mockReturnValue(undefined);
+
+    await statusBar.update();
+
+    expect(item.hide).toHaveBeenCalled();
+  });
+
+  it('should update when the session or repository changes', async () => {
+    await statusBar.update();
+    mockAuth.getAccount.mockReturnValue({ id: '2', label: 'work-user' });
+
+    sessionListener();
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(item.text).toBe('$(account) work-user');
+
+    mockAuth.getAccount.mockReturnValue({ id: '1', label: 'octocat' });
+    repositoryListener();
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(item.text).toBe('$(account) octocat');
+  });
+});
@@ -0,0 +1,79 @@
+import { createIssue } from '../../../src/views/issueCreator';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { getWorkspaceTrustManager } from '../../../src/utils/workspaceTrustManager';
+import * as vscode from 'vscode';
+
+jest.mock('vscode');
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+jest.mock('../../../src/api/githubIssuesClient', () => ({ getGitHubIssuesClient: jest.fn() }));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+jest.mock('../../../src/utils/workspaceTrustManager', () => ({
+  getWorkspaceTrustManager: jest.fn(),
+}));
+
+describe('createIssue', () => {
+  const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' };
+  let mockClient: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = {
+      createIssue: jest.fn().mockResolvedValue({
+        number: 50,
+        title: 'Login crash',
+        htmlUrl: 'https://github.com/octo/bridge/issues/50',
+      }),
+    };
+    (getGitHubIssuesClient as jest.Mock).mockReturnValue(mockClient);
+    (getGitHubAuthManager as jest.Mock).mockReturnValue({
+      ensureAuthenticated: jest.fn().mockResolvedValue(true),
+    });
+    (getRepositoryService as jest.Mock).mockReturnValue({
+      getCurrentRepository: () => repository,
+    });
+    (getWorkspaceTrustManager as jest.Mock).mockReturnValue({
+      ensureCapability: jest.fn().mockResolvedValue(true),
+    });
+  });
+
+  it('should create the issue with the confirmed title and the draft content', async () => {
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValue(' Login crash on Safari ');
+
+    const issue = await createIssue({ title: 'Login crash', body: 'Steps', labels: ['bug'] });
+
+    expect(vscode.window.showInputBox).toHaveBeenCalledWith(
+      expect.objectContaining({ value: 'Login crash' })
+    );
+    expect(mockClient.createIssue).toHaveBeenCalledWith(repository, {
+      title: 'Login crash on Safari',
+      body: 'Steps',
+      labels: ['bug'],
+    });
+    expect(issue?.number).toBe(50);
+  });
+
+  it('should do nothing when the title prompt is cancelled', async () => {
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValue(undefined);
+
+    await expect(createIssue()).resolves.toBeUndefined();
+    expect(mockClient.createIssue).not.toHaveBeenCalled();
+  });
+
+  it('should not create issues when trust is not granted', async () => {
+    (getWorkspaceTrustManager as jest.Mock).mockReturnValue({
+      ensureCapability: jest.fn().mockResolvedValue(false),
+    });
+
+    await expect(createIssue()).resolves.toBeUndefined();
+    expect(vscode.window.showInputBox).not.toHaveBeenCalled();
+    expect(mockClient.createIssue).not.toHaveBeenCalled();
+  });
+
+  it('should throw when no repository is detected', async () => {
+    (getRepositoryService as jest.Mock).mockReturnValue({ getCurrentRepository: () => undefined });
+
+    await expect(createIssue()).rejects.toThrow('No GitHub repository detected');
+  });
+});
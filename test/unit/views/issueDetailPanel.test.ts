@@ -0,0 +1,302 @@
+import { IssueDetailPanels, ISSUE_DETAIL_VIEW_TYPE } from '../../../src/views/issueDetailPanel';
+import { getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { NetworkError } from '../../../src/api/githubErrors';
+import { getIssueCache } from '../../../src/cache/issueCache';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { getWorkspaceTrustManager } from '../../../src/utils/workspaceTrustManager';
+import { GitHubIssue, GitHubIssueDetail } from '../../../src/api/types';
+import * as vscode from 'vscode';
+import { makeIssue } from '../../fixtures/issues';
+
+jest.mock('vscode');
+jest.mock('../../../src/api/githubIssuesClient', () => ({ getGitHubIssuesClient: jest.fn() }));
+jest.mock('../../../src/cache/issueCache', () => ({ getIssueCache: jest.fn() }));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+jest.mock('../../../src/utils/workspaceTrustManager', () => ({
+  getWorkspaceTrustManager: jest.fn(),
+}));
+
+const fixLogin: Partial<GitHubIssue> = {
+  title: 'Fix login',
+  body: '- [ ] Reproduce\n- [x] Fix',
+  labels: [{ name: 'bug', color: 'd73a4a' }],
+  comments: 1,
+  updatedAt: '2026-01-02T00:00:00Z',
+};
+
+const octocat = { login: 'octocat', avatarUrl: '', htmlUrl: 'https://github.com/octocat' };
+
+describe('IssueDetailPanels', () => {
+  const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' };
+  let panels: IssueDetailPanels;
+  let panel: any;
+  let postMessage: (message: unknown) => Promise<void>;
+  let mockClient: any;
+  let mockTrust: any;
+  let detail: GitHubIssueDetail;
+
+  function createPanel() {
+    return {
+      title: '',
+      webview: {
+        html: '',
+        options: {},
+        cspSource: 'vscode-webview:',
+        asWebviewUri: jest.fn(uri => ({ toString: () => `webview:${uri.fsPath}` })),
+        onDidReceiveMessage: jest.fn(listener => {
+          postMessage = listener;
+          return { dispose: jest.fn() };
+        }),
+      },
+      onDidDispose: jest.fn(() => ({ dispose: jest.fn() })),
+      reveal: jest.fn(),
+      dispose: jest.fn(),
+    };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    detail = {
+      issue: makeIssue(42, fixLogin),
+      bodyHtml:
+        '<ul><li class="task-list-item"><input type="checkbox" disabled> Reproduce</li></ul>',
+      reactions: { '+1': 2 },
+      timeline: [
+        {
+          kind: 'comment',
+          comment: {
+            id: 7,
+            body: 'On it',
+            author: octocat,
+            htmlUrl: 'https://github.com/octo/bridge/issues/42#issuecomment-7',
+            createdAt: '2026-01-03T00:00:00Z',
+            updatedAt: '2026-01-03T00:00:00Z',
+          },
+          bodyHtml: '<p>On it</p>',
+          reactions: { rocket: 1 },
+        },
+        {
+          kind: 'event',
+          event: 'labeled',
+          actor: octocat,
+          createdAt: '2026-01-03T00:00:00Z',
+          label: { name: 'bug', color: 'd73a4a' },
+        },
+        {
+          kind: 'event',
+          event: 'closed',
+          actor: octocat,
+          createdAt: '2026-01-04T00:00:00Z',
+          stateReason: 'not_planned',
+        },
+      ],
+    };
+
+    panel = createPanel();
+    (vscode.window.createWebviewPanel as jest.Mock).mockReturnValue(panel);
+
+    mockClient = {
+      getIssueDetail: jest.fn(async () => detail),
+      getIssue: jest.fn(async () => makeIssue(42, fixLogin)),
+      updateIssue: jest.fn(async () => makeIssue(42, fixLogin)),
+      createComment: jest.fn(),
+      listLabels: jest.fn(async () => [
+        { name: 'bug', color: 'd73a4a' },
+        { name: 'ui', color: '0000ff' },
+      ]),
+    };
+    mockTrust = { ensureCapability: jest.fn(async () => true) };
+    (getGitHubIssuesClient as jest.Mock).mockReturnValue(mockClient);
+    (getWorkspaceTrustManager as jest.Mock).mockReturnValue(mockTrust);
+    (getRepositoryService as jest.Mock).mockReturnValue({
+      getRepositories: () => [{ ...repository, remoteName: 'origin' }],
+    });
+
+    panels = new IssueDetailPanels({ fsPath: '/extension' } as vscode.Uri);
+  });
+
+  describe('rendering', () => {
+    it('should render the issue, its reactions and timeline under a strict CSP', async () => {
+      await panels.show(repository, 42);
+
+      expect(vscode.window.createWebviewPanel).toHaveBeenCalledWith(
+        ISSUE_DETAIL_VIEW_TYPE,
+        '#42',
+        expect.anything(),
+        expect.objectContaining({
+          enableScripts: true,
+          localResourceRoots: [{ fsPath: '/extension/assets/media' }],
+        })
+      );
+      expect(panel.title).toBe('#42 Fix login');
+
+      const html: string = panel.webview.html;
+      expect(html).toMatch(/default-src 'none'/);
+      expect(html).toMatch(/script-src 'nonce-([^']+)'/);
+      const nonce = /script-src 'nonce-([^']+)'/.exec(html)?.[1];
+      expect(html).toContain(
+        `<script nonce="${nonce}" src="webview:/extension/assets/media/issueDetail.js">`
+      );
+      expect(html).toContain(detail.bodyHtml);
+      expect(html).toContain('👍 2');
+      expect(html).toContain('<p>On it</p>');
+      expect(html).toContain('🚀 1');
+      expect(html).toContain('added the <span class="label" data-color="d73a4a">bug</span> label');
+      expect(html).toContain('closed this as not planned');
+    });
+
+    it('should escape issue fields it renders itself', async () => {
+      detail.issue = makeIssue(42, { ...fixLogin, title: '<img src=x onerror=alert(1)>' });
+
+      await panels.show(repository, 42);
+
+      expect(panel.webview.html).not.toContain('<img src=x');
+      expect(panel.webview.html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    });
+
+    it('should reveal the open panel of an issue instead of opening another', async () => {
+      await panels.show(repository, 42);
+      await panels.show(repository, 42);
+
+      expect(vscode.window.createWebviewPanel).toHaveBeenCalledTimes(1);
+      expect(panel.reveal).toHaveBeenCalled();
+    });
+
+    it('should open the issue of a tree node', async () => {
+      await panels.open({ kind: 'issue', repository, issue: makeIssue(42, fixLogin) });
+
+      expect(mockClient.getIssueDetail).toHaveBeenCalledWith(repository, 42);
+    });
+
+    it('should show the cached issue as plain text when GitHub cannot be reached', async () => {
+      mockClient.getIssueDetail.mockRejectedValue(new NetworkError('ETIMEDOUT'));
+      (getIssueCache as jest.Mock).mockReturnValue({
+        getIssue: jest.fn(async () => makeIssue(42, { ...fixLogin, body: 'Use <b>cache</b>' })),
+        getComments: jest.fn(async () => []),
+      });
+
+      await panels.show(repository, 42);
+
+      expect(panel.webview.html).toContain('Showing the cached issue');
+      expect(panel.webview.html).toContain('<pre class="plain">Use &lt;b&gt;cache&lt;/b&gt;</pre>');
+    });
+
+    it('should show the error in the panel when the issue cannot be loaded', async () => {
+      mockClient.getIssueDetail.mockRejectedValue(new Error('Not Found'));
+
+      await panels.show(repository, 42);
+
+      expect(panel.webview.html).toContain('Could not load issue #42: Not Found');
+      expect(panel.webview.html).toContain('data-action="refresh"');
+    });
+  });
+
+  describe('serializer', () => {
+    it('should restore a panel from its saved state', async () => {
+      const restored = createPanel();
+
+      await panels.deserializeWebviewPanel(restored as any, { repository, number: 42 });
+
+      expect(mockClient.getIssueDetail).toHaveBeenCalledWith(repository, 42);
+      expect(restored.title).toBe('#42 Fix login');
+    });
+
+    it('should close panels without a saved state', async () => {
+      const restored = createPanel();
+
+      await panels.deserializeWebviewPanel(restored as any, undefined);
+
+      expect(restored.dispose).toHaveBeenCalled();
+      expect(mockClient.getIssueDetail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('editing', () => {
+    beforeEach(async () => {
+      await panels.show(repository, 42);
+    });
+
+    it('should comment after checking workspace trust and report the change', async () => {
+      const changed = jest.fn();
+      panels.onDidChangeIssue(changed);
+
+      await postMessage({ type: 'comment', body: 'Fixed in #50' });
+
+      expect(mockTrust.ensureCapability).toHaveBeenCalledWith('remoteWrites');
+      expect(mockClient.createComment).toHaveBeenCalledWith(repository, 42, 'Fixed in #50');
+      expect(changed).toHaveBeenCalled();
+      expect(mockClient.getIssueDetail).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not write when the workspace is not trusted', async () => {
+      mockTrust.ensureCapability.mockResolvedValue(false);
+
+      await postMessage({ type: 'reopen' });
+
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should toggle a task list item in the latest body', async () => {
+      await postMessage({ type: 'toggleTask', index: 0, checked: true });
+
+      expect(mockClient.updateIssue).toHaveBeenCalledWith(repository, 42, {
+        body: '- [x] Reproduce\n- [x] Fix',
+      });
+    });
+
+    it('should not toggle a task that changed on GitHub', async () => {
+      mockClient.getIssue.mockResolvedValue(
+        makeIssue(42, { ...fixLogin, body: '- [ ] Write a test\n- [x] Fix' })
+      );
+
+      await postMessage({ type: 'toggleTask', index: 0, checked: true });
+
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        expect.stringContaining('task list of #42 changed')
+      );
+    });
+
+    it('should ask before overwriting a description that changed on GitHub', async () => {
+      mockClient.getIssue.mockResolvedValue(
+        makeIssue(42, { ...fixLogin, body: 'Edited elsewhere' })
+      );
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce(undefined);
+
+      await postMessage({ type: 'editBody', body: 'New description' });
+
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should set the labels picked by the user', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(async items => {
+        const list = await items;
+        expect(list.map((item: vscode.QuickPickItem) => item.picked)).toEqual([true, false]);
+        return [list[1]];
+      });
+
+      await postMessage({ type: 'editLabels' });
+
+      expect(mockClient.updateIssue).toHaveBeenCalledWith(repository, 42, { labels: ['ui'] });
+    });
+
+    it('should close the issue with the given reason', async () => {
+      await postMessage({ type: 'close', reason: 'not_planned' });
+
+      expect(mockClient.updateIssue).toHaveBeenCalledWith(repository, 42, {
+        state: 'closed',
+        stateReason: 'not_planned',
+      });
+    });
+
+    it('should report failed changes and render the issue again', async () => {
+      mockClient.updateIssue.mockRejectedValue(new Error('Validation Failed'));
+
+      await postMessage({ type: 'reopen' });
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalled();
+      expect(mockClient.getIssueDetail).toHaveBeenCalledTimes(2);
+    });
+  });
+});
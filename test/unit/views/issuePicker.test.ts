@@ -0,0 +1,115 @@
+import {
+  findRepositoryForReference,
+  parseIssueReference,
+  pickIssue,
+} from '../../../src/views/issuePicker';
+import { getIssueCache } from '../../../src/cache/issueCache';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import * as vscode from 'vscode';
+
+jest.mock('vscode');
+
+jest.mock('../../../src/cache/issueCache', () => ({
+  getIssueCache: jest.fn(),
+}));
+
+jest.mock('../../../src/git/repositoryService', () => ({
+  getRepositoryService: jest.fn(),
+}));
+
+describe('issuePicker', () => {
+  const alpha = { host: 'github.com', owner: 'octo', repo: 'alpha' } as any;
+  const beta = { host: 'ghe.example.com', owner: 'team', repo: 'beta' } as any;
+
+  describe('parseIssueReference', () => {
+    it.each([
+      ['42', { number: 42 }],
+      ['#42', { number: 42 }],
+      ['octo/alpha#7', { owner: 'octo', repo: 'alpha', number: 7 }],
+      [
+        'https://github.com/octo/alpha/issues/9',
+        { host: 'github.com', owner: 'octo', repo: 'alpha', number: 9 },
+      ],
+      [
+        'https://GHE.example.com/team/beta/issues/3/',
+        { host: 'ghe.example.com', owner: 'team', repo: 'beta', number: 3 },
+      ],
+    ])('should parse %s', (input, expected) => {
+      expect(parseIssueReference(input)).toEqual(expected);
+    });
+
+    it.each([['abc'], ['https://github.com/octo/alpha'], ['#'], ['ftp://github.com/o/r/issues/1']])(
+      'should reject %s',
+      input => {
+        expect(parseIssueReference(input)).toBeUndefined();
+      }
+    );
+  });
+
+  describe('findRepositoryForReference', () => {
+    it('should use the default repository for bare numbers', () => {
+      expect(findRepositoryForReference({ number: 1 }, [alpha, beta], beta)).toBe(beta);
+    });
+
+    it('should match owner, repo and host', () => {
+      expect(
+        findRepositoryForReference({ owner: 'Octo', repo: 'ALPHA', number: 1 }, [alpha, beta], beta)
+      ).toBe(alpha);
+      expect(
+        findRepositoryForReference(
+          { host: 'github.com', owner: 'team', repo: 'beta', number: 1 },
+          [alpha, beta],
+          alpha
+        )
+      ).toBeUndefined();
+    });
+  });
+
+  describe('pickIssue', () => {
+    const issue = { number: 5, title: 'Crash', labels: [], milestone: undefined };
+    let mockCache: any;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockCache = {
+        getIssues: jest.fn().mockResolvedValue([issue]),
+        getIssue: jest.fn().mockResolvedValue({ ...issue, number: 9 }),
+      };
+      (getIssueCache as jest.Mock).mockReturnValue(mockCache);
+      (getRepositoryService as jest.Mock).mockReturnValue({
+        getCurrentRepository: () => alpha,
+        getRepositories: () => [alpha, beta],
+      });
+    });
+
+    it('should return the picked issue', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(async (items: any) => {
+        const resolved = await items;
+        return resolved[1];
+      });
+
+      const picked = await pickIssue('Pick');
+
+      expect(picked).toEqual({ repository: alpha, issue });
+    });
+
+    it('should resolve a typed reference', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(async (items: any) => {
+        const resolved = await items;
+        return resolved[0];
+      });
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValue('team/beta#9');
+
+      const picked = await pickIssue('Pick');
+
+      expect(mockCache.getIssue).toHaveBeenCalledWith(beta, 9);
+      expect(picked?.repository).toBe(beta);
+    });
+
+    it('should return undefined when cancelled', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockResolvedValue(undefined);
+
+      expect(await pickIssue('Pick')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  IssueSearchPicker,
+  matchesSearchQuery,
+  parseSearchQuery,
+  searchCachedIssues,
+} from '../../../src/views/issueSearch';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { NetworkError } from '../../../src/api/githubErrors';
+import { getIssueCache } from '../../../src/cache/issueCache';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { getWorkspaceTrustManager } from '../../../src/utils/workspaceTrustManager';
+import * as vscode from 'vscode';
+import { makeIssue } from '../../fixtures/issues';
+
+jest.mock('vscode');
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+jest.mock('../../../src/api/githubIssuesClient', () => ({ getGitHubIssuesClient: jest.fn() }));
+jest.mock('../../../src/cache/issueCache', () => ({ getIssueCache: jest.fn() }));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+jest.mock('../../../src/utils/workspaceTrustManager', () => ({
+  getWorkspaceTrustManager: jest.fn(),
+}));
+
+const octocat = { login: 'octocat', avatarUrl: '', htmlUrl: '' };
+
+describe('parseSearchQuery', () => {
+  it('should split free text and qualifiers, including quoted values', () => {
+    expect(parseSearchQuery('login crash label:bug -label:wontfix milestone:"Sprint 2"')).toEqual({
+      terms: ['login', 'crash'],
+      qualifiers: [
+        { key: 'label', value: 'bug', negated: false },
+        { key: 'label', value: 'wontfix', negated: true },
+        { key: 'milestone', value: 'Sprint 2', negated: false },
+      ],
+    });
+  });
+
+  it('should keep quoted phrases together', () => {
+    expect(parseSearchQuery('"safari login"').terms).toEqual(['safari login']);
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  const issue = makeIssue(42, {
+    title: 'Fix login on Safari',
+    body: 'Crashes after the redirect',
+    labels: [{ name: 'bug', color: '' }],
+    assignees: [octocat],
+    milestone: { number: 1, title: 'v2' } as any,
+  });
+
+  it('should match free text in the title, body and number, and fuzzily in the title', () => {
+    expect(matchesSearchQuery(issue, parseSearchQuery('login'), undefined)).toBe(true);
+    expect(matchesSearchQuery(issue, parseSearchQuery('redirect'), undefined)).toBe(true);
+    expect(matchesSearchQuery(issue, parseSearchQuery('#42'), undefined)).toBe(true);
+    expect(matchesSearchQuery(issue, parseSearchQuery('lgnsfr'), undefined)).toBe(true);
+    expect(matchesSearchQuery(issue, parseSearchQuery('chrome'), undefined)).toBe(false);
+  });
+
+  it('should check qualifiers, with @me standing for the signed in user', () => {
+    const matches = (query: string) =>
+      matchesSearchQuery(issue, parseSearchQuery(query), 'octocat');
+
+    expect(matches('label:BUG milestone:"v2" assignee:@me is:open')).toBe(true);
+    expect(matches('-label:bug')).toBe(false);
+    expect(matches('no:milestone')).toBe(false);
+    expect(matches('author:hubot')).toBe(false);
+    // Not checked offline
+    expect(matches('sort:updated-desc reactions:>5')).toBe(true);
+  });
+});
+
+describe('searchCachedIssues', () => {
+  it('should list title matches first, then the most recently updated', () => {
+    const issues = [
+      makeIssue(1, { title: 'Other', body: 'mentions login', updatedAt: '2026-03-01T00:00:00Z' }),
+      makeIssue(2, { title: 'Login page', updatedAt: '2026-01-01T00:00:00Z' }),
+      makeIssue(3, { title: 'Unrelated' }),
+    ];
+
+    expect(searchCachedIssues(issues, 'login').map(issue => issue.number)).toEqual([2, 1]);
+  });
+});
+
+describe('IssueSearchPicker', () => {
+  const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' };
+  let quickPick: any;
+  let listeners: Record<string, (...args: any[]) => any>;
+  let stored: Record<string, unknown>;
+  let picker: IssueSearchPicker;
+  let mockClient: any;
+  let mockCache: any;
+
+  function createQuickPick() {
+    listeners = {};
+    const on = (name: string) =>
+      jest.fn(listener => {
+        listeners[name] = listener;
+        return { dispose: jest.fn() };
+      });
+    return {
+      items: [],
+      value: '',
+      busy: false,
+      selectedItems: [],
+      onDidChangeValue: on('changeValue'),
+      onDidAccept: on('accept'),
+      onDidTriggerItemButton: on('button'),
+      onDidHide: on('hide'),
+      show: jest.fn(),
+      hide: jest.fn(),
+      dispose: jest.fn(),
+    };
+  }
+
+  function labels(): string[] {
+    return quickPick.items.map((item: vscode.QuickPickItem) => item.label);
+  }
+
+  function button(index: number, action: string) {
+    const item = quickPick.items.filter((entry: any) => entry.issue)[index];
+    return { item, button: item.buttons.find((entry: any) => entry.action === action) };
+  }
+
+  async function type(value: string): Promise<void> {
+    quickPick.value = value;
+    listeners.changeValue(value);
+    await jest.advanceTimersByTimeAsync(300);
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    stored = {};
+    const state = {
+      get: jest.fn((key: string, defaultValue?: unknown) => stored[key] ?? defaultValue),
+      update: jest.fn(async (key: string, value: unknown) => {
+        stored[key] = value;
+      }),
+    };
+    picker = new IssueSearchPicker(state as any);
+
+    quickPick = createQuickPick();
+    (vscode.window.createQuickPick as jest.Mock).mockReturnValue(quickPick);
+
+    mockClient = { searchIssues: jest.fn().mockResolvedValue([makeIssue(7)]) };
+    mockCache = {
+      isOffline: jest.fn(() => false),
+      getIssues: jest.fn().mockResolvedValue([makeIssue(1), makeIssue(2, { state: 'closed' })]),
+    };
+    (getGitHubIssuesClient as jest.Mock).mockReturnValue(mockClient);
+    (getIssueCache as jest.Mock).mockReturnValue(mockCache);
+    (getGitHubAuthManager as jest.Mock).mockReturnValue({
+      getUsername: jest.fn().mockResolvedValue('octocat'),
+    });
+    (getRepositoryService as jest.Mock).mockReturnValue({
+      getCurrentRepository: () => repository,
+    });
+    (getWorkspaceTrustManager as jest.Mock).mockReturnValue({ isAllowed: jest.fn(() => true) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should list cached open issues before anything is typed', async () => {
+    await picker.show();
+
+    expect(quickPick.show).toHaveBeenCalled();
+    expect(labels()).toEqual(['Open issues', '$(issues) #1 Issue 1']);
+  });
+
+  it('should search GitHub once typing pauses', async () => {
+    await picker.show();
+
+    await type('label:bug');
+
+    expect(mockClient.searchIssues).toHaveBeenCalledTimes(1);
+    expect(mockClient.searchIssues).toHaveBeenCalledWith(repository, 'label:bug');
+    expect(labels()).toEqual(['$(issues) #7 Issue 7']);
+    expect(quickPick.items[0].alwaysShow).toBe(true);
+  });
+
+  it('should search the cached issues when GitHub cannot be reached', async () => {
+    mockClient.searchIssues.mockRejectedValue(new NetworkError('ETIMEDOUT'));
+    await picker.show();
+
+    await type('is:closed');
+
+    expect(labels()).toEqual(['Cached issues (offline)', '$(pass) #2 Issue 2']);
+  });
+
+  it('should put favorites and recent issues first', async () => {
+    mockClient.searchIssues.mockResolvedValue([makeIssue(7), makeIssue(8), makeIssue(9)]);
+    await picker.toggleFavorite(repository, makeIssue(9));
+    await picker.show();
+    await type('issue');
+
+    // Opening an issue makes it recent
+    const { item, button: open } = button(2, 'open');
+    await listeners.button({ item, button: open });
+    await type('issue');
+
+    expect(labels()).toEqual([
+      '$(issues) #9 Issue 9',
+      '$(issues) #8 Issue 8',
+      '$(issues) #7 Issue 7',
+    ]);
+    expect(picker.getHistory(repository).recent.map(issue => issue.number)).toEqual([8]);
+  });
+
+  it('should list favorites and recent issues in sections', async () => {
+    await picker.toggleFavorite(repository, makeIssue(2, { state: 'closed' }));
+    await picker.show();
+
+    expect(labels()).toEqual([
+      'Favorites',
+      '$(pass) #2 Issue 2',
+      'Open issues',
+      '$(issues) #1 Issue 1',
+    ]);
+  });
+
+  it('should show the details of the accepted issue', async () => {
+    await picker.show();
+
+    quickPick.selectedItems = [quickPick.items[1]];
+    listeners.accept();
+    await jest.runAllTimersAsync();
+
+    expect(quickPick.hide).toHaveBeenCalled();
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+      'gitissue-bridge.openIssue',
+      'https://github.com/octo/bridge/issues/1'
+    );
+  });
+
+  it('should run the item buttons', async () => {
+    await picker.show();
+
+    await listeners.button(button(0, 'start'));
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+      'gitissue-bridge.startIssue',
+      'https://github.com/octo/bridge/issues/1'
+    );
+
+    await listeners.button(button(0, 'copyLink'));
+    expect(vscode.env.clipboard.writeText).toHaveBeenCalledWith(
+      'https://github.com/octo/bridge/issues/1'
+    );
+    expect(quickPick.hide).toHaveBeenCalled();
+  });
+
+  it('should insert the reference into every selection of the active editor', async () => {
+    const builder = { replace: jest.fn() };
+    const editor = {
+      selections: ['first', 'second'],
+      edit: jest.fn(async callback => callback(builder)),
+    };
+    (vscode.window as any).activeTextEditor = editor;
+    try {
+      await picker.show();
+
+      await listeners.button(button(0, 'insertReference'));
+
+      expect(builder.replace).toHaveBeenCalledWith('first', '#1');
+      expect(builder.replace).toHaveBeenCalledWith('second', '#1');
+    } finally {
+      (vscode.window as any).activeTextEditor = undefined;
+    }
+  });
+
+  it('should toggle favorites without closing the picker', async () => {
+    await picker.show();
+
+    await listeners.button(button(0, 'favorite'));
+
+    expect(quickPick.hide).not.toHaveBeenCalled();
+    expect(labels()).toEqual(['Favorites', '$(issues) #1 Issue 1']);
+    expect(button(0, 'favorite').button.tooltip).toBe('Remove from Favorites');
+  });
+
+  it('should leave out the start button where git may not run', async () => {
+    (getWorkspaceTrustManager as jest.Mock).mockReturnValue({ isAllowed: jest.fn(() => false) });
+
+    await picker.show();
+
+    expect(button(0, 'start').button).toBeUndefined();
+    expect(button(0, 'open').button).toBeDefined();
+  });
+});
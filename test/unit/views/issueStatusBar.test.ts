@@ -0,0 +1,276 @@
+import {
+  IssueStatusBar,
+  buildStatusBarTooltip,
+  formatStatusBarText,
+} from '../../../src/views/issueStatusBar';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { getIssueCache } from '../../../src/cache/issueCache';
+import { getBranchIssueMapper } from '../../../src/git/branchIssueMapper';
+import { getWorkspaceTrustManager } from '../../../src/utils/workspaceTrustManager';
+import { getRequestScheduler } from '../../../src/api/requestScheduler';
+import { GitHubIssue } from '../../../src/api/types';
+import * as vscode from 'vscode';
+import { makeIssue, makeMilestone } from '../../fixtures/issues';
+
+jest.mock('vscode');
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+jest.mock('../../../src/api/githubIssuesClient', () => ({ getGitHubIssuesClient: jest.fn() }));
+jest.mock('../../../src/cache/issueCache', () => ({ getIssueCache: jest.fn() }));
+jest.mock('../../../src/git/branchIssueMapper', () => ({ getBranchIssueMapper: jest.fn() }));
+jest.mock('../../../src/utils/workspaceTrustManager', () => ({
+  getWorkspaceTrustManager: jest.fn(),
+}));
+
+describe('IssueStatusBar', () => {
+  const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' };
+  const link = (issueNumber: number) => ({
+    repository,
+    branch: `fix/${issueNumber}`,
+    issueNumber,
+    source: 'template',
+  });
+
+  const issue = makeIssue(42, {
+    title: 'Fix login',
+    body: '- [x] Reproduce\n- [ ] Fix',
+    milestone: makeMilestone(1, { title: 'v1.2', openIssues: 2, closedIssues: 3 }),
+  });
+
+  describe('formatting', () => {
+    it('should show the issue and milestone progress', () => {
+      expect(formatStatusBarText(issue)).toBe('$(issues) #42 Fix login $(milestone) 60%');
+    });
+
+    it('should shorten long titles', () => {
+      const text = formatStatusBarText(
+        { ...issue, milestone: undefined, title: 'A very long title that goes on' },
+        10
+      );
+      expect(text).toBe('$(issues) #42 A very lo…');
+    });
+
+    it('should list checklist progress in the tooltip', () => {
+      const tooltip = buildStatusBarTooltip(issue);
+
+      expect(tooltip.value).toContain('v1.2: 60% complete (3/5 closed)');
+      expect(tooltip.value).toContain('1/2 tasks done');
+      expect(tooltip.value).toContain('$(pass-filled) Reproduce');
+      expect(tooltip.value).toContain('$(circle-large-outline) Fix');
+    });
+
+    it('should include the remaining API quota', () => {
+      const tooltip = buildStatusBarTooltip(issue, {
+        host: 'api.github.com',
+        resource: 'core',
+        limit: 5000,
+        remaining: 4321,
+        used: 679,
+        resetAt: Date.now(),
+      });
+
+      expect(tooltip.value).toContain('GitHub API core: 4321/5000 requests left');
+    });
+  });
+
+  describe('behavior', () => {
+    let statusBar: IssueStatusBar;
+    let item: any;
+    let mockAuth: any;
+    let mockClient: any;
+    let mockCache: any;
+    let mockMapper: any;
+    let mockTrust: any;
+    let issueListener: () => void;
+    let sessionListener: () => void;
+    let trustListener: () => void;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+
+      mockAuth = {
+        isAuthenticated: jest.fn().mockResolvedValue(true),
+        onDidChangeSession: jest.fn(listener => {
+          sessionListener = listener;
+          return { dispose: jest.fn() };
+        }),
+      };
+      mockClient = {
+        createComment: jest.fn().mockResolvedValue({}),
+      };
+      mockCache = {
+        getIssue: jest.fn().mockResolvedValue(issue),
+      };
+      mockMapper = {
+        getCurrentLink: jest.fn(() => link(42)),
+        onDidChangeCurrentIssue: jest.fn(listener => {
+          issueListener = listener;
+          return { dispose: jest.fn() };
+        }),
+      };
+      mockTrust = {
+        isAllowed: jest.fn(() => true),
+        ensureCapability: jest.fn(async () => true),
+        onDidGrantWorkspaceTrust: jest.fn(listener => {
+          trustListener = listener;
+          return { dispose: jest.fn() };
+        }),
+      };
+
+      (getGitHubAuthManager as jest.Mock).mockReturnValue(mockAuth);
+      (getGitHubIssuesClient as jest.Mock).mockReturnValue(mockClient);
+      (getIssueCache as jest.Mock).mockReturnValue(mockCache);
+      (getBranchIssueMapper as jest.Mock).mockReturnValue(mockMapper);
+      (getWorkspaceTrustManager as jest.Mock).mockReturnValue(mockTrust);
+
+      statusBar = new IssueStatusBar();
+      item = (vscode.window.createStatusBarItem as jest.Mock).mock.results[0].value;
+    });
+
+    afterEach(() => {
+      statusBar.dispose();
+    });
+
+    it('should show the issue of the current branch', async () => {
+      await statusBar.update();
+
+      expect(mockCache.getIssue).toHaveBeenCalledWith(repository, 42);
+      expect(item.text).toBe('$(issues) #42 Fix login $(milestone) 60%');
+      expect(item.command).toBe('gitissue-bridge.showIssueActions');
+      expect(item.show).toHaveBeenCalled();
+    });
+
+    it('should hide when the branch does not reference an issue', async () => {
+      mockMapper.getCurrentLink.mockReturnValue(undefined);
+
+      await statusBar.update();
+
+      expect(item.hide).toHaveBeenCalled();
+      expect(statusBar.getActiveIssue()).toBeUndefined();
+    });
+
+    it('should stay hidden until reading issues is allowed', async () => {
+      mockTrust.isAllowed.mockReturnValue(false);
+      await statusBar.update();
+      expect(mockTrust.isAllowed).toHaveBeenCalledWith('readApi');
+      expect(item.hide).toHaveBeenCalled();
+
+      mockTrust.isAllowed.mockReturnValue(true);
+      mockCache.getIssue.mockClear();
+      trustListener();
+      await statusBar.update();
+
+      expect(mockCache.getIssue).toHaveBeenCalled();
+    });
+
+    it('should offer sign in when not authenticated', async () => {
+      mockAuth.isAuthenticated.mockResolvedValue(false);
+
+      await statusBar.update();
+
+      expect(item.text).toBe('$(issues) #42');
+      expect(item.command).toBe('gitissue-bridge.authenticate');
+    });
+
+    it('should update when the branch issue or session changes', async () => {
+      await statusBar.update();
+      mockCache.getIssue.mockClear();
+
+      mockMapper.getCurrentLink.mockReturnValue(link(43));
+      issueListener();
+      sessionListener();
+      await statusBar.update();
+
+      expect(mockMapper.getCurrentLink).toHaveBeenCalledTimes(5);
+      expect(mockCache.getIssue).toHaveBeenLastCalledWith(repository, 43);
+    });
+
+    it('should ignore results of superseded updates', async () => {
+      await statusBar.update();
+      let resolveFirst: (value: GitHubIssue) => void = () => undefined;
+      mockCache.getIssue.mockImplementation((_repository: unknown, number: number) =>
+        number === 42
+          ? new Promise(resolve => (resolveFirst = resolve))
+          : Promise.resolve({ ...issue, number: 43, title: 'Other' })
+      );
+
+      const first = statusBar.update();
+      await new Promise(resolve => setImmediate(resolve));
+      mockMapper.getCurrentLink.mockReturnValue(link(43));
+      await statusBar.update();
+      resolveFirst(issue);
+      await first;
+
+      expect(item.text).toContain('#43 Other');
+    });
+
+    it('should only show the quota of the API host of the issue', async () => {
+      const quota = (remaining: number) => ({
+        status: 200,
+        headers: {
+          'x-ratelimit-limit': 5000,
+          'x-ratelimit-remaining': remaining,
+          'x-ratelimit-used': 5000 - remaining,
+          'x-ratelimit-reset': 1_900_000_000,
+          'x-ratelimit-resource': 'core',
+        },
+      });
+      const scheduler = getRequestScheduler();
+      await scheduler.schedule(async () => quota(4321), 'GET', {
+        host: 'api.github.com',
+        resource: 'core',
+      });
+      await statusBar.update();
+      expect(item.tooltip.value).toContain('core: 4321/5000 requests left');
+
+      await scheduler.schedule(async () => quota(12), 'GET', {
+        host: 'ghe.example.com',
+        resource: 'core',
+      });
+
+      expect(item.tooltip.value).toContain('core: 4321/5000 requests left');
+      expect(item.tooltip.value).not.toContain('12/5000');
+    });
+
+    it('should post a comment from the actions menu', async () => {
+      await statusBar.update();
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(async items =>
+        items.find((entry: any) => entry.action === 'comment')
+      );
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValue('On it');
+
+      await statusBar.showActions();
+
+      expect(mockTrust.ensureCapability).toHaveBeenCalledWith('remoteWrites');
+      expect(mockClient.createComment).toHaveBeenCalledWith(repository, 42, 'On it');
+    });
+
+    it('should not post comments when the workspace is not trusted', async () => {
+      await statusBar.update();
+      mockTrust.ensureCapability.mockResolvedValue(false);
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(async items =>
+        items.find((entry: any) => entry.action === 'comment')
+      );
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValue('On it');
+
+      await statusBar.showActions();
+
+      expect(vscode.window.showInputBox).not.toHaveBeenCalled();
+      expect(mockClient.createComment).not.toHaveBeenCalled();
+    });
+
+    it('should run the finish command from the actions menu', async () => {
+      await statusBar.update();
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(async items =>
+        items.find((entry: any) => entry.action === 'finish')
+      );
+
+      await statusBar.showActions();
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'gitissue-bridge.finishIssue',
+        issue.htmlUrl
+      );
+    });
+  });
+});
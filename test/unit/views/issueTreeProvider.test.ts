@@ -0,0 +1,256 @@
+import {
+  IssueTreeProvider,
+  IssueTreeNode,
+  buildRootNodes,
+  formatDueDate,
+  formatSyncTime,
+  getNodeUrl,
+} from '../../../src/views/issueTreeProvider';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { getIssueCache } from '../../../src/cache/issueCache';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { GitHubIssue, GitHubMilestone } from '../../../src/api/types';
+import * as vscode from 'vscode';
+
+// Mock vscode
+jest.mock('vscode');
+
+jest.mock('../../../src/auth/githubAuthManager', () => ({
+  getGitHubAuthManager: jest.fn(),
+}));
+
+jest.mock('../../../src/cache/issueCache', () => ({
+  getIssueCache: jest.fn(),
+}));
+
+jest.mock('../../../src/git/repositoryService', () => ({
+  getRepositoryService: jest.fn(),
+}));
+
+describe('IssueTreeProvider', () => {
+  const repository = {
+    host: 'github.com',
+    owner: 'octo',
+    repo: 'bridge',
+    remoteName: 'origin',
+    remoteUrl: 'https://github.com/octo/bridge.git',
+    rootUri: { fsPath: '/work/bridge' },
+    workspaceFolder: { uri: { fsPath: '/work/bridge' }, name: 'bridge', index: 0 },
+  };
+
+  const milestone = (number: number, title: string, dueOn?: string): GitHubMilestone => ({
+    number,
+    title,
+    state: 'open',
+    openIssues: 1,
+    closedIssues: 3,
+    htmlUrl: `https://github.com/octo/bridge/milestone/${number}`,
+    dueOn,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  });
+
+  const issue = (number: number, milestoneRef?: GitHubMilestone): GitHubIssue => ({
+    number,
+    title: `Issue ${number}`,
+    body: '',
+    state: 'open',
+    labels: [{ name: 'bug', color: 'd73a4a' }],
+    assignees: [{ login: 'octocat', avatarUrl: 'https://avatars/octocat', htmlUrl: '' }],
+    milestone: milestoneRef,
+    comments: 0,
+    htmlUrl: `https://github.com/octo/bridge/issues/${number}`,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  });
+
+  let provider: IssueTreeProvider;
+  let mockAuth: any;
+  let mockCache: any;
+  let mockRepositories: any;
+  let syncListener: () => void;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAuth = {
+      isAuthenticated: jest.fn().mockResolvedValue(true),
+      onDidChangeSession: jest.fn(() => ({ dispose: jest.fn() })),
+    };
+    mockCache = {
+      getMilestones: jest.fn().mockResolvedValue([milestone(1, 'v1')]),
+      getIssues: jest.fn().mockResolvedValue([issue(10, milestone(1, 'v1')), issue(11)]),
+      sync: jest.fn().mockResolvedValue(undefined),
+      hasData: jest.fn().mockResolvedValue(true),
+      getLastSyncedAt: jest.fn(() => new Date().toISOString()),
+      isOffline: jest.fn(() => false),
+      onDidSync: jest.fn(listener => {
+        syncListener = listener;
+        return { dispose: jest.fn() };
+      }),
+    };
+    mockRepositories = {
+      getCurrentRepository: jest.fn(() => repository),
+      onDidChangeCurrentRepository: jest.fn(() => ({ dispose: jest.fn() })),
+    };
+    (getGitHubAuthManager as jest.Mock).mockReturnValue(mockAuth);
+    (getIssueCache as jest.Mock).mockReturnValue(mockCache);
+    (getRepositoryService as jest.Mock).mockReturnValue(mockRepositories);
+
+    provider = new IssueTreeProvider();
+  });
+
+  describe('getChildren', () => {
+    it('should return milestones and the no-milestone bucket at root', async () => {
+      const roots = await provider.getChildren();
+
+      expect(roots.map(node => node.kind)).toEqual(['milestone', 'noMilestone']);
+      expect(mockCache.getIssues).toHaveBeenCalledWith(repository, { state: 'open' });
+      const children = await provider.getChildren(roots[0]);
+      expect(children).toEqual([expect.objectContaining({ kind: 'issue' })]);
+      expect((children[0] as any).issue.number).toBe(10);
+    });
+
+    it('should return nothing and set context when not authenticated', async () => {
+      mockAuth.isAuthenticated.mockResolvedValue(false);
+
+      const roots = await provider.getChildren();
+
+      expect(roots).toEqual([]);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'setContext',
+        'gitissueBridge.authenticated',
+        false
+      );
+      expect(mockCache.getIssues).not.toHaveBeenCalled();
+    });
+
+    it('should return nothing when no repository is detected', async () => {
+      mockRepositories.getCurrentRepository.mockReturnValue(undefined);
+
+      expect(await provider.getChildren()).toEqual([]);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'setContext',
+        'gitissueBridge.hasRepository',
+        false
+      );
+    });
+
+    it('should sync only when refreshed', async () => {
+      await provider.getChildren();
+      expect(mockCache.sync).not.toHaveBeenCalled();
+
+      provider.refresh();
+      await provider.getChildren();
+      await provider.getChildren();
+      expect(mockCache.sync).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-render after a sync', () => {
+      const listener = jest.fn();
+      provider.onDidChangeTreeData(listener);
+
+      syncListener();
+
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('should show the last sync time and the offline state', async () => {
+      const treeView = { message: undefined, description: undefined } as any;
+      provider.setTreeView(treeView);
+      mockCache.isOffline.mockReturnValue(true);
+
+      const roots = await provider.getChildren();
+
+      expect(roots).toHaveLength(2);
+      expect(treeView.description).toBe('Synced just now');
+      expect(treeView.message).toContain('Offline');
+    });
+
+    it('should keep cached data without a popup when a sync cannot reach GitHub', async () => {
+      mockCache.sync.mockRejectedValue(
+        Object.assign(new Error('getaddrinfo ENOTFOUND api.github.com'), { code: 'ENOTFOUND' })
+      );
+
+      provider.refresh();
+      const roots = await provider.getChildren();
+
+      expect(roots).toHaveLength(2);
+      expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+      expect(vscode.window.setStatusBarMessage).toHaveBeenCalled();
+    });
+
+    it('should report errors when nothing is cached', async () => {
+      mockCache.getIssues.mockRejectedValue(new Error('Boom'));
+
+      const roots = await provider.getChildren();
+
+      expect(roots).toEqual([]);
+      expect(vscode.window.showErrorMessage).toHaveBeenCalled();
+    });
+  });
+
+  describe('getTreeItem', () => {
+    it('should describe milestone progress and due date', () => {
+      const node: IssueTreeNode = {
+        kind: 'milestone',
+        repository,
+        milestone: milestone(1, 'v1', '2999-01-01T00:00:00Z'),
+        issues: [],
+      };
+
+      const item = provider.getTreeItem(node);
+
+      expect(item.label).toBe('v1');
+      expect(item.contextValue).toBe('milestone');
+      expect(item.description).toMatch(/^3\/4 \(75%\) · due in \d+ days$/);
+    });
+
+    it('should show labels and assignees for issues', () => {
+      const item = provider.getTreeItem({ kind: 'issue', repository, issue: issue(7) });
+
+      expect(item.label).toBe('#7 Issue 7');
+      expect(item.description).toBe('bug · @octocat');
+      expect((item.tooltip as any).value).toContain('https://avatars/octocat');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should sort milestones by due date', () => {
+      const nodes = buildRootNodes(
+        repository,
+        [
+          milestone(1, 'later', '2026-12-01'),
+          milestone(2, 'none'),
+          milestone(3, 'soon', '2026-02-01'),
+        ],
+        []
+      );
+
+      expect(nodes.map(node => (node as any).milestone.title)).toEqual(['soon', 'later', 'none']);
+    });
+
+    it('should format due dates', () => {
+      const now = new Date('2026-01-10T00:00:00Z');
+
+      expect(formatDueDate('2026-01-10T00:00:00Z', now)).toBe('due today');
+      expect(formatDueDate('2026-01-11T00:00:00Z', now)).toBe('due in 1 day');
+      expect(formatDueDate('2026-01-07T00:00:00Z', now)).toBe('overdue by 3 days');
+    });
+
+    it('should format sync times', () => {
+      const now = new Date('2026-01-10T12:00:00Z');
+
+      expect(formatSyncTime('2026-01-10T11:59:30Z', now)).toBe('just now');
+      expect(formatSyncTime('2026-01-10T11:45:00Z', now)).toBe('15 min ago');
+      expect(formatSyncTime('2026-01-10T09:00:00Z', now)).toMatch(/^at /);
+    });
+
+    it('should resolve URLs for nodes', () => {
+      expect(getNodeUrl({ kind: 'issue', repository, issue: issue(5) })).toBe(
+        'https://github.com/octo/bridge/issues/5'
+      );
+      expect(getNodeUrl({ kind: 'noMilestone', repository, issues: [] })).toBeUndefined();
+    });
+  });
+});
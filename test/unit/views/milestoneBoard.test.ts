@@ -0,0 +1,143 @@
+import {
+  BoardSettings,
+  computeBurndown,
+  describeIssueChanges,
+  getBoardColumns,
+  getIssueColumn,
+  getMoveUpdate,
+} from '../../../src/views/milestoneBoard';
+import { GitHubMilestone } from '../../../src/api/types';
+import { makeIssue } from '../../fixtures/issues';
+
+const label = (name: string) => ({ name, color: 'ededed' });
+
+const settings: BoardSettings = {
+  mode: 'labels',
+  labels: ['in progress', 'review', 'Review'],
+  inProgressLabel: 'in progress',
+  wipLimits: { Review: 2 },
+};
+
+describe('milestoneBoard', () => {
+  describe('getBoardColumns', () => {
+    it('should put label columns between Open and Closed, with their WIP limits', () => {
+      expect(getBoardColumns(settings)).toEqual([
+        { id: 'open', title: 'Open' },
+        { id: 'label:in progress', title: 'in progress', label: 'in progress' },
+        { id: 'label:review', title: 'review', label: 'review', wipLimit: 2 },
+        { id: 'closed', title: 'Closed', closed: true },
+      ]);
+    });
+
+    it('should use the in-progress label in state mode', () => {
+      const columns = getBoardColumns({ ...settings, mode: 'state', inProgressLabel: 'doing' });
+
+      expect(columns.map(column => column.title)).toEqual(['Open', 'In progress', 'Closed']);
+      expect(columns[1].label).toBe('doing');
+    });
+  });
+
+  describe('getIssueColumn', () => {
+    const columns = getBoardColumns(settings);
+
+    it('should place issues by state first, then by label', () => {
+      expect(getIssueColumn(makeIssue(1), columns).id).toBe('open');
+      expect(
+        getIssueColumn(makeIssue(2, { labels: [label('bug'), label('Review')] }), columns).id
+      ).toBe('label:review');
+      expect(
+        getIssueColumn(makeIssue(3, { state: 'closed', labels: [label('review')] }), columns).id
+      ).toBe('closed');
+    });
+  });
+
+  describe('getMoveUpdate', () => {
+    const columns = getBoardColumns(settings);
+    const [open, inProgress, review, closed] = columns;
+
+    it('should swap the column labels and keep the others', () => {
+      const issue = makeIssue(1, { labels: [label('bug'), label('in progress')] });
+
+      expect(getMoveUpdate(issue, review, columns)).toEqual({ labels: ['bug', 'review'] });
+      expect(getMoveUpdate(issue, open, columns)).toEqual({ labels: ['bug'] });
+      expect(getMoveUpdate(issue, inProgress, columns)).toBeUndefined();
+    });
+
+    it('should close and reopen issues', () => {
+      expect(getMoveUpdate(makeIssue(1), closed, columns)).toEqual({
+        state: 'closed',
+        stateReason: 'completed',
+      });
+      expect(getMoveUpdate(makeIssue(2, { state: 'closed' }), inProgress, columns)).toEqual({
+        labels: ['in progress'],
+        state: 'open',
+        stateReason: 'reopened',
+      });
+    });
+  });
+
+  describe('describeIssueChanges', () => {
+    it('should list what changed between two versions of an issue', () => {
+      const before = makeIssue(1, { labels: [label('bug')] });
+      const after = makeIssue(1, {
+        state: 'closed',
+        labels: [label('review'), label('ui')],
+        assignees: [{ login: 'octocat', avatarUrl: '', htmlUrl: '' }],
+        body: 'Edited',
+        updatedAt: '2026-03-02T00:00:00Z',
+      });
+
+      expect(describeIssueChanges(before, after)).toEqual([
+        'Closed',
+        'Added labels review, ui',
+        'Removed label bug',
+        'Added assignee @octocat',
+        'Description edited',
+      ]);
+    });
+
+    it('should still report updates it cannot describe', () => {
+      expect(
+        describeIssueChanges(makeIssue(1), makeIssue(1, { updatedAt: '2026-03-02T00:00:00Z' }))
+      ).toEqual(['Updated (new comments or other details)']);
+    });
+  });
+
+  describe('computeBurndown', () => {
+    const milestone = {
+      number: 1,
+      title: 'Sprint 1',
+      createdAt: '2026-03-01T09:00:00Z',
+      dueOn: '2026-03-05T07:00:00Z',
+    } as GitHubMilestone;
+
+    it('should count open issues per day until today and draw the ideal line to the due date', () => {
+      const issues = [
+        makeIssue(1, { state: 'closed', closedAt: '2026-03-02T15:00:00Z' }),
+        makeIssue(2, { state: 'closed', closedAt: '2026-03-03T08:00:00Z' }),
+        makeIssue(3),
+        makeIssue(4),
+      ];
+
+      const points = computeBurndown(milestone, issues, new Date('2026-03-03T12:00:00Z'));
+
+      expect(points).toEqual([
+        { date: '2026-03-01', remaining: 4, ideal: 4 },
+        { date: '2026-03-02', remaining: 3, ideal: 3 },
+        { date: '2026-03-03', remaining: 2, ideal: 2 },
+        { date: '2026-03-04', remaining: undefined, ideal: 1 },
+        { date: '2026-03-05', remaining: undefined, ideal: 0 },
+      ]);
+    });
+
+    it('should end today for milestones without a due date', () => {
+      const points = computeBurndown(
+        { ...milestone, dueOn: undefined },
+        [makeIssue(1)],
+        new Date('2026-03-02T12:00:00Z')
+      );
+
+      expect(points.map(point => point.date)).toEqual(['2026-03-01', '2026-03-02']);
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import {
+  MilestoneBoardPanels,
+  MILESTONE_BOARD_VIEW_TYPE,
+} from '../../../src/views/milestoneBoardPanel';
+import { getGitHubIssuesClient } from '../../../src/api/githubIssuesClient';
+import { NetworkError } from '../../../src/api/githubErrors';
+import { getIssueCache } from '../../../src/cache/issueCache';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { getWorkspaceTrustManager } from '../../../src/utils/workspaceTrustManager';
+import { GitHubIssue } from '../../../src/api/types';
+import * as vscode from 'vscode';
+import { makeIssue, makeMilestone } from '../../fixtures/issues';
+
+jest.mock('vscode');
+jest.mock('../../../src/api/githubIssuesClient', () => ({ getGitHubIssuesClient: jest.fn() }));
+jest.mock('../../../src/cache/issueCache', () => ({ getIssueCache: jest.fn() }));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+jest.mock('../../../src/utils/workspaceTrustManager', () => ({
+  getWorkspaceTrustManager: jest.fn(),
+}));
+
+const milestone = makeMilestone(3, {
+  title: 'Sprint 3',
+  openIssues: 3,
+  closedIssues: 1,
+  createdAt: '2026-03-01T00:00:00Z',
+  dueOn: '2026-03-10T00:00:00Z',
+});
+
+function makeBoardIssue(number: number, overrides: Partial<GitHubIssue> = {}): GitHubIssue {
+  return makeIssue(number, { milestone, updatedAt: '2026-03-02T00:00:00Z', ...overrides });
+}
+
+describe('MilestoneBoardPanels', () => {
+  const repository = { host: 'github.com', owner: 'octo', repo: 'bridge' };
+  let panels: MilestoneBoardPanels;
+  let panel: any;
+  let postMessage: (message: unknown) => Promise<void>;
+  let mockClient: any;
+  let mockTrust: any;
+  let issues: GitHubIssue[];
+  let settings: Record<string, unknown>;
+
+  function createPanel() {
+    return {
+      title: '',
+      webview: {
+        html: '',
+        options: {},
+        cspSource: 'vscode-webview:',
+        asWebviewUri: jest.fn(uri => ({ toString: () => `webview:${uri.fsPath}` })),
+        onDidReceiveMessage: jest.fn(listener => {
+          postMessage = listener;
+          return { dispose: jest.fn() };
+        }),
+      },
+      onDidDispose: jest.fn(() => ({ dispose: jest.fn() })),
+      reveal: jest.fn(),
+      dispose: jest.fn(),
+    };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    issues = [
+      makeBoardIssue(1, { labels: [{ name: 'bug', color: 'd73a4a' }] }),
+      makeBoardIssue(2, { labels: [{ name: 'in progress', color: 'fbca04' }] }),
+      makeBoardIssue(3, { labels: [{ name: 'in progress', color: 'fbca04' }] }),
+      makeBoardIssue(4, { state: 'closed', closedAt: '2026-03-03T00:00:00Z' }),
+    ];
+    settings = {};
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) => settings[key] ?? defaultValue),
+    });
+
+    panel = createPanel();
+    (vscode.window.createWebviewPanel as jest.Mock).mockReturnValue(panel);
+
+    mockClient = {
+      getMilestone: jest.fn(async () => milestone),
+      listIssues: jest.fn(async () => issues),
+      getIssue: jest.fn(async (_repository, number: number) =>
+        issues.find(issue => issue.number === number)
+      ),
+      updateIssue: jest.fn(async (_repository, number: number) => makeBoardIssue(number)),
+    };
+    mockTrust = { ensureCapability: jest.fn(async () => true) };
+    (getGitHubIssuesClient as jest.Mock).mockReturnValue(mockClient);
+    (getWorkspaceTrustManager as jest.Mock).mockReturnValue(mockTrust);
+    (getRepositoryService as jest.Mock).mockReturnValue({
+      getRepositories: () => [{ ...repository, remoteName: 'origin' }],
+      getCurrentRepository: () => ({ ...repository, remoteName: 'origin' }),
+    });
+
+    panels = new MilestoneBoardPanels({ fsPath: '/extension' } as vscode.Uri);
+  });
+
+  describe('rendering', () => {
+    it('should render the issues in columns with a burndown under a strict CSP', async () => {
+      await panels.show(repository, 3);
+
+      expect(vscode.window.createWebviewPanel).toHaveBeenCalledWith(
+        MILESTONE_BOARD_VIEW_TYPE,
+        'Milestone Board',
+        expect.anything(),
+        expect.objectContaining({ enableScripts: true })
+      );
+      expect(mockClient.listIssues).toHaveBeenCalledWith(repository, {
+        milestone: 3,
+        state: 'all',
+      });
+      expect(panel.title).toBe('Board: Sprint 3');
+
+      const html: string = panel.webview.html;
+      expect(html).toContain("default-src 'none'");
+      expect(html).toContain('webview:/extension/assets/media/milestoneBoard.js');
+      expect(html).toContain('1/4 closed');
+      expect(html).toMatch(/data-column="open">\s*<h2>Open <span[^>]*>1</);
+      expect(html).toMatch(/data-column="label:in progress">\s*<h2>In progress <span[^>]*>2</);
+      expect(html).toContain('<polyline class="remaining"');
+    });
+
+    it('should flag columns over their WIP limit', async () => {
+      settings['board.wipLimits'] = { 'In progress': 1 };
+
+      await panels.show(repository, 3);
+
+      expect(panel.webview.html).toContain(
+        'class="column over-limit" data-column="label:in progress"'
+      );
+      expect(panel.webview.html).toContain('2/1');
+    });
+
+    it('should use one column per label in labels mode', async () => {
+      settings['board.columns'] = 'labels';
+      settings['board.labels'] = ['in progress', 'review'];
+
+      await panels.show(repository, 3);
+
+      expect(panel.webview.html).toContain('data-column="label:review"');
+    });
+
+    it('should show the cached issues of the milestone when GitHub cannot be reached', async () => {
+      mockClient.getMilestone.mockRejectedValue(new NetworkError('ETIMEDOUT'));
+      (getIssueCache as jest.Mock).mockReturnValue({
+        getMilestones: jest.fn(async () => [milestone]),
+        getIssues: jest.fn(async () => [
+          makeBoardIssue(1),
+          makeBoardIssue(9, { milestone: undefined }),
+        ]),
+      });
+
+      await panels.show(repository, 3);
+
+      expect(panel.webview.html).toContain('Showing cached issues');
+      expect(panel.webview.html).toContain('data-issue="1"');
+      expect(panel.webview.html).not.toContain('data-issue="9"');
+    });
+
+    it('should pick the milestone when none is given', async () => {
+      (getIssueCache as jest.Mock).mockReturnValue({
+        getMilestones: jest.fn(async () => [milestone]),
+      });
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(
+        async items => (await items)[0]
+      );
+
+      await panels.open();
+
+      expect(mockClient.getMilestone).toHaveBeenCalledWith(expect.objectContaining(repository), 3);
+    });
+  });
+
+  describe('serializer', () => {
+    it('should restore a board from its saved state', async () => {
+      const restored = createPanel();
+
+      await panels.deserializeWebviewPanel(restored as any, { repository, milestone: 3 });
+
+      expect(restored.title).toBe('Board: Sprint 3');
+    });
+
+    it('should close boards without a saved state', async () => {
+      const restored = createPanel();
+
+      await panels.deserializeWebviewPanel(restored as any, undefined);
+
+      expect(restored.dispose).toHaveBeenCalled();
+    });
+  });
+
+  describe('moving issues', () => {
+    beforeEach(async () => {
+      await panels.show(repository, 3);
+    });
+
+    it('should swap the column labels and report the change', async () => {
+      const changed = jest.fn();
+      panels.onDidChangeIssue(changed);
+
+      await postMessage({ type: 'move', issue: 1, column: 'label:in progress' });
+
+      expect(mockTrust.ensureCapability).toHaveBeenCalledWith('remoteWrites');
+      expect(mockClient.updateIssue).toHaveBeenCalledWith(repository, 1, {
+        labels: ['bug', 'in progress'],
+      });
+      expect(changed).toHaveBeenCalled();
+      expect(mockClient.listIssues).toHaveBeenCalledTimes(2);
+    });
+
+    it('should close issues dropped on Closed', async () => {
+      await postMessage({ type: 'move', issue: 2, column: 'closed' });
+
+      expect(mockClient.updateIssue).toHaveBeenCalledWith(repository, 2, {
+        labels: [],
+        state: 'closed',
+        stateReason: 'completed',
+      });
+    });
+
+    it('should not write when the workspace is not trusted', async () => {
+      mockTrust.ensureCapability.mockResolvedValue(false);
+
+      await postMessage({ type: 'move', issue: 1, column: 'closed' });
+
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should ask before going over a WIP limit', async () => {
+      settings['board.wipLimits'] = { 'in progress': 2 };
+      await postMessage({ type: 'refresh' });
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce(undefined);
+
+      await postMessage({ type: 'move', issue: 1, column: 'label:in progress' });
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        '"In progress" has reached its WIP limit of 2.',
+        expect.objectContaining({ modal: true }),
+        'Move Anyway'
+      );
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should show what changed on GitHub before moving an issue', async () => {
+      mockClient.getIssue.mockResolvedValue(
+        makeBoardIssue(1, {
+          labels: [
+            { name: 'bug', color: 'd73a4a' },
+            { name: 'wontfix', color: 'ffffff' },
+          ],
+          updatedAt: '2026-03-05T00:00:00Z',
+        })
+      );
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Move Anyway');
+
+      await postMessage({ type: 'move', issue: 1, column: 'closed' });
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        '#1 Issue 1 changed on GitHub since the board was loaded.',
+        expect.objectContaining({ detail: expect.stringContaining('• Added label wontfix') }),
+        'Move Anyway'
+      );
+      expect(mockClient.updateIssue).toHaveBeenCalledWith(repository, 1, {
+        state: 'closed',
+        stateReason: 'completed',
+      });
+    });
+
+    it('should not move a changed issue when the user cancels', async () => {
+      mockClient.getIssue.mockResolvedValue(
+        makeBoardIssue(1, { updatedAt: '2026-03-05T00:00:00Z' })
+      );
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce(undefined);
+
+      await postMessage({ type: 'move', issue: 1, column: 'closed' });
+
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should report failed moves and render the board again', async () => {
+      mockClient.updateIssue.mockRejectedValue(new Error('Validation Failed'));
+
+      await postMessage({ type: 'move', issue: 1, column: 'closed' });
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalled();
+      expect(mockClient.listIssues).toHaveBeenCalledTimes(2);
+    });
+
+    it('should open issues in the detail view', async () => {
+      await postMessage({ type: 'open', issue: 2 });
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'gitissue-bridge.openIssue',
+        'https://github.com/octo/bridge/issues/2'
+      );
+    });
+  });
+});
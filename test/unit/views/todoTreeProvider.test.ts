@@ -0,0 +1,116 @@
+import { TodoTreeProvider } from '../../../src/views/todoTreeProvider';
+import { getTodoScanner } from '../../../src/todos/todoScanner';
+import { createIssuesFromTodos } from '../../../src/todos/todoIssues';
+import { getRepositoryService } from '../../../src/git/repositoryService';
+import { getGitHubAuthManager } from '../../../src/auth/githubAuthManager';
+import { TodoItem } from '../../../src/todos/types';
+import * as vscode from 'vscode';
+
+jest.mock('vscode');
+jest.mock('../../../src/todos/todoScanner', () => ({ getTodoScanner: jest.fn() }));
+jest.mock('../../../src/todos/todoIssues', () => ({ createIssuesFromTodos: jest.fn() }));
+jest.mock('../../../src/git/repositoryService', () => ({ getRepositoryService: jest.fn() }));
+jest.mock('../../../src/auth/githubAuthManager', () => ({ getGitHubAuthManager: jest.fn() }));
+
+describe('TodoTreeProvider', () => {
+  const repository = { owner: 'octo', repo: 'bridge', rootUri: { fsPath: '/work/bridge' } };
+  const todo = (relativePath: string, line: number, linkedIssue?: number): TodoItem => ({
+    relativePath,
+    line,
+    keyword: 'TODO',
+    text: `todo ${line}`,
+    linkedIssue,
+    keywordStart: 3,
+    keywordEnd: 7,
+  });
+  const todos = [todo('src/a.ts', 1), todo('src/a.ts', 5, 12), todo('src/b.ts', 2)];
+
+  let provider: TodoTreeProvider;
+  let treeView: any;
+  let checkboxListener: (event: any) => void;
+  let mockScanner: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockScanner = { scan: jest.fn().mockResolvedValue(todos) };
+    (getTodoScanner as jest.Mock).mockReturnValue(mockScanner);
+    (getRepositoryService as jest.Mock).mockReturnValue({
+      getCurrentRepository: () => repository,
+      onDidChangeCurrentRepository: jest.fn(() => ({ dispose: jest.fn() })),
+    });
+    (getGitHubAuthManager as jest.Mock).mockReturnValue({
+      ensureAuthenticated: jest.fn().mockResolvedValue(true),
+    });
+
+    treeView = {
+      message: undefined,
+      onDidChangeCheckboxState: jest.fn(listener => {
+        checkboxListener = listener;
+        return { dispose: jest.fn() };
+      }),
+    };
+    provider = new TodoTreeProvider();
+    provider.setTreeView(treeView);
+  });
+
+  afterEach(() => {
+    provider.dispose();
+  });
+
+  it('should group scan results by file', async () => {
+    await provider.scan();
+
+    const files = provider.getChildren();
+    expect(files.map(node => node.kind === 'file' && node.relativePath)).toEqual([
+      'src/a.ts',
+      'src/b.ts',
+    ]);
+    expect(provider.getChildren(files[0])).toHaveLength(2);
+    expect(treeView.message).toBe('3 comments, 1 already linked to issues');
+  });
+
+  it('should offer checkboxes only for comments without an issue', async () => {
+    await provider.scan();
+    const [first, linked] = provider.getChildren(provider.getChildren()[0]);
+
+    expect(provider.getTreeItem(first).checkboxState).toBe(vscode.TreeItemCheckboxState.Unchecked);
+    expect(provider.getTreeItem(linked).checkboxState).toBeUndefined();
+    expect(provider.getTreeItem(linked).description).toContain('#12');
+  });
+
+  it('should track checked comments, including whole files', async () => {
+    await provider.scan();
+    const [fileA] = provider.getChildren();
+
+    checkboxListener({ items: [[fileA, vscode.TreeItemCheckboxState.Checked]] });
+
+    expect(provider.getCheckedTodos()).toEqual([todos[0]]);
+  });
+
+  it('should create issues for the checked comments after confirmation and rescan', async () => {
+    await provider.scan();
+    checkboxListener({
+      items: [[{ kind: 'todo', todo: todos[2] }, vscode.TreeItemCheckboxState.Checked]],
+    });
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Create Issues');
+    (createIssuesFromTodos as jest.Mock).mockResolvedValue([{ todo: todos[2], issue: {} }]);
+
+    const created = await provider.createIssues();
+
+    expect(created).toBe(1);
+    expect(createIssuesFromTodos).toHaveBeenCalledWith(repository, [todos[2]]);
+    expect(mockScanner.scan).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not create issues without confirmation', async () => {
+    await provider.scan();
+    checkboxListener({
+      items: [[{ kind: 'todo', todo: todos[0] }, vscode.TreeItemCheckboxState.Checked]],
+    });
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+
+    expect(await provider.createIssues()).toBe(0);
+    expect(createIssuesFromTodos).not.toHaveBeenCalled();
+  });
+});